@@ -1,19 +1,50 @@
+// ts-jest compiles to CommonJS, so the tsconfigs' bundler settings are
+// swapped for ones that work with it
+const tsJest = ['ts-jest', {
+  tsconfig: {
+    module: 'commonjs',
+    moduleResolution: 'node',
+    esModuleInterop: true,
+    isolatedModules: true,
+    jsx: 'react-jsx',
+  },
+}];
+
+const moduleNameMapper = {
+  '^@/(.*)$': '<rootDir>/src/$1',
+};
+
 /** @type {import('jest').Config} */
 export default {
-  preset: 'ts-jest',
-  testEnvironment: 'jsdom',
-  setupFilesAfterEnv: ['<rootDir>/src/setupTests.ts'],
-  moduleNameMapping: {
-    '^@/(.*)$': '<rootDir>/src/$1',
-  },
   collectCoverageFrom: [
+    'server/**/*.ts',
+    'shared/**/*.ts',
     'src/**/*.{ts,tsx}',
-    '!src/**/*.d.ts',
     '!src/main.tsx',
-    '!src/vite-env.d.ts'
+    '!**/*.d.ts',
+    '!**/__tests__/**'
   ],
-  testMatch: [
-    '<rootDir>/src/**/__tests__/**/*.{ts,tsx}',
-    '<rootDir>/src/**/*.{test,spec}.{ts,tsx}'
+  projects: [
+    {
+      // The API server and the code it shares with the browser
+      displayName: 'server',
+      testEnvironment: 'node',
+      transform: { '^.+\\.ts$': tsJest },
+      moduleNameMapper,
+      testMatch: [
+        '<rootDir>/server/**/__tests__/**/*.test.ts',
+        '<rootDir>/shared/**/__tests__/**/*.test.ts'
+      ]
+    },
+    {
+      // Components, rendered in a browser-like DOM. Services that read Vite's
+      // import.meta are mocked by the tests, as CommonJS can't provide it.
+      displayName: 'components',
+      testEnvironment: 'jsdom',
+      setupFilesAfterEnv: ['<rootDir>/src/setupTests.ts'],
+      transform: { '^.+\\.tsx?$': tsJest },
+      moduleNameMapper,
+      testMatch: ['<rootDir>/src/**/__tests__/**/*.test.{ts,tsx}']
+    }
   ]
 };
@@ -0,0 +1,35 @@
+// Stored applications and the users acting on them, for the tests
+import type { Actor } from '../authorization';
+import type { LoanApplication } from '../../shared/types';
+
+export const applicant: Actor = { userId: 'user_applicant', role: 'applicant' };
+export const officer: Actor = { userId: 'user_officer', role: 'officer' };
+export const admin: Actor = { userId: 'user_admin', role: 'admin' };
+export const auditor: Actor = { userId: 'user_auditor', role: 'auditor' };
+
+// The applicant's application, as the data layer returns it
+export const storedApplication = (overrides: Partial<LoanApplication> = {}): LoanApplication => ({
+  id: 'application-1',
+  applicant_name: 'Priya Sharma',
+  loan_amount: '500000',
+  loan_type: 'Personal Loan',
+  status: 'submitted',
+  application_date: new Date('2026-10-01'),
+  credit_score: 740,
+  monthly_income: '85000',
+  employment_status: 'Salaried',
+  loan_purpose: null,
+  interest_rate: '11.25',
+  loan_term: 5,
+  existing_emis: null,
+  credit_card_dues: null,
+  dependents: null,
+  user_id: applicant.userId,
+  policy_id: 'personal',
+  policy_version: '2026.1',
+  assigned_officer_id: null,
+  parties: [],
+  collateral: [],
+  product_details: null,
+  ...overrides,
+});
@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import {
+  AuthorizationError,
+  assertCanChangeStatus,
+  assertCanReview,
+  assertCanUploadDocuments,
+  assertPermission,
+  canReadApplication,
+  type Actor
+} from '../authorization';
+import type { LoanApplicationStatus } from '../../shared/types';
+import { admin, applicant, auditor, officer, storedApplication } from './applications';
+
+const application = storedApplication();
+// An officer's own application, which they may not decide
+const officersOwn = storedApplication({ user_id: officer.userId });
+const otherApplicant: Actor = { userId: 'user_other', role: 'applicant' };
+
+describe('assertPermission', () => {
+  it('allows what the role grants', () => {
+    expect(() => assertPermission(officer, 'applications:review')).not.toThrow();
+    expect(() => assertPermission(admin, 'products:manage')).not.toThrow();
+  });
+
+  it('refuses what it doesn\'t, with a 403', () => {
+    expect(() => assertPermission(applicant, 'applications:review'))
+      .toThrow(new AuthorizationError('The applicant role does not allow applications:review'));
+    expect(() => assertPermission(auditor, 'applications:create')).toThrow(AuthorizationError);
+    expect(new AuthorizationError('x').status).toBe(403);
+  });
+});
+
+describe('canReadApplication', () => {
+  it.each([
+    [applicant, true],
+    [otherApplicant, false],
+    [officer, true],
+    [admin, true],
+    [auditor, true],
+  ])('%j reading the applicant\'s application: %p', (actor, expected) => {
+    expect(canReadApplication(actor, application)).toBe(expected);
+  });
+});
+
+describe('assertCanReview', () => {
+  it('lets officers and admins review other people\'s applications', () => {
+    expect(() => assertCanReview(officer, application)).not.toThrow();
+    expect(() => assertCanReview(admin, application)).not.toThrow();
+  });
+
+  it('refuses applicants, auditors and officers reviewing their own', () => {
+    expect(() => assertCanReview(applicant, application)).toThrow(AuthorizationError);
+    expect(() => assertCanReview(auditor, application)).toThrow(AuthorizationError);
+    expect(() => assertCanReview(officer, officersOwn)).toThrow('Officers cannot review their own applications');
+  });
+});
+
+describe('assertCanChangeStatus', () => {
+  it.each([
+    [applicant, 'submitted'],
+    [applicant, 'withdrawn'],
+    [officer, 'under_review'],
+    [officer, 'approved'],
+    [admin, 'rejected'],
+  ] as [Actor, LoanApplicationStatus][])('lets %j move it to %s', (actor, to) => {
+    expect(() => assertCanChangeStatus(actor, application, to)).not.toThrow();
+  });
+
+  it.each([
+    [officer, 'withdrawn', 'Only the applicant can move an application to withdrawn'],
+    [otherApplicant, 'submitted', 'Only the applicant can move an application to submitted'],
+    [applicant, 'approved', 'The applicant role does not allow applications:review'],
+    [auditor, 'rejected', 'The auditor role does not allow applications:review'],
+  ] as [Actor, LoanApplicationStatus, string][])('refuses %j moving it to %s', (actor, to, error) => {
+    expect(() => assertCanChangeStatus(actor, application, to)).toThrow(error);
+  });
+
+  it('lets officers withdraw their own applications but not approve them', () => {
+    expect(() => assertCanChangeStatus(officer, officersOwn, 'withdrawn')).not.toThrow();
+    expect(() => assertCanChangeStatus(officer, officersOwn, 'approved')).toThrow('Officers cannot review their own applications');
+  });
+});
+
+describe('assertCanUploadDocuments', () => {
+  it('only lets the applicant upload', () => {
+    expect(() => assertCanUploadDocuments(applicant, application)).not.toThrow();
+    expect(() => assertCanUploadDocuments(officer, application)).toThrow('Only the applicant can upload documents');
+    expect(() => assertCanUploadDocuments(auditor, storedApplication({ user_id: auditor.userId })))
+      .toThrow('The auditor role does not allow applications:update:own');
+  });
+});
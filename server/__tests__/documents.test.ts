@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect, jest } from '@jest/globals';
+import { buildDocumentChecklist, matchesContentType, readFileName } from '../documents';
+import type { LoanApplicationDocument } from '../../shared/types';
+
+// The checklist helpers are pure; the data layer and policies need Postgres
+jest.mock('../dbOperations', () => ({ documentOperations: {} }));
+jest.mock('../underwriting', () => ({ evaluateApplication: jest.fn() }));
+
+const PDF = Buffer.from('%PDF-1.7\n');
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('matchesContentType', () => {
+  it.each([
+    [PDF, 'application/pdf', true],
+    [JPEG, 'image/jpeg', true],
+    [PNG, 'image/png', true],
+    [PNG, 'image/jpeg', false],
+    [PDF, 'image/png', false],
+    [Buffer.from('<html>'), 'application/pdf', false],
+    [Buffer.from('%P'), 'application/pdf', false],
+    [PDF, 'text/plain', false],
+  ])('%p sent as %s: %p', (body, contentType, expected) => {
+    expect(matchesContentType(body, contentType)).toBe(expected);
+  });
+});
+
+describe('readFileName', () => {
+  it.each([
+    ['payslip%20march.pdf', 'payslip march.pdf'],
+    ['..%2F..%2Fetc%2Fpasswd', 'passwd'],
+    ['C:\\Users\\priya\\pan.jpg', 'pan.jpg'],
+    ['100%.pdf', '100%.pdf'],
+    ['', 'upload'],
+    [undefined, 'upload'],
+    ['%20%20', 'upload'],
+  ])('reads %p as %p', (header, expected) => {
+    expect(readFileName(header, 'upload')).toBe(expected);
+  });
+
+  it('keeps names to 255 characters', () => {
+    expect(readFileName(`${'a'.repeat(300)}.pdf`, 'upload')).toHaveLength(255);
+  });
+});
+
+describe('buildDocumentChecklist', () => {
+  const upload = (id: string, overrides: Partial<LoanApplicationDocument>): LoanApplicationDocument => ({
+    id,
+    loan_application_id: 'application-1',
+    document_type: 'pan',
+    file_name: `${id}.pdf`,
+    content_type: 'application/pdf',
+    size_bytes: 1024,
+    status: 'uploaded',
+    uploaded_by: 'user_applicant',
+    review_note: null,
+    reviewed_by: null,
+    created_at: new Date('2026-10-01'),
+    reviewed_at: null,
+    ...overrides,
+  });
+
+  it('pairs each requirement with its latest upload', () => {
+    const latest = upload('pan-2', { status: 'verified' });
+    const checklist = buildDocumentChecklist(
+      [
+        { document_type: 'pan', reason: 'Required for this loan type' },
+        { document_type: 'bank_statement', reason: 'Required for this loan type' },
+      ],
+      [latest, upload('pan-1', { status: 'rejected' })]
+    );
+
+    expect(checklist).toEqual([
+      { document_type: 'pan', reason: 'Required for this loan type', status: 'verified', document: latest },
+      { document_type: 'bank_statement', reason: 'Required for this loan type', status: 'missing', document: null },
+    ]);
+  });
+});
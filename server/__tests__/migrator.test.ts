@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+import { afterEach, describe, it, expect, jest } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { compareMigrations, loadMigrations, type AppliedMigration, type Migration } from '../migrator';
+
+// Reading and comparing migrations needs neither the environment nor Postgres
+jest.mock('../config', () => ({ config: {} }));
+jest.mock('../db', () => ({ pool: {} }));
+
+const MIGRATIONS_DIR = join(__dirname, '../migrations');
+
+let dirs: string[] = [];
+
+// A migrations directory holding the given files
+const migrationsDir = (files: Record<string, string>): string => {
+  const dir = mkdtempSync(join(tmpdir(), 'loanwise-migrations-'));
+  dirs.push(dir);
+  for (const [name, sql] of Object.entries(files)) {
+    writeFileSync(join(dir, name), sql);
+  }
+  return dir;
+};
+
+afterEach(() => {
+  dirs.forEach(dir => rmSync(dir, { recursive: true, force: true }));
+  dirs = [];
+});
+
+describe('loadMigrations', () => {
+  it('reads the server\'s migrations in version order', () => {
+    const migrations = loadMigrations(MIGRATIONS_DIR);
+
+    expect(migrations.map(migration => migration.version)).toEqual(migrations.map((_, index) => index + 1));
+    expect(migrations[0].name).toBe('initial_schema');
+    migrations.forEach(migration => expect(migration.checksum).toMatch(/^[0-9a-f]{64}$/));
+  });
+
+  it('checksums the up script, whatever its line endings', () => {
+    const [unix] = loadMigrations(migrationsDir({ '0001_users.up.sql': 'CREATE TABLE users ();\nSELECT 1;\n', '0001_users.down.sql': '' }));
+    const [windows] = loadMigrations(migrationsDir({ '0001_users.up.sql': 'CREATE TABLE users ();\r\nSELECT 1;\r\n', '0001_users.down.sql': '' }));
+    const [edited] = loadMigrations(migrationsDir({ '0001_users.up.sql': 'CREATE TABLE users (id int);\nSELECT 1;\n', '0001_users.down.sql': '' }));
+    const [newDown] = loadMigrations(migrationsDir({ '0001_users.up.sql': 'CREATE TABLE users ();\nSELECT 1;\n', '0001_users.down.sql': 'DROP TABLE users;' }));
+
+    expect(windows.checksum).toBe(unix.checksum);
+    expect(edited.checksum).not.toBe(unix.checksum);
+    expect(newDown.checksum).toBe(unix.checksum);
+  });
+
+  it('ignores files that aren\'t migrations', () => {
+    const dir = migrationsDir({ '0001_users.up.sql': '', '0001_users.down.sql': '', 'README.md': '', '1_short.up.sql': '' });
+
+    expect(loadMigrations(dir).map(migration => migration.name)).toEqual(['users']);
+  });
+
+  it('refuses a migration without both scripts or with two names', () => {
+    expect(() => loadMigrations(migrationsDir({ '0001_users.up.sql': '' })))
+      .toThrow('Migration 1_users needs both an up and a down script');
+    expect(() => loadMigrations(migrationsDir({ '0001_users.up.sql': '', '0001_accounts.down.sql': '' })))
+      .toThrow('Migration 0001 has conflicting names');
+  });
+});
+
+describe('compareMigrations', () => {
+  const migration = (version: number, checksum: string): Migration =>
+    ({ version, name: `step_${version}`, up: '', down: '', checksum });
+  const applied = (version: number, checksum: string): AppliedMigration =>
+    ({ version, name: `step_${version}`, checksum, applied_at: new Date('2026-10-01') });
+
+  it('finds pending, modified and unknown migrations', () => {
+    const onDisk = [migration(1, 'a'), migration(2, 'b-edited'), migration(3, 'c')];
+    const recorded = [applied(1, 'a'), applied(2, 'b'), applied(4, 'd')];
+
+    expect(compareMigrations(onDisk, recorded)).toEqual({
+      applied: recorded,
+      pending: [onDisk[2]],
+      modified: [onDisk[1]],
+      unknown: [recorded[2]],
+    });
+  });
+
+  it('reports nothing when every migration is applied unchanged', () => {
+    const status = compareMigrations([migration(1, 'a')], [applied(1, 'a')]);
+
+    expect([status.pending, status.modified, status.unknown]).toEqual([[], [], []]);
+  });
+});
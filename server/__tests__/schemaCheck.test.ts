@@ -0,0 +1,65 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect, jest } from '@jest/globals';
+import { boolean, numeric, pgTable, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
+import { findTableDrift } from '../schemaCheck';
+
+// Comparing a table with its columns needs neither the environment nor Postgres
+jest.mock('../config', () => ({ config: {} }));
+jest.mock('../db', () => ({ pool: {} }));
+
+const widgets = pgTable('widgets', {
+  id: uuid('id').primaryKey(),
+  name: varchar('name', { length: 100 }).notNull(),
+  price: numeric('price', { precision: 12, scale: 2 }),
+  active: boolean('active').notNull(),
+  created_at: timestamp('created_at', { withTimezone: true }).notNull(),
+});
+
+// A column as information_schema.columns describes it
+const column = (column_name: string, data_type: string, nullable: boolean, size: Partial<{ length: number; precision: number; scale: number }> = {}) => ({
+  column_name,
+  data_type,
+  is_nullable: nullable ? 'YES' as const : 'NO' as const,
+  character_maximum_length: size.length ?? null,
+  numeric_precision: size.precision ?? null,
+  numeric_scale: size.scale ?? null,
+});
+
+const live = [
+  column('id', 'uuid', false),
+  column('name', 'character varying', false, { length: 100 }),
+  column('price', 'numeric', true, { precision: 12, scale: 2 }),
+  column('active', 'boolean', false),
+  column('created_at', 'timestamp with time zone', false),
+];
+
+describe('findTableDrift', () => {
+  it('accepts a table that matches the schema', () => {
+    expect(findTableDrift(widgets, live)).toEqual([]);
+  });
+
+  it('reports a missing table', () => {
+    expect(findTableDrift(widgets, [])).toEqual(['table widgets is missing']);
+  });
+
+  it('reports each column that differs', () => {
+    const drifted = [
+      column('id', 'uuid', false),
+      column('name', 'character varying', true, { length: 50 }),
+      column('price', 'numeric', true, { precision: 10, scale: 2 }),
+      column('created_at', 'timestamp without time zone', false),
+      column('legacy_code', 'text', true),
+    ];
+
+    expect(findTableDrift(widgets, drifted)).toEqual([
+      'widgets.name is varchar(50), expected varchar(100)',
+      'widgets.name should be NOT NULL',
+      'widgets.price is numeric(10, 2), expected numeric(12, 2)',
+      'widgets.active is missing',
+      'widgets.created_at is timestamp, expected timestamp with time zone',
+      'widgets.legacy_code exists in the database but not in the schema',
+    ]);
+  });
+});
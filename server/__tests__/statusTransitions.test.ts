@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+import { beforeEach, describe, it, expect, jest } from '@jest/globals';
+import { loanOperations } from '../dbOperations';
+import { isValidReason, transitionStatus, REASON_LENGTH } from '../statusTransitions';
+import type { LoanApplicationStatus } from '../../shared/types';
+import { applicant, officer, storedApplication } from './applications';
+
+// Only the two calls transitionStatus makes; the real data layer needs Postgres
+jest.mock('../dbOperations', () => ({
+  loanOperations: {
+    transitionLoanApplicationStatus: jest.fn(),
+    getLoanApplication: jest.fn(),
+  },
+}));
+
+const transition = jest.mocked(loanOperations.transitionLoanApplicationStatus);
+const reload = jest.mocked(loanOperations.getLoanApplication);
+
+beforeEach(() => {
+  transition.mockReset();
+  reload.mockReset();
+});
+
+describe('transitionStatus', () => {
+  it.each([
+    ['draft', 'submitted'],
+    ['submitted', 'under_review'],
+    ['under_review', 'conditionally_approved'],
+    ['conditionally_approved', 'approved'],
+    ['approved', 'disbursed'],
+    ['disbursed', 'closed'],
+    ['under_review', 'withdrawn'],
+  ] as [LoanApplicationStatus, LoanApplicationStatus][])('moves an application from %s to %s', async (from, to) => {
+    const application = storedApplication({ status: from });
+    transition.mockResolvedValue({ ...application, status: to });
+
+    const result = await transitionStatus(officer, application, to, null);
+
+    expect(result).toEqual({ ok: true, application: { ...application, status: to } });
+    expect(transition).toHaveBeenCalledWith(officer, application, to, null);
+  });
+
+  it.each([
+    ['draft', 'approved', 'Cannot move an application from draft to approved (allowed: submitted, withdrawn)'],
+    ['submitted', 'disbursed', 'Cannot move an application from submitted to disbursed (allowed: under_review, withdrawn)'],
+    ['rejected', 'under_review', 'Cannot move an application from rejected to under_review (rejected is final)'],
+    ['withdrawn', 'submitted', 'Cannot move an application from withdrawn to submitted (withdrawn is final)'],
+  ] as [LoanApplicationStatus, LoanApplicationStatus, string][])('refuses to move an application from %s to %s', async (from, to, error) => {
+    const result = await transitionStatus(applicant, storedApplication({ status: from }), to, null);
+
+    expect(result).toEqual({ ok: false, status: 409, error });
+    expect(transition).not.toHaveBeenCalled();
+  });
+
+  it('reports a conflict when the status changed underneath the update', async () => {
+    const application = storedApplication({ status: 'under_review' });
+    transition.mockResolvedValue(null);
+    reload.mockResolvedValue({ ...application, status: 'withdrawn' });
+
+    expect(await transitionStatus(officer, application, 'approved', null))
+      .toEqual({ ok: false, status: 409, error: 'Application status changed to withdrawn while updating' });
+  });
+
+  it('reports a failure when the update didn\'t happen for another reason', async () => {
+    const application = storedApplication({ status: 'under_review' });
+    transition.mockResolvedValue(null);
+    reload.mockResolvedValue(application);
+
+    expect(await transitionStatus(officer, application, 'approved', null))
+      .toEqual({ ok: false, status: 500, error: 'Failed to update loan application status' });
+  });
+});
+
+describe('isValidReason', () => {
+  it.each([
+    [null, true],
+    [undefined, true],
+    ['Income could not be verified', true],
+    ['x'.repeat(REASON_LENGTH), true],
+    ['x'.repeat(REASON_LENGTH + 1), false],
+    [42, false],
+  ])('%p is %p', (reason, expected) => {
+    expect(isValidReason(reason)).toBe(expected);
+  });
+});
@@ -0,0 +1,36 @@
+import express from 'express';
+import { requireAuth, requirePermission } from './middleware/auth';
+import { errorHandler, asyncRoute } from './http';
+import { testDatabaseConnection } from './dbOperations';
+import { chatRouter } from './routes/chat';
+import { conversationsRouter } from './routes/conversations';
+import { loanApplicationsRouter } from './routes/loanApplications';
+import { llmRouter } from './routes/llm';
+import { officerRouter } from './routes/officer';
+import { productsRouter } from './routes/products';
+import type { HealthResponse } from '../shared/types';
+
+export const createApp = () => {
+  const app = express();
+
+  app.use(express.json({ limit: '1mb' }));
+
+  // Unauthenticated so the client can detect whether the backend is reachable
+  app.get('/api/health', asyncRoute(async (_req, res) => {
+    const database = await testDatabaseConnection();
+    const health: HealthResponse = { status: database ? 'ok' : 'degraded', database };
+    res.status(database ? 200 : 503).json(health);
+  }));
+
+  app.use('/api', requireAuth);
+  app.use('/api/messages', chatRouter);
+  app.use('/api/conversations', conversationsRouter);
+  app.use('/api/loan-applications', loanApplicationsRouter);
+  app.use('/api/llm', llmRouter);
+  app.use('/api/officer', requirePermission('applications:read:any'), officerRouter);
+  app.use('/api/products', productsRouter);
+
+  app.use(errorHandler);
+
+  return app;
+};
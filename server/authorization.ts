@@ -0,0 +1,64 @@
+// Permission and ownership checks used by the data layer. Every loan
+// application operation takes the acting user so the rules hold no matter
+// which route calls it.
+import { APPLICANT_STATUSES } from '../shared/loanStatus';
+import { hasPermission, type Permission, type UserRole } from '../shared/roles';
+import type { LoanApplication, LoanApplicationStatus } from '../shared/types';
+
+export interface Actor {
+  userId: string;
+  role: UserRole;
+}
+
+export class AuthorizationError extends Error {
+  readonly status = 403;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthorizationError';
+  }
+}
+
+export const assertPermission = (actor: Actor, permission: Permission) => {
+  if (!hasPermission(actor.role, permission)) {
+    throw new AuthorizationError(`The ${actor.role} role does not allow ${permission}`);
+  }
+};
+
+export const canReadApplication = (actor: Actor, application: LoanApplication): boolean =>
+  application.user_id === actor.userId
+    ? hasPermission(actor.role, 'applications:read:own')
+    : hasPermission(actor.role, 'applications:read:any');
+
+// Review actions (decisions, assignment, information requests) need the review
+// permission, and nobody may review their own application
+export const assertCanReview = (actor: Actor, application: LoanApplication) => {
+  assertPermission(actor, 'applications:review');
+  if (application.user_id === actor.userId) {
+    throw new AuthorizationError('Officers cannot review their own applications');
+  }
+};
+
+// Applicants submit or withdraw their own applications; every other status is a
+// review decision.
+export const assertCanChangeStatus = (actor: Actor, application: LoanApplication, to: LoanApplicationStatus) => {
+  const isOwner = application.user_id === actor.userId;
+
+  if (APPLICANT_STATUSES.includes(to)) {
+    if (!isOwner) {
+      throw new AuthorizationError(`Only the applicant can move an application to ${to}`);
+    }
+    assertPermission(actor, 'applications:update:own');
+    return;
+  }
+
+  assertCanReview(actor, application);
+};
+
+// Applicants upload documents for their own applications
+export const assertCanUploadDocuments = (actor: Actor, application: LoanApplication) => {
+  if (application.user_id !== actor.userId) {
+    throw new AuthorizationError('Only the applicant can upload documents');
+  }
+  assertPermission(actor, 'applications:update:own');
+};
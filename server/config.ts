@@ -0,0 +1,45 @@
+import 'dotenv/config';
+import { fileURLToPath } from 'node:url';
+
+// Server-side configuration. Secrets live here and never reach the browser bundle.
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`❌ ${name} not found in environment variables`);
+  }
+  return value;
+};
+
+export const config = {
+  port: parseInt(process.env.PORT || '3001', 10),
+  databaseUrl: requireEnv('DATABASE_URL'),
+  // Read lazily so database tooling (npm run db:migrate) works without Clerk keys
+  get clerkSecretKey() {
+    return requireEnv('CLERK_SECRET_KEY');
+  },
+  llm: {
+    // 'groq', 'openai' (any OpenAI-compatible server, e.g. Ollama or llama.cpp) or 'mock'
+    provider: process.env.LLM_PROVIDER || 'groq',
+    baseUrl: process.env.LLM_BASE_URL || '',
+    apiKey: process.env.LLM_API_KEY || process.env.GROQ_API_KEY || '',
+    chatModel: process.env.LLM_MODEL || process.env.GROQ_MODEL || '',
+    extractionModel: process.env.LLM_EXTRACTION_MODEL || '',
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '15000', 10),
+    maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '2', 10),
+  },
+  // Ship with the server, so unlike the policies they can't be moved
+  migrationsDir: fileURLToPath(new URL('./migrations', import.meta.url)),
+  policyDir: process.env.POLICY_DIR || fileURLToPath(new URL('../shared/underwriting/policies', import.meta.url)),
+  // 'local' keeps uploads under DOCUMENT_DIR; 's3' works with any S3-compatible store
+  documentStorage: process.env.DOCUMENT_STORAGE === 's3' ? 's3' as const : 'local' as const,
+  documentDir: process.env.DOCUMENT_DIR || fileURLToPath(new URL('../uploads', import.meta.url)),
+  get s3() {
+    return {
+      endpoint: requireEnv('S3_ENDPOINT'),
+      region: process.env.S3_REGION || 'us-east-1',
+      bucket: requireEnv('S3_BUCKET'),
+      accessKeyId: requireEnv('S3_ACCESS_KEY_ID'),
+      secretAccessKey: requireEnv('S3_SECRET_ACCESS_KEY'),
+    };
+  },
+};
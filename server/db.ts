@@ -0,0 +1,9 @@
+// Postgres connection owned by the API server. Works against a local
+// Postgres as well as Neon (append ?sslmode=require to the Neon URL).
+import { drizzle } from 'drizzle-orm/node-postgres';
+import pg from 'pg';
+import { config } from './config';
+
+export const pool = new pg.Pool({ connectionString: config.databaseUrl });
+
+export const db = drizzle(pool);
@@ -0,0 +1,964 @@
+// Drizzle ORM data layer for the API server
+import { eq, and, asc, desc, gte, ilike, inArray, isNull, lte, ne, sql, type SQL } from 'drizzle-orm';
+import { db } from './db';
+import {
+  AuthorizationError,
+  assertCanChangeStatus,
+  assertCanReview,
+  assertCanUploadDocuments,
+  assertPermission,
+  canReadApplication,
+  type Actor
+} from './authorization';
+import { chatMessages, conversations, loanApplicationCollateral, loanApplicationDocuments, loanApplicationDrafts, loanApplicationEvents, loanApplicationParties, loanApplications, loanProducts } from './schema';
+import type {
+  ApplicationQueueFilters,
+  CollateralType,
+  ApplicationQueuePage,
+  ChatMessage,
+  Conversation,
+  ConversationListOptions,
+  ConversationMode,
+  ConversationPage,
+  ConversationUpdate,
+  DocumentReview,
+  DocumentStatus,
+  DocumentType,
+  LoanApplication,
+  LoanApplicationCollateral,
+  LoanApplicationDocument,
+  LoanApplicationDraft,
+  LoanApplicationDraftInput,
+  LoanApplicationEvent,
+  LoanApplicationEventType,
+  LoanApplicationParty,
+  LoanApplicationStage,
+  LoanApplicationStatus,
+  LoanProduct,
+  LoanProductInput,
+  NewChatMessage,
+  NewConversation,
+  NewLoanApplication,
+  PartyRole
+} from '../shared/types';
+
+const TITLE_LENGTH = 60;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const titleFrom = (content: string) =>
+  content.length > TITLE_LENGTH ? content.substring(0, TITLE_LENGTH - 3) + '...' : content;
+
+// Conversation columns plus a live message count
+const conversationFields = {
+  id: conversations.id,
+  user_id: conversations.user_id,
+  title: conversations.title,
+  mode: conversations.mode,
+  loan_application_id: conversations.loan_application_id,
+  archived: conversations.archived,
+  created_at: conversations.created_at,
+  last_activity_at: conversations.last_activity_at,
+  message_count: sql<number>`(select count(*) from ${chatMessages} where ${chatMessages.conversation_id} = ${conversations.id})::int`,
+};
+
+const toConversation = (row: Omit<Conversation, 'mode'> & { mode: string }): Conversation => ({
+  ...row,
+  mode: row.mode as ConversationMode,
+});
+
+// Chat Operations
+export const chatOperations = {
+  async getChatMessages(userId: string): Promise<ChatMessage[]> {
+    try {
+      console.log('🔍 Fetching chat messages for user:', userId);
+      const messages = await db
+        .select()
+        .from(chatMessages)
+        .where(eq(chatMessages.user_id, userId))
+        .orderBy(chatMessages.timestamp);
+
+      console.log('📨 Found', messages.length, 'chat messages');
+      return messages;
+    } catch (error) {
+      console.error('❌ Error fetching chat messages:', error);
+      return [];
+    }
+  },
+
+  async getConversationMessages(userId: string, conversationId: string): Promise<ChatMessage[]> {
+    try {
+      console.log('🔍 Fetching conversation messages for user:', userId, 'conversation:', conversationId);
+      const messages = await db
+        .select()
+        .from(chatMessages)
+        .where(and(
+          eq(chatMessages.user_id, userId),
+          eq(chatMessages.conversation_id, conversationId)
+        ))
+        .orderBy(chatMessages.timestamp);
+
+      console.log('📨 Found', messages.length, 'conversation messages');
+      return messages;
+    } catch (error) {
+      console.error('❌ Error fetching conversation messages:', error);
+      return [];
+    }
+  },
+
+  async addChatMessage(message: NewChatMessage, mode: ConversationMode = 'chat'): Promise<ChatMessage | null> {
+    try {
+      console.log('➕ Adding chat message:', message);
+      const timestamp = message.timestamp || new Date();
+
+      const newMessage = await db.transaction(async (tx) => {
+        // Create the conversation on its first message, otherwise bump its activity.
+        // The ownership check in `where` stops writes into another user's conversation.
+        const [conversation] = await tx
+          .insert(conversations)
+          .values({
+            id: message.conversation_id,
+            user_id: message.user_id,
+            mode,
+            title: message.sender === 'user' ? titleFrom(message.content) : null,
+            created_at: timestamp,
+            last_activity_at: timestamp,
+          })
+          .onConflictDoUpdate({
+            target: conversations.id,
+            set: {
+              last_activity_at: timestamp,
+              title: sql`coalesce(${conversations.title}, excluded.title)`,
+            },
+            where: eq(conversations.user_id, message.user_id),
+          })
+          .returning({ id: conversations.id });
+
+        if (!conversation) {
+          throw new Error(`Conversation ${message.conversation_id} belongs to another user`);
+        }
+
+        const [inserted] = await tx
+          .insert(chatMessages)
+          .values({
+            content: message.content,
+            sender: message.sender,
+            type: message.type,
+            user_id: message.user_id,
+            conversation_id: message.conversation_id,
+            timestamp,
+          })
+          .returning();
+        return inserted;
+      });
+
+      console.log('✅ Chat message added with ID:', newMessage.id);
+      return newMessage;
+    } catch (error) {
+      console.error('❌ Error adding chat message:', error);
+      return null;
+    }
+  },
+
+  async clearChatMessages(userId: string): Promise<boolean> {
+    try {
+      console.log('🗑️ Clearing chat messages for user:', userId);
+      await db.transaction(async (tx) => {
+        await tx.delete(chatMessages).where(eq(chatMessages.user_id, userId));
+        await tx.delete(conversations).where(eq(conversations.user_id, userId));
+        await tx.delete(loanApplicationDrafts).where(eq(loanApplicationDrafts.user_id, userId));
+      });
+
+      console.log('✅ Chat messages cleared for user:', userId);
+      return true;
+    } catch (error) {
+      console.error('❌ Error clearing chat messages:', error);
+      return false;
+    }
+  },
+
+  async getConversations(userId: string, options: ConversationListOptions = {}): Promise<ConversationPage> {
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(options.offset ?? 0, 0);
+
+    try {
+      console.log('🔍 Fetching conversations for user:', userId, { archived: !!options.archived, limit, offset });
+
+      // Fetch one extra row to know whether another page exists
+      const rows = await db
+        .select(conversationFields)
+        .from(conversations)
+        .where(and(
+          eq(conversations.user_id, userId),
+          eq(conversations.archived, !!options.archived)
+        ))
+        .orderBy(desc(conversations.last_activity_at))
+        .limit(limit + 1)
+        .offset(offset);
+
+      console.log('💬 Found', Math.min(rows.length, limit), 'conversations');
+      return {
+        conversations: rows.slice(0, limit).map(toConversation),
+        hasMore: rows.length > limit,
+      };
+    } catch (error) {
+      console.error('❌ Error fetching conversations:', error);
+      return { conversations: [], hasMore: false };
+    }
+  },
+
+  async getConversation(userId: string, conversationId: string): Promise<Conversation | null> {
+    try {
+      const [row] = await db
+        .select(conversationFields)
+        .from(conversations)
+        .where(and(
+          eq(conversations.user_id, userId),
+          eq(conversations.id, conversationId)
+        ));
+
+      return row ? toConversation(row) : null;
+    } catch (error) {
+      console.error('❌ Error fetching conversation:', error);
+      return null;
+    }
+  },
+
+  async createConversation(userId: string, conversation: NewConversation): Promise<Conversation | null> {
+    try {
+      console.log('➕ Creating conversation:', conversation.id, 'for user:', userId);
+      await db
+        .insert(conversations)
+        .values({
+          id: conversation.id,
+          user_id: userId,
+          mode: conversation.mode || 'chat',
+          title: conversation.title ?? null,
+        })
+        .onConflictDoNothing({ target: conversations.id });
+
+      // Returns null when the id is already taken by another user
+      return await chatOperations.getConversation(userId, conversation.id);
+    } catch (error) {
+      console.error('❌ Error creating conversation:', error);
+      return null;
+    }
+  },
+
+  async updateConversation(userId: string, conversationId: string, update: ConversationUpdate): Promise<Conversation | null> {
+    try {
+      console.log('🔄 Updating conversation:', conversationId, update);
+
+      // Only link applications the user owns
+      if (update.loan_application_id) {
+        const [application] = await db
+          .select({ id: loanApplications.id })
+          .from(loanApplications)
+          .where(and(
+            eq(loanApplications.user_id, userId),
+            eq(loanApplications.id, update.loan_application_id)
+          ));
+        if (!application) {
+          console.warn('⚠️ Loan application not found for user:', update.loan_application_id);
+          return null;
+        }
+      }
+
+      const [updated] = await db
+        .update(conversations)
+        .set(update)
+        .where(and(
+          eq(conversations.user_id, userId),
+          eq(conversations.id, conversationId)
+        ))
+        .returning({ id: conversations.id });
+
+      return updated ? await chatOperations.getConversation(userId, conversationId) : null;
+    } catch (error) {
+      console.error('❌ Error updating conversation:', error);
+      return null;
+    }
+  },
+
+  async deleteConversation(userId: string, conversationId: string): Promise<boolean> {
+    try {
+      console.log('🗑️ Deleting conversation for user:', userId, 'conversation:', conversationId);
+      await db.transaction(async (tx) => {
+        await tx
+          .delete(chatMessages)
+          .where(and(
+            eq(chatMessages.user_id, userId),
+            eq(chatMessages.conversation_id, conversationId)
+          ));
+        await tx
+          .delete(conversations)
+          .where(and(
+            eq(conversations.user_id, userId),
+            eq(conversations.id, conversationId)
+          ));
+        await tx
+          .delete(loanApplicationDrafts)
+          .where(and(
+            eq(loanApplicationDrafts.user_id, userId),
+            eq(loanApplicationDrafts.conversation_id, conversationId)
+          ));
+      });
+
+      console.log('✅ Conversation deleted:', conversationId);
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting conversation:', error);
+      return false;
+    }
+  }
+};
+
+// Status columns are constrained to shared/loanStatus.ts by the database
+const toParty = (row: typeof loanApplicationParties.$inferSelect): LoanApplicationParty => ({
+  ...row,
+  role: row.role as PartyRole,
+});
+
+const toCollateral = (row: typeof loanApplicationCollateral.$inferSelect): LoanApplicationCollateral => ({
+  ...row,
+  type: row.type as CollateralType,
+});
+
+const toApplication = (
+  row: typeof loanApplications.$inferSelect,
+  parties: LoanApplicationParty[],
+  collateral: LoanApplicationCollateral[]
+): LoanApplication => ({
+  ...row,
+  status: row.status as LoanApplicationStatus,
+  parties,
+  collateral,
+});
+
+// Applications with their co-applicants, guarantors and collateral, fetched
+// in one query per table
+const withDetails = async (rows: (typeof loanApplications.$inferSelect)[]): Promise<LoanApplication[]> => {
+  if (rows.length === 0) return [];
+
+  const ids = rows.map(row => row.id);
+  const [parties, collateral] = await Promise.all([
+    db
+      .select()
+      .from(loanApplicationParties)
+      .where(inArray(loanApplicationParties.loan_application_id, ids))
+      .orderBy(loanApplicationParties.created_at),
+    db
+      .select()
+      .from(loanApplicationCollateral)
+      .where(inArray(loanApplicationCollateral.loan_application_id, ids))
+      .orderBy(loanApplicationCollateral.created_at),
+  ]);
+
+  return rows.map(row => toApplication(
+    row,
+    parties.filter(party => party.loan_application_id === row.id).map(toParty),
+    collateral.filter(item => item.loan_application_id === row.id).map(toCollateral)
+  ));
+};
+
+const toEvent = (row: typeof loanApplicationEvents.$inferSelect): LoanApplicationEvent => ({
+  ...row,
+  event_type: row.event_type as LoanApplicationEventType,
+  from_status: row.from_status as LoanApplicationStatus | null,
+  to_status: row.to_status as LoanApplicationStatus,
+});
+
+// Loan Operations. Each operation takes the acting user and checks their
+// role and ownership before touching the database; an AuthorizationError
+// propagates to the route as a 403.
+export const loanOperations = {
+  // The actor's own applications
+  async getLoanApplications(actor: Actor): Promise<LoanApplication[]> {
+    assertPermission(actor, 'applications:read:own');
+
+    try {
+      console.log('🔍 Fetching loan applications for user:', actor.userId);
+      const applications = await db
+        .select()
+        .from(loanApplications)
+        .where(eq(loanApplications.user_id, actor.userId))
+        .orderBy(loanApplications.application_date);
+
+      console.log('📋 Found', applications.length, 'loan applications');
+      return await withDetails(applications);
+    } catch (error) {
+      console.error('❌ Error fetching loan applications:', error);
+      return [];
+    }
+  },
+
+  // Null when the application does not exist or the actor may not see it,
+  // so other users' application IDs are not confirmed
+  async getLoanApplication(actor: Actor, id: string): Promise<LoanApplication | null> {
+    try {
+      const [row] = await db
+        .select()
+        .from(loanApplications)
+        .where(eq(loanApplications.id, id));
+
+      const [application] = row ? await withDetails([row]) : [null];
+      return application && canReadApplication(actor, application) ? application : null;
+    } catch (error) {
+      console.error('❌ Error fetching loan application:', error);
+      return null;
+    }
+  },
+
+  async addLoanApplication(actor: Actor, application: NewLoanApplication): Promise<LoanApplication | null> {
+    assertPermission(actor, 'applications:create');
+    if (application.user_id !== actor.userId) {
+      throw new AuthorizationError('Applications can only be created for yourself');
+    }
+
+    try {
+      console.log('➕ Adding loan application:', application);
+
+      // Validate and clean the data
+      const cleanLoanAmount = String(application.loan_amount).replace(/[^0-9.]/g, '');
+      const cleanMonthlyIncome = String(application.monthly_income).replace(/[^0-9.]/g, '');
+      const cleanInterestRate = application.interest_rate ? String(application.interest_rate).replace(/[^0-9.]/g, '') : null;
+      // "0" is an answer here, so only missing values become null
+      const cleanExistingEmis = application.existing_emis != null ? String(application.existing_emis).replace(/[^0-9.]/g, '') || null : null;
+      const cleanCardDues = application.credit_card_dues != null ? String(application.credit_card_dues).replace(/[^0-9.]/g, '') || null : null;
+
+      // Handle credit score - convert empty string to null
+      let cleanCreditScore: number | null = null;
+      const creditScoreValue = application.credit_score;
+
+      if (creditScoreValue !== null && creditScoreValue !== undefined) {
+        if (typeof creditScoreValue === 'string') {
+          if (creditScoreValue.trim() !== '') {
+            const numericScore = parseInt(creditScoreValue.replace(/[^0-9]/g, ''));
+            cleanCreditScore = isNaN(numericScore) ? null : numericScore;
+          }
+        } else {
+          cleanCreditScore = creditScoreValue;
+        }
+      }
+
+      console.log('➕ Cleaned data:', {
+        loan_amount: cleanLoanAmount,
+        monthly_income: cleanMonthlyIncome,
+        interest_rate: cleanInterestRate,
+        credit_score: cleanCreditScore
+      });
+
+      // Validate that required fields are not empty after cleaning
+      if (!cleanLoanAmount || !cleanMonthlyIncome) {
+        throw new Error('Invalid loan amount or monthly income');
+      }
+
+      const newApplication = await db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(loanApplications)
+          .values({
+            applicant_name: application.applicant_name,
+            loan_amount: cleanLoanAmount,
+            loan_type: application.loan_type,
+            status: application.status,
+            credit_score: cleanCreditScore,
+            monthly_income: cleanMonthlyIncome,
+            employment_status: application.employment_status,
+            loan_purpose: application.loan_purpose,
+            interest_rate: cleanInterestRate,
+            loan_term: application.loan_term,
+            existing_emis: cleanExistingEmis,
+            credit_card_dues: cleanCardDues,
+            dependents: application.dependents ?? null,
+            product_details: application.product_details ?? null,
+            user_id: application.user_id,
+            policy_id: application.policy_id ?? null,
+            policy_version: application.policy_version ?? null,
+            application_date: application.application_date || new Date(),
+          })
+          .returning();
+
+        await tx.insert(loanApplicationEvents).values({
+          loan_application_id: created.id,
+          from_status: null,
+          to_status: created.status,
+          actor_id: application.user_id,
+          reason: 'Application created',
+        });
+
+        const parties = application.parties?.length
+          ? await tx
+            .insert(loanApplicationParties)
+            .values(application.parties.map(party => ({
+              loan_application_id: created.id,
+              role: party.role,
+              name: party.name,
+              relationship: party.relationship ?? null,
+              monthly_income: String(party.monthly_income).replace(/[^0-9.]/g, ''),
+              employment_status: party.employment_status,
+              credit_score: party.credit_score ?? null,
+            })))
+            .returning()
+          : [];
+
+        const collateral = application.collateral?.length
+          ? await tx
+            .insert(loanApplicationCollateral)
+            .values(application.collateral.map(item => ({
+              loan_application_id: created.id,
+              type: item.type,
+              description: item.description,
+              value: String(item.value).replace(/[^0-9.]/g, ''),
+            })))
+            .returning()
+          : [];
+
+        return toApplication(created, parties.map(toParty), collateral.map(toCollateral));
+      });
+
+      console.log('✅ Loan application added with ID:', newApplication.id);
+      return newApplication;
+    } catch (error) {
+      console.error('❌ Error adding loan application:', error);
+      return null;
+    }
+  },
+
+  // Moves the application from its current status to `to` and records the
+  // event. Callers check the lifecycle allows it; the status guard makes a
+  // concurrent change come back as null instead of being overwritten.
+  async transitionLoanApplicationStatus(
+    actor: Actor,
+    application: LoanApplication,
+    to: LoanApplicationStatus,
+    reason: string | null = null
+  ): Promise<LoanApplication | null> {
+    assertCanChangeStatus(actor, application, to);
+    const { id, status: from } = application;
+
+    try {
+      console.log('🔄 Updating loan application status:', id, from, '->', to);
+      const updated = await db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(loanApplications)
+          .set({ status: to })
+          .where(and(eq(loanApplications.id, id), eq(loanApplications.status, from)))
+          .returning();
+
+        if (!row) {
+          return null;
+        }
+
+        await tx.insert(loanApplicationEvents).values({
+          loan_application_id: id,
+          from_status: from,
+          to_status: to,
+          actor_id: actor.userId,
+          reason,
+        });
+        return row;
+      });
+
+      if (updated) {
+        console.log('✅ Loan application status updated');
+      }
+      return updated ? toApplication(updated, application.parties, application.collateral) : null;
+    } catch (error) {
+      console.error('❌ Error updating loan application status:', error);
+      return null;
+    }
+  },
+
+  // Officer queue across all applicants. Drafts are never shown - the
+  // applicant has not submitted them yet.
+  async getApplicationQueue(actor: Actor, filters: ApplicationQueueFilters = {}): Promise<ApplicationQueuePage> {
+    assertPermission(actor, 'applications:read:any');
+
+    const limit = Math.min(Math.max(filters.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(filters.offset ?? 0, 0);
+
+    const conditions: SQL[] = [ne(loanApplications.status, 'draft')];
+    if (filters.status) conditions.push(eq(loanApplications.status, filters.status));
+    if (filters.loan_type) conditions.push(ilike(loanApplications.loan_type, `%${filters.loan_type}%`));
+    if (filters.min_amount !== undefined) conditions.push(gte(loanApplications.loan_amount, String(filters.min_amount)));
+    if (filters.max_amount !== undefined) conditions.push(lte(loanApplications.loan_amount, String(filters.max_amount)));
+    if (filters.min_score !== undefined) conditions.push(gte(loanApplications.credit_score, filters.min_score));
+    if (filters.max_score !== undefined) conditions.push(lte(loanApplications.credit_score, filters.max_score));
+    if (filters.assigned === 'me') conditions.push(eq(loanApplications.assigned_officer_id, actor.userId));
+    if (filters.assigned === 'unassigned') conditions.push(isNull(loanApplications.assigned_officer_id));
+
+    try {
+      console.log('🔍 Fetching application queue:', { ...filters, limit, offset });
+
+      // Oldest first; one extra row tells us whether another page exists
+      const rows = await db
+        .select()
+        .from(loanApplications)
+        .where(and(...conditions))
+        .orderBy(asc(loanApplications.application_date))
+        .limit(limit + 1)
+        .offset(offset);
+
+      console.log('📋 Found', Math.min(rows.length, limit), 'queued applications');
+      return {
+        applications: await withDetails(rows.slice(0, limit)),
+        hasMore: rows.length > limit,
+      };
+    } catch (error) {
+      console.error('❌ Error fetching application queue:', error);
+      return { applications: [], hasMore: false };
+    }
+  },
+
+  async assignLoanApplication(actor: Actor, application: LoanApplication, officerId: string | null, reason: string): Promise<LoanApplication | null> {
+    assertCanReview(actor, application);
+    const { id } = application;
+
+    try {
+      console.log('👤 Assigning loan application:', id, '->', officerId ?? 'unassigned');
+      const updated = await db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(loanApplications)
+          .set({ assigned_officer_id: officerId })
+          .where(eq(loanApplications.id, id))
+          .returning();
+
+        if (!row) {
+          return null;
+        }
+
+        await tx.insert(loanApplicationEvents).values({
+          event_type: 'assigned',
+          loan_application_id: id,
+          from_status: row.status,
+          to_status: row.status,
+          actor_id: actor.userId,
+          reason,
+        });
+        return row;
+      });
+
+      return updated ? toApplication(updated, application.parties, application.collateral) : null;
+    } catch (error) {
+      console.error('❌ Error assigning loan application:', error);
+      return null;
+    }
+  },
+
+  // Records an officer action that leaves the status where it is
+  async addLoanApplicationNote(
+    actor: Actor,
+    application: LoanApplication,
+    eventType: Exclude<LoanApplicationEventType, 'status_change'>,
+    reason: string
+  ): Promise<LoanApplicationEvent | null> {
+    assertCanReview(actor, application);
+
+    try {
+      const [event] = await db
+        .insert(loanApplicationEvents)
+        .values({
+          event_type: eventType,
+          loan_application_id: application.id,
+          from_status: application.status,
+          to_status: application.status,
+          actor_id: actor.userId,
+          reason,
+        })
+        .returning();
+
+      return toEvent(event);
+    } catch (error) {
+      console.error('❌ Error recording loan application event:', error);
+      return null;
+    }
+  },
+
+  async getLoanApplicationEvents(actor: Actor, application: LoanApplication): Promise<LoanApplicationEvent[]> {
+    if (!canReadApplication(actor, application)) {
+      throw new AuthorizationError('You cannot view this application');
+    }
+
+    try {
+      const events = await db
+        .select()
+        .from(loanApplicationEvents)
+        .where(eq(loanApplicationEvents.loan_application_id, application.id))
+        .orderBy(loanApplicationEvents.created_at);
+
+      return events.map(toEvent);
+    } catch (error) {
+      console.error('❌ Error fetching loan application events:', error);
+      return [];
+    }
+  }
+};
+
+// Document Operations. Rows only; the bytes are written to document storage
+// by the route before the row is inserted.
+const toDocument = (row: typeof loanApplicationDocuments.$inferSelect): LoanApplicationDocument => {
+  const { storage_key: _storageKey, ...document } = row;
+  return {
+    ...document,
+    document_type: row.document_type as DocumentType,
+    status: row.status as DocumentStatus,
+  };
+};
+
+export type NewLoanApplicationDocument = Pick<
+  typeof loanApplicationDocuments.$inferInsert,
+  'id' | 'document_type' | 'file_name' | 'content_type' | 'size_bytes' | 'storage_key'
+>;
+
+export const documentOperations = {
+  // Newest first, so the first document of each type is its latest upload
+  async getDocuments(actor: Actor, application: LoanApplication): Promise<LoanApplicationDocument[]> {
+    if (!canReadApplication(actor, application)) {
+      throw new AuthorizationError('You cannot view this application');
+    }
+
+    try {
+      const rows = await db
+        .select()
+        .from(loanApplicationDocuments)
+        .where(eq(loanApplicationDocuments.loan_application_id, application.id))
+        .orderBy(desc(loanApplicationDocuments.created_at));
+
+      return rows.map(toDocument);
+    } catch (error) {
+      console.error('❌ Error fetching loan application documents:', error);
+      return [];
+    }
+  },
+
+  // Includes the storage key, for routes that stream the file
+  async getDocument(
+    actor: Actor,
+    application: LoanApplication,
+    documentId: string
+  ): Promise<(LoanApplicationDocument & { storage_key: string }) | null> {
+    if (!canReadApplication(actor, application)) {
+      throw new AuthorizationError('You cannot view this application');
+    }
+
+    try {
+      const [row] = await db
+        .select()
+        .from(loanApplicationDocuments)
+        .where(and(
+          eq(loanApplicationDocuments.id, documentId),
+          eq(loanApplicationDocuments.loan_application_id, application.id)
+        ));
+
+      return row ? { ...toDocument(row), storage_key: row.storage_key } : null;
+    } catch (error) {
+      console.error('❌ Error fetching loan application document:', error);
+      return null;
+    }
+  },
+
+  async addDocument(actor: Actor, application: LoanApplication, document: NewLoanApplicationDocument): Promise<LoanApplicationDocument | null> {
+    assertCanUploadDocuments(actor, application);
+
+    try {
+      console.log('📎 Adding document:', document.document_type, 'to application:', application.id);
+      const [row] = await db
+        .insert(loanApplicationDocuments)
+        .values({
+          ...document,
+          loan_application_id: application.id,
+          uploaded_by: actor.userId,
+        })
+        .returning();
+
+      return toDocument(row);
+    } catch (error) {
+      console.error('❌ Error adding loan application document:', error);
+      return null;
+    }
+  },
+
+  // Verifies or rejects an upload and records it in the application's history
+  async reviewDocument(
+    actor: Actor,
+    application: LoanApplication,
+    document: LoanApplicationDocument,
+    review: DocumentReview,
+    eventReason: string
+  ): Promise<LoanApplicationDocument | null> {
+    assertCanReview(actor, application);
+
+    try {
+      console.log('🔎 Reviewing document:', document.id, '->', review.status);
+      const updated = await db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(loanApplicationDocuments)
+          .set({
+            status: review.status,
+            review_note: review.note ?? null,
+            reviewed_by: actor.userId,
+            reviewed_at: new Date(),
+          })
+          .where(and(
+            eq(loanApplicationDocuments.id, document.id),
+            eq(loanApplicationDocuments.loan_application_id, application.id)
+          ))
+          .returning();
+
+        if (!row) {
+          return null;
+        }
+
+        await tx.insert(loanApplicationEvents).values({
+          event_type: 'document_reviewed',
+          loan_application_id: application.id,
+          from_status: application.status,
+          to_status: application.status,
+          actor_id: actor.userId,
+          reason: eventReason,
+        });
+        return row;
+      });
+
+      return updated ? toDocument(updated) : null;
+    } catch (error) {
+      console.error('❌ Error reviewing loan application document:', error);
+      return null;
+    }
+  }
+};
+
+// Draft Operations
+const toDraft = (row: typeof loanApplicationDrafts.$inferSelect): LoanApplicationDraft => ({
+  ...row,
+  stage: row.stage as LoanApplicationStage,
+});
+
+export const draftOperations = {
+  async getDraft(userId: string, conversationId: string): Promise<LoanApplicationDraft | null> {
+    try {
+      const [row] = await db
+        .select()
+        .from(loanApplicationDrafts)
+        .where(and(
+          eq(loanApplicationDrafts.user_id, userId),
+          eq(loanApplicationDrafts.conversation_id, conversationId)
+        ));
+
+      return row ? toDraft(row) : null;
+    } catch (error) {
+      console.error('❌ Error fetching loan application draft:', error);
+      return null;
+    }
+  },
+
+  async saveDraft(userId: string, conversationId: string, draft: LoanApplicationDraftInput): Promise<LoanApplicationDraft | null> {
+    try {
+      console.log('💾 Saving loan application draft:', conversationId, 'stage:', draft.stage);
+      const values = {
+        stage: draft.stage,
+        data: draft.data,
+        manually_edited_fields: draft.manually_edited_fields,
+        calculated_terms: draft.calculated_terms,
+        updated_at: new Date(),
+      };
+
+      const [row] = await db
+        .insert(loanApplicationDrafts)
+        .values({ conversation_id: conversationId, user_id: userId, ...values })
+        .onConflictDoUpdate({
+          target: loanApplicationDrafts.conversation_id,
+          set: values,
+          where: eq(loanApplicationDrafts.user_id, userId),
+        })
+        .returning();
+
+      // No row means the conversation's draft belongs to another user
+      return row ? toDraft(row) : null;
+    } catch (error) {
+      console.error('❌ Error saving loan application draft:', error);
+      return null;
+    }
+  },
+
+  async deleteDraft(userId: string, conversationId: string): Promise<boolean> {
+    try {
+      console.log('🗑️ Deleting loan application draft:', conversationId);
+      await db
+        .delete(loanApplicationDrafts)
+        .where(and(
+          eq(loanApplicationDrafts.user_id, userId),
+          eq(loanApplicationDrafts.conversation_id, conversationId)
+        ));
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting loan application draft:', error);
+      return false;
+    }
+  }
+};
+
+// Loan-product catalog. Every signed-in user reads it; edits need products:manage.
+const toProduct = (row: typeof loanProducts.$inferSelect): LoanProduct => ({
+  ...row,
+  min_rate: Number(row.min_rate),
+  max_rate: Number(row.max_rate),
+  min_amount: Number(row.min_amount),
+  max_amount: Number(row.max_amount),
+});
+
+export const productOperations = {
+  async getProducts(): Promise<LoanProduct[]> {
+    try {
+      const rows = await db
+        .select()
+        .from(loanProducts)
+        .orderBy(asc(loanProducts.sort_order), asc(loanProducts.name));
+
+      return rows.map(toProduct);
+    } catch (error) {
+      console.error('❌ Error fetching loan products:', error);
+      return [];
+    }
+  },
+
+  // Creates the product or replaces the one with the same id
+  async saveProduct(actor: Actor, product: LoanProductInput): Promise<LoanProduct | null> {
+    assertPermission(actor, 'products:manage');
+
+    try {
+      console.log('🏷️ Saving loan product:', product.id);
+      const values = {
+        ...product,
+        min_rate: String(product.min_rate),
+        max_rate: String(product.max_rate),
+        min_amount: String(product.min_amount),
+        max_amount: String(product.max_amount),
+        updated_by: actor.userId,
+        updated_at: new Date(),
+      };
+
+      const [row] = await db
+        .insert(loanProducts)
+        .values(values)
+        .onConflictDoUpdate({ target: loanProducts.id, set: values })
+        .returning();
+
+      return toProduct(row);
+    } catch (error) {
+      console.error('❌ Error saving loan product:', error);
+      return null;
+    }
+  }
+};
+
+// Test connection
+export const testDatabaseConnection = async (): Promise<boolean> => {
+  try {
+    await db.select().from(chatMessages).limit(1);
+    return true;
+  } catch (error) {
+    console.error('❌ Database connection failed:', error);
+    return false;
+  }
+};
@@ -0,0 +1,49 @@
+// An application's document checklist: what its underwriting policy asks for
+// next to what the applicant has uploaded.
+import { documentOperations } from './dbOperations';
+import { evaluateApplication } from './underwriting';
+import type { Actor } from './authorization';
+import type { ApplicationDocuments, DocumentChecklistItem, LoanApplication, LoanApplicationDocument } from '../shared/types';
+import type { DocumentRequirement } from '../shared/underwriting/types';
+
+const SIGNATURES: Record<string, number[]> = {
+  'application/pdf': [0x25, 0x50, 0x44, 0x46], // %PDF
+  'image/jpeg': [0xff, 0xd8, 0xff],
+  'image/png': [0x89, 0x50, 0x4e, 0x47],
+};
+
+// The Content-Type header is whatever the browser claims; check the file agrees
+export const matchesContentType = (body: Buffer, contentType: string): boolean => {
+  const signature = SIGNATURES[contentType];
+  return !!signature && signature.every((byte, index) => body[index] === byte);
+};
+
+// X-File-Name is URI-encoded by the client; keep only the last path segment
+export const readFileName = (header: string | undefined, fallback: string): string => {
+  let name = header ?? '';
+  try {
+    name = decodeURIComponent(name);
+  } catch {
+    // Use the header as sent
+  }
+  name = name.split(/[\\/]/).pop()!.trim().slice(0, 255);
+  return name || fallback;
+};
+
+// `documents` is newest first, so find() returns the latest upload of a type
+export const buildDocumentChecklist = (
+  requirements: DocumentRequirement[],
+  documents: LoanApplicationDocument[]
+): DocumentChecklistItem[] =>
+  requirements.map(requirement => {
+    const document = documents.find(candidate => candidate.document_type === requirement.document_type) ?? null;
+    return { ...requirement, status: document ? document.status : 'missing', document };
+  });
+
+export const getApplicationDocuments = async (actor: Actor, application: LoanApplication): Promise<ApplicationDocuments> => {
+  const documents = await documentOperations.getDocuments(actor, application);
+  return {
+    checklist: buildDocumentChecklist(evaluateApplication(application).documents, documents),
+    documents,
+  };
+};
@@ -0,0 +1,23 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { AuthorizationError } from './authorization';
+
+// Express 4 does not forward rejected promises to the error handler
+export const asyncRoute = (
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler => (req, res, next) => {
+  handler(req, res, next).catch(next);
+};
+
+// body-parser marks its errors (oversized or malformed bodies) as safe to show
+const isClientError = (error: unknown): error is { status: number; message: string } =>
+  typeof error === 'object' && error !== null && (error as { expose?: unknown }).expose === true &&
+  typeof (error as { status?: unknown }).status === 'number';
+
+export const errorHandler = (error: unknown, _req: Request, res: Response, _next: NextFunction) => {
+  if (error instanceof AuthorizationError || isClientError(error)) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  console.error('❌ Unhandled API error:', error);
+  res.status(500).json({ error: 'Internal server error' });
+};
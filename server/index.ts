@@ -0,0 +1,27 @@
+import { config } from './config';
+import { createApp } from './app';
+import { checkSchemaDrift } from './schemaCheck';
+import { refreshLoanProducts } from './underwriting';
+
+const start = async () => {
+  // Refuse to serve requests against a database that doesn't match the schema
+  const drift = await checkSchemaDrift();
+  if (drift.length > 0) {
+    console.error('❌ Database schema drift detected:');
+    drift.forEach(problem => console.error(`  - ${problem}`));
+    console.error('Run `npm run db:migrate` (or fix the database) and restart.');
+    process.exit(1);
+  }
+
+  await refreshLoanProducts();
+  const app = createApp();
+
+  app.listen(config.port, () => {
+    console.log(`✅ LoanWise API listening on http://localhost:${config.port}`);
+  });
+};
+
+start().catch(error => {
+  console.error('❌ Failed to start API server:', error);
+  process.exit(1);
+});
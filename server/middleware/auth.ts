@@ -0,0 +1,69 @@
+import type { NextFunction, Request, Response } from 'express';
+import { clerk, getUserRole } from '../services/clerkUsers';
+import { hasPermission, type Permission, type UserRole } from '../../shared/roles';
+import type { Actor } from '../authorization';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      userId?: string;
+      userRole?: UserRole;
+    }
+  }
+}
+
+// Verifies the Clerk session token sent as `Authorization: Bearer <token>`
+// and exposes the Clerk user ID and role as `req.userId` / `req.userRole`.
+export const requireAuth = async (req: Request, res: Response, next: NextFunction) => {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+
+  if (!token) {
+    res.status(401).json({ error: 'Missing session token' });
+    return;
+  }
+
+  try {
+    const claims = await clerk.verifyToken(token);
+    req.userId = claims.sub;
+  } catch (error) {
+    console.error('❌ Session token verification failed:', error);
+    res.status(401).json({ error: 'Invalid session token' });
+    return;
+  }
+
+  try {
+    req.userRole = await getUserRole(req.userId);
+    next();
+  } catch (error) {
+    console.error('❌ Could not load user role:', error);
+    res.status(503).json({ error: 'Could not load user role' });
+  }
+};
+
+// Only call after requireAuth has run
+export const getUserId = (req: Request): string => {
+  if (!req.userId) {
+    throw new Error('Request is not authenticated');
+  }
+  return req.userId;
+};
+
+export const getActor = (req: Request): Actor => {
+  if (!req.userRole) {
+    throw new Error('Request is not authenticated');
+  }
+  return { userId: getUserId(req), role: req.userRole };
+};
+
+// Route-level gate; the data layer repeats the check for each operation
+export const requirePermission = (permission: Permission) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const { role } = getActor(req);
+    if (!hasPermission(role, permission)) {
+      res.status(403).json({ error: `The ${role} role does not allow ${permission}` });
+      return;
+    }
+    next();
+  };
@@ -0,0 +1,47 @@
+// Migration CLI: npm run db:migrate | db:rollback [steps] | db:status
+import { pool } from './db';
+import { getMigrationStatus, migrateDown, migrateUp } from './migrator';
+import { checkSchemaDrift } from './schemaCheck';
+
+const run = async (command: string, arg?: string) => {
+  switch (command) {
+    case 'up': {
+      const applied = await migrateUp();
+      console.log(applied.length > 0 ? `✅ Applied ${applied.length} migration(s)` : '✅ Database is up to date');
+      break;
+    }
+    case 'down': {
+      const steps = arg ? parseInt(arg, 10) : 1;
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error(`Invalid number of steps: ${arg}`);
+      }
+      const rolledBack = await migrateDown(steps);
+      console.log(`✅ Rolled back ${rolledBack.length} migration(s)`);
+      break;
+    }
+    case 'status': {
+      const status = await getMigrationStatus();
+      status.applied.forEach(m => console.log(`  applied  ${m.version}_${m.name}`));
+      status.pending.forEach(m => console.log(`  pending  ${m.version}_${m.name}`));
+
+      const drift = await checkSchemaDrift();
+      if (drift.length > 0) {
+        console.log('⚠️ Schema drift:');
+        drift.forEach(problem => console.log(`  - ${problem}`));
+        process.exitCode = 1;
+      } else {
+        console.log('✅ Database matches the schema');
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}". Use up, down [steps] or status.`);
+  }
+};
+
+run(process.argv[2] ?? 'status', process.argv[3])
+  .catch(error => {
+    console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
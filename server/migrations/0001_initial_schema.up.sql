@@ -0,0 +1,60 @@
+-- Initial schema. Written to also adopt databases created from the old
+-- database-schema.sql or by the previous Drizzle definitions.
+
+CREATE TABLE IF NOT EXISTS loan_applications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  applicant_name VARCHAR(255) NOT NULL,
+  loan_amount NUMERIC(12,2) NOT NULL,
+  loan_type VARCHAR(100) NOT NULL,
+  status VARCHAR(50) NOT NULL DEFAULT 'pending',
+  application_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  credit_score INTEGER,
+  monthly_income NUMERIC(10,2) NOT NULL,
+  employment_status VARCHAR(100) NOT NULL,
+  loan_purpose TEXT,
+  interest_rate NUMERIC(5,2),
+  loan_term INTEGER,
+  user_id VARCHAR(255) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content TEXT NOT NULL,
+  sender VARCHAR(10) NOT NULL,
+  timestamp TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  type VARCHAR(20) NOT NULL DEFAULT 'text',
+  user_id VARCHAR(255) NOT NULL,
+  conversation_id VARCHAR(255) NOT NULL
+);
+
+-- Reconcile existing tables
+ALTER TABLE loan_applications
+  ALTER COLUMN applicant_name TYPE VARCHAR(255),
+  ALTER COLUMN loan_type TYPE VARCHAR(100),
+  ALTER COLUMN status TYPE VARCHAR(50),
+  ALTER COLUMN application_date TYPE TIMESTAMP WITH TIME ZONE,
+  ALTER COLUMN credit_score DROP NOT NULL,
+  ALTER COLUMN employment_status TYPE VARCHAR(100),
+  ALTER COLUMN user_id TYPE VARCHAR(255);
+
+ALTER TABLE chat_messages
+  ALTER COLUMN sender TYPE VARCHAR(10),
+  ALTER COLUMN timestamp TYPE TIMESTAMP WITH TIME ZONE,
+  ALTER COLUMN type TYPE VARCHAR(20),
+  ALTER COLUMN type SET DEFAULT 'text',
+  ALTER COLUMN user_id TYPE VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS conversation_id VARCHAR(255);
+
+-- Messages saved before conversations existed become one legacy conversation per user
+UPDATE chat_messages SET conversation_id = 'legacy_' || user_id WHERE conversation_id IS NULL;
+
+ALTER TABLE chat_messages
+  ALTER COLUMN conversation_id TYPE VARCHAR(255),
+  ALTER COLUMN conversation_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_loan_applications_user_id ON loan_applications(user_id);
+CREATE INDEX IF NOT EXISTS idx_loan_applications_status ON loan_applications(status);
+CREATE INDEX IF NOT EXISTS idx_loan_applications_date ON loan_applications(application_date DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_user_id ON chat_messages(user_id);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_timestamp ON chat_messages(timestamp ASC);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_conversation ON chat_messages(user_id, conversation_id);
@@ -0,0 +1,32 @@
+CREATE TABLE conversations (
+  id VARCHAR(255) PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL,
+  title VARCHAR(255),
+  mode VARCHAR(10) NOT NULL DEFAULT 'chat',
+  loan_application_id UUID REFERENCES loan_applications(id) ON DELETE SET NULL,
+  archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_activity_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_conversations_user_activity ON conversations(user_id, archived, last_activity_at DESC);
+
+-- Backfill from existing messages, titled after the first user message
+INSERT INTO conversations (id, user_id, title, created_at, last_activity_at)
+SELECT
+  m.conversation_id,
+  m.user_id,
+  (
+    SELECT LEFT(first_message.content, 60)
+    FROM chat_messages first_message
+    WHERE first_message.conversation_id = m.conversation_id
+      AND first_message.user_id = m.user_id
+      AND first_message.sender = 'user'
+    ORDER BY first_message.timestamp
+    LIMIT 1
+  ),
+  MIN(m.timestamp),
+  MAX(m.timestamp)
+FROM chat_messages m
+GROUP BY m.conversation_id, m.user_id
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,11 @@
+CREATE TABLE loan_application_drafts (
+  conversation_id VARCHAR(255) PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL,
+  stage VARCHAR(20) NOT NULL DEFAULT 'initial',
+  data JSONB NOT NULL DEFAULT '{}',
+  manually_edited_fields JSONB NOT NULL DEFAULT '[]',
+  calculated_terms JSONB,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_loan_application_drafts_user_id ON loan_application_drafts(user_id);
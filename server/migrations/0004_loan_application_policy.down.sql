@@ -0,0 +1,3 @@
+ALTER TABLE loan_applications
+  DROP COLUMN IF EXISTS policy_id,
+  DROP COLUMN IF EXISTS policy_version;
@@ -0,0 +1,3 @@
+ALTER TABLE loan_applications
+  ADD COLUMN policy_id VARCHAR(100),
+  ADD COLUMN policy_version VARCHAR(50);
@@ -0,0 +1,11 @@
+DROP TABLE IF EXISTS loan_application_events;
+
+ALTER TABLE loan_applications DROP CONSTRAINT IF EXISTS loan_applications_status_check;
+ALTER TABLE loan_applications ALTER COLUMN status SET DEFAULT 'pending';
+
+UPDATE loan_applications SET status = CASE status
+  WHEN 'submitted' THEN 'pending'
+  WHEN 'under_review' THEN 'under-review'
+  WHEN 'draft' THEN 'incomplete'
+  ELSE status
+END;
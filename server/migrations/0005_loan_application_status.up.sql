@@ -0,0 +1,31 @@
+-- Move legacy status literals onto the typed lifecycle in shared/loanStatus.ts
+UPDATE loan_applications SET status = CASE status
+  WHEN 'pending' THEN 'submitted'
+  WHEN 'under-review' THEN 'under_review'
+  WHEN 'incomplete' THEN 'draft'
+  ELSE status
+END;
+
+UPDATE loan_applications SET status = 'submitted'
+WHERE status NOT IN ('draft', 'submitted', 'under_review', 'conditionally_approved', 'approved', 'rejected', 'disbursed', 'closed', 'withdrawn');
+
+ALTER TABLE loan_applications ALTER COLUMN status SET DEFAULT 'submitted';
+ALTER TABLE loan_applications ADD CONSTRAINT loan_applications_status_check
+  CHECK (status IN ('draft', 'submitted', 'under_review', 'conditionally_approved', 'approved', 'rejected', 'disbursed', 'closed', 'withdrawn'));
+
+CREATE TABLE loan_application_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_application_id UUID NOT NULL REFERENCES loan_applications(id) ON DELETE CASCADE,
+  from_status VARCHAR(50),
+  to_status VARCHAR(50) NOT NULL,
+  actor_id VARCHAR(255) NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_loan_application_events_application ON loan_application_events(loan_application_id, created_at);
+
+-- Existing applications start their history at the status they have now
+INSERT INTO loan_application_events (loan_application_id, from_status, to_status, actor_id, reason, created_at)
+SELECT id, NULL, status, user_id, 'Recorded when status history was introduced', application_date
+FROM loan_applications;
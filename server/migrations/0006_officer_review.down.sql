@@ -0,0 +1,5 @@
+ALTER TABLE loan_application_events DROP COLUMN IF EXISTS event_type;
+
+DROP INDEX IF EXISTS idx_loan_applications_queue;
+
+ALTER TABLE loan_applications DROP COLUMN IF EXISTS assigned_officer_id;
@@ -0,0 +1,6 @@
+ALTER TABLE loan_applications ADD COLUMN assigned_officer_id VARCHAR(255);
+
+CREATE INDEX idx_loan_applications_queue ON loan_applications(status, application_date);
+
+-- Events also record officer actions that do not change the status
+ALTER TABLE loan_application_events ADD COLUMN event_type VARCHAR(30) NOT NULL DEFAULT 'status_change';
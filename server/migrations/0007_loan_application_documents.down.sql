@@ -0,0 +1,4 @@
+-- Review events point at documents that no longer exist
+DELETE FROM loan_application_events WHERE event_type = 'document_reviewed';
+
+DROP TABLE IF EXISTS loan_application_documents;
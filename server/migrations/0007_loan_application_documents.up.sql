@@ -0,0 +1,17 @@
+CREATE TABLE loan_application_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_application_id UUID NOT NULL REFERENCES loan_applications(id) ON DELETE CASCADE,
+  document_type VARCHAR(50) NOT NULL,
+  file_name VARCHAR(255) NOT NULL,
+  content_type VARCHAR(100) NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  storage_key VARCHAR(500) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'uploaded' CHECK (status IN ('uploaded', 'verified', 'rejected')),
+  uploaded_by VARCHAR(255) NOT NULL,
+  review_note TEXT,
+  reviewed_by VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  reviewed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_loan_application_documents_application ON loan_application_documents(loan_application_id, created_at);
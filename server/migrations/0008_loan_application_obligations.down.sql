@@ -0,0 +1,4 @@
+ALTER TABLE loan_applications
+  DROP COLUMN IF EXISTS existing_emis,
+  DROP COLUMN IF EXISTS credit_card_dues,
+  DROP COLUMN IF EXISTS dependents;
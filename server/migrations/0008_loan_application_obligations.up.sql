@@ -0,0 +1,4 @@
+ALTER TABLE loan_applications
+  ADD COLUMN existing_emis NUMERIC(10, 2),
+  ADD COLUMN credit_card_dues NUMERIC(12, 2),
+  ADD COLUMN dependents INTEGER;
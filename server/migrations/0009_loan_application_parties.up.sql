@@ -0,0 +1,13 @@
+CREATE TABLE loan_application_parties (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_application_id UUID NOT NULL REFERENCES loan_applications(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('co_applicant', 'guarantor')),
+  name VARCHAR(255) NOT NULL,
+  relationship VARCHAR(100),
+  monthly_income NUMERIC(10, 2) NOT NULL,
+  employment_status VARCHAR(100) NOT NULL,
+  credit_score INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_loan_application_parties_application ON loan_application_parties(loan_application_id, created_at);
@@ -0,0 +1,10 @@
+CREATE TABLE loan_application_collateral (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_application_id UUID NOT NULL REFERENCES loan_applications(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('property', 'vehicle', 'gold', 'fixed_deposit')),
+  description TEXT NOT NULL,
+  value NUMERIC(14, 2) NOT NULL CHECK (value > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_loan_application_collateral_application ON loan_application_collateral(loan_application_id, created_at);
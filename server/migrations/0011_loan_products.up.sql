@@ -0,0 +1,46 @@
+CREATE TABLE loan_products (
+  id VARCHAR(40) PRIMARY KEY,
+  name VARCHAR(60) NOT NULL UNIQUE,
+  synonyms JSONB NOT NULL DEFAULT '[]',
+  policy_id VARCHAR(100),
+  min_rate NUMERIC(5, 2) NOT NULL CHECK (min_rate > 0),
+  max_rate NUMERIC(5, 2) NOT NULL CHECK (max_rate >= min_rate),
+  min_amount NUMERIC(14, 2) NOT NULL CHECK (min_amount > 0),
+  max_amount NUMERIC(14, 2) NOT NULL CHECK (max_amount >= min_amount),
+  min_term_years INTEGER NOT NULL CHECK (min_term_years > 0),
+  max_term_years INTEGER NOT NULL CHECK (max_term_years >= min_term_years),
+  required_fields JSONB NOT NULL,
+  documents JSONB NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  updated_by VARCHAR(255),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- The catalog the loan types used to be hard-coded as; matches
+-- DEFAULT_LOAN_PRODUCTS in shared/loanProducts.ts
+INSERT INTO loan_products (id, name, synonyms, policy_id, min_rate, max_rate, min_amount, max_amount, min_term_years, max_term_years, required_fields, documents, sort_order) VALUES
+  ('personal', 'Personal Loan', '["consumer loan", "travel loan", "holiday loan", "medical loan", "wedding loan", "marriage loan"]', 'personal',
+    10.5, 18, 25000, 4000000, 1, 5,
+    '["loan_type", "applicant_name", "monthly_income", "loan_amount", "employment_status", "credit_score", "existing_emis", "credit_card_dues", "dependents"]',
+    '["pan", "aadhaar", "salary_slip", "bank_statement"]', 1),
+  ('home', 'Home Loan', '["house loan", "housing loan", "home mortgage", "mortgage loan", "property loan"]', 'home',
+    6.5, 12, 500000, 100000000, 5, 30,
+    '["loan_type", "applicant_name", "monthly_income", "loan_amount", "employment_status", "credit_score", "existing_emis", "credit_card_dues", "dependents"]',
+    '["pan", "aadhaar", "salary_slip", "bank_statement", "itr", "property_documents"]', 2),
+  ('vehicle', 'Vehicle Loan', '["car loan", "auto loan", "bike loan", "two wheeler loan", "two-wheeler loan", "motorcycle loan", "scooter loan"]', 'vehicle',
+    7, 15, 50000, 10000000, 1, 7,
+    '["loan_type", "applicant_name", "monthly_income", "loan_amount", "employment_status", "credit_score", "existing_emis", "credit_card_dues", "dependents"]',
+    '["pan", "aadhaar", "salary_slip", "bank_statement", "vehicle_quotation"]', 3),
+  ('business', 'Business Loan', '["msme loan", "sme loan", "working capital loan", "startup loan", "shop loan"]', 'business',
+    9, 18, 100000, 50000000, 1, 10,
+    '["loan_type", "applicant_name", "monthly_income", "loan_amount", "employment_status", "credit_score", "existing_emis", "credit_card_dues", "dependents"]',
+    '["pan", "aadhaar", "bank_statement", "itr", "business_registration"]', 4),
+  ('education', 'Education Loan', '["student loan", "study loan", "college loan"]', 'education',
+    7.5, 14, 50000, 15000000, 1, 15,
+    '["loan_type", "applicant_name", "monthly_income", "loan_amount", "employment_status", "credit_score", "existing_emis", "credit_card_dues", "dependents"]',
+    '["pan", "aadhaar", "bank_statement", "admission_letter"]', 5),
+  ('gold', 'Gold Loan', '["loan against gold", "gold jewellery loan", "jewel loan"]', 'gold',
+    8.5, 18, 10000, 10000000, 1, 3,
+    '["loan_type", "applicant_name", "monthly_income", "loan_amount", "employment_status", "credit_score", "existing_emis", "credit_card_dues", "dependents"]',
+    '["pan", "aadhaar", "collateral_documents"]', 6);
@@ -0,0 +1,3 @@
+ALTER TABLE loan_applications DROP COLUMN IF EXISTS product_details;
+
+ALTER TABLE loan_products DROP COLUMN IF EXISTS questions;
@@ -0,0 +1,27 @@
+ALTER TABLE loan_products ADD COLUMN questions JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE loan_applications ADD COLUMN product_details JSONB;
+
+-- The product questions in DEFAULT_LOAN_PRODUCTS (shared/loanProducts.ts)
+UPDATE loan_products SET questions = '[
+  {"id":"make_model","label":"vehicle make and model","prompt":"Which vehicle are you buying? Please give the make and model.","kind":"text","collateral":"description"},
+  {"id":"on_road_price","label":"on-road price","prompt":"What is its on-road price, including registration and insurance?","kind":"amount","validation":{"min":20000,"max":50000000},"collateral":"value"},
+  {"id":"vehicle_condition","label":"vehicle condition","prompt":"Is it new or used?","kind":"choice","validation":{"options":["new","used"]},"next":[{"when":{"vehicle_condition":{"eq":"new"}},"to":null}]},
+  {"id":"vehicle_age","label":"vehicle age","prompt":"How many years old is it?","kind":"number","validation":{"min":0,"max":10,"message":"We finance used vehicles up to 10 years old."}}
+]'
+WHERE id = 'vehicle';
+
+UPDATE loan_products SET questions = '[
+  {"id":"business_vintage","label":"years in business","prompt":"How many years has your business been running?","kind":"number","validation":{"min":0,"max":100}},
+  {"id":"annual_turnover","label":"annual turnover","prompt":"What was your business''s turnover over the last year?","kind":"amount","validation":{"min":10000},"next":[{"when":{"annual_turnover":{"lt":4000000}},"to":null}]},
+  {"id":"gstin","label":"GSTIN","prompt":"What is your business''s GSTIN?","kind":"text","validation":{"pattern":"\\d{2}[a-z]{5}\\d{4}[a-z][1-9a-z]z[0-9a-z]","message":"A GSTIN has 15 characters, like 27AAPFU0939F1ZV."}}
+]'
+WHERE id = 'business';
+
+UPDATE loan_products SET questions = '[
+  {"id":"institution","label":"institution","prompt":"Which college or university will you be studying at?","kind":"text"},
+  {"id":"course","label":"course","prompt":"Which course will you be studying?","kind":"text"},
+  {"id":"study_location","label":"place of study","prompt":"Is the course in India or abroad?","kind":"choice","validation":{"options":["India","abroad"]},"next":[{"when":{"study_location":{"eq":"India"}},"to":null}]},
+  {"id":"study_country","label":"country of study","prompt":"Which country will you be studying in?","kind":"text","validation":{"pattern":"[\\p{L} .''-]{2,60}","message":"Please tell me the country by name."}}
+]'
+WHERE id = 'education';
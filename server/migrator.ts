@@ -0,0 +1,168 @@
+// Versioned SQL migrations. Each migration is a pair of files in
+// server/migrations named NNNN_description.up.sql / NNNN_description.down.sql.
+// Applied versions are recorded in schema_migrations together with a checksum
+// of the up script, so edits to an already-applied migration are detected.
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync } from 'node:fs';
+import type { PoolClient } from 'pg';
+import { config } from './config';
+import { pool } from './db';
+
+const MIGRATION_FILE = /^(\d{4})_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: Migration[];
+  // Applied migrations whose up script changed on disk
+  modified: Migration[];
+  // Versions recorded in the database that no longer exist on disk
+  unknown: AppliedMigration[];
+}
+
+// Normalise line endings so a Windows checkout doesn't look like an edited migration
+const checksumOf = (sql: string) => createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+
+export const loadMigrations = (dir: string = config.migrationsDir): Migration[] => {
+  const files = new Map<number, { name: string; up?: string; down?: string }>();
+
+  for (const file of readdirSync(dir)) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) continue;
+
+    const [, version, name, direction] = match;
+    const entry = files.get(Number(version)) ?? { name };
+    if (entry.name !== name) {
+      throw new Error(`Migration ${version} has conflicting names: ${entry.name}, ${name}`);
+    }
+    entry[direction as 'up' | 'down'] = readFileSync(`${dir}/${file}`, 'utf8');
+    files.set(Number(version), entry);
+  }
+
+  return Array.from(files.entries())
+    .map(([version, { name, up, down }]) => {
+      if (up === undefined || down === undefined) {
+        throw new Error(`Migration ${version}_${name} needs both an up and a down script`);
+      }
+      return { version, name, up, down, checksum: checksumOf(up) };
+    })
+    .sort((a, b) => a.version - b.version);
+};
+
+const ensureMigrationsTable = async (client: PoolClient) => {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum VARCHAR(64) NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+    )
+  `);
+};
+
+const getAppliedMigrations = async (client: PoolClient): Promise<AppliedMigration[]> => {
+  await ensureMigrationsTable(client);
+  const result = await client.query<AppliedMigration>(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+  return result.rows;
+};
+
+const withClient = async <T>(fn: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+  try {
+    return await fn(client);
+  } finally {
+    client.release();
+  }
+};
+
+const inTransaction = async (client: PoolClient, fn: () => Promise<void>) => {
+  await client.query('BEGIN');
+  try {
+    await fn();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+};
+
+export const compareMigrations = (migrations: Migration[], applied: AppliedMigration[]): MigrationStatus => {
+  const appliedByVersion = new Map(applied.map(m => [m.version, m]));
+  const known = new Set(migrations.map(m => m.version));
+
+  return {
+    applied,
+    pending: migrations.filter(m => !appliedByVersion.has(m.version)),
+    modified: migrations.filter(m => {
+      const record = appliedByVersion.get(m.version);
+      return record !== undefined && record.checksum !== m.checksum;
+    }),
+    unknown: applied.filter(m => !known.has(m.version)),
+  };
+};
+
+export const getMigrationStatus = async (): Promise<MigrationStatus> =>
+  withClient(async client => compareMigrations(loadMigrations(), await getAppliedMigrations(client)));
+
+// Apply all pending migrations in order, each in its own transaction
+export const migrateUp = async (): Promise<Migration[]> =>
+  withClient(async client => {
+    const status = compareMigrations(loadMigrations(), await getAppliedMigrations(client));
+    if (status.modified.length > 0) {
+      const names = status.modified.map(m => `${m.version}_${m.name}`).join(', ');
+      throw new Error(`Applied migrations were modified on disk: ${names}`);
+    }
+
+    for (const migration of status.pending) {
+      console.log(`⬆️  Applying migration ${migration.version}_${migration.name}`);
+      await inTransaction(client, async () => {
+        await client.query(migration.up);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, migration.checksum]
+        );
+      });
+    }
+
+    return status.pending;
+  });
+
+// Roll back the most recently applied migrations
+export const migrateDown = async (steps = 1): Promise<Migration[]> =>
+  withClient(async client => {
+    const migrations = new Map(loadMigrations().map(m => [m.version, m]));
+    const applied = await getAppliedMigrations(client);
+    const rolledBack: Migration[] = [];
+
+    for (const record of applied.slice(-steps).reverse()) {
+      const migration = migrations.get(record.version);
+      if (!migration) {
+        throw new Error(`No down script on disk for applied migration ${record.version}_${record.name}`);
+      }
+
+      console.log(`⬇️  Rolling back migration ${migration.version}_${migration.name}`);
+      await inTransaction(client, async () => {
+        await client.query(migration.down);
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+      });
+      rolledBack.push(migration);
+    }
+
+    return rolledBack;
+  });
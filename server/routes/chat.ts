@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { chatOperations } from '../dbOperations';
+import { getUserId } from '../middleware/auth';
+import { asyncRoute } from '../http';
+import type { ConversationMode, NewChatMessage } from '../../shared/types';
+
+export const chatRouter = Router();
+
+chatRouter.get('/', asyncRoute(async (req, res) => {
+  const messages = await chatOperations.getChatMessages(getUserId(req));
+  res.json(messages);
+}));
+
+chatRouter.post('/', asyncRoute(async (req, res) => {
+  // mode only matters when this message starts a new conversation
+  const body = req.body as Partial<NewChatMessage> & { mode?: ConversationMode };
+
+  if (typeof body.content !== 'string' || !body.sender || !body.conversation_id) {
+    res.status(400).json({ error: 'content, sender and conversation_id are required' });
+    return;
+  }
+
+  const message = await chatOperations.addChatMessage({
+    content: body.content,
+    sender: body.sender,
+    type: body.type || 'text',
+    conversation_id: body.conversation_id,
+    timestamp: body.timestamp ? new Date(body.timestamp) : undefined,
+    user_id: getUserId(req),
+  }, body.mode === 'voice' ? 'voice' : 'chat');
+
+  if (!message) {
+    res.status(500).json({ error: 'Failed to save message' });
+    return;
+  }
+  res.status(201).json(message);
+}));
+
+chatRouter.delete('/', asyncRoute(async (req, res) => {
+  const cleared = await chatOperations.clearChatMessages(getUserId(req));
+  res.status(cleared ? 204 : 500).end();
+}));
@@ -0,0 +1,148 @@
+import { Router } from 'express';
+import { chatOperations, draftOperations } from '../dbOperations';
+import { getUserId } from '../middleware/auth';
+import { asyncRoute } from '../http';
+import type {
+  ConversationMode,
+  ConversationUpdate,
+  LoanApplicationDraftInput,
+  LoanApplicationStage,
+  NewConversation
+} from '../../shared/types';
+
+export const conversationsRouter = Router();
+
+const CONVERSATION_MODES: ConversationMode[] = ['chat', 'voice'];
+const DRAFT_STAGES: LoanApplicationStage[] = ['initial', 'personal_info', 'loan_details', 'financial_info', 'terms_review', 'complete'];
+
+conversationsRouter.get('/', asyncRoute(async (req, res) => {
+  const { archived, limit, offset } = req.query;
+
+  const page = await chatOperations.getConversations(getUserId(req), {
+    archived: archived === 'true',
+    limit: typeof limit === 'string' ? parseInt(limit, 10) || undefined : undefined,
+    offset: typeof offset === 'string' ? parseInt(offset, 10) || undefined : undefined,
+  });
+  res.json(page);
+}));
+
+conversationsRouter.post('/', asyncRoute(async (req, res) => {
+  const body = req.body as Partial<NewConversation>;
+
+  if (typeof body.id !== 'string' || !body.id) {
+    res.status(400).json({ error: 'id is required' });
+    return;
+  }
+  if (body.mode !== undefined && !CONVERSATION_MODES.includes(body.mode)) {
+    res.status(400).json({ error: `mode must be one of: ${CONVERSATION_MODES.join(', ')}` });
+    return;
+  }
+
+  const conversation = await chatOperations.createConversation(getUserId(req), {
+    id: body.id,
+    mode: body.mode,
+    title: body.title,
+  });
+
+  if (!conversation) {
+    res.status(409).json({ error: 'Conversation could not be created' });
+    return;
+  }
+  res.status(201).json(conversation);
+}));
+
+conversationsRouter.get('/:conversationId', asyncRoute(async (req, res) => {
+  const conversation = await chatOperations.getConversation(getUserId(req), req.params.conversationId);
+
+  if (!conversation) {
+    res.status(404).json({ error: 'Conversation not found' });
+    return;
+  }
+  res.json(conversation);
+}));
+
+conversationsRouter.patch('/:conversationId', asyncRoute(async (req, res) => {
+  const body = req.body as ConversationUpdate;
+  const update: ConversationUpdate = {};
+
+  if (body.title !== undefined) {
+    const title = typeof body.title === 'string' ? body.title.trim() : null;
+    update.title = title ? title.substring(0, 255) : null;
+  }
+  if (body.archived !== undefined) {
+    if (typeof body.archived !== 'boolean') {
+      res.status(400).json({ error: 'archived must be a boolean' });
+      return;
+    }
+    update.archived = body.archived;
+  }
+  if (body.loan_application_id !== undefined) {
+    update.loan_application_id = body.loan_application_id || null;
+  }
+
+  if (Object.keys(update).length === 0) {
+    res.status(400).json({ error: 'Nothing to update' });
+    return;
+  }
+
+  const conversation = await chatOperations.updateConversation(getUserId(req), req.params.conversationId, update);
+
+  if (!conversation) {
+    res.status(404).json({ error: 'Conversation not found' });
+    return;
+  }
+  res.json(conversation);
+}));
+
+conversationsRouter.get('/:conversationId/messages', asyncRoute(async (req, res) => {
+  const messages = await chatOperations.getConversationMessages(getUserId(req), req.params.conversationId);
+  res.json(messages);
+}));
+
+conversationsRouter.delete('/:conversationId', asyncRoute(async (req, res) => {
+  const deleted = await chatOperations.deleteConversation(getUserId(req), req.params.conversationId);
+  res.status(deleted ? 204 : 500).end();
+}));
+
+conversationsRouter.get('/:conversationId/draft', asyncRoute(async (req, res) => {
+  const draft = await draftOperations.getDraft(getUserId(req), req.params.conversationId);
+
+  if (!draft) {
+    res.status(404).json({ error: 'Draft not found' });
+    return;
+  }
+  res.json(draft);
+}));
+
+conversationsRouter.put('/:conversationId/draft', asyncRoute(async (req, res) => {
+  const body = req.body as Partial<LoanApplicationDraftInput>;
+
+  if (!body.stage || !DRAFT_STAGES.includes(body.stage)) {
+    res.status(400).json({ error: `stage must be one of: ${DRAFT_STAGES.join(', ')}` });
+    return;
+  }
+  if (typeof body.data !== 'object' || body.data === null || Array.isArray(body.data)) {
+    res.status(400).json({ error: 'data must be an object' });
+    return;
+  }
+
+  const draft = await draftOperations.saveDraft(getUserId(req), req.params.conversationId, {
+    stage: body.stage,
+    data: body.data,
+    manually_edited_fields: Array.isArray(body.manually_edited_fields)
+      ? body.manually_edited_fields.filter((field): field is string => typeof field === 'string')
+      : [],
+    calculated_terms: body.calculated_terms ?? null,
+  });
+
+  if (!draft) {
+    res.status(500).json({ error: 'Failed to save draft' });
+    return;
+  }
+  res.json(draft);
+}));
+
+conversationsRouter.delete('/:conversationId/draft', asyncRoute(async (req, res) => {
+  const deleted = await draftOperations.deleteDraft(getUserId(req), req.params.conversationId);
+  res.status(deleted ? 204 : 500).end();
+}));
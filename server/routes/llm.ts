@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { getUserId } from '../middleware/auth';
+import { asyncRoute } from '../http';
+import { LlmRequestError, llmClient, modelFor } from '../services/llm';
+import type { LlmChatRequest, LlmChatResponse, LlmTask } from '../../shared/types';
+
+export const llmRouter = Router();
+
+const TASKS: LlmTask[] = ['chat', 'extraction'];
+const MAX_TOKENS = 1000;
+const RESPONSE_FORMATS = ['text', 'json'];
+
+llmRouter.post('/chat', asyncRoute(async (req, res) => {
+  const body = req.body as Partial<LlmChatRequest>;
+  const task = body.task ?? 'chat';
+
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    res.status(400).json({ error: 'messages are required' });
+    return;
+  }
+  if (!TASKS.includes(task)) {
+    res.status(400).json({ error: `task must be one of: ${TASKS.join(', ')}` });
+    return;
+  }
+  if (body.response_format !== undefined && !RESPONSE_FORMATS.includes(body.response_format)) {
+    res.status(400).json({ error: `response_format must be one of: ${RESPONSE_FORMATS.join(', ')}` });
+    return;
+  }
+
+  try {
+    const completion = await llmClient.complete({
+      task,
+      model: modelFor(task),
+      messages: body.messages,
+      temperature: body.temperature ?? 0.7,
+      max_tokens: Math.min(body.max_tokens ?? 200, MAX_TOKENS),
+      response_format: body.response_format,
+      user: getUserId(req),
+    });
+    const response: LlmChatResponse = { content: completion.content, usage: completion.usage };
+    res.json(response);
+  } catch (error) {
+    if (error instanceof LlmRequestError) {
+      // Pass rate limits through so the client can back off
+      res.status(error.status === 429 ? 429 : error.status === 504 ? 504 : 502).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+}));
+
+// Tokens the caller has used since the server started
+llmRouter.get('/usage', asyncRoute(async (req, res) => {
+  res.json(llmClient.usage.forUser(getUserId(req)));
+}));
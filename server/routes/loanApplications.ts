@@ -0,0 +1,304 @@
+import { randomUUID } from 'node:crypto';
+import express, { Router } from 'express';
+import { documentOperations, loanOperations } from '../dbOperations';
+import { getActor, requirePermission } from '../middleware/auth';
+import { asyncRoute } from '../http';
+import { loanProductCatalog, policyRegistry } from '../underwriting';
+import { REASON_LENGTH, isValidReason, transitionStatus } from '../statusTransitions';
+import { getApplicationDocuments, matchesContentType, readFileName } from '../documents';
+import { documentStorage } from '../services/documentStorage';
+import { MAX_COLLATERAL, MAX_COLLATERAL_VALUE, isCollateralType } from '../../shared/collateral';
+import { ACCEPTED_DOCUMENT_CONTENT_TYPES, DOCUMENT_UPLOAD_STATUSES, MAX_DOCUMENT_BYTES, isDocumentType } from '../../shared/documents';
+import { fieldErrors } from '../../shared/fieldValidation';
+import { INITIAL_STATUSES, isLoanApplicationStatus } from '../../shared/loanStatus';
+import { MAX_PARTIES, PARTY_FIELDS, isPartyRole, partyFieldError } from '../../shared/parties';
+import { MAX_PRODUCT_QUESTIONS, detailAnswerError } from '../../shared/questionGraph';
+import { evaluatePolicy, termLimits } from '../../shared/underwriting/engine';
+import type {
+  LoanApplicationDocument,
+  LoanApplicationStatusUpdate,
+  NewLoanApplication,
+  NewLoanApplicationCollateral,
+  NewLoanApplicationParty
+} from '../../shared/types';
+
+export const loanApplicationsRouter = Router();
+
+// Co-applicants and guarantors need a role, a name, an income and an employment status
+const isValidParty = (party: Partial<NewLoanApplicationParty> | null): boolean =>
+  !!party && isPartyRole(party.role) && !!party.name && !!party.monthly_income && !!party.employment_status;
+
+// The first detail of a party the applicant couldn't have given either
+const partyError = (party: Partial<NewLoanApplicationParty>): string | null => {
+  for (const detail of PARTY_FIELDS) {
+    const error = partyFieldError(detail, party[detail]);
+    if (error) return `${detail}: ${error}`;
+  }
+  return null;
+};
+
+// Collateral needs a type, a description and a positive declared value its column can hold
+const isValidCollateral = (item: Partial<NewLoanApplicationCollateral> | null): boolean => {
+  if (!item || !isCollateralType(item.type) || !item.description) return false;
+  const value = parseFloat(String(item.value ?? '').replace(/[^0-9.]/g, ''));
+  return value > 0 && value <= MAX_COLLATERAL_VALUE;
+};
+
+// Answers to the product's questions: a flat object of short text and numbers
+const isValidProductDetails = (details: unknown): details is Record<string, string | number> =>
+  typeof details === 'object' && details !== null && !Array.isArray(details) &&
+  Object.keys(details).length <= MAX_PRODUCT_QUESTIONS &&
+  Object.values(details).every(value =>
+    (typeof value === 'string' && value.length <= 200) || (typeof value === 'number' && Number.isFinite(value)));
+
+loanApplicationsRouter.get('/', requirePermission('applications:read:own'), asyncRoute(async (req, res) => {
+  const applications = await loanOperations.getLoanApplications(getActor(req));
+  res.json(applications);
+}));
+
+loanApplicationsRouter.get('/:id', asyncRoute(async (req, res) => {
+  const application = await loanOperations.getLoanApplication(getActor(req), req.params.id);
+  if (!application) {
+    res.status(404).json({ error: 'Loan application not found' });
+    return;
+  }
+  res.json(application);
+}));
+
+loanApplicationsRouter.post('/', requirePermission('applications:create'), asyncRoute(async (req, res) => {
+  const body = req.body as Partial<NewLoanApplication>;
+
+  if (!body.applicant_name || !body.loan_type || !body.loan_amount || !body.monthly_income || !body.employment_status) {
+    res.status(400).json({ error: 'applicant_name, loan_type, loan_amount, monthly_income and employment_status are required' });
+    return;
+  }
+
+  // The same checks the chat makes. Amounts outside the product's range are
+  // left to the policy, which declines them.
+  const [invalid] = Object.entries(fieldErrors(body));
+  if (invalid) {
+    res.status(400).json({ error: `${invalid[0]}: ${invalid[1]}` });
+    return;
+  }
+
+  const parties = body.parties ?? [];
+  if (!Array.isArray(parties) || parties.length > MAX_PARTIES || !parties.every(isValidParty)) {
+    res.status(400).json({ error: `parties must be a list of at most ${MAX_PARTIES} co-applicants or guarantors, each with a name, monthly_income and employment_status` });
+    return;
+  }
+  for (const [index, party] of parties.entries()) {
+    const error = partyError(party);
+    if (error) {
+      res.status(400).json({ error: `parties[${index}].${error}` });
+      return;
+    }
+  }
+
+  const collateral = body.collateral ?? [];
+  if (!Array.isArray(collateral) || collateral.length > MAX_COLLATERAL || !collateral.every(isValidCollateral)) {
+    res.status(400).json({ error: `collateral must be a list of at most ${MAX_COLLATERAL} items, each with a type, a description and a value of at most ${MAX_COLLATERAL_VALUE}` });
+    return;
+  }
+
+  const productDetails = body.product_details ?? null;
+  if (productDetails !== null && !isValidProductDetails(productDetails)) {
+    res.status(400).json({ error: `product_details must be an object of at most ${MAX_PRODUCT_QUESTIONS} answers, each text or a number` });
+    return;
+  }
+
+  const status = body.status ?? 'submitted';
+  if (!INITIAL_STATUSES.includes(status)) {
+    res.status(400).json({ error: `New applications must start as ${INITIAL_STATUSES.join(' or ')}` });
+    return;
+  }
+
+  // New applications are priced by the policy in effect for their loan type;
+  // terms quoted from any other policy, or an older version, are refused
+  const policy = policyRegistry.forLoanType(body.loan_type);
+  if ((body.policy_id || body.policy_version) && (body.policy_id !== policy.id || body.policy_version !== policy.version)) {
+    res.status(400).json({ error: `${body.loan_type} terms must be quoted from underwriting policy ${policy.id}@${policy.version}` });
+    return;
+  }
+  const terms = termLimits(policy);
+  if (body.loan_term !== undefined && body.loan_term !== null
+    && !(Number.isInteger(body.loan_term) && body.loan_term >= terms.min && body.loan_term <= terms.max)) {
+    res.status(400).json({ error: `loan_term must be a whole number of years from ${terms.min} to ${terms.max}` });
+    return;
+  }
+  if (body.interest_rate !== undefined && body.interest_rate !== null) {
+    const quoted = evaluatePolicy(policy, { ...body, parties, collateral }).quoted_rate;
+    if (parseFloat(String(body.interest_rate)) !== parseFloat(quoted)) {
+      res.status(400).json({ error: `interest_rate must be the ${quoted}% the policy quotes for these terms` });
+      return;
+    }
+  }
+
+  // "car loan" is stored as the catalog's "Vehicle Loan"
+  const product = loanProductCatalog.forLoanType(body.loan_type);
+
+  // Answers to questions the product still asks have to pass its validation
+  for (const [id, value] of Object.entries(productDetails ?? {})) {
+    const question = product?.questions.find(candidate => candidate.id === id);
+    const error = question && detailAnswerError(question, value);
+    if (error) {
+      res.status(400).json({ error: `${question.label}: ${error}` });
+      return;
+    }
+  }
+
+  const actor = getActor(req);
+  const application = await loanOperations.addLoanApplication(actor, {
+    applicant_name: body.applicant_name,
+    loan_amount: body.loan_amount,
+    loan_type: product?.name ?? body.loan_type,
+    status,
+    credit_score: body.credit_score ?? null,
+    monthly_income: body.monthly_income,
+    employment_status: body.employment_status,
+    loan_purpose: body.loan_purpose ?? null,
+    interest_rate: body.interest_rate ?? null,
+    loan_term: body.loan_term ?? null,
+    existing_emis: body.existing_emis ?? null,
+    credit_card_dues: body.credit_card_dues ?? null,
+    dependents: body.dependents ?? null,
+    parties,
+    collateral,
+    product_details: productDetails,
+    user_id: actor.userId,
+    policy_id: policy.id,
+    policy_version: policy.version,
+  });
+
+  if (!application) {
+    res.status(500).json({ error: 'Failed to create loan application' });
+    return;
+  }
+  res.status(201).json(application);
+}));
+
+// Applicants can submit a draft or withdraw; review decisions go through /api/officer
+loanApplicationsRouter.patch('/:id/status', requirePermission('applications:update:own'), asyncRoute(async (req, res) => {
+  const { status, reason } = req.body as Partial<LoanApplicationStatusUpdate>;
+
+  if (!isLoanApplicationStatus(status)) {
+    res.status(400).json({ error: 'status must be a known application status' });
+    return;
+  }
+  if (!isValidReason(reason)) {
+    res.status(400).json({ error: `reason must be a string of at most ${REASON_LENGTH} characters` });
+    return;
+  }
+
+  const actor = getActor(req);
+  const application = await loanOperations.getLoanApplication(actor, req.params.id);
+  if (!application) {
+    res.status(404).json({ error: 'Loan application not found' });
+    return;
+  }
+
+  const result = await transitionStatus(actor, application, status, reason?.trim() || null);
+  if (!result.ok) {
+    res.status(result.status).json({ error: result.error });
+    return;
+  }
+  res.json(result.application);
+}));
+
+loanApplicationsRouter.get('/:id/events', asyncRoute(async (req, res) => {
+  const actor = getActor(req);
+  const application = await loanOperations.getLoanApplication(actor, req.params.id);
+  if (!application) {
+    res.status(404).json({ error: 'Loan application not found' });
+    return;
+  }
+
+  const events = await loanOperations.getLoanApplicationEvents(actor, application);
+  res.json(events);
+}));
+
+// Checklist from the application's policy plus every upload
+loanApplicationsRouter.get('/:id/documents', asyncRoute(async (req, res) => {
+  const actor = getActor(req);
+  const application = await loanOperations.getLoanApplication(actor, req.params.id);
+  if (!application) {
+    res.status(404).json({ error: 'Loan application not found' });
+    return;
+  }
+
+  res.json(await getApplicationDocuments(actor, application));
+}));
+
+// The body is the file itself, sent with its own Content-Type. The document type
+// comes from ?document_type= and the original name from X-File-Name.
+loanApplicationsRouter.post(
+  '/:id/documents',
+  requirePermission('applications:update:own'),
+  express.raw({ type: ACCEPTED_DOCUMENT_CONTENT_TYPES, limit: MAX_DOCUMENT_BYTES }),
+  asyncRoute(async (req, res) => {
+    const { document_type } = req.query;
+    const contentType = (req.header('content-type') || '').split(';')[0].trim().toLowerCase();
+
+    if (!isDocumentType(document_type)) {
+      res.status(400).json({ error: 'document_type must be a known document type' });
+      return;
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0 || !matchesContentType(req.body, contentType)) {
+      res.status(400).json({ error: 'Upload a PDF, JPEG or PNG file' });
+      return;
+    }
+
+    const actor = getActor(req);
+    const application = await loanOperations.getLoanApplication(actor, req.params.id);
+    if (!application) {
+      res.status(404).json({ error: 'Loan application not found' });
+      return;
+    }
+    if (!DOCUMENT_UPLOAD_STATUSES.includes(application.status)) {
+      res.status(409).json({ error: `Cannot upload documents to a ${application.status} application` });
+      return;
+    }
+
+    const id = randomUUID();
+    const storageKey = `${application.id}/${id}`;
+    await documentStorage.put(storageKey, req.body, contentType);
+
+    // Don't leave the file behind if the row could not be written
+    let document: LoanApplicationDocument | null = null;
+    try {
+      document = await documentOperations.addDocument(actor, application, {
+        id,
+        document_type,
+        file_name: readFileName(req.header('x-file-name'), document_type),
+        content_type: contentType,
+        size_bytes: req.body.length,
+        storage_key: storageKey,
+      });
+    } finally {
+      if (!document) {
+        await documentStorage.remove(storageKey);
+      }
+    }
+
+    if (!document) {
+      res.status(500).json({ error: 'Failed to save the document' });
+      return;
+    }
+    res.status(201).json(document);
+  })
+);
+
+loanApplicationsRouter.get('/:id/documents/:documentId/file', asyncRoute(async (req, res) => {
+  const actor = getActor(req);
+  const application = await loanOperations.getLoanApplication(actor, req.params.id);
+  const document = application && await documentOperations.getDocument(actor, application, req.params.documentId);
+  if (!document) {
+    res.status(404).json({ error: 'Document not found' });
+    return;
+  }
+
+  const file = await documentStorage.get(document.storage_key);
+  res.setHeader('Content-Type', document.content_type);
+  res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(document.file_name)}`);
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.send(file);
+}));
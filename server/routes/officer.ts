@@ -0,0 +1,204 @@
+import { Router } from 'express';
+import { documentOperations, loanOperations } from '../dbOperations';
+import { getActor, requirePermission } from '../middleware/auth';
+import { asyncRoute } from '../http';
+import { listOfficers } from '../services/clerkUsers';
+import { evaluateApplication } from '../underwriting';
+import { REASON_LENGTH, isValidReason, transitionStatus } from '../statusTransitions';
+import { DOCUMENT_LABELS } from '../../shared/documents';
+import { APPLICANT_STATUSES, isLoanApplicationStatus } from '../../shared/loanStatus';
+import type { ApplicationQueueFilters, DocumentReview, LoanApplicationStatusUpdate, OfficerApplicationDetail } from '../../shared/types';
+
+// Back-office console. Mounted behind the applications:read:any permission;
+// anything that changes an application also needs applications:review.
+export const officerRouter = Router();
+
+const ASSIGNMENT_FILTERS: NonNullable<ApplicationQueueFilters['assigned']>[] = ['me', 'unassigned', 'any'];
+
+const numberParam = (value: unknown): number | undefined => {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+officerRouter.get('/officers', asyncRoute(async (_req, res) => {
+  res.json(await listOfficers());
+}));
+
+officerRouter.get('/applications', asyncRoute(async (req, res) => {
+  const { status, loan_type, assigned } = req.query;
+
+  // Drafts haven't been submitted, so officers can't list them
+  if (status !== undefined && (!isLoanApplicationStatus(status) || status === 'draft')) {
+    res.status(400).json({ error: 'status must be a submitted application status' });
+    return;
+  }
+  if (assigned !== undefined && !ASSIGNMENT_FILTERS.some(filter => filter === assigned)) {
+    res.status(400).json({ error: `assigned must be one of: ${ASSIGNMENT_FILTERS.join(', ')}` });
+    return;
+  }
+
+  const page = await loanOperations.getApplicationQueue(getActor(req), {
+    status,
+    loan_type: typeof loan_type === 'string' && loan_type.trim() ? loan_type.trim() : undefined,
+    min_amount: numberParam(req.query.min_amount),
+    max_amount: numberParam(req.query.max_amount),
+    min_score: numberParam(req.query.min_score),
+    max_score: numberParam(req.query.max_score),
+    assigned: assigned as ApplicationQueueFilters['assigned'],
+    limit: numberParam(req.query.limit),
+    offset: numberParam(req.query.offset),
+  });
+  res.json(page);
+}));
+
+officerRouter.get('/applications/:id', asyncRoute(async (req, res) => {
+  const actor = getActor(req);
+  const application = await loanOperations.getLoanApplication(actor, req.params.id);
+  if (!application) {
+    res.status(404).json({ error: 'Loan application not found' });
+    return;
+  }
+
+  const detail: OfficerApplicationDetail = {
+    application,
+    events: await loanOperations.getLoanApplicationEvents(actor, application),
+    analysis: evaluateApplication(application),
+  };
+  res.json(detail);
+}));
+
+// Body: { officer_id } - omit to take the application yourself, null to unassign
+officerRouter.post('/applications/:id/assign', requirePermission('applications:review'), asyncRoute(async (req, res) => {
+  const actor = getActor(req);
+  const { officer_id } = req.body as { officer_id?: string | null };
+  const officerId = officer_id === undefined ? actor.userId : officer_id;
+
+  if (officerId !== null && typeof officerId !== 'string') {
+    res.status(400).json({ error: 'officer_id must be a string or null' });
+    return;
+  }
+
+  let reason = 'Unassigned';
+  if (officerId) {
+    const officer = (await listOfficers()).find(candidate => candidate.id === officerId);
+    if (!officer) {
+      res.status(400).json({ error: 'officer_id is not a loan officer' });
+      return;
+    }
+    reason = `Assigned to ${officer.name}`;
+  }
+
+  const application = await loanOperations.getLoanApplication(actor, req.params.id);
+  if (!application) {
+    res.status(404).json({ error: 'Loan application not found' });
+    return;
+  }
+
+  const updated = await loanOperations.assignLoanApplication(actor, application, officerId, reason);
+  if (!updated) {
+    res.status(500).json({ error: 'Failed to assign loan application' });
+    return;
+  }
+  res.json(updated);
+}));
+
+// Review decisions: start review, approve (conditionally), reject, disburse, close
+officerRouter.post('/applications/:id/status', requirePermission('applications:review'), asyncRoute(async (req, res) => {
+  const { status, reason } = req.body as Partial<LoanApplicationStatusUpdate>;
+
+  if (!isLoanApplicationStatus(status) || APPLICANT_STATUSES.includes(status)) {
+    res.status(400).json({ error: 'status must be a review decision' });
+    return;
+  }
+  if (!isValidReason(reason)) {
+    res.status(400).json({ error: `reason must be a string of at most ${REASON_LENGTH} characters` });
+    return;
+  }
+  if ((status === 'rejected' || status === 'conditionally_approved') && !reason?.trim()) {
+    res.status(400).json({ error: `A note is required when the decision is ${status}` });
+    return;
+  }
+
+  const actor = getActor(req);
+  const application = await loanOperations.getLoanApplication(actor, req.params.id);
+  if (!application) {
+    res.status(404).json({ error: 'Loan application not found' });
+    return;
+  }
+
+  const result = await transitionStatus(actor, application, status, reason?.trim() || null);
+  if (!result.ok) {
+    res.status(result.status).json({ error: result.error });
+    return;
+  }
+  res.json(result.application);
+}));
+
+officerRouter.post('/applications/:id/request-info', requirePermission('applications:review'), asyncRoute(async (req, res) => {
+  const { reason } = req.body as { reason?: string };
+
+  if (typeof reason !== 'string' || !reason.trim() || reason.length > REASON_LENGTH) {
+    res.status(400).json({ error: `reason is required (at most ${REASON_LENGTH} characters)` });
+    return;
+  }
+
+  const actor = getActor(req);
+  const application = await loanOperations.getLoanApplication(actor, req.params.id);
+  if (!application) {
+    res.status(404).json({ error: 'Loan application not found' });
+    return;
+  }
+  if (application.status !== 'submitted' && application.status !== 'under_review' && application.status !== 'conditionally_approved') {
+    res.status(409).json({ error: `Cannot request information on a ${application.status} application` });
+    return;
+  }
+
+  const event = await loanOperations.addLoanApplicationNote(actor, application, 'info_requested', reason.trim());
+  if (!event) {
+    res.status(500).json({ error: 'Failed to record the information request' });
+    return;
+  }
+  res.status(201).json(event);
+}));
+
+// Body: { status: 'verified' | 'rejected', note } - rejections need a note the applicant will see
+officerRouter.post('/applications/:id/documents/:documentId/review', requirePermission('applications:review'), asyncRoute(async (req, res) => {
+  const { status, note } = req.body as Partial<DocumentReview>;
+
+  if (status !== 'verified' && status !== 'rejected') {
+    res.status(400).json({ error: 'status must be verified or rejected' });
+    return;
+  }
+  if (!isValidReason(note)) {
+    res.status(400).json({ error: `note must be a string of at most ${REASON_LENGTH} characters` });
+    return;
+  }
+  if (status === 'rejected' && !note?.trim()) {
+    res.status(400).json({ error: 'A note is required when rejecting a document' });
+    return;
+  }
+
+  const actor = getActor(req);
+  const application = await loanOperations.getLoanApplication(actor, req.params.id);
+  const document = application && await documentOperations.getDocument(actor, application, req.params.documentId);
+  if (!application || !document) {
+    res.status(404).json({ error: 'Document not found' });
+    return;
+  }
+
+  const trimmed = note?.trim() || null;
+  const summary = `${DOCUMENT_LABELS[document.document_type]} ${status}`;
+  const updated = await documentOperations.reviewDocument(
+    actor,
+    application,
+    document,
+    { status, note: trimmed },
+    trimmed ? `${summary}: ${trimmed}` : summary
+  );
+  if (!updated) {
+    res.status(500).json({ error: 'Failed to review the document' });
+    return;
+  }
+  res.json(updated);
+}));
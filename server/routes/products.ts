@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { productOperations } from '../dbOperations';
+import { getActor, requirePermission } from '../middleware/auth';
+import { asyncRoute } from '../http';
+import { loanProductCatalog, policyRegistry, refreshLoanProducts } from '../underwriting';
+import { REQUIRED_FIELDS } from '../../shared/extraction';
+import { loanProductError } from '../../shared/loanProducts';
+import type { LoanProductInput } from '../../shared/types';
+
+// Loan-product catalog. Every signed-in user can read it, since the chat and
+// the eligibility page work from it; editing needs products:manage.
+export const productsRouter = Router();
+
+productsRouter.get('/', asyncRoute(async (_req, res) => {
+  res.json(await productOperations.getProducts());
+}));
+
+// Creates or replaces the product; takes effect for new quotes straight away
+productsRouter.put('/:id', requirePermission('products:manage'), asyncRoute(async (req, res) => {
+  const body = req.body as Partial<LoanProductInput>;
+  const product = {
+    id: req.params.id,
+    name: typeof body.name === 'string' ? body.name.trim() : body.name,
+    synonyms: Array.isArray(body.synonyms)
+      ? body.synonyms.map(synonym => (typeof synonym === 'string' ? synonym.trim().toLowerCase() : synonym))
+      : body.synonyms,
+    policy_id: body.policy_id ?? null,
+    min_rate: body.min_rate,
+    max_rate: body.max_rate,
+    min_amount: body.min_amount,
+    max_amount: body.max_amount,
+    min_term_years: body.min_term_years,
+    max_term_years: body.max_term_years,
+    required_fields: body.required_fields,
+    questions: body.questions ?? [],
+    documents: body.documents,
+    active: body.active ?? true,
+    sort_order: body.sort_order ?? 0,
+  };
+
+  const error = loanProductError(product, loanProductCatalog.list());
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+  const valid = product as LoanProductInput;
+
+  // The policy has to exist, and the chat has to ask everything it prices on
+  if (valid.policy_id) {
+    const policy = policyRegistry.list().find(candidate => candidate.id === valid.policy_id);
+    if (!policy) {
+      res.status(400).json({ error: `policy_id "${valid.policy_id}" is not a known underwriting policy` });
+      return;
+    }
+    const unasked = policy.requiredFields.filter(field =>
+      (REQUIRED_FIELDS as string[]).includes(field) && !(valid.required_fields as string[]).includes(field));
+    if (unasked.length > 0) {
+      res.status(400).json({ error: `${policy.name} needs ${unasked.join(', ')} in required_fields` });
+      return;
+    }
+  }
+
+  const saved = await productOperations.saveProduct(getActor(req), valid);
+  if (!saved) {
+    res.status(500).json({ error: 'Failed to save loan product' });
+    return;
+  }
+
+  await refreshLoanProducts();
+  res.json(saved);
+}));
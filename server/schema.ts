@@ -0,0 +1,139 @@
+import { pgTable, uuid, text, timestamp, integer, numeric, varchar, boolean, jsonb } from 'drizzle-orm/pg-core';
+import type { CalculatedLoanTerms, DocumentType, LoanApplicationData } from '../shared/types';
+import type { ExtractionField } from '../shared/extraction';
+import type { ProductDetails, ProductQuestion } from '../shared/questionGraph';
+
+// Single source of truth for the database schema. Every change here needs a
+// matching migration in server/migrations - the server refuses to start if the
+// live database drifts from these definitions.
+export const chatMessages = pgTable('chat_messages', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  content: text('content').notNull(),
+  sender: varchar('sender', { length: 10 }).notNull(), // 'user' or 'ai'
+  timestamp: timestamp('timestamp', { withTimezone: true }).defaultNow().notNull(),
+  type: varchar('type', { length: 20 }).notNull().default('text'),
+  user_id: varchar('user_id', { length: 255 }).notNull(), // Clerk user ID
+  conversation_id: varchar('conversation_id', { length: 255 }).notNull(),
+});
+
+export const loanApplications = pgTable('loan_applications', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  applicant_name: varchar('applicant_name', { length: 255 }).notNull(),
+  loan_amount: numeric('loan_amount', { precision: 12, scale: 2 }).notNull(),
+  loan_type: varchar('loan_type', { length: 100 }).notNull(),
+  status: varchar('status', { length: 50 }).notNull().default('submitted'), // See shared/loanStatus.ts
+  application_date: timestamp('application_date', { withTimezone: true }).defaultNow().notNull(),
+  credit_score: integer('credit_score'), // Nullable - not everyone provides credit score
+  monthly_income: numeric('monthly_income', { precision: 10, scale: 2 }).notNull(),
+  employment_status: varchar('employment_status', { length: 100 }).notNull(),
+  loan_purpose: text('loan_purpose'),
+  interest_rate: numeric('interest_rate', { precision: 5, scale: 2 }),
+  loan_term: integer('loan_term'),
+  // Existing obligations counted towards FOIR; null on older applications
+  existing_emis: numeric('existing_emis', { precision: 10, scale: 2 }), // Monthly EMIs on other loans
+  credit_card_dues: numeric('credit_card_dues', { precision: 12, scale: 2 }), // Outstanding balance
+  dependents: integer('dependents'),
+  user_id: varchar('user_id', { length: 255 }).notNull(), // Clerk user ID
+  policy_id: varchar('policy_id', { length: 100 }), // Underwriting policy that priced the application
+  policy_version: varchar('policy_version', { length: 50 }),
+  assigned_officer_id: varchar('assigned_officer_id', { length: 255 }), // Clerk user ID of the reviewing officer
+  product_details: jsonb('product_details').$type<ProductDetails>(), // Answers to the loan product's own questions
+});
+
+// Audit trail of status changes and officer actions on an application
+export const loanApplicationEvents = pgTable('loan_application_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  event_type: varchar('event_type', { length: 30 }).notNull().default('status_change'), // See LoanApplicationEventType
+  loan_application_id: uuid('loan_application_id').notNull().references(() => loanApplications.id, { onDelete: 'cascade' }),
+  from_status: varchar('from_status', { length: 50 }), // Null for the creation event
+  to_status: varchar('to_status', { length: 50 }).notNull(),
+  actor_id: varchar('actor_id', { length: 255 }).notNull(), // Clerk user ID
+  reason: text('reason'),
+  created_at: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Uploaded supporting documents; storage_key points into DOCUMENT_STORAGE
+export const loanApplicationDocuments = pgTable('loan_application_documents', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  loan_application_id: uuid('loan_application_id').notNull().references(() => loanApplications.id, { onDelete: 'cascade' }),
+  document_type: varchar('document_type', { length: 50 }).notNull(), // See shared/documents.ts
+  file_name: varchar('file_name', { length: 255 }).notNull(),
+  content_type: varchar('content_type', { length: 100 }).notNull(),
+  size_bytes: integer('size_bytes').notNull(),
+  storage_key: varchar('storage_key', { length: 500 }).notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('uploaded'), // 'uploaded', 'verified' or 'rejected'
+  uploaded_by: varchar('uploaded_by', { length: 255 }).notNull(), // Clerk user ID
+  review_note: text('review_note'),
+  reviewed_by: varchar('reviewed_by', { length: 255 }), // Clerk user ID of the reviewing officer
+  created_at: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  reviewed_at: timestamp('reviewed_at', { withTimezone: true }),
+});
+
+// Co-applicants and guarantors; co-applicant incomes count towards eligibility
+export const loanApplicationParties = pgTable('loan_application_parties', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  loan_application_id: uuid('loan_application_id').notNull().references(() => loanApplications.id, { onDelete: 'cascade' }),
+  role: varchar('role', { length: 20 }).notNull(), // 'co_applicant' or 'guarantor'
+  name: varchar('name', { length: 255 }).notNull(),
+  relationship: varchar('relationship', { length: 100 }), // To the applicant
+  monthly_income: numeric('monthly_income', { precision: 10, scale: 2 }).notNull(),
+  employment_status: varchar('employment_status', { length: 100 }).notNull(),
+  credit_score: integer('credit_score'),
+  created_at: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Security pledged against an application; its declared value gives the LTV
+export const loanApplicationCollateral = pgTable('loan_application_collateral', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  loan_application_id: uuid('loan_application_id').notNull().references(() => loanApplications.id, { onDelete: 'cascade' }),
+  type: varchar('type', { length: 20 }).notNull(), // See shared/collateral.ts
+  description: text('description').notNull(),
+  value: numeric('value', { precision: 14, scale: 2 }).notNull(), // Declared market value
+  created_at: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+export const conversations = pgTable('conversations', {
+  id: varchar('id', { length: 255 }).primaryKey(), // Generated by the client
+  user_id: varchar('user_id', { length: 255 }).notNull(), // Clerk user ID
+  title: varchar('title', { length: 255 }),
+  mode: varchar('mode', { length: 10 }).notNull().default('chat'), // 'chat' or 'voice'
+  loan_application_id: uuid('loan_application_id').references(() => loanApplications.id, { onDelete: 'set null' }),
+  archived: boolean('archived').notNull().default(false),
+  created_at: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  last_activity_at: timestamp('last_activity_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// In-progress LoanApplicationFlow state, one draft per conversation
+export const loanApplicationDrafts = pgTable('loan_application_drafts', {
+  conversation_id: varchar('conversation_id', { length: 255 }).primaryKey(),
+  user_id: varchar('user_id', { length: 255 }).notNull(), // Clerk user ID
+  stage: varchar('stage', { length: 20 }).notNull().default('initial'),
+  data: jsonb('data').$type<LoanApplicationData>().notNull().default({}),
+  manually_edited_fields: jsonb('manually_edited_fields').$type<string[]>().notNull().default([]),
+  calculated_terms: jsonb('calculated_terms').$type<CalculatedLoanTerms>(),
+  updated_at: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Loan-product catalog (see shared/loanProducts.ts); admins edit it in the app
+export const loanProducts = pgTable('loan_products', {
+  id: varchar('id', { length: 40 }).primaryKey(), // Slug, e.g. 'home'
+  name: varchar('name', { length: 60 }).notNull().unique(),
+  synonyms: jsonb('synonyms').$type<string[]>().notNull().default([]),
+  policy_id: varchar('policy_id', { length: 100 }), // Underwriting policy that prices it
+  min_rate: numeric('min_rate', { precision: 5, scale: 2 }).notNull(),
+  max_rate: numeric('max_rate', { precision: 5, scale: 2 }).notNull(),
+  min_amount: numeric('min_amount', { precision: 14, scale: 2 }).notNull(),
+  max_amount: numeric('max_amount', { precision: 14, scale: 2 }).notNull(),
+  min_term_years: integer('min_term_years').notNull(),
+  max_term_years: integer('max_term_years').notNull(),
+  required_fields: jsonb('required_fields').$type<ExtractionField[]>().notNull(),
+  documents: jsonb('documents').$type<DocumentType[]>().notNull(),
+  questions: jsonb('questions').$type<ProductQuestion[]>().notNull().default([]), // See shared/questionGraph.ts
+  active: boolean('active').notNull().default(true),
+  sort_order: integer('sort_order').notNull().default(0),
+  updated_by: varchar('updated_by', { length: 255 }), // Clerk user ID; null for seeded rows
+  updated_at: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Tables covered by the startup drift check
+export const schemaTables = [chatMessages, loanApplications, loanApplicationEvents, loanApplicationDocuments, loanApplicationParties, loanApplicationCollateral, conversations, loanApplicationDrafts, loanProducts];
@@ -0,0 +1,90 @@
+// Startup check that the live database matches server/schema.ts and that
+// every migration on disk has been applied unchanged.
+import { getTableConfig, type PgTable } from 'drizzle-orm/pg-core';
+import { pool } from './db';
+import { getMigrationStatus } from './migrator';
+import { schemaTables } from './schema';
+
+interface ColumnInfo {
+  column_name: string;
+  data_type: string;
+  is_nullable: 'YES' | 'NO';
+  character_maximum_length: number | null;
+  numeric_precision: number | null;
+  numeric_scale: number | null;
+}
+
+// Render information_schema types the way Drizzle's getSQLType() does
+const describeColumnType = (column: ColumnInfo): string => {
+  switch (column.data_type) {
+    case 'character varying':
+      return column.character_maximum_length === null
+        ? 'varchar'
+        : `varchar(${column.character_maximum_length})`;
+    case 'numeric':
+      return column.numeric_precision === null
+        ? 'numeric'
+        : `numeric(${column.numeric_precision}, ${column.numeric_scale ?? 0})`;
+    case 'timestamp without time zone':
+      return 'timestamp';
+    default:
+      return column.data_type;
+  }
+};
+
+export const findTableDrift = (table: PgTable, columns: ColumnInfo[]): string[] => {
+  const { name, columns: expected } = getTableConfig(table);
+  if (columns.length === 0) {
+    return [`table ${name} is missing`];
+  }
+
+  const problems: string[] = [];
+  const actual = new Map(columns.map(c => [c.column_name, c]));
+
+  for (const column of expected) {
+    const found = actual.get(column.name);
+    if (!found) {
+      problems.push(`${name}.${column.name} is missing`);
+      continue;
+    }
+
+    const expectedType = column.getSQLType();
+    const actualType = describeColumnType(found);
+    if (expectedType !== actualType) {
+      problems.push(`${name}.${column.name} is ${actualType}, expected ${expectedType}`);
+    }
+
+    const nullable = found.is_nullable === 'YES';
+    if (nullable === column.notNull) {
+      problems.push(`${name}.${column.name} should be ${column.notNull ? 'NOT NULL' : 'nullable'}`);
+    }
+    actual.delete(column.name);
+  }
+
+  for (const extra of actual.keys()) {
+    problems.push(`${name}.${extra} exists in the database but not in the schema`);
+  }
+
+  return problems;
+};
+
+export const checkSchemaDrift = async (): Promise<string[]> => {
+  const problems: string[] = [];
+
+  const status = await getMigrationStatus();
+  status.pending.forEach(m => problems.push(`migration ${m.version}_${m.name} has not been applied`));
+  status.modified.forEach(m => problems.push(`migration ${m.version}_${m.name} was changed after being applied`));
+  status.unknown.forEach(m => problems.push(`migration ${m.version}_${m.name} is applied but missing on disk`));
+
+  for (const table of schemaTables) {
+    const { rows } = await pool.query<ColumnInfo>(
+      `SELECT column_name, data_type, is_nullable, character_maximum_length, numeric_precision, numeric_scale
+       FROM information_schema.columns
+       WHERE table_schema = current_schema() AND table_name = $1`,
+      [getTableConfig(table).name]
+    );
+    problems.push(...findTableDrift(table, rows));
+  }
+
+  return problems;
+};
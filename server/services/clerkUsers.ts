@@ -0,0 +1,38 @@
+import { createClerkClient } from '@clerk/clerk-sdk-node';
+import { config } from '../config';
+import { hasPermission, roleFromMetadata } from '../../shared/roles';
+import type { Officer, UserRole } from '../../shared/types';
+
+export const clerk = createClerkClient({ secretKey: config.clerkSecretKey });
+
+// Roles live in Clerk public metadata, e.g. { "role": "officer" }; see shared/roles.ts
+const ROLE_CACHE_MS = 60_000;
+const OFFICER_LIST_LIMIT = 100;
+
+const roleCache = new Map<string, { role: UserRole; expiresAt: number }>();
+
+export const getUserRole = async (userId: string): Promise<UserRole> => {
+  const cached = roleCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.role;
+  }
+
+  const user = await clerk.users.getUser(userId);
+  const role = roleFromMetadata(user.publicMetadata);
+  roleCache.set(userId, { role, expiresAt: Date.now() + ROLE_CACHE_MS });
+  return role;
+};
+
+// Everyone who can be assigned applications. Clerk cannot filter users by
+// metadata, so this scans the first page of users.
+export const listOfficers = async (): Promise<Officer[]> => {
+  const users = await clerk.users.getUserList({ limit: OFFICER_LIST_LIMIT, orderBy: '+created_at' });
+
+  return users
+    .filter(user => hasPermission(roleFromMetadata(user.publicMetadata), 'applications:review'))
+    .map(user => {
+      const email = user.emailAddresses.find(address => address.id === user.primaryEmailAddressId)?.emailAddress ?? null;
+      const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+      return { id: user.id, name: name || email || user.id, email };
+    });
+};
@@ -0,0 +1,107 @@
+import { createHash, createHmac } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { config } from '../config';
+
+// Where uploaded document bytes live. Keys are generated by the server
+// (<application id>/<document id>), never taken from the client.
+export interface DocumentStorage {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+}
+
+export class LocalDocumentStorage implements DocumentStorage {
+  constructor(private readonly dir: string) {}
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = join(this.dir, key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return await readFile(join(this.dir, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await rm(join(this.dir, key), { force: true });
+  }
+}
+
+interface S3Options {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+// Path-style requests signed with AWS Signature V4, so AWS S3, MinIO and R2
+// all work without pulling in the AWS SDK
+export class S3DocumentStorage implements DocumentStorage {
+  constructor(private readonly options: S3Options) {}
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.send('PUT', key, body, contentType);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.send('GET', key);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.send('DELETE', key);
+  }
+
+  private async send(method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const { endpoint, region, bucket, accessKeyId, secretAccessKey } = this.options;
+    const path = '/' + [bucket, ...key.split('/')].map(encodeURIComponent).join('/');
+    const url = new URL(path, endpoint);
+
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256(body ?? '');
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+
+    const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Authorization': `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate,
+        ...(contentType ? { 'Content-Type': contentType } : {}),
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('S3 error details:', errorText);
+      throw new Error(`S3 ${method} ${key} failed: ${response.status}`);
+    }
+    return response;
+  }
+}
+
+export const documentStorage: DocumentStorage = config.documentStorage === 's3'
+  ? new S3DocumentStorage(config.s3)
+  : new LocalDocumentStorage(config.documentDir);
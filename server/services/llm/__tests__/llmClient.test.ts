@@ -0,0 +1,198 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { MockLLMClient } from '../mockClient';
+import { OpenAICompatibleClient } from '../openAICompatibleClient';
+import { ResilientLLMClient, TokenUsageTracker } from '../resilientClient';
+import { LlmRequestError, type LLMClient, type LlmCompletion, type LlmCompletionRequest } from '../types';
+
+const request = (overrides: Partial<LlmCompletionRequest> = {}): LlmCompletionRequest => ({
+  task: 'chat',
+  model: 'test-model',
+  messages: [
+    { role: 'system', content: 'You are LoanWise AI.' },
+    { role: 'user', content: 'What is a home loan?' },
+  ],
+  temperature: 0.7,
+  max_tokens: 100,
+  ...overrides,
+});
+
+const completion = (content: string): LlmCompletion => ({
+  content,
+  model: 'test-model',
+  usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+});
+
+// Fails with the queued errors in order, then succeeds
+const flakyClient = (errors: LlmRequestError[]): LLMClient & { calls: number } => ({
+  provider: 'flaky',
+  calls: 0,
+  async complete() {
+    this.calls++;
+    const error = errors.shift();
+    if (error) throw error;
+    return completion('ok');
+  },
+});
+
+const recordSleeps = () => {
+  const delays: number[] = [];
+  return { delays, sleep: async (ms: number) => { delays.push(ms); } };
+};
+
+describe('MockLLMClient', () => {
+  it('answers the same request the same way', async () => {
+    const client = new MockLLMClient();
+    const first = await client.complete(request());
+    const second = await client.complete(request());
+
+    expect(first).toEqual(second);
+    expect(first.content).toContain('What is a home loan?');
+  });
+
+  it('returns an empty object for extraction so pattern extraction takes over', async () => {
+    const result = await new MockLLMClient().complete(request({ task: 'extraction' }));
+    expect(result.content).toBe('{}');
+  });
+
+  it('reports token usage that adds up', async () => {
+    const { usage } = await new MockLLMClient().complete(request());
+    expect(usage.prompt_tokens).toBeGreaterThan(0);
+    expect(usage.total_tokens).toBe(usage.prompt_tokens + usage.completion_tokens);
+  });
+
+  it('uses a scripted responder', async () => {
+    const client = new MockLLMClient(req => (req.task === 'extraction' ? '{"loan_type":"Home Loan"}' : 'hello'));
+    expect((await client.complete(request({ task: 'extraction' }))).content).toBe('{"loan_type":"Home Loan"}');
+    expect((await client.complete(request())).content).toBe('hello');
+  });
+});
+
+describe('ResilientLLMClient', () => {
+  it('retries rate limits after the Retry-After delay', async () => {
+    const inner = flakyClient([new LlmRequestError('rate limited', 429, 1200)]);
+    const { delays, sleep } = recordSleeps();
+    const client = new ResilientLLMClient(inner, { timeoutMs: 1000, maxRetries: 2, sleep });
+
+    const result = await client.complete(request());
+
+    expect(result.content).toBe('ok');
+    expect(inner.calls).toBe(2);
+    expect(delays).toEqual([1200]);
+  });
+
+  it('backs off exponentially on server errors', async () => {
+    const inner = flakyClient([new LlmRequestError('down', 503), new LlmRequestError('down', 502)]);
+    const { delays, sleep } = recordSleeps();
+    const client = new ResilientLLMClient(inner, { timeoutMs: 1000, maxRetries: 2, baseDelayMs: 100, sleep });
+
+    await client.complete(request());
+
+    expect(delays).toEqual([100, 200]);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const inner = flakyClient([503, 503, 503].map(status => new LlmRequestError('down', status)));
+    const { sleep } = recordSleeps();
+    const client = new ResilientLLMClient(inner, { timeoutMs: 1000, maxRetries: 2, sleep });
+
+    await expect(client.complete(request())).rejects.toMatchObject({ status: 503 });
+    expect(inner.calls).toBe(3);
+  });
+
+  it('does not retry client errors', async () => {
+    const inner = flakyClient([new LlmRequestError('bad request', 400)]);
+    const client = new ResilientLLMClient(inner, { timeoutMs: 1000, maxRetries: 2, sleep: async () => {} });
+
+    await expect(client.complete(request())).rejects.toMatchObject({ status: 400 });
+    expect(inner.calls).toBe(1);
+  });
+
+  it('does not wait longer than maxDelayMs for a Retry-After', async () => {
+    const inner = flakyClient([new LlmRequestError('rate limited', 429, 60000)]);
+    const client = new ResilientLLMClient(inner, { timeoutMs: 1000, maxRetries: 2, maxDelayMs: 5000, sleep: async () => {} });
+
+    await expect(client.complete(request())).rejects.toMatchObject({ status: 429 });
+    expect(inner.calls).toBe(1);
+  });
+
+  it('times out a provider that never answers', async () => {
+    const hanging: LLMClient = { provider: 'hanging', complete: () => new Promise<LlmCompletion>(() => {}) };
+    const client = new ResilientLLMClient(hanging, { timeoutMs: 20, maxRetries: 0 });
+
+    await expect(client.complete(request())).rejects.toMatchObject({ status: 504 });
+  });
+
+  it('adds up token usage per user and per model', async () => {
+    const usage = new TokenUsageTracker();
+    const client = new ResilientLLMClient(flakyClient([]), { timeoutMs: 1000, maxRetries: 0 }, usage);
+
+    await client.complete(request({ user: 'user_1' }));
+    await client.complete(request({ user: 'user_1' }));
+    await client.complete(request({ user: 'user_2' }));
+
+    expect(usage.forUser('user_1')).toEqual({ prompt_tokens: 20, completion_tokens: 10, total_tokens: 30, requests: 2 });
+    expect(usage.forUser('nobody').requests).toBe(0);
+    expect(usage.byModelSnapshot()['test-model'].requests).toBe(3);
+  });
+});
+
+describe('OpenAICompatibleClient', () => {
+  const jsonResponse = (body: unknown, init: ResponseInit = {}) =>
+    new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' }, ...init });
+
+  it('posts to the chat completions endpoint and reads content and usage', async () => {
+    const calls: Array<{ url: string; init?: RequestInit }> = [];
+    const fakeFetch = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      return jsonResponse({
+        model: 'llama3.1',
+        choices: [{ message: { content: 'Namaste!' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+      });
+    }) as unknown as typeof fetch;
+
+    const client = new OpenAICompatibleClient({ provider: 'openai', baseUrl: 'http://localhost:11434/v1/', apiKey: 'key', fetch: fakeFetch });
+    const result = await client.complete(request());
+
+    expect(calls[0].url).toBe('http://localhost:11434/v1/chat/completions');
+    expect((calls[0].init?.headers as Record<string, string>)['Authorization']).toBe('Bearer key');
+    expect(JSON.parse(String(calls[0].init?.body)).model).toBe('test-model');
+    expect(result).toEqual({
+      content: 'Namaste!',
+      model: 'llama3.1',
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+    });
+  });
+
+  it('asks for a JSON object when the request uses JSON mode', async () => {
+    const bodies: Array<Record<string, unknown>> = [];
+    const fakeFetch = (async (_url: string, init?: RequestInit) => {
+      bodies.push(JSON.parse(String(init?.body)));
+      return jsonResponse({ choices: [{ message: { content: '{}' } }] });
+    }) as unknown as typeof fetch;
+    const client = new OpenAICompatibleClient({ provider: 'openai', baseUrl: 'http://localhost:11434/v1', fetch: fakeFetch });
+
+    await client.complete(request({ task: 'extraction', response_format: 'json' }));
+    await client.complete(request());
+
+    expect(bodies[0].response_format).toEqual({ type: 'json_object' });
+    expect(bodies[1]).not.toHaveProperty('response_format');
+  });
+
+  it('turns a 429 into a retryable error with the Retry-After delay', async () => {
+    const fakeFetch = (async () => new Response('slow down', { status: 429, headers: { 'Retry-After': '2' } })) as unknown as typeof fetch;
+    const client = new OpenAICompatibleClient({ provider: 'groq', baseUrl: 'https://example.test/v1', fetch: fakeFetch });
+
+    await expect(client.complete(request())).rejects.toMatchObject({ status: 429, retryAfterMs: 2000, retryable: true });
+  });
+
+  it('reports an unreachable server as 503', async () => {
+    const fakeFetch = (async () => { throw new TypeError('fetch failed'); }) as unknown as typeof fetch;
+    const client = new OpenAICompatibleClient({ provider: 'openai', baseUrl: 'http://localhost:1/v1', fetch: fakeFetch });
+
+    await expect(client.complete(request())).rejects.toMatchObject({ status: 503 });
+  });
+});
@@ -0,0 +1,52 @@
+// Chooses the LLM backend from config (LLM_PROVIDER) and wraps it with
+// timeouts, retries and token accounting. Routes use `llmClient` and
+// `modelFor`; nothing else talks to a provider directly.
+import { config } from '../../config';
+import { MockLLMClient } from './mockClient';
+import { GROQ_BASE_URL, OpenAICompatibleClient } from './openAICompatibleClient';
+import { ResilientLLMClient } from './resilientClient';
+import type { LLMClient } from './types';
+import type { LlmTask } from '../../../shared/types';
+
+export { LlmRequestError } from './types';
+export type { LLMClient, LlmCompletion, LlmCompletionRequest } from './types';
+
+type LlmConfig = typeof config.llm;
+
+const DEFAULT_MODELS: Record<string, string> = {
+  groq: 'llama-3.1-8b-instant',
+  openai: 'llama3.1',
+  mock: 'mock',
+};
+
+export const createProvider = (settings: LlmConfig): LLMClient => {
+  switch (settings.provider) {
+    case 'groq':
+      if (!settings.apiKey) {
+        console.warn('⚠️ GROQ_API_KEY not set - LLM requests will fail. Set LLM_PROVIDER=mock to work offline.');
+      }
+      return new OpenAICompatibleClient({ provider: 'groq', baseUrl: settings.baseUrl || GROQ_BASE_URL, apiKey: settings.apiKey });
+    case 'openai':
+      return new OpenAICompatibleClient({
+        provider: 'openai',
+        baseUrl: settings.baseUrl || 'http://localhost:11434/v1',
+        apiKey: settings.apiKey || undefined,
+      });
+    case 'mock':
+      return new MockLLMClient();
+    default:
+      throw new Error(`❌ Unknown LLM_PROVIDER "${settings.provider}" (expected groq, openai or mock)`);
+  }
+};
+
+export const modelFor = (task: LlmTask, settings: LlmConfig = config.llm): string => {
+  const chatModel = settings.chatModel || DEFAULT_MODELS[settings.provider];
+  return task === 'extraction' ? settings.extractionModel || chatModel : chatModel;
+};
+
+export const llmClient = new ResilientLLMClient(createProvider(config.llm), {
+  timeoutMs: config.llm.timeoutMs,
+  maxRetries: config.llm.maxRetries,
+});
+
+console.log('🤖 LLM provider:', llmClient.provider, '· chat model:', modelFor('chat'), '· extraction model:', modelFor('extraction'));
@@ -0,0 +1,43 @@
+import type { LLMClient, LlmCompletion, LlmCompletionRequest } from './types';
+
+export type MockResponder = (request: LlmCompletionRequest) => string | null;
+
+// Rough count so usage accounting has something to add up offline
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const lastUserMessage = (request: LlmCompletionRequest): string =>
+  [...request.messages].reverse().find(message => message.role === 'user')?.content ?? '';
+
+// Extraction falls back to an empty object so the pattern-based extractors do
+// the work; chat replies say plainly that no model is connected
+const defaultResponder: MockResponder = request => {
+  if (request.task === 'extraction') {
+    return '{}';
+  }
+  const question = lastUserMessage(request).trim().slice(0, 120);
+  return `LoanWise is running with the offline assistant, so I can't answer that in detail${question ? ` ("${question}")` : ''}. I can still help you apply for a personal, home, vehicle, education or business loan.`;
+};
+
+// Deterministic stand-in for offline development and tests (LLM_PROVIDER=mock).
+// The same request always gets the same answer; pass a responder to script it.
+export class MockLLMClient implements LLMClient {
+  readonly provider = 'mock';
+
+  constructor(private readonly respond: MockResponder = defaultResponder) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const content = this.respond(request);
+    const promptTokens = request.messages.reduce((total, message) => total + estimateTokens(message.content), 0);
+    const completionTokens = content ? estimateTokens(content) : 0;
+
+    return {
+      content,
+      model: request.model,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    };
+  }
+}
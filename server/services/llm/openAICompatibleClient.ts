@@ -0,0 +1,85 @@
+import { LlmRequestError, type LLMClient, type LlmCompletion, type LlmCompletionRequest } from './types';
+
+export interface OpenAICompatibleOptions {
+  provider: string;
+  // Up to and including /v1, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl: string;
+  apiKey?: string;
+  fetch?: typeof fetch;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0) * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+};
+
+// Any server speaking the OpenAI chat-completions API: Groq, OpenAI, Ollama,
+// llama.cpp's server, vLLM
+export class OpenAICompatibleClient implements LLMClient {
+  readonly provider: string;
+  private readonly fetch: typeof fetch;
+
+  constructor(private readonly options: OpenAICompatibleOptions) {
+    this.provider = options.provider;
+    this.fetch = options.fetch ?? fetch;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    let response: Response;
+    try {
+      response = await this.fetch(`${this.options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.apiKey ? { 'Authorization': `Bearer ${this.options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.max_tokens,
+          ...(request.response_format === 'json' ? { response_format: { type: 'json_object' } } : {}),
+          ...(request.user ? { user: request.user } : {}),
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      throw new LlmRequestError(`${this.provider} request failed: ${error instanceof Error ? error.message : error}`, 503);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${this.provider} API error details:`, errorText);
+      throw new LlmRequestError(
+        `${this.provider} API error: ${response.status}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    const data = await response.json() as ChatCompletionResponse;
+    const promptTokens = data.usage?.prompt_tokens ?? 0;
+    const completionTokens = data.usage?.completion_tokens ?? 0;
+    return {
+      content: data.choices?.[0]?.message?.content || null,
+      model: data.model || request.model,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: data.usage?.total_tokens ?? promptTokens + completionTokens,
+      },
+    };
+  }
+}
+
+export const GROQ_BASE_URL = 'https://api.groq.com/openai/v1';
@@ -0,0 +1,112 @@
+import { LlmRequestError, type LLMClient, type LlmCompletion, type LlmCompletionRequest } from './types';
+import type { LlmUsage } from '../../../shared/types';
+
+export interface ResilienceOptions {
+  timeoutMs: number;
+  // Attempts after the first one, for 429s, 5xx and timeouts
+  maxRetries: number;
+  baseDelayMs?: number;
+  // Longest Retry-After we are willing to wait before giving up
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const emptyUsage = (): LlmUsage => ({ prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 });
+
+export interface UsageTotals extends LlmUsage {
+  requests: number;
+}
+
+// In-memory token totals per user and per model since the server started
+export class TokenUsageTracker {
+  private readonly byUser = new Map<string, UsageTotals>();
+  private readonly byModel = new Map<string, UsageTotals>();
+
+  record(user: string | undefined, model: string, usage: LlmUsage): void {
+    const add = (map: Map<string, UsageTotals>, key: string) => {
+      const totals = map.get(key) ?? { ...emptyUsage(), requests: 0 };
+      totals.prompt_tokens += usage.prompt_tokens;
+      totals.completion_tokens += usage.completion_tokens;
+      totals.total_tokens += usage.total_tokens;
+      totals.requests += 1;
+      map.set(key, totals);
+    };
+    if (user) add(this.byUser, user);
+    add(this.byModel, model);
+  }
+
+  forUser(user: string): UsageTotals {
+    return { ...(this.byUser.get(user) ?? { ...emptyUsage(), requests: 0 }) };
+  }
+
+  byModelSnapshot(): Record<string, UsageTotals> {
+    return Object.fromEntries([...this.byModel].map(([model, totals]) => [model, { ...totals }]));
+  }
+}
+
+// Wraps a provider with per-attempt timeouts, exponential backoff that honours
+// Retry-After, and token accounting. Non-retryable errors (400, 401, ...) are
+// thrown straight away.
+export class ResilientLLMClient implements LLMClient {
+  readonly provider: string;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(
+    private readonly inner: LLMClient,
+    private readonly options: ResilienceOptions,
+    readonly usage: TokenUsageTracker = new TokenUsageTracker()
+  ) {
+    this.provider = inner.provider;
+    this.sleep = options.sleep ?? wait;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const baseDelay = this.options.baseDelayMs ?? 500;
+    const maxDelay = this.options.maxDelayMs ?? 10000;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const completion = await this.attempt(request);
+        this.usage.record(request.user, completion.model, completion.usage);
+        return completion;
+      } catch (error) {
+        const retryable = error instanceof LlmRequestError && error.retryable;
+        if (!retryable || attempt >= this.options.maxRetries) {
+          throw error;
+        }
+
+        const delay = error.retryAfterMs ?? baseDelay * 2 ** attempt;
+        if (delay > maxDelay) {
+          throw error;
+        }
+        console.warn(`⏳ ${this.provider} ${error.status}, retrying in ${delay}ms (attempt ${attempt + 2} of ${this.options.maxRetries + 1})`);
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  // Races the provider against the timeout, so a backend that ignores the
+  // abort signal still can't hold the request open
+  private async attempt(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    request.signal?.addEventListener('abort', abort);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new LlmRequestError(`${this.provider} did not respond within ${this.options.timeoutMs}ms`, 504));
+      }, this.options.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([this.inner.complete({ ...request, signal: controller.signal }), timeout]);
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', abort);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import type { LlmMessage, LlmTask, LlmUsage } from '../../../shared/types';
+
+export interface LlmCompletionRequest {
+  task: LlmTask;
+  model: string;
+  messages: LlmMessage[];
+  temperature: number;
+  max_tokens: number;
+  response_format?: 'text' | 'json';
+  // Clerk user ID, for token accounting
+  user?: string;
+  signal?: AbortSignal;
+}
+
+export interface LlmCompletion {
+  content: string | null;
+  model: string;
+  usage: LlmUsage;
+}
+
+// A chat-completions backend. Implementations make a single attempt;
+// ResilientLLMClient adds timeouts, retries and usage accounting on top.
+export interface LLMClient {
+  readonly provider: string;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
+
+export class LlmRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    // From a Retry-After header on 429s
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LlmRequestError';
+  }
+
+  get retryable(): boolean {
+    return this.status === 429 || this.status === 408 || this.status >= 500;
+  }
+}
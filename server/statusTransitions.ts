@@ -0,0 +1,43 @@
+// Applies a status change on behalf of an applicant or officer route, turning
+// lifecycle violations into HTTP-shaped results.
+import { loanOperations } from './dbOperations';
+import type { Actor } from './authorization';
+import { STATUS_TRANSITIONS, canTransition } from '../shared/loanStatus';
+import type { LoanApplication, LoanApplicationStatus } from '../shared/types';
+
+export type TransitionResult =
+  | { ok: true; application: LoanApplication }
+  | { ok: false; status: number; error: string };
+
+export const REASON_LENGTH = 1000;
+
+export const transitionStatus = async (
+  actor: Actor,
+  application: LoanApplication,
+  to: LoanApplicationStatus,
+  reason: string | null
+): Promise<TransitionResult> => {
+  if (!canTransition(application.status, to)) {
+    const allowed = STATUS_TRANSITIONS[application.status];
+    return {
+      ok: false,
+      status: 409,
+      error: `Cannot move an application from ${application.status} to ${to}` +
+        (allowed.length > 0 ? ` (allowed: ${allowed.join(', ')})` : ` (${application.status} is final)`),
+    };
+  }
+
+  const updated = await loanOperations.transitionLoanApplicationStatus(actor, application, to, reason);
+  if (updated) {
+    return { ok: true, application: updated };
+  }
+
+  const current = await loanOperations.getLoanApplication(actor, application.id);
+  if (current && current.status !== application.status) {
+    return { ok: false, status: 409, error: `Application status changed to ${current.status} while updating` };
+  }
+  return { ok: false, status: 500, error: 'Failed to update loan application status' };
+};
+
+export const isValidReason = (reason: unknown): reason is string | null | undefined =>
+  reason == null || (typeof reason === 'string' && reason.length <= REASON_LENGTH);
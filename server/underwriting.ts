@@ -0,0 +1,44 @@
+// Loads underwriting policy documents from disk (POLICY_DIR, defaulting to the
+// bundled shared/underwriting/policies) and validates them at startup. Loan
+// types resolve through the loan-product catalog, loaded from the database.
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { DEFAULT_LOAN_PRODUCTS, LoanProductCatalog } from '../shared/loanProducts';
+import { PolicyRegistry, parsePolicyDocument } from '../shared/underwriting/registry';
+import { config } from './config';
+import { productOperations } from './dbOperations';
+import type { LoanApplication } from '../shared/types';
+import type { UnderwritingDecision } from '../shared/underwriting/types';
+
+const POLICY_FILE = /\.(ya?ml|json)$/;
+
+// The built-in catalog until refreshLoanProducts() has read the table
+export const loanProductCatalog = new LoanProductCatalog(DEFAULT_LOAN_PRODUCTS);
+
+// Called at startup and after every catalog edit
+export const refreshLoanProducts = async (): Promise<void> => {
+  const products = await productOperations.getProducts();
+  if (products.length > 0) {
+    loanProductCatalog.replace(products);
+  }
+  console.log('🏷️ Loan products:', loanProductCatalog.active().map(product => product.name).join(', '));
+};
+
+export const loadPolicyRegistry = (dir: string = config.policyDir): PolicyRegistry => {
+  const policies = readdirSync(dir)
+    .filter(file => POLICY_FILE.test(file))
+    .map(file => parsePolicyDocument(readFileSync(join(dir, file), 'utf8'), file));
+
+  console.log('📜 Loaded underwriting policies:', policies.map(p => `${p.id}@${p.version}`).join(', '));
+  return new PolicyRegistry(policies, loanProductCatalog);
+};
+
+export const policyRegistry = loadPolicyRegistry();
+
+// Evaluates an application against the policy version it was priced with
+export const evaluateApplication = (application: LoanApplication): UnderwritingDecision => {
+  const reference = application.policy_id && application.policy_version
+    ? { id: application.policy_id, version: application.policy_version }
+    : null;
+  return policyRegistry.evaluate(application, reference);
+};
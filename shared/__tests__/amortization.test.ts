@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import {
+  calculateEmi,
+  generateAmortizationSchedule,
+  scheduleToCsv,
+  summarizeByYear,
+  type AmortizationOptions
+} from '../amortization';
+
+const loan: AmortizationOptions = { principal: 100000, annualRate: 12, termMonths: 12 };
+
+const total = (values: number[]) => values.reduce((sum, value) => sum + value, 0);
+
+describe('calculateEmi', () => {
+  it.each([
+    [100000, 12, 12, 8884.88],
+    [2500000, 8.5, 240, 21695.58],
+    [120000, 0, 12, 10000],
+  ])('₹%p at %p%% over %p months is %p', (principal, rate, months, expected) => {
+    expect(calculateEmi(principal, rate, months)).toBeCloseTo(expected, 2);
+  });
+});
+
+describe('generateAmortizationSchedule', () => {
+  it('pays a plain loan off in level EMIs', () => {
+    const schedule = generateAmortizationSchedule(loan);
+
+    expect(schedule.rows).toHaveLength(12);
+    expect(schedule.payoffMonth).toBe(12);
+    expect(schedule.emi).toBeCloseTo(calculateEmi(100000, 12, 12), 6);
+    expect(schedule.rows[0]).toMatchObject({ phase: 'repayment', openingBalance: 100000, interest: 1000, dueDate: null });
+    expect(schedule.rows[11].closingBalance).toBe(0);
+    expect(total(schedule.rows.map(row => row.principal))).toBeCloseTo(100000, 6);
+    expect(schedule.totalInterest).toBeCloseTo(schedule.totalPayment - 100000, 6);
+  });
+
+  it('dates each EMI a month after the last', () => {
+    const schedule = generateAmortizationSchedule({ ...loan, startDate: new Date(2026, 0, 15) });
+
+    expect(schedule.rows.slice(0, 2).map(row => row.dueDate)).toEqual(['2026-02-15', '2026-03-15']);
+  });
+
+  it('adds moratorium interest to the balance unless it is paid monthly', () => {
+    const capitalized = generateAmortizationSchedule({ ...loan, moratorium: { months: 3, interest: 'capitalize' } });
+    const interestOnly = generateAmortizationSchedule({ ...loan, moratorium: { months: 3, interest: 'interest_only' } });
+
+    expect(capitalized.rows).toHaveLength(15);
+    expect(capitalized.rows.slice(0, 3).map(row => row.payment)).toEqual([0, 0, 0]);
+    expect(capitalized.rows[2].closingBalance).toBeCloseTo(100000 * 1.01 ** 3, 6);
+    expect(interestOnly.rows[2]).toMatchObject({ phase: 'moratorium', payment: 1000, closingBalance: 100000 });
+    expect(capitalized.emi).toBeGreaterThan(interestOnly.emi);
+  });
+
+  it('raises the EMI at each step-up and still clears the loan on time', () => {
+    const schedule = generateAmortizationSchedule({ ...loan, termMonths: 24, stepUp: { everyMonths: 12, percent: 10 } });
+
+    expect(schedule.rows[12].payment).toBeCloseTo(schedule.rows[0].payment * 1.1, 6);
+    expect(schedule.rows[11].payment).toBeCloseTo(schedule.rows[0].payment, 6);
+    expect(schedule.payoffMonth).toBe(24);
+    expect(schedule.rows[23].closingBalance).toBe(0);
+  });
+
+  it('shortens the loan after a prepayment by default', () => {
+    const schedule = generateAmortizationSchedule({ ...loan, prepayments: [{ month: 3, amount: 30000 }] });
+
+    expect(schedule.totalPrepayment).toBe(30000);
+    expect(schedule.payoffMonth).toBeLessThan(12);
+    expect(schedule.rows[3].payment).toBeCloseTo(schedule.emi, 6);
+  });
+
+  it('lowers the EMI instead when asked to', () => {
+    const schedule = generateAmortizationSchedule({
+      ...loan,
+      prepayments: [{ month: 3, amount: 30000 }],
+      prepaymentStrategy: 'reduce_emi',
+    });
+
+    expect(schedule.payoffMonth).toBe(12);
+    expect(schedule.rows[3].payment).toBeLessThan(schedule.emi);
+    expect(schedule.rows[11].closingBalance).toBe(0);
+  });
+
+  it('never prepays more than is owed', () => {
+    const schedule = generateAmortizationSchedule({ ...loan, prepayments: [{ month: 1, amount: 500000 }] });
+
+    expect(schedule.payoffMonth).toBe(1);
+    expect(schedule.totalPrepayment).toBeCloseTo(100000 - schedule.rows[0].principal, 6);
+  });
+
+  it.each([
+    [{ principal: 0 }, 'Principal must be greater than zero'],
+    [{ annualRate: -1 }, 'Interest rate cannot be negative'],
+    [{ termMonths: 12.5 }, 'Term must be a whole number of months'],
+    [{ moratorium: { months: -1, interest: 'capitalize' as const } }, 'Moratorium must be a whole number of months'],
+    [{ stepUp: { everyMonths: 0, percent: 5 } }, 'Step-up needs a positive interval'],
+    [{ prepayments: [{ month: 0, amount: 1000 }] }, 'Invalid prepayment of 1000 in month 0'],
+  ])('refuses %j', (changes, message) => {
+    expect(() => generateAmortizationSchedule({ ...loan, ...changes })).toThrow(message);
+  });
+});
+
+describe('summarizeByYear', () => {
+  it('totals each year and carries its closing balance', () => {
+    const schedule = generateAmortizationSchedule({ ...loan, termMonths: 18 });
+    const years = summarizeByYear(schedule);
+
+    expect(years.map(year => year.year)).toEqual([1, 2]);
+    expect(years[0].payment).toBeCloseTo(total(schedule.rows.slice(0, 12).map(row => row.payment)), 6);
+    expect(years[0].closingBalance).toBe(schedule.rows[11].closingBalance);
+    expect(years[1].closingBalance).toBe(0);
+  });
+});
+
+describe('scheduleToCsv', () => {
+  it('writes a header and one line per month, amounts to the paisa', () => {
+    const lines = scheduleToCsv(generateAmortizationSchedule({ ...loan, startDate: new Date(2026, 0, 15) })).split('\n');
+
+    expect(lines).toHaveLength(13);
+    expect(lines[0]).toBe('Month,Due Date,Phase,Opening Balance,Payment,Interest,Principal,Prepayment,Closing Balance');
+    expect(lines[1]).toBe('1,2026-02-15,repayment,100000.00,8884.88,1000.00,7884.88,0.00,92115.12');
+    expect(lines[12].endsWith(',0.00')).toBe(true);
+  });
+});
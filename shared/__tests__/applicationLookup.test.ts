@@ -0,0 +1,58 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { findReferencedApplications, type ApplicationSummary } from '../applicationLookup';
+
+const application = (id: string, loan_type: string, loan_amount: string, date: string): ApplicationSummary => ({
+  id,
+  loan_type,
+  loan_amount,
+  status: 'under_review',
+  application_date: new Date(date),
+});
+
+const home = application('3f2a91c0-1111-4aaa-8bbb-000000000001', 'Home Loan', '2500000.00', '2026-03-01');
+const personal = application('9b7e44d2-2222-4aaa-8bbb-000000000002', 'Personal Loan', '500000.00', '2026-05-10');
+const smallPersonal = application('c1d0e5f3-3333-4aaa-8bbb-000000000003', 'Personal Loan', '150000.00', '2026-07-20');
+const applications = [home, personal, smallPersonal];
+
+const idsFor = (message: string) => findReferencedApplications(message, applications).map(match => match.id);
+
+describe('findReferencedApplications', () => {
+  it('returns every application, newest first, when the message names none', () => {
+    expect(idsFor("what's the status of my application?")).toEqual([smallPersonal.id, personal.id, home.id]);
+  });
+
+  it('matches on loan type', () => {
+    expect(idsFor('what is the status of my home loan?')).toEqual([home.id]);
+    expect(idsFor('any update on my personal loan')).toEqual([smallPersonal.id, personal.id]);
+  });
+
+  it('narrows by amount', () => {
+    expect(idsFor('the 5 lakh personal loan')).toEqual([personal.id]);
+    expect(idsFor('my ₹1,50,000 loan')).toEqual([smallPersonal.id]);
+  });
+
+  it('ignores amounts that match nothing', () => {
+    expect(idsFor('my 7 lakh personal loan')).toEqual([smallPersonal.id, personal.id]);
+  });
+
+  it('keeps only the newest for "latest"', () => {
+    expect(idsFor('status of my latest application')).toEqual([smallPersonal.id]);
+    expect(idsFor('my last personal loan')).toEqual([smallPersonal.id]);
+  });
+
+  it('matches an ID prefix', () => {
+    expect(idsFor('application 9b7e44d2')).toEqual([personal.id]);
+    expect(idsFor('withdraw 3F2A91C0 please')).toEqual([home.id]);
+  });
+
+  it('falls back to the other clues when the ID matches nothing', () => {
+    expect(idsFor('application deadbeef for my home loan')).toEqual([home.id]);
+  });
+
+  it('handles no applications', () => {
+    expect(findReferencedApplications('my home loan', [])).toEqual([]);
+  });
+});
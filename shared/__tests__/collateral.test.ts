@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import {
+  calculateLtv,
+  nextMissingCollateralField,
+  parseCollateralRequest,
+  readCollateralAnswer,
+  totalCollateralValue
+} from '../collateral';
+import { evaluatePolicy } from '../underwriting/engine';
+import { prequalify } from '../underwriting/prequalification';
+import { PolicyRegistry, validatePolicy } from '../underwriting/registry';
+import { PolicyValidationError } from '../underwriting/types';
+import { AS_OF, loadPolicy } from './policies';
+
+const gold = loadPolicy('gold-2026.2');
+const home = loadPolicy('home-2026.2');
+
+describe('parseCollateralRequest', () => {
+  it.each([
+    ['I can pledge my gold jewellery', { type: 'gold' }],
+    ["I'll offer my flat as security", { type: 'property' }],
+    ['I want to mortgage my house', { type: 'property' }],
+    ['put up my FD as collateral', { type: 'fixed_deposit' }],
+  ])('reads "%s"', (message, request) => {
+    expect(parseCollateralRequest(message)).toEqual(request);
+  });
+
+  it.each([
+    'what is collateral?',
+    'do I need to pledge anything',
+    "I don't want to pledge my house",
+    'I want a car loan',
+  ])('ignores "%s"', message => {
+    expect(parseCollateralRequest(message)).toBeNull();
+  });
+});
+
+describe('readCollateralAnswer', () => {
+  it('reads each detail', () => {
+    expect(readCollateralAnswer('type', 'my gold bangles')).toBe('gold');
+    expect(readCollateralAnswer('type', 'a fixed deposit')).toBe('fixed_deposit');
+    expect(readCollateralAnswer('description', 'two bangles and a chain, 40 grams, 22 carat')).toBe('two bangles and a chain, 40 grams, 22 carat');
+    expect(readCollateralAnswer('value', "it's worth about 3.2 lakh")).toBe('320000');
+    expect(readCollateralAnswer('value', '₹9,50,000')).toBe('950000');
+  });
+
+  it('rejects answers that do not fit', () => {
+    expect(readCollateralAnswer('type', 'my savings')).toBeNull();
+    expect(readCollateralAnswer('description', 'ok')).toBeNull();
+    expect(readCollateralAnswer('value', 'not sure')).toBeNull();
+    expect(readCollateralAnswer('value', '2000000000000')).toBeNull();
+  });
+});
+
+describe('nextMissingCollateralField', () => {
+  it('asks in order and skips what is known', () => {
+    expect(nextMissingCollateralField({})).toBe('type');
+    expect(nextMissingCollateralField({ type: 'vehicle' })).toBe('description');
+    expect(nextMissingCollateralField({ type: 'gold', description: '50 grams, 22 carat', value: '300000' })).toBeUndefined();
+  });
+});
+
+describe('loan-to-value', () => {
+  it('is the loan as a percent of the collateral', () => {
+    expect(calculateLtv(300000, 400000)).toBe(75);
+    expect(calculateLtv(300000, 0)).toBeNull();
+  });
+
+  it('adds up only the collateral a policy accepts', () => {
+    const collateral = [{ type: 'gold', value: '200000' }, { type: 'fixed_deposit', value: 100000 }, { type: 'gold' }];
+
+    expect(totalCollateralValue(collateral)).toBe(300000);
+    expect(totalCollateralValue(collateral, ['gold'])).toBe(200000);
+  });
+});
+
+describe('collateral in underwriting', () => {
+  const applicant = { loan_type: 'Gold Loan', loan_amount: '300000', monthly_income: '60000', credit_score: 720, employment_status: 'salaried' };
+  const pledged = (value: number) => ({ ...applicant, collateral: [{ type: 'gold', value }] });
+
+  it('needs collateral for a secured loan', () => {
+    const decision = evaluatePolicy(gold, applicant);
+
+    expect(decision.decision).toBe('incomplete');
+    expect(decision.reason).toBe('Collateral value not provided - cannot make lending decision');
+    expect(evaluatePolicy(gold, { ...applicant, collateral: [{ type: 'property', value: 5000000 }] }).decision).toBe('incomplete');
+  });
+
+  it('refuses loans over the LTV cap', () => {
+    const decision = evaluatePolicy(gold, pledged(350000));
+
+    expect(evaluatePolicy(gold, pledged(400000)).decision).toBe('approved');
+    expect(decision.decision).toBe('rejected');
+    expect(decision.failedRules).toEqual(['max-ltv']);
+    expect(decision.reason).toBe("The loan would be 85.7% of the gold's value, above the limit of 75%");
+  });
+
+  it('prices lower LTVs lower', () => {
+    const rate = (value: number) => parseFloat(evaluatePolicy(gold, pledged(value)).quoted_rate);
+
+    expect(rate(600000)).toBeLessThan(rate(450000));
+    expect(rate(450000)).toBeLessThan(rate(400000));
+    expect(evaluatePolicy(gold, pledged(600000)).factors.find(factor => factor.name === 'Loan to Value')).toEqual({ name: 'Loan to Value', value: '50.0%', impact: 'positive' });
+  });
+
+  it('applies the home LTV caps only once a property value is given', () => {
+    const buyer = { loan_type: 'Home Loan', loan_amount: '8000000', monthly_income: '250000', credit_score: 780, employment_status: 'salaried' };
+    const withProperty = (value: number) => evaluatePolicy(home, { ...buyer, collateral: [{ type: 'property', value }] });
+
+    expect(evaluatePolicy(home, buyer).decision).toBe('approved');
+    expect(withProperty(12000000).decision).toBe('approved');
+    expect(withProperty(10000000).failedRules).toEqual(['max-ltv-large']);
+  });
+
+  it('caps the most the applicant can borrow at the LTV limit', () => {
+    const borrower = { loan_type: 'Gold Loan', monthly_income: 100000, credit_score: 760, employment_status: 'salaried' };
+
+    expect(prequalify(gold, { ...borrower, collateral: [{ type: 'gold', value: 400000 }] }).maxAmount).toBe(300000);
+    expect(prequalify(gold, borrower).eligible).toBe(false);
+  });
+});
+
+describe('collateral in policies', () => {
+  it('rejects a policy that requires collateral without saying which', () => {
+    expect(() => validatePolicy({ ...gold, collateralTypes: undefined }, 'gold.yaml')).toThrow(PolicyValidationError);
+  });
+
+  it('prefers the higher version of two that start the same day', () => {
+    const registry = new PolicyRegistry(['vehicle-2026.2', 'vehicle-2026.1', 'default-2026.1'].map(loadPolicy));
+
+    expect(registry.forLoanType('Vehicle Loan', AS_OF).version).toBe('2026.2');
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import {
+  MAX_REVISIONS_PER_FIELD,
+  lastRevisedField,
+  parseCorrection,
+  reviseFields,
+  undoRevision
+} from '../corrections';
+
+const FIRST = '2025-01-01T10:00:00.000Z';
+const SECOND = '2025-01-01T10:01:00.000Z';
+const THIRD = '2025-01-01T10:02:00.000Z';
+
+describe('reviseFields', () => {
+  it('sets fields and records what they held before', () => {
+    const data = reviseFields({ monthly_income: '8000' }, { monthly_income: '80000', loan_type: 'Home Loan' }, 'chat', FIRST);
+
+    expect(data.monthly_income).toBe('80000');
+    expect(data.loan_type).toBe('Home Loan');
+    expect(data.revisions).toEqual({
+      loan_type: [{ value: 'Home Loan', previous: null, source: 'chat', at: FIRST }],
+      monthly_income: [{ value: '80000', previous: '8000', source: 'chat', at: FIRST }],
+    });
+  });
+
+  it('skips values that did not change', () => {
+    const data = reviseFields({ loan_type: 'Home Loan' }, { loan_type: 'Home Loan', applicant_name: undefined }, 'chat', FIRST);
+
+    expect(data.revisions).toEqual({});
+  });
+
+  it('does not modify the data it was given', () => {
+    const original = { loan_amount: '500000' };
+    reviseFields(original, { loan_amount: '800000' }, 'correction', FIRST);
+
+    expect(original).toEqual({ loan_amount: '500000' });
+  });
+
+  it('keeps only the most recent revisions of a field', () => {
+    let data = {};
+    for (let step = 1; step <= MAX_REVISIONS_PER_FIELD + 5; step++) {
+      data = reviseFields(data, { loan_amount: String(step * 100000) }, 'chat', FIRST);
+    }
+
+    const history = reviseFields(data, {}, 'chat').revisions?.loan_amount ?? [];
+    expect(history).toHaveLength(MAX_REVISIONS_PER_FIELD);
+    expect(history[history.length - 1].value).toBe(String((MAX_REVISIONS_PER_FIELD + 5) * 100000));
+  });
+});
+
+describe('undoRevision', () => {
+  const history = () => {
+    let data = reviseFields({}, { loan_type: 'Personal Loan', monthly_income: '8000' }, 'chat', FIRST);
+    data = reviseFields(data, { loan_amount: '500000' }, 'chat', SECOND);
+    return reviseFields(data, { monthly_income: '80000' }, 'correction', THIRD);
+  };
+
+  it('undoes the most recent change', () => {
+    const { data, undone } = undoRevision(history());
+
+    expect(data.monthly_income).toBe('8000');
+    expect(undone).toEqual([{ field: 'monthly_income', value: '80000', previous: '8000', source: 'correction', at: THIRD }]);
+  });
+
+  it('steps further back each time', () => {
+    let { data } = undoRevision(history());
+    ({ data } = undoRevision(data));
+
+    expect(data.loan_amount).toBeUndefined();
+    expect(data.monthly_income).toBe('8000');
+  });
+
+  it('undoes every field changed by the same message together', () => {
+    let { data } = undoRevision(history());
+    ({ data } = undoRevision(data));
+    const { data: restored, undone } = undoRevision(data);
+
+    expect(undone.map(revision => revision.field)).toEqual(['loan_type', 'monthly_income']);
+    expect(restored.loan_type).toBeUndefined();
+    expect(restored.monthly_income).toBeUndefined();
+  });
+
+  it('rolls back a single field', () => {
+    const { data, undone } = undoRevision(history(), 'loan_type');
+
+    expect(undone).toHaveLength(1);
+    expect(data.loan_type).toBeUndefined();
+    expect(data.monthly_income).toBe('80000');
+  });
+
+  it('reports when there is nothing to undo', () => {
+    expect(undoRevision({ loan_type: 'Home Loan' }).undone).toEqual([]);
+    expect(undoRevision(history(), 'credit_score').undone).toEqual([]);
+  });
+});
+
+describe('lastRevisedField', () => {
+  it('finds the field changed most recently', () => {
+    const data = reviseFields(reviseFields({}, { loan_amount: '500000' }, 'chat', FIRST), { credit_score: 720 }, 'chat', SECOND);
+
+    expect(lastRevisedField(data)).toBe('credit_score');
+    expect(lastRevisedField({})).toBeUndefined();
+  });
+});
+
+describe('parseCorrection', () => {
+  it.each([
+    ['actually my income is 80k, not 8k', 'monthly_income', '80000'],
+    ['No, my monthly salary is 1.2 lakh', 'monthly_income', '120000'],
+    ['my income is 80000 not 8000', 'monthly_income', '80000'],
+    ['change the loan type to home loan', 'loan_type', 'Home Loan'],
+    ['Please update my loan amount to 12 lakh.', 'loan_amount', '1200000'],
+    ['set the loan type to business', 'loan_type', 'Business Loan'],
+    ['sorry, the amount should be 5 lakh', 'loan_amount', '500000'],
+    ['correction: my credit score is 760', 'credit_score', 760],
+    ['actually my name is priya sharma', 'applicant_name', 'Priya Sharma'],
+    ['no, my job is software engineer', 'employment_status', 'Software engineer'],
+    ['change my income to 6 lakh per annum', 'monthly_income', '50000'],
+    ['actually my EMIs are 15k', 'existing_emis', '15000'],
+    ['change my credit card dues to none', 'credit_card_dues', '0'],
+    ['correction: dependents should be 3', 'dependents', 3],
+  ])('reads "%s"', (message, field, value) => {
+    expect(parseCorrection(message)).toEqual({ kind: 'correction', field, value });
+  });
+
+  it('reads "it" as the last field for numbers', () => {
+    expect(parseCorrection("no, it's 80k", 'monthly_income')).toEqual({ kind: 'correction', field: 'monthly_income', value: '80000' });
+    expect(parseCorrection('actually I meant 750', 'credit_score')).toEqual({ kind: 'correction', field: 'credit_score', value: 750 });
+    expect(parseCorrection("no, it's fine", 'employment_status')).toBeNull();
+    expect(parseCorrection("no, it's 80k")).toBeNull();
+  });
+
+  it.each([
+    ['undo that', undefined],
+    ['Undo', undefined],
+    ['please undo the last change', undefined],
+    ['revert the loan amount', 'loan_amount'],
+    ['undo my income change', 'monthly_income'],
+    ['change it back', undefined],
+    ['change the loan type back', 'loan_type'],
+  ])('reads "%s" as undo', (message, field) => {
+    expect(parseCorrection(message)).toEqual({ kind: 'undo', field });
+  });
+
+  it.each([
+    'my income is 80000',
+    'I need a home loan of 20 lakh',
+    'actually I want a bigger house',
+    'no, what is the interest rate',
+    'I want to fix my roof to sell the house',
+    'change the locks back home',
+    'actually my income is 8',
+  ])('leaves "%s" to the extractor', message => {
+    expect(parseCorrection(message)).toBeNull();
+  });
+});
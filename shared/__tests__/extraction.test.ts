@@ -0,0 +1,147 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { mergeExtractions, needsConfirmation, parseExtraction } from '../extraction';
+
+describe('parseExtraction', () => {
+  it('normalizes amounts to whole-rupee strings and keeps confidence', () => {
+    const result = parseExtraction(JSON.stringify({
+      loan_amount: { value: '5,00,000', confidence: 0.95 },
+      monthly_income: { value: 85000.4, confidence: 0.9 },
+      credit_score: { value: '742', confidence: 0.8 },
+    }));
+
+    expect(result).toEqual({
+      success: true,
+      fields: {
+        loan_amount: { value: '500000', confidence: 0.95, source: 'model' },
+        monthly_income: { value: '85000', confidence: 0.9, source: 'model' },
+        credit_score: { value: 742, confidence: 0.8, source: 'model' },
+      },
+    });
+  });
+
+  it('treats an empty object, nulls and unknown keys as nothing extracted', () => {
+    expect(parseExtraction('{}')).toEqual({ success: true, fields: {} });
+    expect(parseExtraction('')).toEqual({ success: true, fields: {} });
+    expect(parseExtraction('{"applicant_name": null, "favourite_colour": {"value": "blue", "confidence": 1}}'))
+      .toEqual({ success: true, fields: {} });
+  });
+
+  it('accepts replies wrapped in a markdown fence', () => {
+    const result = parseExtraction('```json\n{"loan_type": {"value": "Home Loan", "confidence": 0.97}}\n```');
+
+    expect(result).toEqual({ success: true, fields: { loan_type: { value: 'Home Loan', confidence: 0.97, source: 'model' } } });
+  });
+
+  it('accepts zero for obligations the applicant does not have', () => {
+    const result = parseExtraction(JSON.stringify({
+      existing_emis: { value: 0, confidence: 0.9 },
+      credit_card_dues: { value: '40,000', confidence: 0.9 },
+      dependents: { value: 0, confidence: 0.9 },
+    }));
+
+    expect(result).toEqual({
+      success: true,
+      fields: {
+        existing_emis: { value: '0', confidence: 0.9, source: 'model' },
+        credit_card_dues: { value: '40000', confidence: 0.9, source: 'model' },
+        dependents: { value: 0, confidence: 0.9, source: 'model' },
+      },
+    });
+    expect(parseExtraction('{"loan_amount": {"value": 0, "confidence": 0.9}}').success).toBe(false);
+  });
+
+  it('reports invalid JSON', () => {
+    const result = parseExtraction('Sure! Here is the data: loan_amount=500000');
+
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toMatch(/not valid JSON/);
+  });
+
+  it('names each field that fails validation', () => {
+    const result = parseExtraction(JSON.stringify({
+      loan_amount: '500000',
+      credit_score: { value: 1200, confidence: 0.9 },
+      applicant_name: { value: 'Priya Sharma', confidence: 2 },
+    }));
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toMatch(/loan_amount/);
+      expect(result.error).toMatch(/credit_score\.value/);
+      expect(result.error).toMatch(/applicant_name\.confidence/);
+    }
+  });
+
+  it('rejects amounts written in words', () => {
+    expect(parseExtraction('{"loan_amount": {"value": "5 lakh", "confidence": 0.9}}').success).toBe(false);
+  });
+});
+
+describe('needsConfirmation', () => {
+  it('flags values below the confirmation threshold', () => {
+    expect(needsConfirmation({ value: '200000', confidence: 0.5 })).toBe(true);
+    expect(needsConfirmation({ value: '200000', confidence: 0.9 })).toBe(false);
+  });
+});
+
+describe('mergeExtractions', () => {
+  it('keeps fields only one source found', () => {
+    const { fields, disagreements } = mergeExtractions(
+      { monthly_income: { value: '60000', confidence: 0.9, source: 'pattern' } },
+      {
+        applicant_name: { value: 'Priya', confidence: 0.9, source: 'model' },
+        employment_status: { value: 'Teacher', confidence: 0.85, source: 'model' },
+      }
+    );
+
+    expect(fields).toEqual({
+      monthly_income: { value: '60000', confidence: 0.9, source: 'pattern' },
+      applicant_name: { value: 'Priya', confidence: 0.9, source: 'model' },
+      employment_status: { value: 'Teacher', confidence: 0.85, source: 'model' },
+    });
+    expect(disagreements).toEqual([]);
+  });
+
+  it('keeps the more confident reading when both sources agree', () => {
+    const { fields, disagreements } = mergeExtractions(
+      { loan_type: { value: 'Home Loan', confidence: 0.95, source: 'pattern' } },
+      { loan_type: { value: 'home loan', confidence: 0.8, source: 'model' } }
+    );
+
+    expect(fields.loan_type).toEqual({ value: 'Home Loan', confidence: 0.95, source: 'pattern' });
+    expect(disagreements).toEqual([]);
+  });
+
+  it('resolves conflicts by field precedence and reports them', () => {
+    const pattern = {
+      loan_amount: { value: '800000', confidence: 0.85, source: 'pattern' as const },
+      employment_status: { value: 'Employed', confidence: 0.85, source: 'pattern' as const },
+    };
+    const model = {
+      loan_amount: { value: '8000000', confidence: 0.9, source: 'model' as const },
+      employment_status: { value: 'Government', confidence: 0.9, source: 'model' as const },
+    };
+
+    const { fields, disagreements } = mergeExtractions(pattern, model);
+
+    expect(fields.loan_amount?.source).toBe('pattern');
+    expect(fields.employment_status?.source).toBe('model');
+    expect(disagreements).toEqual([
+      { field: 'loan_amount', pattern: pattern.loan_amount, model: model.loan_amount, chosen: 'pattern' },
+      { field: 'employment_status', pattern: pattern.employment_status, model: model.employment_status, chosen: 'model' },
+    ]);
+  });
+
+  it('lets the other source win when the preferred one is unsure', () => {
+    const { fields, disagreements } = mergeExtractions(
+      { monthly_income: { value: '200000', confidence: 0.5, source: 'pattern' } },
+      { monthly_income: { value: '20000', confidence: 0.9, source: 'model' } }
+    );
+
+    expect(fields.monthly_income).toEqual({ value: '20000', confidence: 0.9, source: 'model' });
+    expect(disagreements[0].chosen).toBe('model');
+  });
+});
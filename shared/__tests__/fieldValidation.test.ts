@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { fieldError, fieldErrors } from '../fieldValidation';
+import { DEFAULT_LOAN_PRODUCTS, LoanProductCatalog } from '../loanProducts';
+
+const catalog = new LoanProductCatalog(DEFAULT_LOAN_PRODUCTS);
+const personal = DEFAULT_LOAN_PRODUCTS.find(product => product.id === 'personal')!;
+
+describe('fieldError', () => {
+  it.each([
+    ['applicant_name', 'Asha Rao'],
+    ['applicant_name', "D'Souza-Menon"],
+    ['applicant_name', 'Ananya Iyer Jr.'],
+    ['loan_type', 'Home Loan'],
+    ['employment_status', 'Self-employed'],
+    ['loan_amount', '800000'],
+    ['loan_amount', '₹8,00,000'],
+    ['monthly_income', '85000'],
+    ['monthly_income', 85000],
+    ['existing_emis', '0'],
+    ['existing_emis', '99999999'],
+    ['credit_card_dues', 12000],
+    ['credit_score', 300],
+    ['credit_score', '900'],
+    ['dependents', 0],
+    ['loan_purpose', 'Renovating the kitchen'],
+  ] as const)('accepts %s %j', (field, value) => {
+    expect(fieldError(field, value)).toBeNull();
+  });
+
+  it.each([
+    ['applicant_name', 'A', 'between 2 and 100'],
+    ['applicant_name', 'Asha 2', 'only have letters'],
+    ['applicant_name', '-Asha', 'only have letters'],
+    ['loan_amount', '-500000', 'an amount in rupees'],
+    ['loan_amount', 'abc', 'an amount in rupees'],
+    ['monthly_income', 'abc', 'an amount in rupees'],
+    ['monthly_income', '500', 'seems too low'],
+    ['monthly_income', '250000000', 'yearly figure'],
+    ['existing_emis', '-1', 'or 0 if you have none'],
+    ['existing_emis', '100000000', "can't be more than ₹9,99,99,999"],
+    ['credit_card_dues', '10000000000', "can't be more than ₹9,99,99,99,999"],
+    ['loan_amount', '10000000000', "can't be more than ₹9,99,99,99,999"],
+    ['credit_score', 120, "so 120 can't be right"],
+    ['credit_score', 950, 'from 300 to 900'],
+    ['credit_score', 750.5, 'from 300 to 900'],
+    ['dependents', 25, 'from 0 to 20'],
+    ['dependents', -1, 'from 0 to 20'],
+    ['employment_status', 'x', 'between 2 and 60'],
+  ] as const)('rejects %s %j', (field, value, message) => {
+    expect(fieldError(field, value)).toContain(message);
+  });
+
+  it('leaves missing values to the question flow', () => {
+    expect(fieldError('credit_score', undefined)).toBeNull();
+    expect(fieldError('applicant_name', '')).toBeNull();
+  });
+
+  it('holds the amount to the product\'s range', () => {
+    expect(fieldError('loan_amount', '20000000', personal)).toBe('Personal Loan amounts go up to ₹40,00,000.');
+    expect(fieldError('loan_amount', '1000', personal)).toBe('Personal Loan amounts start at ₹25,000.');
+    expect(fieldError('loan_amount', '20000000')).toBeNull();
+  });
+});
+
+describe('fieldErrors', () => {
+  it('lists every field that fails', () => {
+    expect(fieldErrors({ applicant_name: 'Asha Rao', credit_score: 120, dependents: 30, monthly_income: '85000' })).toEqual({
+      credit_score: "Credit scores run from 300 to 900, so 120 can't be right.",
+      dependents: 'The number of dependents should be a whole number from 0 to 20.',
+    });
+  });
+});
+
+describe('LoanProductCatalog.fieldError', () => {
+  it('checks the amount against the loan type in the data', () => {
+    expect(catalog.fieldError('loan_amount', '20000000', { loan_type: 'consumer loan' })).toContain('go up to');
+    expect(catalog.fieldError('loan_amount', '20000000', { loan_type: 'Home Loan' })).toBeNull();
+    expect(catalog.fieldError('loan_amount', '20000000')).toBeNull();
+  });
+
+  it('checks a new loan type against the loan amount already given', () => {
+    expect(catalog.fieldError('loan_type', 'Personal Loan', { loan_type: 'Home Loan', loan_amount: '20000000' }))
+      .toBe('Personal Loan amounts go up to ₹40,00,000. Please change the loan amount first.');
+    expect(catalog.fieldError('loan_type', 'Personal Loan', { loan_type: 'Home Loan', loan_amount: '800000' })).toBeNull();
+    expect(catalog.fieldError('loan_type', 'Personal Loan')).toBeNull();
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { findAmounts, parseAmount, toMonthly } from '../indianNumbers';
+
+const amountOf = (text: string) => parseAmount(text)?.amount;
+
+describe('parseAmount', () => {
+  describe('digits with Indian and Western grouping', () => {
+    it.each([
+      ['₹12,50,000', 1250000],
+      ['12,50,000', 1250000],
+      ['1,00,00,000', 10000000],
+      ['1,250,000', 1250000],
+      ['1250000', 1250000],
+      ['Rs. 45,000', 45000],
+      ['Rs 45000', 45000],
+      ['INR 1250000', 1250000],
+      ['5000 rupees', 5000],
+      ['5000/-', 5000],
+      ['₹ 7,500.50', 7500.5],
+    ])('reads %s', (text, expected) => {
+      expect(amountOf(text)).toBe(expected);
+    });
+
+    it('keeps the currency marks in the matched text', () => {
+      expect(parseAmount('salary Rs. 45,000 only')?.text).toBe('Rs. 45,000');
+      expect(parseAmount('about 5000 rupees')?.text).toBe('5000 rupees');
+    });
+  });
+
+  describe('lakh, crore and thousand suffixes', () => {
+    it.each([
+      ['12.5L', 1250000, 'lakh'],
+      ['12.5 lakh', 1250000, 'lakh'],
+      ['30 lakhs', 3000000, 'lakh'],
+      ['8 lac', 800000, 'lakh'],
+      ['8 lacs', 800000, 'lakh'],
+      ['2.5lacs', 250000, 'lakh'],
+      ['1.2 cr', 12000000, 'crore'],
+      ['3.5 crores', 35000000, 'crore'],
+      ['5 crore', 50000000, 'crore'],
+      ['50k', 50000, 'thousand'],
+      ['50K', 50000, 'thousand'],
+      ['75 thousand', 75000, 'thousand'],
+      ['20 hazar', 20000, 'thousand'],
+    ])('reads %s', (text, expected, scale) => {
+      const parsed = parseAmount(text);
+      expect(parsed?.amount).toBe(expected);
+      expect(parsed?.scale).toBe(scale);
+      expect(parsed?.ambiguous).toBe(false);
+    });
+
+    it('combines descending scales', () => {
+      expect(amountOf('12 lakh 50 thousand')).toBe(1250000);
+      expect(amountOf('1 crore 20 lakh')).toBe(12000000);
+      expect(parseAmount('1 crore 20 lakh')?.scale).toBe('crore');
+    });
+
+    it('keeps repeated scales as separate amounts', () => {
+      expect(findAmounts('5 lakh 2 lakh').map(amount => amount.amount)).toEqual([500000, 200000]);
+    });
+
+    it('only treats single letters as suffixes when attached', () => {
+      expect(parseAmount('50 k')).toMatchObject({ amount: 50, scale: null, ambiguous: true });
+      expect(parseAmount('12 l')).toMatchObject({ amount: 12, scale: null });
+    });
+
+    it('does not read units out of longer words', () => {
+      expect(parseAmount('50kg')).toMatchObject({ amount: 50, scale: null });
+      expect(parseAmount('3 loans')).toMatchObject({ amount: 3, scale: null });
+    });
+
+    it('avoids floating point noise', () => {
+      expect(amountOf('1.1 lakh')).toBe(110000);
+      expect(amountOf('2.3 crore')).toBe(23000000);
+    });
+  });
+
+  describe('numbers in words', () => {
+    it.each([
+      ['fifty thousand', 50000],
+      ['fifty-five thousand', 55000],
+      ['twenty five lakh', 2500000],
+      ['one and a half crore', 15000000],
+      ['two and a half lakh', 250000],
+      ['half a crore', 5000000],
+      ['a lakh', 100000],
+      ['a hundred thousand', 100000],
+      ['one lakh fifty thousand', 150000],
+      ['ten lakh twenty thousand', 1020000],
+      ['two point five lakh', 250000],
+      ['five hundred', 500],
+      ['one lakh five hundred', 100500],
+      ['twenty five lakh rupees', 2500000],
+    ])('reads %s', (text, expected) => {
+      expect(amountOf(text)).toBe(expected);
+    });
+
+    it('understands dedh, dhai and sawa', () => {
+      expect(amountOf('dedh lakh')).toBe(150000);
+      expect(amountOf('dhai lakh')).toBe(250000);
+      expect(amountOf('sawa crore')).toBe(12500000);
+    });
+
+    it('ignores stray number words', () => {
+      expect(findAmounts('one of my friends told me about you')).toEqual([]);
+      expect(findAmounts('I have two kids')).toEqual([]);
+    });
+
+    it('matches the whole phrase', () => {
+      expect(parseAmount('I need about one and a half crore for the flat')).toMatchObject({
+        text: 'one and a half crore',
+        start: 13,
+        end: 33,
+      });
+    });
+  });
+
+  describe('monthly and annual figures', () => {
+    it.each([
+      ['50000 per month', 'month'],
+      ['50000 a month', 'month'],
+      ['50000/month', 'month'],
+      ['50000 monthly', 'month'],
+      ['50000 pm', 'month'],
+      ['50000 p.m.', 'month'],
+      ['6 lakh per annum', 'year'],
+      ['2.5 lacs per annum', 'year'],
+      ['6 lakh a year', 'year'],
+      ['6 lakh yearly', 'year'],
+      ['600000 p.a.', 'year'],
+      ['600000 pa', 'year'],
+      ['12 LPA', 'year'],
+    ])('reads the period of %s', (text, period) => {
+      expect(parseAmount(text)?.period).toBe(period);
+    });
+
+    it('includes the period words in the matched text', () => {
+      expect(parseAmount('I make 2.5 lacs per annum')?.text).toBe('2.5 lacs per annum');
+    });
+
+    it('takes the period from the words before the amount', () => {
+      expect(parseAmount('my annual income is 6 lakh')?.period).toBe('year');
+      expect(parseAmount('my CTC is 18 lakh')?.period).toBe('year');
+      expect(parseAmount('take-home of 45000')?.period).toBe('month');
+      expect(parseAmount('I want 5 lakh')?.period).toBeNull();
+    });
+
+    it('does not carry one amount\'s period onto the next', () => {
+      const [income, loan] = findAmounts('60000 per month and 5 lakh loan');
+      expect(income.period).toBe('month');
+      expect(loan.period).toBeNull();
+    });
+
+    it('reads LPA as lakhs', () => {
+      expect(parseAmount('12 LPA')).toMatchObject({ amount: 1200000, scale: 'lakh', period: 'year' });
+    });
+  });
+
+  describe('ambiguity', () => {
+    it.each(['2', '8', '750', '12.5', '1,2,3'])('flags %s', text => {
+      expect(parseAmount(text)?.ambiguous).toBe(true);
+    });
+
+    it.each(['80000', '₹500', '500 rupees', '5 lakh', 'fifty thousand', '12,50,000'])('trusts %s', text => {
+      expect(parseAmount(text)?.ambiguous).toBe(false);
+    });
+  });
+
+  it('skips durations', () => {
+    expect(findAmounts('a loan of 5 lakh for 3 years').map(amount => amount.amount)).toEqual([500000]);
+    expect(findAmounts('for 12 months')).toEqual([]);
+  });
+
+  it('returns null when there is no amount', () => {
+    expect(parseAmount('I want a loan')).toBeNull();
+    expect(parseAmount('')).toBeNull();
+    expect(parseAmount('Rs')).toBeNull();
+  });
+});
+
+describe('findAmounts', () => {
+  it('finds every amount in order', () => {
+    const amounts = findAmounts('I need a home loan of 50 lakh, my monthly salary is 1 lakh');
+
+    expect(amounts.map(amount => [amount.amount, amount.period])).toEqual([
+      [5000000, null],
+      [100000, 'month'],
+    ]);
+  });
+
+  it('keeps comma-separated amounts apart', () => {
+    expect(findAmounts('Rs 5000, 6000').map(amount => amount.amount)).toEqual([5000, 6000]);
+    expect(findAmounts('80000 8000').map(amount => amount.amount)).toEqual([80000, 8000]);
+  });
+});
+
+describe('toMonthly', () => {
+  it('divides annual figures by twelve', () => {
+    expect(toMonthly({ amount: 1200000, period: 'year' })).toBe(100000);
+    expect(toMonthly({ amount: 250000, period: 'year' })).toBe(20833);
+  });
+
+  it('leaves monthly and unspecified figures alone', () => {
+    expect(toMonthly({ amount: 50000, period: 'month' })).toBe(50000);
+    expect(toMonthly({ amount: 50000, period: null })).toBe(50000);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { INTENT_MODEL_THRESHOLD, classifyIntent, parseEligibilityQuestion, parseIntentReply, parseWhatIf } from '../intents';
+
+const intentOf = (message: string, applicationInProgress = false) =>
+  classifyIntent(message, { applicationInProgress }).intent;
+
+describe('classifyIntent', () => {
+  describe('apply', () => {
+    it.each([
+      'I want to apply for a loan',
+      'I need a home loan for my new flat',
+      "I'm looking for a business loan",
+      'Can we continue my application?',
+      'personal loan',
+      'I want to add my wife as a co-applicant',
+      'apply with my father as guarantor',
+    ])('recognises "%s"', message => {
+      expect(intentOf(message)).toBe('apply');
+    });
+
+    it.each(['50000', 'Priya Sharma', 'yes', 'undo that', 'what does CIBIL mean?', 'ok'])(
+      'treats "%s" as an answer while an application is in progress',
+      message => {
+        expect(intentOf(message, true)).toBe('apply');
+      }
+    );
+  });
+
+  describe('check_status', () => {
+    it.each([
+      "What's the status of my application?",
+      'track my loan',
+      'Has my loan been approved?',
+      'is my application approved',
+      'Any update on my loan?',
+      'status',
+    ])('recognises "%s"', message => {
+      expect(intentOf(message)).toBe('check_status');
+    });
+
+    it('still looks up applications mid-application', () => {
+      expect(intentOf('what is the status of my old application', true)).toBe('check_status');
+    });
+  });
+
+  describe('withdraw_application', () => {
+    it.each([
+      'I want to withdraw my application',
+      'Please cancel my home loan application',
+      "I don't need the loan anymore",
+      'withdraw',
+    ])('recognises "%s"', message => {
+      expect(intentOf(message)).toBe('withdraw_application');
+    });
+
+    it('is not mistaken for an answer mid-application', () => {
+      expect(intentOf('cancel my old personal loan application', true)).toBe('withdraw_application');
+    });
+  });
+
+  describe('eligibility', () => {
+    it.each([
+      'Am I eligible for a home loan?',
+      'Do I qualify for a personal loan with a 650 score',
+      'How much loan can I get on a 60k salary?',
+      'Would I get a loan if I am self-employed?',
+      'How much home loan can I get on 60k a month with 10k EMIs?',
+    ])('recognises "%s"', message => {
+      expect(intentOf(message)).toBe('eligibility');
+    });
+  });
+
+  describe('compare_products', () => {
+    it.each([
+      'Compare home loan and personal loan',
+      "What's the difference between a business loan and a personal loan?",
+      'Which loan is cheapest for me?',
+      'What loans do you offer?',
+      'home loan vs education loan',
+    ])('recognises "%s"', message => {
+      expect(intentOf(message)).toBe('compare_products');
+    });
+  });
+
+  describe('emi_what_if', () => {
+    it.each([
+      'What would the EMI be for 10 lakh?',
+      'emi for 5 lakh over 3 years',
+      'How much would I pay each month for 20 lakh?',
+      'What if I borrow 8 lakh instead?',
+      'Can I prepay part of it after two years?',
+    ])('recognises "%s"', message => {
+      expect(intentOf(message)).toBe('emi_what_if');
+    });
+
+    it('answers what-ifs during terms review', () => {
+      expect(intentOf('what if I take it over 10 years instead', true)).toBe('emi_what_if');
+    });
+
+    it('leaves statements of existing EMIs to the application', () => {
+      expect(intentOf('I pay 12000 in EMIs every month', true)).toBe('apply');
+      expect(intentOf('my existing EMIs are 8k a month', true)).toBe('apply');
+      expect(intentOf('what would my EMI be for 10 lakh?', true)).toBe('emi_what_if');
+    });
+  });
+
+  describe('general_question', () => {
+    it.each([
+      'How do I improve my CIBIL score?',
+      'Should I invest in mutual funds or a fixed deposit?',
+      'What is the repo rate?',
+    ])('recognises "%s"', message => {
+      expect(intentOf(message)).toBe('general_question');
+    });
+
+    it('asks the model when nothing matches', () => {
+      const classification = classifyIntent('tell me something');
+
+      expect(classification.intent).toBe('general_question');
+      expect(classification.confidence).toBeLessThan(INTENT_MODEL_THRESHOLD);
+    });
+  });
+
+  describe('small_talk', () => {
+    it.each(['Hi', 'hello there!', 'Good morning', 'thanks a lot', 'bye', 'how are you?'])('recognises "%s"', message => {
+      expect(intentOf(message)).toBe('small_talk');
+    });
+  });
+
+  it('is confident about strong matches', () => {
+    expect(classifyIntent('Am I eligible?')).toEqual({ intent: 'eligibility', confidence: 0.9, source: 'pattern' });
+    expect(classifyIntent('home loan').confidence).toBe(0.6);
+  });
+});
+
+describe('parseIntentReply', () => {
+  it('reads the intent from JSON', () => {
+    expect(parseIntentReply('{"intent": "check_status"}')).toBe('check_status');
+    expect(parseIntentReply('```json\n{"intent": "small_talk"}\n```')).toBe('small_talk');
+  });
+
+  it('rejects unknown intents and bad JSON', () => {
+    expect(parseIntentReply('{"intent": "book_flight"}')).toBeNull();
+    expect(parseIntentReply('check_status')).toBeNull();
+  });
+});
+
+describe('parseWhatIf', () => {
+  it('reads amount, rate and tenure', () => {
+    expect(parseWhatIf('EMI for 10 lakh at 9.5% over 5 years')).toEqual({ principal: 1000000, annualRate: 9.5, termMonths: 60 });
+    expect(parseWhatIf('what if I borrow ₹8,00,000 for 36 months')).toEqual({ principal: 800000, termMonths: 36 });
+  });
+
+  it('leaves out what was not mentioned', () => {
+    expect(parseWhatIf('what would the EMI be at 11 percent?')).toEqual({ annualRate: 11 });
+    expect(parseWhatIf('what if I take it over 10 years')).toEqual({ termMonths: 120 });
+  });
+});
+
+describe('parseEligibilityQuestion', () => {
+  it('reads income, existing EMIs, score and loan type', () => {
+    expect(parseEligibilityQuestion('how much home loan can I get on 60k a month with a 750 score and 10k EMIs?')).toEqual({
+      loan_type: 'Home Loan',
+      credit_score: 750,
+      monthly_income: 60000,
+      existing_emis: 10000,
+    });
+  });
+
+  it('tells the loan amount from the income', () => {
+    expect(parseEligibilityQuestion('Am I eligible for a 10 lakh car loan? I earn 80,000 per month and my CIBIL is 720')).toEqual({
+      loan_type: 'Vehicle Loan',
+      credit_score: 720,
+      loan_amount: 1000000,
+      monthly_income: 80000,
+    });
+  });
+
+  it('converts yearly figures to monthly', () => {
+    expect(parseEligibilityQuestion('I make 12 lakh a year and pay 15000 in EMIs')).toEqual({ monthly_income: 100000, existing_emis: 15000 });
+  });
+
+  it('leaves out what was not mentioned', () => {
+    expect(parseEligibilityQuestion('Do I qualify for a personal loan with a 650 score')).toEqual({ loan_type: 'Personal Loan', credit_score: 650 });
+    expect(parseEligibilityQuestion('Can I get a gold loan with a 700 score?')).toEqual({ loan_type: 'Gold Loan', credit_score: 700 });
+    expect(parseEligibilityQuestion('Would I get a loan if I am self-employed?')).toEqual({});
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { REQUIRED_FIELDS } from '../extraction';
+import { DEFAULT_LOAN_PRODUCTS, LoanProductCatalog, loanProductError, requiredFieldsFor } from '../loanProducts';
+import { generateOffers } from '../underwriting/offers';
+import { PolicyRegistry } from '../underwriting/registry';
+import type { LoanProductInput } from '../types';
+import { loadPolicy } from './policies';
+
+const policies = ['personal', 'home', 'vehicle', 'default'].map(loadPolicy);
+
+const catalog = new LoanProductCatalog(DEFAULT_LOAN_PRODUCTS);
+const personal = DEFAULT_LOAN_PRODUCTS.find(product => product.id === 'personal')!;
+
+// A narrower personal loan than its policy allows
+const shortPersonal: LoanProductInput = {
+  ...personal,
+  min_rate: 11,
+  max_rate: 12,
+  max_amount: 1000000,
+  max_term_years: 2,
+  documents: ['pan', 'salary_slip'],
+};
+
+describe('LoanProductCatalog', () => {
+  it.each([
+    ['I need a car loan', 'Vehicle Loan'],
+    ['looking for a HOUSING LOAN', 'Home Loan'],
+    ['can I get a gold jewellery loan?', 'Gold Loan'],
+    ['a loan against gold please', 'Gold Loan'],
+    ['money for my startup loan', 'Business Loan'],
+  ])('matches "%s" to the %s', (message, name) => {
+    expect(catalog.match(message)?.name).toBe(name);
+  });
+
+  it.each(['I need money', 'what is a loan', 'goldsmith loan'])('matches nothing in "%s"', message => {
+    expect(catalog.match(message)).toBeNull();
+  });
+
+  it('finds stored loan types by id, name or synonym', () => {
+    expect(catalog.forLoanType('Home Loan')?.id).toBe('home');
+    expect(catalog.forLoanType('home')?.id).toBe('home');
+    expect(catalog.forLoanType('Auto Loan')?.id).toBe('vehicle');
+    expect(catalog.forLoanType('Solar Loan')).toBeNull();
+    expect(catalog.forLoanType(null)).toBeNull();
+  });
+
+  it('leaves inactive products out', () => {
+    const withoutGold = new LoanProductCatalog(DEFAULT_LOAN_PRODUCTS.map(product =>
+      product.id === 'gold' ? { ...product, active: false } : product));
+
+    expect(withoutGold.active().map(product => product.id)).not.toContain('gold');
+    expect(withoutGold.list().map(product => product.id)).toContain('gold');
+    expect(withoutGold.match('I want a gold loan')).toBeNull();
+  });
+
+  it('lists products by sort order', () => {
+    const reordered = new LoanProductCatalog(DEFAULT_LOAN_PRODUCTS.map(product =>
+      product.id === 'gold' ? { ...product, sort_order: 0 } : product));
+
+    expect(reordered.list()[0].id).toBe('gold');
+  });
+
+  it('asks the product\'s questions in the usual order', () => {
+    const noDues = { ...personal, required_fields: [...REQUIRED_FIELDS].reverse().filter(field => field !== 'credit_card_dues') };
+
+    expect(requiredFieldsFor(noDues)).toEqual(REQUIRED_FIELDS.filter(field => field !== 'credit_card_dues'));
+    expect(requiredFieldsFor(null)).toEqual(REQUIRED_FIELDS);
+    expect(catalog.requiredFields('Solar Loan')).toEqual(REQUIRED_FIELDS);
+  });
+});
+
+describe('loanProductError', () => {
+  it('accepts every built-in product', () => {
+    for (const product of DEFAULT_LOAN_PRODUCTS) {
+      expect(loanProductError(product, DEFAULT_LOAN_PRODUCTS)).toBeNull();
+    }
+  });
+
+  it.each([
+    [{ id: 'Home Loans' }, 'id must be'],
+    [{ name: '' }, 'name must be'],
+    [{ synonyms: ['ok'] }, 'synonyms must be'],
+    [{ min_rate: 0 }, 'min_rate and max_rate must be positive'],
+    [{ min_amount: 5000000, max_amount: 100000 }, 'the minimum amount cannot be above the maximum'],
+    [{ max_term_years: 2.5 }, 'tenures must be whole years'],
+    [{ max_rate: 120 }, 'max_rate must be a yearly rate'],
+    [{ required_fields: ['loan_type', 'favourite_colour'] }, 'required_fields must list fields'],
+    [{ required_fields: ['loan_type', 'applicant_name'] }, 'required_fields must include monthly_income'],
+    [{ documents: ['passport'] }, 'documents must list'],
+    [{ active: 'yes' }, 'active must be'],
+    [{ questions: [{ id: 'loan_amount' }] }, 'question id "loan_amount" is already in use'],
+  ])('rejects %j', (changes, message) => {
+    expect(loanProductError({ ...personal, ...changes })).toContain(message);
+  });
+
+  it('refuses a name another product answers to', () => {
+    const solar = { ...personal, id: 'solar', name: 'Solar Loan', synonyms: ['car loan'] };
+
+    expect(loanProductError(solar, DEFAULT_LOAN_PRODUCTS)).toBe('"car loan" already names the Vehicle Loan');
+    expect(loanProductError({ ...solar, synonyms: ['rooftop solar loan'] }, DEFAULT_LOAN_PRODUCTS)).toBeNull();
+  });
+});
+
+describe('products in the policy registry', () => {
+  const registry = new PolicyRegistry(policies, new LoanProductCatalog([shortPersonal]));
+  const applicant = { loan_type: 'Personal Loan', monthly_income: '150000', credit_score: 780 };
+
+  it('lays the product\'s limits over its policy', () => {
+    const policy = registry.forLoanType('consumer loan');
+
+    expect(policy.id).toBe('personal');
+    expect(policy.pricing).toMatchObject({ minRate: 11, maxRate: 12 });
+    expect(policy.term).toMatchObject({ minYears: 1, maxYears: 2 });
+    expect(policy.documents).toEqual(['pan', 'salary_slip']);
+  });
+
+  it('keeps quotes inside the rate band and tenure range', () => {
+    const decision = registry.evaluate({ ...applicant, loan_amount: '800000' });
+
+    expect(decision.decision).toBe('approved');
+    expect(parseFloat(decision.quoted_rate)).toBeGreaterThanOrEqual(11);
+    expect(parseFloat(decision.quoted_rate)).toBeLessThanOrEqual(12);
+    expect(decision.loan_term).toBe(2);
+  });
+
+  it('refuses amounts outside the product\'s range', () => {
+    const tooMuch = registry.evaluate({ ...applicant, loan_amount: '1500000' });
+    const tooLittle = registry.evaluate({ ...applicant, loan_amount: '10000' });
+
+    expect(tooMuch.decision).toBe('rejected');
+    expect(tooMuch.failedRules).toContain('product-max-amount');
+    expect(tooMuch.reason).toBe('Personal Loan amounts go up to ₹10,00,000');
+    expect(tooLittle.failedRules).toContain('product-min-amount');
+  });
+
+  it('prequalifies no more than the product lends', () => {
+    const result = registry.prequalify({ loan_type: 'Personal Loan', monthly_income: 500000, credit_score: 800 });
+
+    expect(result.eligible).toBe(true);
+    expect(result.maxAmount).toBeLessThanOrEqual(1000000);
+    expect(result.termRange.max).toBeLessThanOrEqual(2);
+  });
+
+  it('offers tenures only within the product\'s range', () => {
+    const policy = registry.forLoanType('Personal Loan');
+    const offers = generateOffers(policy, { ...applicant, loan_amount: '800000' });
+
+    expect(offers.length).toBeGreaterThan(0);
+    for (const offer of offers) {
+      expect(offer.termYears).toBeGreaterThanOrEqual(1);
+      expect(offer.termYears).toBeLessThanOrEqual(2);
+    }
+  });
+
+  it('leaves loan types without a product to their policy', () => {
+    expect(registry.forLoanType('Home Loan').pricing.maxRate).toBe(loadPolicy('home').pricing.maxRate);
+  });
+});
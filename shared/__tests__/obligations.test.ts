@@ -0,0 +1,107 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { calculateFoir, monthlyObligations, readObligations } from '../obligations';
+import { evaluatePolicy } from '../underwriting/engine';
+import { loadPolicy } from './policies';
+
+const home = loadPolicy('home-2026.1');
+
+describe('monthlyObligations', () => {
+  it('adds EMIs to the minimum due on the card balance', () => {
+    expect(monthlyObligations({ existing_emis: '12000', credit_card_dues: '40000' })).toBe(14000);
+  });
+
+  it('counts missing answers as none', () => {
+    expect(monthlyObligations({})).toBe(0);
+    expect(monthlyObligations({ existing_emis: null, credit_card_dues: '0' })).toBe(0);
+  });
+});
+
+describe('calculateFoir', () => {
+  it('is the percent of income going to repayments', () => {
+    expect(calculateFoir(100000, 30000, 10000)).toBe(40);
+  });
+
+  it('is unknown without an income', () => {
+    expect(calculateFoir(0, 30000, 10000)).toBeNull();
+  });
+});
+
+describe('readObligations', () => {
+  it.each([
+    ['I pay 12k in EMIs', { existing_emis: '12000' }],
+    ['EMIs of 15,000 a month', { existing_emis: '15000' }],
+    ['I owe 40k on my credit card', { credit_card_dues: '40000' }],
+    ['credit card balance is 25000', { credit_card_dues: '25000' }],
+    ['I have 3 dependents', { dependents: 3 }],
+    ['I pay 12000 in EMIs and owe 40000 on my credit card', { existing_emis: '12000', credit_card_dues: '40000' }],
+    ['no EMIs and no credit card', { existing_emis: '0', credit_card_dues: '0' }],
+    ['no dependents', { dependents: 0 }],
+  ])('reads "%s"', (message, answers) => {
+    expect(readObligations(message).answers).toEqual(answers);
+  });
+
+  it('reads bare answers to the field that was asked', () => {
+    expect(readObligations('15000', 'existing_emis').answers).toEqual({ existing_emis: '15000' });
+    expect(readObligations('40k', 'credit_card_dues').answers).toEqual({ credit_card_dues: '40000' });
+    expect(readObligations('2', 'dependents').answers).toEqual({ dependents: 2 });
+  });
+
+  it('reads "none" as zero for the field that was asked', () => {
+    expect(readObligations('none', 'existing_emis').answers).toEqual({ existing_emis: '0' });
+    expect(readObligations('nil', 'credit_card_dues').answers).toEqual({ credit_card_dues: '0' });
+    expect(readObligations('no', 'dependents').answers).toEqual({ dependents: 0 });
+    expect(readObligations('none').answers).toEqual({});
+  });
+
+  it('leaves other amounts in the message alone', () => {
+    const reading = readObligations('no EMIs, my salary is 50000');
+
+    expect(reading.answers).toEqual({ existing_emis: '0' });
+    expect(reading.amounts).toEqual([]);
+    expect(readObligations('my income is 80000', 'existing_emis').answers).toEqual({});
+  });
+
+  it('returns the amounts it used', () => {
+    const reading = readObligations('I pay 12000 in EMIs, salary 90000');
+
+    expect(reading.amounts.map(amount => amount.amount)).toEqual([12000]);
+  });
+});
+
+describe('FOIR in underwriting', () => {
+  const applicant = { loan_type: 'Home Loan', loan_amount: '3000000', monthly_income: '80000', credit_score: 760, employment_status: 'salaried' };
+
+  it('counts existing obligations with the new EMI', () => {
+    const without = evaluatePolicy(home, applicant);
+    const withEmis = evaluatePolicy(home, { ...applicant, existing_emis: '15000' });
+    const foir = (decision: typeof without) => parseFloat(String(decision.factors.find(factor => factor.name === 'FOIR')!.value));
+
+    expect(foir(withEmis) - foir(without)).toBeCloseTo(18.75, 0);
+    expect(withEmis.factors.find(factor => factor.name === 'FOIR')!.value).toMatch(/%$/);
+  });
+
+  it('refuses loans that take repayments over the cap', () => {
+    const decision = evaluatePolicy(home, { ...applicant, existing_emis: '25000', credit_card_dues: '100000' });
+
+    expect(decision.decision).toBe('rejected');
+    expect(decision.failedRules).toEqual(['max-foir']);
+    expect(decision.reason).toMatch(/above the limit of 60%$/);
+    expect(decision.conditions).toContain('Pay down existing loans or card balances to bring FOIR under 60%');
+  });
+
+  it('prices in the tenure the applicant picked', () => {
+    const longer = evaluatePolicy(home, { ...applicant, existing_emis: '20000', loan_term: 30 });
+    const shorter = evaluatePolicy(home, { ...applicant, existing_emis: '20000', loan_term: 10 });
+
+    expect(longer.decision).toBe('approved');
+    expect(shorter.decision).toBe('rejected');
+  });
+
+  it('flags applicants with many dependents', () => {
+    expect(evaluatePolicy(home, { ...applicant, dependents: 4 }).rejectionRisks)
+      .toContain('Supports 4 dependents - less room for new repayments');
+  });
+});
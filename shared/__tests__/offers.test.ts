@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { evaluatePolicy } from '../underwriting/engine';
+import { generateOffers, parseOfferChoice, type LoanOffer } from '../underwriting/offers';
+import { AS_OF, policyRegistry } from './policies';
+
+// The versions in effect on AS_OF
+const registry = policyRegistry();
+
+const home = registry.forLoanType('Home Loan', AS_OF);
+const personal = registry.forLoanType('Personal Loan', AS_OF);
+
+const approvedHome = { loan_type: 'Home Loan', loan_amount: '2500000', monthly_income: '80000', credit_score: 680 };
+const refusedPersonal = { loan_type: 'Personal Loan', loan_amount: '3000000', monthly_income: '50000', credit_score: 700 };
+
+const kinds = (offers: LoanOffer[]) => offers.map(offer => offer.kind);
+
+describe('generateOffers', () => {
+  it('leads with the terms underwriting quotes', () => {
+    const [recommended] = generateOffers(home, approvedHome);
+    const decision = evaluatePolicy(home, approvedHome);
+
+    expect(recommended).toMatchObject({
+      kind: 'recommended',
+      loanAmount: 2500000,
+      interestRate: parseFloat(decision.quoted_rate),
+      termYears: decision.loan_term,
+    });
+  });
+
+  it('offers shorter and longer tenures at the same rate', () => {
+    const offers = generateOffers(home, approvedHome);
+    const shorter = offers.find(offer => offer.kind === 'shorter_term')!;
+    const longer = offers.find(offer => offer.kind === 'longer_term')!;
+
+    expect(shorter.termYears).toBe(20);
+    expect(longer.termYears).toBe(30);
+    expect(shorter.interestRate).toBe(offers[0].interestRate);
+    expect(shorter.emi).toBeGreaterThan(offers[0].emi);
+    expect(longer.emi).toBeLessThan(offers[0].emi);
+  });
+
+  it('prices a lower amount with the policy', () => {
+    const lower = generateOffers(home, approvedHome).find(offer => offer.kind === 'lower_amount')!;
+
+    expect(lower.loanAmount).toBe(2000000);
+    expect(lower.termYears).toBe(evaluatePolicy(home, { ...approvedHome, loan_amount: 2000000 }).loan_term);
+  });
+
+  it('prices the income a co-applicant needs for a better rate', () => {
+    const coApplicant = generateOffers(home, approvedHome).find(offer => offer.kind === 'co_applicant')!;
+
+    expect(coApplicant.interestRate).toBeLessThan(generateOffers(home, approvedHome)[0].interestRate);
+    expect(coApplicant.coApplicantIncome! % 1000).toBe(0);
+    expect(evaluatePolicy(home, { ...approvedHome, monthly_income: 80000 + coApplicant.coApplicantIncome! - 1000 }).quoted_rate)
+      .toBe(evaluatePolicy(home, approvedHome).quoted_rate);
+  });
+
+  it('offers refused applications the amount and co-applicant that would be approved', () => {
+    const offers = generateOffers(personal, refusedPersonal);
+    const lower = offers.find(offer => offer.kind === 'lower_amount')!;
+    const coApplicant = offers.find(offer => offer.kind === 'co_applicant')!;
+
+    expect(evaluatePolicy(personal, { ...refusedPersonal, loan_amount: lower.loanAmount }).decision).toBe('approved');
+    expect(evaluatePolicy(personal, { ...refusedPersonal, monthly_income: 50000 + coApplicant.coApplicantIncome! }).decision).toBe('approved');
+  });
+
+  it('prices each variant at its own terms and leaves out those the policy refuses', () => {
+    const stretched = { loan_type: 'Home Loan', loan_amount: '5000000', monthly_income: '60000', credit_score: 720 };
+    const offers = generateOffers(home, stretched);
+
+    // Twenty years would take repayments over the FOIR limit
+    expect(evaluatePolicy(home, { ...stretched, loan_term: 20 }).decision).toBe('rejected');
+    expect(kinds(offers)).not.toContain('shorter_term');
+    for (const offer of offers) {
+      const decision = evaluatePolicy(home, {
+        ...stretched,
+        loan_amount: offer.loanAmount,
+        loan_term: offer.termYears,
+        monthly_income: 60000 + (offer.coApplicantIncome ?? 0),
+      });
+      expect(decision.decision).toBe('approved');
+      expect(offer.interestRate).toBe(parseFloat(decision.quoted_rate));
+    }
+  });
+
+  it('leaves out variants the policy has no room for', () => {
+    // Already on the personal policy's longest tenure
+    expect(kinds(generateOffers(personal, refusedPersonal))).not.toContain('longer_term');
+  });
+
+  it('returns nothing without a loan amount', () => {
+    expect(generateOffers(home, { monthly_income: '80000', credit_score: 720 })).toEqual([]);
+  });
+});
+
+describe('parseOfferChoice', () => {
+  const offers = generateOffers(home, approvedHome);
+
+  it.each([
+    ['2', 1],
+    ['option 3', 2],
+    ['Go with option 2', 1],
+    ['#1', 0],
+    ['option five', 4],
+    ['the second one', 1],
+  ])('reads "%s" by number', (message, index) => {
+    expect(parseOfferChoice(message, offers)).toBe(index);
+  });
+
+  it.each([
+    ['the shorter one', 'shorter_term'],
+    ['the longer tenure please', 'longer_term'],
+    ['I want the lower amount', 'lower_amount'],
+    ['with a co-applicant', 'co_applicant'],
+    ['the recommended one', 'recommended'],
+  ])('reads "%s" by description', (message, kind) => {
+    expect(offers[parseOfferChoice(message, offers)!].kind).toBe(kind);
+  });
+
+  it('ignores other messages and options that were not offered', () => {
+    expect(parseOfferChoice('yes', offers)).toBeNull();
+    expect(parseOfferChoice('what does tenure mean?', offers)).toBeNull();
+    expect(parseOfferChoice('option 9', offers)).toBeNull();
+    expect(parseOfferChoice('the longer one', generateOffers(personal, refusedPersonal))).toBeNull();
+  });
+});
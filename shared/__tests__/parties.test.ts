@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { coApplicantIncome, nextMissingPartyField, parsePartyRequest, partyFieldError, readPartyAnswer } from '../parties';
+import { evaluatePolicy } from '../underwriting/engine';
+import { prequalify } from '../underwriting/prequalification';
+import { loadPolicy } from './policies';
+
+const home = loadPolicy('home-2026.1');
+
+describe('parsePartyRequest', () => {
+  it.each([
+    ['add my wife as a co-applicant', { role: 'co_applicant', relationship: 'wife' }],
+    ['I want to add a co-applicant', { role: 'co_applicant' }],
+    ['my father will be my guarantor', { role: 'guarantor', relationship: 'father' }],
+    ['Add a guarantor please', { role: 'guarantor' }],
+    ['I want to apply jointly with my husband', { role: 'co_applicant', relationship: 'husband' }],
+  ])('reads "%s"', (message, request) => {
+    expect(parsePartyRequest(message)).toEqual(request);
+  });
+
+  it.each([
+    'what is a co-applicant?',
+    'do I need a guarantor',
+    "I don't have a co-applicant",
+    'my wife works at a bank',
+  ])('ignores "%s"', message => {
+    expect(parsePartyRequest(message)).toBeNull();
+  });
+});
+
+describe('readPartyAnswer', () => {
+  it('reads each detail', () => {
+    expect(readPartyAnswer('name', 'her name is priya sharma')).toBe('Priya Sharma');
+    expect(readPartyAnswer('relationship', 'my brother')).toBe('brother');
+    expect(readPartyAnswer('monthly_income', 'she earns 45k a month')).toBe('45000');
+    expect(readPartyAnswer('monthly_income', '6 lakh per annum')).toBe('50000');
+    expect(readPartyAnswer('employment_status', "she's salaried")).toBe('Salaried');
+    expect(readPartyAnswer('credit_score', 'his score is 742')).toBe(742);
+  });
+
+  it('rejects answers that do not fit', () => {
+    expect(readPartyAnswer('name', 'yes')).toBeNull();
+    expect(readPartyAnswer('monthly_income', 'not sure')).toBeNull();
+    expect(readPartyAnswer('credit_score', '1200')).toBeNull();
+  });
+});
+
+describe('partyFieldError', () => {
+  it('holds party details to the limits an applicant\'s have', () => {
+    expect(partyFieldError('monthly_income', readPartyAnswer('monthly_income', '800 rupees'))).not.toBeNull();
+    expect(partyFieldError('monthly_income', readPartyAnswer('monthly_income', '50 crore'))).not.toBeNull();
+    expect(partyFieldError('monthly_income', readPartyAnswer('monthly_income', '45k'))).toBeNull();
+    expect(partyFieldError('credit_score', 742)).toBeNull();
+  });
+
+  it('leaves the relationship unchecked', () => {
+    expect(partyFieldError('relationship', 'brother')).toBeNull();
+  });
+});
+
+describe('nextMissingPartyField', () => {
+  it('asks in order and skips what is known', () => {
+    expect(nextMissingPartyField({ role: 'co_applicant' })).toBe('name');
+    expect(nextMissingPartyField({ role: 'co_applicant', name: 'Priya', relationship: 'wife' })).toBe('monthly_income');
+    expect(nextMissingPartyField({
+      role: 'guarantor', name: 'Ravi', relationship: 'father', monthly_income: '60000', employment_status: 'Retired', credit_score: 780,
+    })).toBeUndefined();
+  });
+});
+
+describe('combined income', () => {
+  const applicant = { loan_type: 'Home Loan', loan_amount: '6000000', monthly_income: '60000', credit_score: 760, employment_status: 'salaried' };
+  const wife = { role: 'co_applicant', monthly_income: '50000' };
+  const father = { role: 'guarantor', monthly_income: '90000' };
+
+  it('adds co-applicant incomes but not guarantors', () => {
+    expect(coApplicantIncome([wife, father])).toBe(50000);
+    expect(coApplicantIncome(undefined)).toBe(0);
+  });
+
+  it('lets a co-applicant get a refused application approved', () => {
+    expect(evaluatePolicy(home, applicant).decision).toBe('rejected');
+    expect(evaluatePolicy(home, { ...applicant, parties: [father] }).decision).toBe('rejected');
+    expect(evaluatePolicy(home, { ...applicant, parties: [wife] }).decision).toBe('approved');
+  });
+
+  it('raises the most the applicant can borrow', () => {
+    const alone = prequalify(home, { monthly_income: 60000, credit_score: 760 });
+    const jointly = prequalify(home, { monthly_income: 60000, credit_score: 760, parties: [wife] });
+
+    expect(jointly.maxAmount).toBeGreaterThan(alone.maxAmount);
+    expect(jointly.maxAmount).toBe(prequalify(home, { monthly_income: 110000, credit_score: 760 }).maxAmount);
+  });
+});
@@ -0,0 +1,21 @@
+// Underwriting policies for the tests, read from the files the app bundles
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { PolicyRegistry, parsePolicyDocument } from '../underwriting/registry';
+import type { UnderwritingPolicy } from '../underwriting/types';
+
+const POLICY_DIR = join(__dirname, '../underwriting/policies');
+
+// The day tests look policies up on, so the version they get doesn't depend
+// on the day they run. Move it forward to test a newer version.
+export const AS_OF = new Date('2026-10-19');
+
+// One version of a policy by file name, e.g. "home-2026.2"
+export const loadPolicy = (name: string): UnderwritingPolicy => {
+  const file = join(POLICY_DIR, `${name}.yaml`);
+  return parsePolicyDocument(readFileSync(file, 'utf8'), file);
+};
+
+// Every bundled policy; look versions up in it as of AS_OF
+export const policyRegistry = (): PolicyRegistry =>
+  new PolicyRegistry(readdirSync(POLICY_DIR).map(file => loadPolicy(file.replace(/\.yaml$/, ''))));
@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { evaluatePolicy } from '../underwriting/engine';
+import { PolicyRegistry } from '../underwriting/registry';
+import { AMOUNT_STEP, prequalify } from '../underwriting/prequalification';
+import { AS_OF, policyRegistry } from './policies';
+
+// The versions in effect on AS_OF
+const policies = policyRegistry();
+
+const home = policies.forLoanType('Home Loan', AS_OF);
+const personal = policies.forLoanType('Personal Loan', AS_OF);
+
+describe('prequalify', () => {
+  it('finds the largest amount underwriting approves', () => {
+    const result = prequalify(home, { loan_type: 'Home Loan', monthly_income: 80000, credit_score: 760, employment_status: 'salaried' });
+
+    expect(result.eligible).toBe(true);
+    expect(result.maxAmount % AMOUNT_STEP).toBe(0);
+    expect(evaluatePolicy(home, { loan_amount: result.maxAmount, monthly_income: 80000, credit_score: 760 }).decision).toBe('approved');
+    expect(evaluatePolicy(home, { loan_amount: result.maxAmount + AMOUNT_STEP, monthly_income: 80000, credit_score: 760 }).decision).toBe('rejected');
+  });
+
+  it('quotes the rate and term underwriting would', () => {
+    const result = prequalify(home, { monthly_income: 80000, credit_score: 760 });
+    const decision = evaluatePolicy(home, { loan_amount: result.maxAmount, monthly_income: 80000, credit_score: 760 });
+
+    expect(result.interestRate).toBe(parseFloat(decision.quoted_rate));
+    expect(result.termYears).toBe(decision.loan_term);
+    expect(result.policy).toEqual({ id: 'home', version: home.version });
+  });
+
+  it('gives the EMI range over the shortest and longest terms', () => {
+    const result = prequalify(home, { monthly_income: 80000, credit_score: 760 });
+
+    // The largest amount falls in the longest term's band
+    expect(result.termRange).toEqual({ min: 20, max: 30 });
+    expect(result.termYears).toBe(30);
+    expect(result.emiRange.min).toBe(result.emi);
+    expect(result.emi).toBeLessThan(result.emiRange.max);
+  });
+
+  it('counts existing EMIs and card dues towards FOIR', () => {
+    const without = prequalify(home, { monthly_income: 80000, credit_score: 760 });
+    const withEmis = prequalify(home, { monthly_income: 80000, existing_emis: 20000, credit_score: 760 });
+    const withDues = prequalify(home, { monthly_income: 80000, existing_emis: 20000, credit_card_dues: 100000, credit_score: 760 });
+
+    expect(withEmis.maxAmount).toBeLessThan(without.maxAmount);
+    expect(withDues.maxAmount).toBeLessThan(withEmis.maxAmount);
+    expect(evaluatePolicy(home, { loan_amount: withEmis.maxAmount, monthly_income: 80000, existing_emis: 20000, credit_score: 760 }).decision).toBe('approved');
+    expect(evaluatePolicy(home, { loan_amount: withEmis.maxAmount + AMOUNT_STEP, monthly_income: 80000, existing_emis: 20000, credit_score: 760 }).decision).toBe('rejected');
+  });
+
+  it('rates likelihood from the policy score', () => {
+    expect(prequalify(home, { monthly_income: 80000, credit_score: 760, employment_status: 'salaried' }).likelihood).toBe('high');
+    expect(prequalify(personal, { monthly_income: 30000, credit_score: 620 }).likelihood).toBe('low');
+  });
+
+  it('explains why nothing can be approved', () => {
+    const result = prequalify(personal, { monthly_income: 80000, credit_score: 550 });
+
+    expect(result).toMatchObject({ eligible: false, maxAmount: 0, emi: 0, likelihood: 'unlikely' });
+    expect(result.reasons[0]).toMatch(/Credit score \(550\) is below the minimum/);
+  });
+
+  it('is reachable through the registry by loan type', () => {
+    const registry = new PolicyRegistry([home, personal, policies.forLoanType(null, AS_OF)]);
+
+    expect(registry.prequalify({ loan_type: 'home', monthly_income: 80000, credit_score: 760 }).policy.id).toBe('home');
+    expect(registry.prequalify({ loan_type: 'Gold Loan', monthly_income: 80000, credit_score: 760 }).policy.id).toBe('default');
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { REQUIRED_FIELDS } from '../extraction';
+import { DEFAULT_LOAN_PRODUCTS, LoanProductCatalog } from '../loanProducts';
+import {
+  collateralFromDetails,
+  detailAnswerError,
+  nextQuestion,
+  productDetails,
+  productQuestionsError,
+  readDetailAnswer,
+  type NextQuestion,
+  type ProductQuestion,
+} from '../questionGraph';
+import type { LoanApplicationData } from '../types';
+
+const catalog = new LoanProductCatalog(DEFAULT_LOAN_PRODUCTS);
+const questions = (loanType: string) => catalog.questions(loanType);
+const question = (loanType: string, id: string) => questions(loanType).find(candidate => candidate.id === id)!;
+
+// Everything the core questions ask, answered
+const applicant: LoanApplicationData = {
+  applicant_name: 'Asha Rao',
+  monthly_income: '90000',
+  loan_amount: '800000',
+  employment_status: 'salaried',
+  credit_score: 760,
+  loan_purpose: 'purchase',
+  existing_emis: '0',
+  credit_card_dues: '0',
+  dependents: 1,
+};
+
+const asked = (next: NextQuestion | undefined) =>
+  !next ? null : next.type === 'field' ? next.field : next.question.id;
+
+// The questions asked, in order, answering each with `answers`
+const walk = (data: LoanApplicationData, answers: Record<string, string | number>) => {
+  const seen: string[] = [];
+  let current = { ...data, details: {} as Record<string, string | number> };
+  for (let next = catalog.nextQuestion(current); next; next = catalog.nextQuestion(current)) {
+    if (next.type === 'field') throw new Error(`unexpected core question ${next.field}`);
+    seen.push(next.question.id);
+    current = { ...current, details: { ...current.details, [next.question.id]: answers[next.question.id] } };
+  }
+  return seen;
+};
+
+describe('nextQuestion', () => {
+  it('asks the core fields in order without product questions', () => {
+    expect(asked(nextQuestion({}))).toBe('loan_type');
+    expect(asked(nextQuestion({ loan_type: 'Personal Loan' }))).toBe('applicant_name');
+    expect(nextQuestion({ ...applicant, loan_type: 'Personal Loan' })).toBeUndefined();
+  });
+
+  it('asks the product\'s questions right after the loan amount', () => {
+    const data: LoanApplicationData = { loan_type: 'Education Loan', applicant_name: 'Asha Rao', monthly_income: '90000' };
+
+    expect(asked(catalog.nextQuestion(data))).toBe('loan_amount');
+    expect(catalog.nextQuestion({ ...data, loan_amount: '800000' })).toMatchObject({
+      type: 'detail',
+      question: { id: 'institution' },
+      stage: 'loan_details',
+    });
+    expect(asked(catalog.nextQuestion({ ...data, loan_amount: '800000', details: { institution: 'IIT Madras', course: 'B.Tech', study_location: 'India' } })))
+      .toBe('employment_status');
+  });
+
+  it('reports the stage of the question it asks', () => {
+    expect(nextQuestion({ loan_type: 'Personal Loan' })?.stage).toBe('personal_info');
+    expect(nextQuestion({ ...applicant, loan_type: 'Personal Loan', credit_score: undefined })?.stage).toBe('financial_info');
+  });
+
+  it('stops a new vehicle at its condition, and asks the age of a used one', () => {
+    const vehicle = { ...applicant, loan_type: 'Vehicle Loan' };
+    const answers = { make_model: 'Honda City', on_road_price: 1500000, vehicle_age: 3 };
+
+    expect(walk(vehicle, { ...answers, vehicle_condition: 'new' })).toEqual(['make_model', 'on_road_price', 'vehicle_condition']);
+    expect(walk(vehicle, { ...answers, vehicle_condition: 'used' })).toEqual(['make_model', 'on_road_price', 'vehicle_condition', 'vehicle_age']);
+  });
+
+  it('asks for a GSTIN only above the registration threshold', () => {
+    const business = { ...applicant, loan_type: 'Business Loan' };
+
+    expect(walk(business, { business_vintage: 4, annual_turnover: 2500000 })).toEqual(['business_vintage', 'annual_turnover']);
+    expect(walk(business, { business_vintage: 4, annual_turnover: 12000000, gstin: '27AAPFU0939F1ZV' }))
+      .toEqual(['business_vintage', 'annual_turnover', 'gstin']);
+  });
+
+  it('asks for the country only when studying abroad', () => {
+    const education = { ...applicant, loan_type: 'Education Loan' };
+    const answers = { institution: 'IIT Madras', course: 'M.Tech', study_country: 'Germany' };
+
+    expect(walk(education, { ...answers, study_location: 'India' })).toHaveLength(3);
+    expect(walk(education, { ...answers, study_location: 'abroad' })).toContain('study_country');
+  });
+
+  it('follows an edge to a later question', () => {
+    const skipping: ProductQuestion[] = [
+      { id: 'first', label: 'first', prompt: 'First question?', kind: 'number', next: [{ when: { first: { gt: 5 } }, to: 'third' }] },
+      { id: 'second', label: 'second', prompt: 'Second question?', kind: 'text' },
+      { id: 'third', label: 'third', prompt: 'Third question?', kind: 'text' },
+    ];
+    const data = { ...applicant, loan_type: 'Personal Loan', details: { first: 9 } };
+
+    expect(asked(nextQuestion(data, REQUIRED_FIELDS, skipping))).toBe('third');
+    expect(asked(nextQuestion({ ...data, details: { first: 2 } }, REQUIRED_FIELDS, skipping))).toBe('second');
+  });
+});
+
+describe('productDetails', () => {
+  it('leaves out answers the current path no longer reaches', () => {
+    const data = {
+      ...applicant,
+      loan_type: 'Vehicle Loan',
+      details: { make_model: 'Honda City', on_road_price: 1500000, vehicle_condition: 'new', vehicle_age: 3 },
+    };
+
+    expect(catalog.productDetails(data)).toEqual({ make_model: 'Honda City', on_road_price: 1500000, vehicle_condition: 'new' });
+    expect(productDetails([], data)).toEqual({});
+  });
+
+  it('fills in the collateral from the vehicle\'s answers', () => {
+    const data = { ...applicant, loan_type: 'Vehicle Loan', details: { make_model: 'Honda City', on_road_price: 1500000 } };
+
+    expect(collateralFromDetails(questions('Vehicle Loan'), data)).toEqual({ description: 'Honda City', value: '1500000' });
+    expect(collateralFromDetails(questions('Business Loan'), data)).toEqual({});
+  });
+});
+
+describe('readDetailAnswer', () => {
+  it.each([
+    ['on_road_price', "it's about 12.5 lakh", 1250000],
+    ['on_road_price', 'I am not sure', null],
+    ['vehicle_condition', 'Used, bought in 2021', 'used'],
+    ['vehicle_condition', 'a second-hand one', null],
+    ['vehicle_age', "it's 3 years old", 3],
+    ['make_model', 'Maruti Swift.', 'Maruti Swift'],
+  ])('reads %s from "%s"', (id, message, expected) => {
+    expect(readDetailAnswer(question('Vehicle Loan', id), message)).toBe(expected);
+  });
+
+  it('reads a new business as zero years in business', () => {
+    expect(readDetailAnswer(question('Business Loan', 'business_vintage'), 'none yet, we start next month')).toBe(0);
+  });
+
+  it('keeps the option\'s own spelling', () => {
+    expect(readDetailAnswer(question('Education Loan', 'study_location'), 'in india')).toBe('India');
+  });
+});
+
+describe('detailAnswerError', () => {
+  it('checks amounts against the bounds', () => {
+    expect(detailAnswerError(question('Vehicle Loan', 'on_road_price'), 5000)).toBe("The on-road price can't be less than ₹20,000.");
+    expect(detailAnswerError(question('Vehicle Loan', 'on_road_price'), 900000)).toBeNull();
+  });
+
+  it('prefers the question\'s own message', () => {
+    expect(detailAnswerError(question('Vehicle Loan', 'vehicle_age'), 14)).toBe('We finance used vehicles up to 10 years old.');
+  });
+
+  it('matches text against the whole pattern', () => {
+    const gstin = question('Business Loan', 'gstin');
+
+    expect(detailAnswerError(gstin, '27aapfu0939f1zv')).toBeNull();
+    expect(detailAnswerError(gstin, 'GSTIN 27AAPFU0939F1ZV')).toContain('15 characters');
+    expect(detailAnswerError(question('Education Loan', 'study_country'), 'New Zealand')).toBeNull();
+  });
+
+  it('only accepts a choice\'s own options', () => {
+    const condition = question('Vehicle Loan', 'vehicle_condition');
+
+    expect(detailAnswerError(condition, 'used')).toBeNull();
+    expect(detailAnswerError(condition, 'second-hand')).toBe('The vehicle condition should be one of: new, used.');
+    expect(detailAnswerError(condition, 3)).toContain('one of');
+  });
+
+  it('refuses an answer of the wrong kind', () => {
+    expect(detailAnswerError(question('Vehicle Loan', 'on_road_price'), 'free')).toBe('The on-road price should be an amount in rupees.');
+    expect(detailAnswerError(question('Vehicle Loan', 'vehicle_age'), 'old')).toBe('The vehicle age should be a number.');
+    expect(detailAnswerError(question('Business Loan', 'gstin'), 1)).toContain('written out');
+    expect(detailAnswerError(question('Vehicle Loan', 'on_road_price'), Number.NaN)).not.toBeNull();
+  });
+});
+
+describe('productQuestionsError', () => {
+  const valid: ProductQuestion = { id: 'panel_capacity', label: 'panel capacity', prompt: 'How many kilowatts?', kind: 'number' };
+
+  it('accepts every built-in product\'s questions', () => {
+    for (const product of DEFAULT_LOAN_PRODUCTS) {
+      expect(productQuestionsError(product.questions)).toBeNull();
+    }
+  });
+
+  it.each([
+    ['not a list', 'questions must be a list'],
+    [[{ ...valid, id: 'Panel Capacity' }], 'question ids must be'],
+    [[{ ...valid, id: 'monthly_income' }], 'monthly_income'],
+    [[valid, valid], 'panel_capacity'],
+    [[{ ...valid, kind: 'date' }], 'kind'],
+    [[{ ...valid, stage: 'underwriting' }], 'stage'],
+    [[{ ...valid, validation: { min: 10, max: 1 } }], 'min'],
+    [[{ ...valid, kind: 'text', validation: { pattern: '([' } }], 'pattern'],
+    [[{ ...valid, kind: 'choice', validation: { options: ['one'] } }], 'options'],
+    [[{ ...valid, collateral: 'description' }], 'collateral'],
+    [[{ ...valid, next: [{ when: { colour: { eq: 'red' } }, to: null }] }], 'colour'],
+    [[{ ...valid, next: [{ when: { panel_capacity: { near: 5 } }, to: null }] }], 'must be compared with'],
+    [[{ ...valid, next: [{ to: 'panel_capacity' }] }], 'later question'],
+  ])('rejects %j', (value, message) => {
+    expect(productQuestionsError(value)).toContain(message);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { evaluatePolicy, matchesComparison, termLimits } from '../underwriting/engine';
+import { PolicyRegistry, normalizeLoanType, parsePolicyDocument } from '../underwriting/registry';
+import { PolicyValidationError } from '../underwriting/types';
+import { AS_OF, loadPolicy, policyRegistry } from './policies';
+
+const personal = loadPolicy('personal-2026.1');
+const fallback = loadPolicy('default');
+
+const applicant = { loan_type: 'Personal Loan', loan_amount: '300000', monthly_income: '80000', credit_score: 700 };
+
+describe('matchesComparison', () => {
+  it.each([
+    [700, { gt: 600 }, true],
+    [600, { gt: 600 }, false],
+    [600, { gte: 600, lt: 700 }, true],
+    [700, { lte: 650 }, false],
+    ['Salaried', { in: ['salaried', 'employed'] }, true],
+    ['student', { notIn: ['student'] }, false],
+    ['salaried', { eq: 'SALARIED' }, true],
+    ['salaried', { gt: 1 }, false],
+    [null, { notIn: ['student'] }, false],
+  ])('%p against %j is %p', (value, comparison, expected) => {
+    expect(matchesComparison(value, comparison)).toBe(expected);
+  });
+});
+
+describe('evaluatePolicy', () => {
+  it('approves an applicant every rule passes and prices the loan', () => {
+    const decision = evaluatePolicy(personal, applicant);
+
+    expect(decision).toMatchObject({
+      decision: 'approved',
+      interest_rate: decision.quoted_rate,
+      loan_term: 3,
+      failedRules: [],
+      policy: { id: 'personal', version: '2026.1' },
+    });
+    expect(parseFloat(decision.quoted_rate)).toBeLessThan(personal.pricing.baseRate);
+  });
+
+  it('names the first rule that fails', () => {
+    const decision = evaluatePolicy(personal, { ...applicant, credit_score: 580 });
+
+    expect(decision.decision).toBe('rejected');
+    expect(decision.interest_rate).toBe('N/A');
+    expect(decision.failedRules).toEqual(['min-credit-score']);
+    expect(decision.reason).toBe('Credit score (580) is below the minimum of 601');
+  });
+
+  it('asks for the fields it needs before deciding', () => {
+    const decision = evaluatePolicy(personal, { ...applicant, credit_score: undefined });
+
+    expect(decision.decision).toBe('incomplete');
+    expect(decision.rejectionRisks).toEqual(['Credit score not provided']);
+  });
+
+  it('quotes the term tier a loan falls in unless a term is asked for', () => {
+    expect(evaluatePolicy(personal, { ...applicant, loan_amount: '600000' }).loan_term).toBe(5);
+    expect(evaluatePolicy(personal, { ...applicant, loan_term: 2 }).loan_term).toBe(2);
+    expect(termLimits(personal)).toEqual({ min: 1, max: 5 });
+  });
+
+  it('keeps the rate within the policy\'s bounds', () => {
+    const expensive = { ...personal, pricing: { ...personal.pricing, baseRate: 30 } };
+
+    expect(evaluatePolicy(expensive, applicant).quoted_rate).toBe(personal.pricing.maxRate.toFixed(2));
+  });
+});
+
+describe('normalizeLoanType', () => {
+  it.each([
+    ['Home Loan', 'home'],
+    ['  HOME   loan ', 'home'],
+    ['personal', 'personal'],
+  ])('reads %p as %p', (loanType, expected) => {
+    expect(normalizeLoanType(loanType)).toBe(expected);
+  });
+});
+
+describe('PolicyRegistry', () => {
+  const registry = policyRegistry();
+
+  it('uses the version in effect on the day asked about', () => {
+    expect(registry.forLoanType('Personal Loan', new Date('2025-06-01')).version).toBe('2025.1');
+    expect(registry.forLoanType('Personal Loan', AS_OF).version).toBe('2026.1');
+  });
+
+  it('prefers the higher of two versions taking effect the same day', () => {
+    const sameDay = registry.list().filter(policy => policy.id === 'personal' && policy.effectiveFrom === '2026-10-19');
+
+    expect(sameDay.map(policy => policy.version)).toEqual(['2026.1', '2025.2']);
+  });
+
+  it('falls back to the default policy for loan types without their own', () => {
+    expect(registry.forLoanType('Boat Loan', AS_OF).id).toBe('default');
+    expect(registry.forLoanType(null, AS_OF).id).toBe('default');
+  });
+
+  it('refuses to look up a day before any policy took effect', () => {
+    expect(() => registry.forLoanType('Personal Loan', new Date('2024-12-31'))).toThrow(PolicyValidationError);
+  });
+
+  it('re-checks a past decision with the version it recorded', () => {
+    const decision = registry.evaluate(applicant, { id: 'personal', version: '2025.1' });
+
+    expect(decision.policy).toEqual({ id: 'personal', version: '2025.1' });
+  });
+
+  it('refuses duplicate versions and a missing fallback', () => {
+    expect(() => new PolicyRegistry([fallback, personal, personal])).toThrow('duplicate policy personal@2026.1');
+    expect(() => new PolicyRegistry([personal])).toThrow('no fallback policy');
+  });
+});
+
+describe('parsePolicyDocument', () => {
+  it('names the file and the problem', () => {
+    expect(() => parsePolicyDocument('id: [', 'broken.yaml')).toThrow(/^broken\.yaml: could not be parsed/);
+    expect(() => parsePolicyDocument(JSON.stringify({ ...personal, eligibility: [{ id: 'x', require: { age: { gt: 1 } }, failure: 'x' }] }), 'age.json'))
+      .toThrow('uses unknown field "age"');
+  });
+});
@@ -0,0 +1,239 @@
+// Month-by-month amortization schedules for reducing-balance loans, with
+// optional moratorium, step-up EMIs and prepayments. Pure functions shared by
+// the chat flow, the applications page and the exports.
+
+export interface Prepayment {
+  // 1-based month number, counted from the first month of the loan (moratorium included)
+  month: number;
+  amount: number;
+}
+
+export interface StepUp {
+  // EMI grows by `percent` every `everyMonths` repayment months
+  everyMonths: number;
+  percent: number;
+}
+
+export interface Moratorium {
+  months: number;
+  // 'capitalize' adds interest to the balance; 'interest_only' collects it monthly
+  interest: 'capitalize' | 'interest_only';
+}
+
+export interface AmortizationOptions {
+  principal: number;
+  annualRate: number; // percent, e.g. 9.5
+  // Repayment months after any moratorium
+  termMonths: number;
+  startDate?: Date;
+  moratorium?: Moratorium;
+  stepUp?: StepUp;
+  prepayments?: Prepayment[];
+  // What a prepayment shortens: the number of EMIs (default) or the EMI amount
+  prepaymentStrategy?: 'reduce_tenure' | 'reduce_emi';
+}
+
+export interface AmortizationRow {
+  month: number;
+  dueDate: string | null; // YYYY-MM-DD when a start date is given
+  phase: 'moratorium' | 'repayment';
+  openingBalance: number;
+  payment: number;
+  interest: number;
+  principal: number;
+  prepayment: number;
+  closingBalance: number;
+}
+
+export interface AmortizationSchedule {
+  rows: AmortizationRow[];
+  // EMI of the first repayment month
+  emi: number;
+  totalPayment: number;
+  totalInterest: number;
+  totalPrepayment: number;
+  payoffMonth: number;
+}
+
+export interface YearlySummary {
+  year: number;
+  payment: number;
+  interest: number;
+  principal: number;
+  prepayment: number;
+  closingBalance: number;
+}
+
+const SETTLED = 0.005;
+
+const stepFactor = (index: number, stepUp?: StepUp) =>
+  stepUp && stepUp.percent !== 0 ? Math.pow(1 + stepUp.percent / 100, Math.floor(index / stepUp.everyMonths)) : 1;
+
+// Balance left after paying `months` EMIs that start at repayment index `startIndex`
+const remainingBalance = (balance: number, monthlyRate: number, months: number, base: number, startIndex: number, stepUp?: StepUp) => {
+  let remaining = balance;
+  for (let i = 0; i < months; i++) {
+    remaining = remaining * (1 + monthlyRate) - base * stepFactor(startIndex + i, stepUp);
+  }
+  return remaining;
+};
+
+// Base EMI that clears `balance` in `months`; later EMIs are base * step factor
+const solveBaseEmi = (balance: number, monthlyRate: number, months: number, startIndex: number, stepUp?: StepUp): number => {
+  if (months <= 0) return balance;
+
+  if (!stepUp || stepUp.percent === 0) {
+    if (monthlyRate === 0) return balance / months;
+    const growth = Math.pow(1 + monthlyRate, months);
+    return (balance * monthlyRate * growth) / (growth - 1);
+  }
+
+  // Balance left is monotonic in the EMI, so bisect
+  let low = 0;
+  let high = balance * Math.pow(1 + monthlyRate, months);
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (remainingBalance(balance, monthlyRate, months, mid, startIndex, stepUp) > 0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return high;
+};
+
+// Level EMI for a plain loan, without building the schedule
+export const calculateEmi = (principal: number, annualRate: number, termMonths: number): number =>
+  solveBaseEmi(principal, annualRate / 100 / 12, termMonths, 0);
+
+const addMonths = (date: Date, months: number): string => {
+  const due = new Date(date.getFullYear(), date.getMonth() + months, date.getDate());
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${due.getFullYear()}-${pad(due.getMonth() + 1)}-${pad(due.getDate())}`;
+};
+
+const validateOptions = (options: AmortizationOptions) => {
+  const { principal, annualRate, termMonths, moratorium, stepUp, prepayments } = options;
+  if (!(principal > 0)) throw new Error('Principal must be greater than zero');
+  if (!(annualRate >= 0)) throw new Error('Interest rate cannot be negative');
+  if (!Number.isInteger(termMonths) || termMonths <= 0) throw new Error('Term must be a whole number of months');
+  if (moratorium && (!Number.isInteger(moratorium.months) || moratorium.months < 0)) {
+    throw new Error('Moratorium must be a whole number of months');
+  }
+  if (stepUp && (!Number.isInteger(stepUp.everyMonths) || stepUp.everyMonths <= 0 || stepUp.percent <= -100)) {
+    throw new Error('Step-up needs a positive interval and a percentage above -100');
+  }
+  for (const prepayment of prepayments || []) {
+    if (!Number.isInteger(prepayment.month) || prepayment.month < 1 || !(prepayment.amount > 0)) {
+      throw new Error(`Invalid prepayment of ${prepayment.amount} in month ${prepayment.month}`);
+    }
+  }
+};
+
+export const generateAmortizationSchedule = (options: AmortizationOptions): AmortizationSchedule => {
+  validateOptions(options);
+
+  const monthlyRate = options.annualRate / 100 / 12;
+  const moratoriumMonths = options.moratorium?.months ?? 0;
+  const strategy = options.prepaymentStrategy ?? 'reduce_tenure';
+
+  const prepaymentsByMonth = new Map<number, number>();
+  for (const prepayment of options.prepayments || []) {
+    prepaymentsByMonth.set(prepayment.month, (prepaymentsByMonth.get(prepayment.month) ?? 0) + prepayment.amount);
+  }
+
+  const rows: AmortizationRow[] = [];
+  let balance = options.principal;
+
+  const pushRow = (row: Omit<AmortizationRow, 'month' | 'dueDate'>) => {
+    const month = rows.length + 1;
+    rows.push({ month, dueDate: options.startDate ? addMonths(options.startDate, month) : null, ...row });
+  };
+
+  const applyPrepayment = (month: number) => Math.min(prepaymentsByMonth.get(month) ?? 0, balance);
+
+  for (let i = 0; i < moratoriumMonths; i++) {
+    const openingBalance = balance;
+    const interest = balance * monthlyRate;
+    const payment = options.moratorium!.interest === 'interest_only' ? interest : 0;
+    balance += interest - payment;
+
+    const prepayment = applyPrepayment(rows.length + 1);
+    balance -= prepayment;
+    pushRow({ phase: 'moratorium', openingBalance, payment, interest, principal: 0, prepayment, closingBalance: balance });
+  }
+
+  let baseEmi = solveBaseEmi(balance, monthlyRate, options.termMonths, 0, options.stepUp);
+  const emi = baseEmi;
+
+  for (let index = 0; index < options.termMonths && balance > SETTLED; index++) {
+    const openingBalance = balance;
+    const interest = balance * monthlyRate;
+    const isLastMonth = index === options.termMonths - 1;
+
+    // The final EMI absorbs rounding drift; any EMI caps at what is owed
+    const scheduled = baseEmi * stepFactor(index, options.stepUp);
+    const payment = isLastMonth ? balance + interest : Math.min(scheduled, balance + interest);
+    const principal = payment - interest;
+    balance -= principal;
+
+    const prepayment = applyPrepayment(rows.length + 1);
+    balance -= prepayment;
+    if (balance < SETTLED) balance = 0;
+
+    pushRow({ phase: 'repayment', openingBalance, payment, interest, principal, prepayment, closingBalance: balance });
+
+    if (prepayment > 0 && strategy === 'reduce_emi' && balance > 0) {
+      baseEmi = solveBaseEmi(balance, monthlyRate, options.termMonths - index - 1, index + 1, options.stepUp);
+    }
+  }
+
+  const sum = (pick: (row: AmortizationRow) => number) => rows.reduce((total, row) => total + pick(row), 0);
+  const totalPrepayment = sum(row => row.prepayment);
+  const totalPayment = sum(row => row.payment) + totalPrepayment;
+
+  return {
+    rows,
+    emi,
+    totalPayment,
+    // Capitalised moratorium interest is repaid through principal, so count cost from cash paid
+    totalInterest: totalPayment - options.principal,
+    totalPrepayment,
+    payoffMonth: rows.length,
+  };
+};
+
+export const summarizeByYear = (schedule: AmortizationSchedule): YearlySummary[] => {
+  const years: YearlySummary[] = [];
+  schedule.rows.forEach((row, index) => {
+    const year = Math.floor(index / 12) + 1;
+    if (!years[year - 1]) {
+      years[year - 1] = { year, payment: 0, interest: 0, principal: 0, prepayment: 0, closingBalance: 0 };
+    }
+    const summary = years[year - 1];
+    summary.payment += row.payment;
+    summary.interest += row.interest;
+    summary.principal += row.principal;
+    summary.prepayment += row.prepayment;
+    summary.closingBalance = row.closingBalance;
+  });
+  return years;
+};
+
+const CSV_COLUMNS: Array<[string, (row: AmortizationRow) => string]> = [
+  ['Month', row => String(row.month)],
+  ['Due Date', row => row.dueDate ?? ''],
+  ['Phase', row => row.phase],
+  ['Opening Balance', row => row.openingBalance.toFixed(2)],
+  ['Payment', row => row.payment.toFixed(2)],
+  ['Interest', row => row.interest.toFixed(2)],
+  ['Principal', row => row.principal.toFixed(2)],
+  ['Prepayment', row => row.prepayment.toFixed(2)],
+  ['Closing Balance', row => row.closingBalance.toFixed(2)],
+];
+
+export const scheduleToCsv = (schedule: AmortizationSchedule): string =>
+  [
+    CSV_COLUMNS.map(([header]) => header).join(','),
+    ...schedule.rows.map(row => CSV_COLUMNS.map(([, value]) => value(row)).join(',')),
+  ].join('\n');
@@ -0,0 +1,40 @@
+// Working out which of a user's applications a chat message is about: "my
+// home loan", "the 5 lakh one", "application 3f2a91c0", "my latest application".
+import { findAmounts } from './indianNumbers';
+import { normalizeLoanType } from './underwriting/registry';
+import type { LoanApplication } from './types';
+
+export type ApplicationSummary = Pick<LoanApplication, 'id' | 'loan_type' | 'loan_amount' | 'status' | 'application_date'>;
+
+const ID_PREFIX = /\b[0-9a-f]{6,}(?:-[0-9a-f-]*)?\b/gi;
+const LATEST = /\b(latest|last|recent|newest|most recent)\b/i;
+
+// Newest first
+const byDate = <T extends ApplicationSummary>(applications: T[]): T[] =>
+  [...applications].sort((a, b) => new Date(b.application_date).getTime() - new Date(a.application_date).getTime());
+
+// The applications the message could mean, newest first. Every clue the
+// message gives (ID, loan type, amount, "latest") narrows the list; a message
+// with no clues matches them all.
+export const findReferencedApplications = <T extends ApplicationSummary>(message: string, applications: T[]): T[] => {
+  let candidates = byDate(applications);
+
+  const ids = (message.match(ID_PREFIX) ?? []).map(id => id.toLowerCase());
+  if (ids.length > 0) {
+    const matching = candidates.filter(application => ids.some(id => application.id.toLowerCase().startsWith(id)));
+    if (matching.length > 0) return matching;
+  }
+
+  const text = message.toLowerCase();
+  const ofType = candidates.filter(application => {
+    const loanType = normalizeLoanType(application.loan_type);
+    return loanType !== '' && new RegExp(`\\b${loanType.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(text);
+  });
+  if (ofType.length > 0) candidates = ofType;
+
+  const amounts = findAmounts(message).filter(amount => !amount.ambiguous).map(amount => amount.amount);
+  const ofAmount = candidates.filter(application => amounts.includes(Math.round(parseFloat(application.loan_amount))));
+  if (ofAmount.length > 0) candidates = ofAmount;
+
+  return LATEST.test(message) ? candidates.slice(0, 1) : candidates;
+};
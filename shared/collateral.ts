@@ -0,0 +1,117 @@
+// Security pledged against a loan, and LTV (loan-to-value): the loan amount as
+// a percent of what the pledged collateral is worth. Also reads the chat
+// requests and answers that record collateral.
+import { parseAmount } from './indianNumbers';
+
+export const COLLATERAL_TYPES = ['property', 'vehicle', 'gold', 'fixed_deposit'] as const;
+
+export type CollateralType = typeof COLLATERAL_TYPES[number];
+
+export const COLLATERAL_TYPE_LABELS: Record<CollateralType, string> = {
+  property: 'property',
+  vehicle: 'vehicle',
+  gold: 'gold',
+  fixed_deposit: 'fixed deposit',
+};
+
+export const isCollateralType = (value: unknown): value is CollateralType =>
+  COLLATERAL_TYPES.includes(value as CollateralType);
+
+// Most collateral items an application can carry
+export const MAX_COLLATERAL = 4;
+
+// Largest value a collateral item's numeric(14,2) column holds
+export const MAX_COLLATERAL_VALUE = 999_999_999_999.99;
+
+// Asked in this order; a type named in the request isn't asked again
+export const COLLATERAL_FIELDS = ['type', 'description', 'value'] as const;
+
+export type CollateralField = typeof COLLATERAL_FIELDS[number];
+
+// Collateral while it is collected in chat
+export interface CollateralDetails {
+  type?: CollateralType;
+  // What it is: the address, the make and model, the weight and purity
+  description?: string;
+  // Declared market value in rupees
+  value?: string;
+}
+
+export interface CollateralValue {
+  type?: string;
+  value?: string | number | null;
+}
+
+const toAmount = (value: string | number | null | undefined): number => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[^0-9.]/g, ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+// Declared value of the collateral a policy lends against; every type counts
+// when `acceptedTypes` isn't given
+export const totalCollateralValue = (collateral: CollateralValue[] | null | undefined, acceptedTypes?: readonly string[]): number =>
+  (collateral ?? [])
+    .filter(item => !acceptedTypes || (item.type !== undefined && acceptedTypes.includes(item.type)))
+    .reduce((total, item) => total + toAmount(item.value), 0);
+
+// Percent of the collateral's value, or null without any collateral
+export const calculateLtv = (loanAmount: number, collateralValue: number): number | null =>
+  collateralValue > 0 ? (loanAmount / collateralValue) * 100 : null;
+
+export const nextMissingCollateralField = (collateral: CollateralDetails): CollateralField | undefined =>
+  COLLATERAL_FIELDS.find(field => collateral[field] === undefined || collateral[field] === '');
+
+const TYPE_WORDS: [RegExp, CollateralType][] = [
+  [/\b(fixed deposits?|fds?|term deposits?)\b/i, 'fixed_deposit'],
+  [/\b(gold|jewell?e?ry|ornaments?|bangles?|necklaces?|gold coins?)\b/i, 'gold'],
+  [/\b(car|bike|scooter|two[- ]wheeler|vehicle|motorcycle|truck)\b/i, 'vehicle'],
+  [/\b(property|house|home|flat|apartment|land|plot|shop|office|building)\b/i, 'property'],
+];
+
+export const parseCollateralType = (text: string): CollateralType | null =>
+  TYPE_WORDS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+
+const PLEDGE_CUE = /\b(pledge|pledging|mortgage|mortgaging|as (?:collateral|security)|against my|offer (?:my|a|the)\b.*\b(?:collateral|security)|put up)\b/i;
+const QUESTION = /^(what|how|why|when|who|can|could|do|does|is|should)\b|\?$/i;
+const NEGATION = /\b(no|not|don'?t|do not|without|never)\b/i;
+
+export interface CollateralRequest {
+  type: CollateralType;
+}
+
+// "I can pledge my gold jewellery", "I'll offer my flat as security".
+// Questions about collateral are left to the assistant.
+export const parseCollateralRequest = (message: string): CollateralRequest | null => {
+  const text = message.trim();
+  if (QUESTION.test(text) || NEGATION.test(text) || !PLEDGE_CUE.test(text)) return null;
+
+  const type = parseCollateralType(text);
+  return type ? { type } : null;
+};
+
+// "never mind", "skip the collateral"
+export const CANCEL_COLLATERAL = /^(?:cancel|skip|stop|never ?mind|forget (?:it|that|about it)|no collateral|don'?t (?:pledge|add) (?:it|anything)|remove (?:it|the collateral))\b/i;
+
+// Replies that fit the description pattern but don't describe anything
+const NOT_A_DESCRIPTION = /^(?:yes|yeah|yep|no|nope|ok|okay|sure|hi|hello|thanks|thank you|i don'?t know|not sure)$/i;
+
+// The answer for `field`, or null when the message doesn't fit it
+export const readCollateralAnswer = (field: CollateralField, message: string): CollateralDetails[CollateralField] | null => {
+  const cleaned = message.trim()
+    .replace(/^(?:it'?s|it is|that'?s|that is|they'?re|they are)\s+/i, '')
+    .replace(/[.!]+$/, '')
+    .trim();
+  if (!cleaned) return null;
+
+  switch (field) {
+    case 'type':
+      return parseCollateralType(cleaned);
+    case 'description':
+      return cleaned.length >= 3 && cleaned.length <= 200 && !NOT_A_DESCRIPTION.test(cleaned) ? cleaned : null;
+    case 'value': {
+      const amount = parseAmount(cleaned.replace(/^(?:worth|valued at|about|around|roughly)\s+/i, ''));
+      if (!amount || amount.ambiguous || !(amount.amount > 0) || amount.amount > MAX_COLLATERAL_VALUE) return null;
+      return String(Math.round(amount.amount));
+    }
+  }
+};
@@ -0,0 +1,215 @@
+// Per-field revision history for an application in progress, and the chat
+// commands that act on it: "actually my income is 80k, not 8k", "change the
+// loan type to home loan", "undo that".
+import { EXTRACTION_FIELDS, type ExtractionField } from './extraction';
+import { parseAmount, toMonthly } from './indianNumbers';
+import type { LoanApplicationData } from './types';
+
+export type FieldValue = NonNullable<LoanApplicationData[ExtractionField]>;
+
+// Where a change came from: extracted from a message, a low-confidence value
+// the user confirmed, a correction said in chat, or an edit in the UI
+export type RevisionSource = 'chat' | 'confirmation' | 'correction' | 'manual';
+
+export interface FieldRevision {
+  value: FieldValue;
+  // What the field held before; null when it was empty
+  previous: FieldValue | null;
+  source: RevisionSource;
+  // ISO timestamp. Fields changed by the same message share it, so one
+  // "undo that" rolls them back together.
+  at: string;
+}
+
+export type FieldRevisions = Partial<Record<ExtractionField, FieldRevision[]>>;
+
+// Older revisions are dropped; nobody undoes ten steps back
+export const MAX_REVISIONS_PER_FIELD = 10;
+
+export type FieldChanges = { [K in ExtractionField]?: LoanApplicationData[K] };
+
+// Applies changes and records each field's previous value. Unchanged values
+// are skipped so they don't leave empty steps in the history.
+export const reviseFields = (
+  data: LoanApplicationData,
+  changes: FieldChanges,
+  source: RevisionSource,
+  at: string = new Date().toISOString()
+): LoanApplicationData => {
+  const revised: LoanApplicationData = { ...data };
+  const revisions: FieldRevisions = { ...data.revisions };
+
+  for (const field of EXTRACTION_FIELDS) {
+    const value = changes[field];
+    if (value === undefined || value === null || value === data[field]) continue;
+
+    const revision: FieldRevision = { value, previous: data[field] ?? null, source, at };
+    revisions[field] = [...(revisions[field] ?? []), revision].slice(-MAX_REVISIONS_PER_FIELD);
+    Object.assign(revised, { [field]: value });
+  }
+
+  revised.revisions = revisions;
+  return revised;
+};
+
+export interface UndoneRevision extends FieldRevision {
+  field: ExtractionField;
+}
+
+const latestRevision = (data: LoanApplicationData, field: ExtractionField): FieldRevision | undefined => {
+  const history = data.revisions?.[field];
+  return history?.[history.length - 1];
+};
+
+// The field changed most recently, if any
+export const lastRevisedField = (data: LoanApplicationData): ExtractionField | undefined => {
+  let latest: { field: ExtractionField; at: string } | undefined;
+  for (const field of EXTRACTION_FIELDS) {
+    const revision = latestRevision(data, field);
+    if (revision && (!latest || revision.at >= latest.at)) latest = { field, at: revision.at };
+  }
+  return latest?.field;
+};
+
+// Rolls back the latest change to one field, or without a field, every field
+// changed by the most recent message. Undoing again steps further back.
+export const undoRevision = (
+  data: LoanApplicationData,
+  field?: ExtractionField
+): { data: LoanApplicationData; undone: UndoneRevision[] } => {
+  const lastField = field ?? lastRevisedField(data);
+  const at = lastField && latestRevision(data, lastField)?.at;
+  if (!lastField || !at) return { data, undone: [] };
+
+  const fields = field ? [field] : EXTRACTION_FIELDS.filter(candidate => latestRevision(data, candidate)?.at === at);
+  const restored: LoanApplicationData = { ...data };
+  const revisions: FieldRevisions = { ...data.revisions };
+  const undone: UndoneRevision[] = [];
+
+  for (const candidate of fields) {
+    const revision = latestRevision(data, candidate)!;
+    revisions[candidate] = revisions[candidate]!.slice(0, -1);
+    if (revision.previous === null) {
+      delete restored[candidate];
+    } else {
+      Object.assign(restored, { [candidate]: revision.previous });
+    }
+    undone.push({ field: candidate, ...revision });
+  }
+
+  restored.revisions = revisions;
+  return { data: restored, undone };
+};
+
+export type CorrectionCommand =
+  | { kind: 'undo'; field?: ExtractionField }
+  | { kind: 'correction'; field: ExtractionField; value: FieldValue };
+
+// Words people use for each field, longest first so "loan amount" beats "loan"
+const FIELD_ALIASES: [RegExp, ExtractionField][] = [
+  [/\b(credit card dues|credit card balance|card dues|card balance|credit card)\b/, 'credit_card_dues'],
+  [/\b(existing emis?|other emis?|emis?)\b/, 'existing_emis'],
+  [/\b(dependents|dependants|dependent|dependant)\b/, 'dependents'],
+  [/\b(loan type|type of loan|kind of loan)\b/, 'loan_type'],
+  [/\b(loan amount|amount|borrowing)\b/, 'loan_amount'],
+  [/\b(monthly income|income|salary|take[- ]home|earnings)\b/, 'monthly_income'],
+  [/\b(credit score|cibil score|cibil|score)\b/, 'credit_score'],
+  [/\b(employment status|employment|job|occupation|profession)\b/, 'employment_status'],
+  [/\b(loan purpose|purpose)\b/, 'loan_purpose'],
+  [/\b(full name|name)\b/, 'applicant_name'],
+  [/\bloan\b/, 'loan_type'],
+];
+
+const CUE = String.raw`(?:actually|no|nope|sorry|oops|wait|correction|i made a mistake)`;
+const UNDO = /^(?:please\s+)?(?:undo|revert|roll\s*back)\b(.*)$|^(?:please\s+)?(?:change|put|set)\s+(.*?)\s*back\b.*$/i;
+const SET = /\b(?:change|update|set|correct|fix|make|switch)\s+(.+?)\s+(?:to|as)\s+(.+)$/i;
+const IS = new RegExp(String.raw`^(?:${CUE}[,!.:\s]+)?(.+?)\s+(?:is|are|was|were|should be|should have been)\s+(.+)$`, 'i');
+const IT = new RegExp(String.raw`^${CUE}[,!.:\s]+(?:it(?:'s| is| should be)|i meant|i said|make it)\s+(.+)$`, 'i');
+const HAS_CUE = new RegExp(String.raw`^${CUE}\b`, 'i');
+// "it's fine" isn't a new employment status, so "it" only stands for numbers
+const NUMERIC_FIELDS: ExtractionField[] = ['monthly_income', 'loan_amount', 'credit_score', 'existing_emis', 'credit_card_dues', 'dependents'];
+const NONE = /^(?:none|nil|nothing|zero|0|no)$/i;
+// ", not 8k" / "not 8k but" trailing the new value
+const NOT_CLAUSE = /,?\s*(?:and\s+)?not\s+.*$|\s+instead\b.*$/i;
+
+const fieldNamed = (text: string): ExtractionField | undefined =>
+  FIELD_ALIASES.find(([pattern]) => pattern.test(text.toLowerCase()))?.[1];
+
+const capitalize = (text: string): string =>
+  text.replace(/\b\p{L}/gu, letter => letter.toUpperCase());
+
+// The new value for a field, or null when the text doesn't fit it
+const readFieldValue = (field: ExtractionField, text: string): FieldValue | null => {
+  const cleaned = text.replace(NOT_CLAUSE, '').replace(/\s+please$/i, '').replace(/^(?:a|an|my)\s+/i, '').replace(/[.!?]+$/, '').trim();
+  if (!cleaned) return null;
+
+  switch (field) {
+    case 'monthly_income':
+    case 'loan_amount': {
+      const amount = parseAmount(cleaned);
+      // "it's 8" could be 8 lakh or 8 thousand; normal extraction asks about those
+      if (!amount || amount.ambiguous) return null;
+      return String(field === 'monthly_income' ? toMonthly(amount) : Math.round(amount.amount));
+    }
+    case 'credit_score': {
+      const score = Number(cleaned.match(/\d+/)?.[0]);
+      return score >= 300 && score <= 900 ? score : null;
+    }
+    case 'existing_emis':
+    case 'credit_card_dues': {
+      if (NONE.test(cleaned)) return '0';
+      const amount = parseAmount(cleaned);
+      if (!amount || amount.ambiguous) return null;
+      return String(field === 'existing_emis' ? toMonthly(amount) : Math.round(amount.amount));
+    }
+    case 'dependents': {
+      if (NONE.test(cleaned)) return 0;
+      const count = parseAmount(cleaned)?.amount;
+      return count !== undefined && Number.isInteger(count) && count <= 20 ? count : null;
+    }
+    case 'loan_type': {
+      if (!/^[\p{L} -]{2,40}$/u.test(cleaned)) return null;
+      const loanType = capitalize(cleaned.toLowerCase());
+      return /\bloan$/i.test(loanType) ? loanType : `${loanType} Loan`;
+    }
+    case 'applicant_name':
+      return /^[\p{L} .'-]{2,100}$/u.test(cleaned) ? capitalize(cleaned) : null;
+    default:
+      return cleaned.length <= 200 ? cleaned.charAt(0).toUpperCase() + cleaned.slice(1) : null;
+  }
+};
+
+// Recognises a correction or undo request. `lastField` is what "it" refers to
+// in "no, it's 80k": the value just read back, or the last one changed.
+export const parseCorrection = (message: string, lastField?: ExtractionField): CorrectionCommand | null => {
+  const text = message.trim().replace(/[.!]+$/, '');
+
+  const undo = UNDO.exec(text);
+  if (undo) {
+    const target = (undo[1] ?? undo[2] ?? '').trim();
+    if (/^(that|it|this|(?:my |the )?last change)?$/i.test(target)) return { kind: 'undo' };
+    const field = fieldNamed(target);
+    return field ? { kind: 'undo', field } : null;
+  }
+
+  const correction = (field: ExtractionField | undefined, valueText: string): CorrectionCommand | null => {
+    const value = field && readFieldValue(field, valueText);
+    return field && value !== null && value !== undefined ? { kind: 'correction', field, value } : null;
+  };
+
+  const set = SET.exec(text);
+  if (set) return correction(fieldNamed(set[1]), set[2]);
+
+  // Without a cue ("actually", "no") or a "not ..." clause, "my income is
+  // 80k" is ordinary information for the extractor
+  const it = IT.exec(text);
+  if (it) return lastField && NUMERIC_FIELDS.includes(lastField) ? correction(lastField, it[1]) : null;
+
+  const is = IS.exec(text);
+  if (is && (HAS_CUE.test(text) || NOT_CLAUSE.test(is[2]) || /should/i.test(text))) {
+    const subject = is[1].replace(/^(?:my|the|your)\s+/i, '');
+    return correction(fieldNamed(subject), is[2]);
+  }
+
+  return null;
+};
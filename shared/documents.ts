@@ -0,0 +1,54 @@
+// Supporting documents an application can carry. Which ones a loan needs comes
+// from its underwriting policy: every policy lists a base checklist, and
+// conditions that ask for proof name the documents that satisfy them.
+import type { LoanApplicationStatus } from './loanStatus';
+
+export const DOCUMENT_TYPES = [
+  'pan',
+  'aadhaar',
+  'salary_slip',
+  'bank_statement',
+  'itr',
+  'property_documents',
+  'vehicle_quotation',
+  'admission_letter',
+  'business_registration',
+  'collateral_documents',
+] as const;
+
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+export const DOCUMENT_LABELS: Record<DocumentType, string> = {
+  pan: 'PAN card',
+  aadhaar: 'Aadhaar card',
+  salary_slip: 'Salary slips (last 3 months)',
+  bank_statement: 'Bank statements (last 6 months)',
+  itr: 'Income tax returns (last 2 years)',
+  property_documents: 'Property documents',
+  vehicle_quotation: 'Vehicle quotation',
+  admission_letter: 'Admission letter',
+  business_registration: 'Business registration proof',
+  collateral_documents: 'Collateral documents',
+};
+
+// Uploaded documents wait for an officer to verify or reject them
+export const DOCUMENT_STATUSES = ['uploaded', 'verified', 'rejected'] as const;
+
+export type DocumentStatus = typeof DOCUMENT_STATUSES[number];
+
+export const DOCUMENT_STATUS_LABELS: Record<DocumentStatus | 'missing', string> = {
+  missing: 'Not uploaded',
+  uploaded: 'Awaiting review',
+  verified: 'Verified',
+  rejected: 'Rejected',
+};
+
+export const ACCEPTED_DOCUMENT_CONTENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+// Uploads stop once an application is disbursed or has left review
+export const DOCUMENT_UPLOAD_STATUSES: LoanApplicationStatus[] = ['draft', 'submitted', 'under_review', 'conditionally_approved', 'approved'];
+
+export const isDocumentType = (value: unknown): value is DocumentType =>
+  typeof value === 'string' && (DOCUMENT_TYPES as readonly string[]).includes(value);
@@ -0,0 +1,215 @@
+// Typed shape of what the assistant pulls out of a chat message. Both the
+// pattern extractor and the model produce ExtractedFields; every value carries
+// a confidence so the flow can ask the user before trusting a guess, and the
+// source it came from.
+import { z } from 'zod';
+import type { LoanApplicationData } from './types';
+
+export const EXTRACTION_FIELDS = [
+  'loan_type',
+  'applicant_name',
+  'monthly_income',
+  'loan_amount',
+  'employment_status',
+  'credit_score',
+  'existing_emis',
+  'credit_card_dues',
+  'dependents',
+  'loan_purpose',
+] as const;
+
+export type ExtractionField = typeof EXTRACTION_FIELDS[number];
+
+export const EXTRACTION_FIELD_LABELS: Record<ExtractionField, string> = {
+  loan_type: 'loan type',
+  applicant_name: 'name',
+  monthly_income: 'monthly income',
+  loan_amount: 'loan amount',
+  employment_status: 'employment status',
+  credit_score: 'credit score',
+  existing_emis: 'existing EMIs',
+  credit_card_dues: 'credit card dues',
+  dependents: 'number of dependents',
+  loan_purpose: 'loan purpose',
+};
+
+// Everything but the purpose is needed to quote terms, asked for in this order
+export const REQUIRED_FIELDS: ExtractionField[] = [
+  'loan_type',
+  'applicant_name',
+  'monthly_income',
+  'loan_amount',
+  'employment_status',
+  'credit_score',
+  'existing_emis',
+  'credit_card_dues',
+  'dependents',
+];
+
+// No EMIs, no card dues and no dependents are answers too, so zero counts.
+// `fields` is what the loan product asks (see shared/loanProducts.ts).
+export const nextMissingField = (data: Partial<LoanApplicationData>, fields: ExtractionField[] = REQUIRED_FIELDS): ExtractionField | undefined =>
+  fields.find(field => data[field] === undefined || data[field] === null || data[field] === '');
+
+// Values below this are read back to the user before they go into the application
+export const CONFIRMATION_THRESHOLD = 0.75;
+
+export type ExtractionSource = 'pattern' | 'model';
+
+export interface ExtractedValue<T> {
+  value: T;
+  // 0 to 1
+  confidence: number;
+  source: ExtractionSource;
+}
+
+export type ExtractedFields = {
+  [K in ExtractionField]?: ExtractedValue<NonNullable<LoanApplicationData[K]>>;
+};
+
+export type PendingConfirmation = {
+  [K in ExtractionField]: { field: K } & ExtractedValue<NonNullable<LoanApplicationData[K]>>;
+}[ExtractionField];
+
+const confidence = z.number().min(0).max(1);
+
+const text = (max: number) => z.string().trim().min(1).max(max);
+
+// Whole rupees, stored as a digit string like the rest of the application.
+// Models send numbers or strings with Indian grouping ("5,00,000").
+const rupeeAmount = (bounds: z.ZodNumber) => z
+  .union([
+    z.number(),
+    z.string().trim().regex(/^\d[\d,]*(\.\d+)?$/, 'must be an amount in rupees').transform(amount => Number(amount.replace(/,/g, ''))),
+  ])
+  .pipe(bounds)
+  .transform(amount => String(Math.round(amount)));
+
+const rupees = rupeeAmount(z.number().positive().max(10_000_000_000));
+
+// Obligations the applicant may not have
+const rupeesOrNone = rupeeAmount(z.number().nonnegative().max(10_000_000_000));
+
+const extracted = <T extends z.ZodTypeAny>(value: T) => z.object({ value, confidence }).nullish();
+
+// Unknown keys are dropped; null or missing means "not mentioned"
+export const extractionResponseSchema = z.object({
+  loan_type: extracted(text(60)),
+  applicant_name: extracted(z.string().trim().min(2).max(100).regex(/^[\p{L} .'-]+$/u, 'must be a person\'s name')),
+  monthly_income: extracted(rupees),
+  loan_amount: extracted(rupees),
+  employment_status: extracted(text(60)),
+  credit_score: extracted(z.coerce.number().int().min(300).max(900)),
+  existing_emis: extracted(rupeesOrNone),
+  credit_card_dues: extracted(rupeesOrNone),
+  dependents: extracted(z.coerce.number().int().min(0).max(20)),
+  loan_purpose: extracted(text(500)),
+});
+
+// Described to the model alongside JSON mode
+export const EXTRACTION_RESPONSE_FORMAT = `Reply with a single JSON object. Use only these keys and leave out anything not mentioned:
+${EXTRACTION_FIELDS.map(field => `"${field}"`).join(', ')}
+Each key maps to {"value": ..., "confidence": number between 0 and 1}.
+- monthly_income and loan_amount: whole rupees as a number
+- credit_score: integer between 300 and 900
+- existing_emis: total monthly EMIs on other loans, and credit_card_dues: outstanding credit card balance; whole rupees as a number, 0 when the user says they have none
+- dependents: number of people who depend on the user financially, 0 for none
+- everything else: a short string
+Confidence is 0.9 or more when the user stated the value outright, 0.5 to 0.8 when you inferred it or had to assume the units (for example lakhs), and below 0.5 when you are guessing.
+Example: {"loan_amount": {"value": 800000, "confidence": 0.95}}`;
+
+export type ExtractionParseResult =
+  | { success: true; fields: ExtractedFields }
+  | { success: false; error: string };
+
+// Parses and validates a model reply. The error is written for the model, so
+// it can be sent back in a repair request.
+export const parseExtraction = (raw: string): ExtractionParseResult => {
+  // Some providers ignore JSON mode and fence the reply
+  const body = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let json: unknown;
+  try {
+    json = JSON.parse(body || '{}');
+  } catch (error) {
+    return { success: false, error: `The reply was not valid JSON (${error instanceof Error ? error.message : error}).` };
+  }
+
+  const result = extractionResponseSchema.safeParse(json);
+  if (!result.success) {
+    const problems = result.error.issues.map(issue => `${issue.path.join('.') || 'reply'}: ${issue.message}`);
+    return { success: false, error: `The reply did not match the format. ${problems.join('; ')}.` };
+  }
+
+  const fields: Record<string, ExtractedValue<unknown>> = {};
+  for (const [field, extractedValue] of Object.entries(result.data)) {
+    if (extractedValue) fields[field] = { ...extractedValue, source: 'model' };
+  }
+  return { success: true, fields: fields as ExtractedFields };
+};
+
+export const extractedValues = (fields: ExtractedFields): Partial<LoanApplicationData> =>
+  Object.fromEntries(Object.entries(fields).map(([field, extractedValue]) => [field, extractedValue.value]));
+
+export const needsConfirmation = (extractedValue: Pick<ExtractedValue<unknown>, 'confidence'>): boolean =>
+  extractedValue.confidence < CONFIRMATION_THRESHOLD;
+
+// Which source wins when the patterns and the model disagree. The patterns are
+// exact about the numbers and catalog names they match; the model is better at
+// names and free-text answers the patterns only know a few labels for.
+export const FIELD_PRECEDENCE: Record<ExtractionField, ExtractionSource> = {
+  loan_type: 'pattern',
+  applicant_name: 'model',
+  monthly_income: 'pattern',
+  loan_amount: 'pattern',
+  employment_status: 'model',
+  credit_score: 'pattern',
+  existing_emis: 'pattern',
+  credit_card_dues: 'pattern',
+  dependents: 'pattern',
+  loan_purpose: 'model',
+};
+
+export interface ExtractionDisagreement {
+  field: ExtractionField;
+  pattern: ExtractedValue<unknown>;
+  model: ExtractedValue<unknown>;
+  chosen: ExtractionSource;
+}
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  String(a).trim().toLowerCase() === String(b).trim().toLowerCase();
+
+// Combines both extractors field by field. When they agree the more confident
+// reading is kept; when they disagree the field's preferred source wins, unless
+// it is unsure and the other source is not.
+export const mergeExtractions = (
+  pattern: ExtractedFields,
+  model: ExtractedFields
+): { fields: ExtractedFields; disagreements: ExtractionDisagreement[] } => {
+  const fields: Record<string, ExtractedValue<unknown>> = {};
+  const disagreements: ExtractionDisagreement[] = [];
+
+  for (const field of EXTRACTION_FIELDS) {
+    const fromPattern: ExtractedValue<unknown> | undefined = pattern[field];
+    const fromModel: ExtractedValue<unknown> | undefined = model[field];
+
+    if (!fromPattern || !fromModel) {
+      const only = fromPattern ?? fromModel;
+      if (only) fields[field] = only;
+      continue;
+    }
+
+    if (sameValue(fromPattern.value, fromModel.value)) {
+      fields[field] = fromPattern.confidence >= fromModel.confidence ? fromPattern : fromModel;
+      continue;
+    }
+
+    const [preferred, other] = FIELD_PRECEDENCE[field] === 'pattern' ? [fromPattern, fromModel] : [fromModel, fromPattern];
+    const chosen = needsConfirmation(preferred) && !needsConfirmation(other) ? other : preferred;
+    fields[field] = chosen;
+    disagreements.push({ field, pattern: fromPattern, model: fromModel, chosen: chosen.source });
+  }
+
+  return { fields: fields as ExtractedFields, disagreements };
+};
@@ -0,0 +1,117 @@
+// Checks on the applicant's answers before they go into the application. The
+// model's replies are already held to extractionResponseSchema; these cover
+// every way a value arrives (the pattern extractor, corrections, edits in the
+// UI, the API), and their messages are said back to the applicant.
+import { EXTRACTION_FIELDS, EXTRACTION_FIELD_LABELS, type ExtractionField } from './extraction';
+import { MAX_DEPENDENTS } from './obligations';
+import type { LoanProductInput } from './types';
+
+export const CREDIT_SCORE_RANGE = { min: 300, max: 900 } as const;
+
+// Incomes outside this are more likely misheard, or yearly, than monthly pay
+export const MONTHLY_INCOME_RANGE = { min: 1000, max: 10_000_000 } as const;
+
+// The largest whole-rupee amount each field's column holds: numeric(12,2) for
+// the loan amount and card dues, numeric(10,2) for EMIs
+const MAX_RUPEES = {
+  loan_amount: 9_999_999_999,
+  existing_emis: 99_999_999,
+  credit_card_dues: 9_999_999_999,
+} as const;
+
+const NAME = /^\p{L}[\p{L} .'-]*$/u;
+
+// What the loan amount is checked against
+export type AmountLimits = Pick<LoanProductInput, 'name' | 'min_amount' | 'max_amount'>;
+
+export type FieldErrors = Partial<Record<ExtractionField, string>>;
+
+const formatRupees = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+// Rupees as stored ("500000") or as typed into a form ("₹5,00,000")
+const toRupees = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const cleaned = value.trim().replace(/^₹\s*/, '').replace(/,/g, '');
+  return /^-?\d+(\.\d+)?$/.test(cleaned) ? Number(cleaned) : null;
+};
+
+const toWholeNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' && /^\s*-?\d+\s*$/.test(value) ? Number(value) : value;
+  return typeof number === 'number' && Number.isInteger(number) ? number : null;
+};
+
+const textError = (field: ExtractionField, value: unknown, max: number): string | null => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  return text.length >= 2 && text.length <= max
+    ? null
+    : `Your ${EXTRACTION_FIELD_LABELS[field]} should be between 2 and ${max} characters.`;
+};
+
+// Why `value` can't be the applicant's `field`, or null when it can. Missing
+// values are the question flow's concern, not an error. `product` bounds the
+// loan amount.
+export const fieldError = (field: ExtractionField, value: unknown, product?: AmountLimits | null): string | null => {
+  if (value === undefined || value === null || value === '') return null;
+
+  switch (field) {
+    case 'applicant_name': {
+      const name = typeof value === 'string' ? value.trim() : '';
+      if (name.length < 2 || name.length > 100) return 'A name should be between 2 and 100 characters.';
+      return NAME.test(name) ? null : 'A name can only have letters, spaces, dots, apostrophes and hyphens.';
+    }
+    case 'loan_type':
+    case 'employment_status':
+      return textError(field, value, 60);
+    case 'loan_purpose':
+      return textError(field, value, 500);
+    case 'loan_amount': {
+      const amount = toRupees(value);
+      if (amount === null || amount <= 0) return 'The loan amount should be an amount in rupees, like 5 lakh or 500000.';
+      if (amount > MAX_RUPEES.loan_amount) return `The loan amount can't be more than ${formatRupees(MAX_RUPEES.loan_amount)}.`;
+      if (product && amount < product.min_amount) return `${product.name} amounts start at ${formatRupees(product.min_amount)}.`;
+      if (product && amount > product.max_amount) return `${product.name} amounts go up to ${formatRupees(product.max_amount)}.`;
+      return null;
+    }
+    case 'monthly_income': {
+      const income = toRupees(value);
+      if (income === null || income <= 0) return 'Your monthly income should be an amount in rupees, like 50 thousand or 50000.';
+      if (income < MONTHLY_INCOME_RANGE.min) return `A monthly income of ${formatRupees(income)} seems too low.`;
+      if (income > MONTHLY_INCOME_RANGE.max) {
+        return `A monthly income of ${formatRupees(income)} seems too high. If that is a yearly figure, please say "per year".`;
+      }
+      return null;
+    }
+    case 'existing_emis':
+    case 'credit_card_dues': {
+      const amount = toRupees(value);
+      if (amount === null || amount < 0) return `Your ${EXTRACTION_FIELD_LABELS[field]} should be an amount in rupees, or 0 if you have none.`;
+      return amount > MAX_RUPEES[field]
+        ? `Your ${EXTRACTION_FIELD_LABELS[field]} can't be more than ${formatRupees(MAX_RUPEES[field])}.`
+        : null;
+    }
+    case 'credit_score': {
+      const score = toWholeNumber(value);
+      if (score !== null && score >= CREDIT_SCORE_RANGE.min && score <= CREDIT_SCORE_RANGE.max) return null;
+      const range = `Credit scores run from ${CREDIT_SCORE_RANGE.min} to ${CREDIT_SCORE_RANGE.max}`;
+      return score === null ? `${range}.` : `${range}, so ${score} can't be right.`;
+    }
+    case 'dependents': {
+      const dependents = toWholeNumber(value);
+      return dependents !== null && dependents >= 0 && dependents <= MAX_DEPENDENTS
+        ? null
+        : `The number of dependents should be a whole number from 0 to ${MAX_DEPENDENTS}.`;
+    }
+  }
+};
+
+// Every field of `data` that fails its check. Takes anything shaped like an
+// application, so the API can check a request body with it.
+export const fieldErrors = (data: Partial<Record<ExtractionField, unknown>>, product?: AmountLimits | null): FieldErrors => {
+  const errors: FieldErrors = {};
+  for (const field of EXTRACTION_FIELDS) {
+    const error = fieldError(field, data[field], product);
+    if (error) errors[field] = error;
+  }
+  return errors;
+};
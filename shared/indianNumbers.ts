@@ -0,0 +1,241 @@
+// Reads rupee amounts the way people in India type and say them: "₹12,50,000",
+// "12.5L", "2.5 lacs per annum", "50k", "one and a half crore", "dedh lakh".
+// Every extraction path goes through here rather than its own regexes.
+
+export type AmountScale = 'thousand' | 'lakh' | 'crore';
+export type AmountPeriod = 'month' | 'year';
+
+export interface ParsedAmount {
+  // Whole rupees (paise kept if given), as stated - not converted to monthly
+  amount: number;
+  // Largest scale word used, e.g. 'lakh' for "12 lakh 50 thousand"
+  scale: AmountScale | null;
+  // Set when the text says per month or per year ("LPA" counts as per year)
+  period: AmountPeriod | null;
+  // True for bare numbers whose size we can't be sure of: "2", "12.5",
+  // "1,2,3". Callers decide whether to assume lakhs or ask.
+  ambiguous: boolean;
+  // Where the amount sits in the input, including currency and period words
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface Token {
+  lower: string;
+  start: number;
+  end: number;
+}
+
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+// "one and a half", "half a crore", and the Hindi dedh (1.5), dhai (2.5), sawa (1.25)
+const FRACTIONS: Record<string, number> = { half: 0.5, quarter: 0.25 };
+const HINDI_NUMBERS: Record<string, number> = { dedh: 1.5, dhai: 2.5, sawa: 1.25 };
+
+const SCALES: Record<string, { value: number; scale: AmountScale; annual?: boolean }> = {
+  k: { value: 1e3, scale: 'thousand' },
+  thousand: { value: 1e3, scale: 'thousand' },
+  thousands: { value: 1e3, scale: 'thousand' },
+  hazar: { value: 1e3, scale: 'thousand' },
+  hazaar: { value: 1e3, scale: 'thousand' },
+  l: { value: 1e5, scale: 'lakh' },
+  lakh: { value: 1e5, scale: 'lakh' },
+  lakhs: { value: 1e5, scale: 'lakh' },
+  lac: { value: 1e5, scale: 'lakh' },
+  lacs: { value: 1e5, scale: 'lakh' },
+  lpa: { value: 1e5, scale: 'lakh', annual: true },
+  cr: { value: 1e7, scale: 'crore' },
+  crs: { value: 1e7, scale: 'crore' },
+  crore: { value: 1e7, scale: 'crore' },
+  crores: { value: 1e7, scale: 'crore' },
+};
+
+// Single letters only count as suffixes when stuck to the number ("50k", "12.5L")
+const ATTACHED_ONLY = new Set(['k', 'l']);
+
+const CURRENCY_BEFORE = new Set(['₹', 'rs', 'inr']);
+const CURRENCY_AFTER = new Set(['rupees', 'rupee', 'rs', 'inr', '/-']);
+
+// Numbers followed by these are durations ("3 years"), not amounts
+const DURATIONS = new Set(['year', 'years', 'yr', 'yrs', 'month', 'months', 'day', 'days', 'week', 'weeks']);
+
+const TOKEN_PATTERN = /₹|\/-|\d+(?:,\d+)*(?:\.\d+)?|[a-z]+/gi;
+const NUMERIC = /^\d/;
+const INDIAN_GROUPING = /^\d{1,2}(?:,\d{2})*,\d{3}(?:\.\d+)?$/;
+const WESTERN_GROUPING = /^\d{1,3}(?:,\d{3})+(?:\.\d+)?$/;
+
+const PERIOD_AFTER = /^\s*(?:(?:per|a|an|every|each|in\s+a)\s+|\/\s*)?(monthly|months?|mon|mo|p\.?\s?m\.?|annum|annually|yearly|annual|years?|yr|p\.?\s?a\.?)(?![a-z])/i;
+const YEAR_BEFORE = /(annual|yearly|per annum|ctc|package)/i;
+const MONTH_BEFORE = /(monthly|per month|take[- ]home|in[- ]hand)/i;
+
+const tokenize = (text: string): Token[] =>
+  [...text.matchAll(TOKEN_PATTERN)].map(match => ({
+    lower: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+const isNumberWord = (word: string | undefined): boolean =>
+  word !== undefined && (word in UNITS || word in TENS || word in FRACTIONS || word in HINDI_NUMBERS);
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Reads one amount starting at tokens[first]; null if nothing there is a number.
+// Words before `after` belong to an earlier amount and can't set the period.
+const readAmount = (text: string, tokens: Token[], first: number, after = 0): ParsedAmount | null => {
+  const gap = (a: Token, b: Token) => text.slice(a.end, b.start);
+  const joined = (a: Token, b: Token) => /^[\s-]*$/.test(gap(a, b));
+
+  let index = first;
+  let currency = false;
+  if (CURRENCY_BEFORE.has(tokens[index].lower)) {
+    const next = tokens[index + 1];
+    if (!next || !NUMERIC.test(next.lower) || !/^\.?\s*$/.test(gap(tokens[index], next))) return null;
+    currency = true;
+    index++;
+  }
+
+  let total = 0;
+  let current = 0;
+  let sawNumber = false;
+  let digits = false;
+  let words = false;
+  let decimal = false;
+  let badGrouping = false;
+  let annual = false;
+  let scale: AmountScale | null = null;
+  let lastScaleValue = Infinity;
+  let previous: Token | null = null;
+  let previousKind: 'numeric' | 'word' | 'scale' | 'connector' | null = null;
+
+  for (; index < tokens.length; index++) {
+    const token = tokens[index];
+    const word = token.lower;
+    const next = tokens[index + 1]?.lower;
+    if (previous && !joined(previous, token)) break;
+
+    if (NUMERIC.test(word)) {
+      // A second number only continues "12 lakh 50 thousand"
+      if (sawNumber && !(previousKind === 'scale' && next && next in SCALES && SCALES[next].value < lastScaleValue)) break;
+      if (word.includes(',') && !INDIAN_GROUPING.test(word) && !WESTERN_GROUPING.test(word)) badGrouping = true;
+      if (word.includes('.')) decimal = true;
+      current += parseFloat(word.replace(/,/g, ''));
+      sawNumber = digits = true;
+      previousKind = 'numeric';
+    } else if (word in SCALES) {
+      const unit = SCALES[word];
+      if (!sawNumber || unit.value >= lastScaleValue) break;
+      if (ATTACHED_ONLY.has(word) && (previousKind !== 'numeric' || gap(previous!, token) !== '')) break;
+      total += (current || 1) * unit.value;
+      current = 0;
+      scale = scale ?? unit.scale;
+      annual = annual || !!unit.annual;
+      lastScaleValue = unit.value;
+      previousKind = 'scale';
+    } else if (word === 'hundred') {
+      if (!sawNumber || previousKind === 'numeric') break;
+      current = (current || 1) * 100;
+      previousKind = 'scale';
+    } else if (word in UNITS || word in TENS) {
+      if (previousKind === 'numeric') break;
+      current += UNITS[word] ?? TENS[word];
+      sawNumber = words = true;
+      previousKind = 'word';
+    } else if (word in FRACTIONS || word in HINDI_NUMBERS) {
+      if (previousKind === 'numeric') break;
+      current += FRACTIONS[word] ?? HINDI_NUMBERS[word];
+      sawNumber = words = true;
+      previousKind = 'word';
+    } else if (word === 'point' && sawNumber && previousKind === 'word' && next !== undefined && next in UNITS && UNITS[next] < 10) {
+      // "two point five lakh"
+      let fraction = '';
+      while (tokens[index + 1] && tokens[index + 1].lower in UNITS && UNITS[tokens[index + 1].lower] < 10) {
+        index++;
+        fraction += UNITS[tokens[index].lower];
+      }
+      current += parseFloat(`0.${fraction}`);
+      previousKind = 'word';
+    } else if ((word === 'a' || word === 'an') && (next === 'half' || next === 'quarter')) {
+      // "one and a half"
+      previousKind = 'connector';
+    } else if ((word === 'a' || word === 'an') && (next === 'hundred' || (next !== undefined && next in SCALES && !ATTACHED_ONLY.has(next)))) {
+      // "a lakh"; "half a crore" keeps the half
+      if (current === 0) current = 1;
+      sawNumber = words = true;
+      previousKind = 'connector';
+    } else if (word === 'and' && sawNumber && (isNumberWord(next) || next === 'a')) {
+      previousKind = 'connector';
+    } else if (CURRENCY_AFTER.has(word) && sawNumber) {
+      currency = true;
+      previous = token;
+      index++;
+      break;
+    } else {
+      break;
+    }
+    previous = tokens[index];
+  }
+
+  if (!sawNumber || !previous) return null;
+  const amount = round(total + current);
+
+  // Stray number words ("one of my friends") are not amounts
+  if (!digits && !scale && !currency && amount < 100) return null;
+  const following = tokens[index]?.lower;
+  if (!scale && !currency && following && DURATIONS.has(following) && /^\s*$/.test(gap(previous, tokens[index]))) return null;
+
+  const start = tokens[first].start;
+  let end = previous.end;
+  let period: AmountPeriod | null = annual ? 'year' : null;
+  const periodAfter = PERIOD_AFTER.exec(text.slice(end));
+  if (periodAfter) {
+    period = /^(monthly|months?|mon|mo|p)/i.test(periodAfter[1]) && !/^p\.?\s?a/i.test(periodAfter[1]) ? 'month' : 'year';
+    end += periodAfter[0].length;
+  } else if (!period) {
+    // "annual income of 6 lakh"; only words since the last number count
+    const before = text.slice(Math.max(after, start - 40), start).split(/\d/).pop() ?? '';
+    if (YEAR_BEFORE.test(before)) period = 'year';
+    else if (MONTH_BEFORE.test(before)) period = 'month';
+  }
+
+  return {
+    amount,
+    scale,
+    period,
+    ambiguous: !scale && !currency && (amount < 1000 || decimal || badGrouping) && !words,
+    text: text.slice(start, end),
+    start,
+    end,
+  };
+};
+
+// Every amount in the text, in order
+export const findAmounts = (text: string): ParsedAmount[] => {
+  const tokens = tokenize(text);
+  const amounts: ParsedAmount[] = [];
+
+  for (let index = 0; index < tokens.length; index++) {
+    const parsed = readAmount(text, tokens, index, amounts[amounts.length - 1]?.end);
+    if (parsed) {
+      amounts.push(parsed);
+      while (index + 1 < tokens.length && tokens[index + 1].start < parsed.end) index++;
+    }
+  }
+  return amounts;
+};
+
+// The first amount in the text
+export const parseAmount = (text: string): ParsedAmount | null => findAmounts(text)[0] ?? null;
+
+// Annual figures divided into months; everything else as stated
+export const toMonthly = (parsed: Pick<ParsedAmount, 'amount' | 'period'>): number =>
+  parsed.period === 'year' ? Math.round(parsed.amount / 12) : parsed.amount;
@@ -0,0 +1,221 @@
+// What a chat message is asking for, so the assistant can hand it to the loan
+// flow, a status lookup, the EMI calculator or a general answer. Patterns decide
+// most messages; the model is asked only when none of them match.
+import { z } from 'zod';
+import { findAmounts, toMonthly } from './indianNumbers';
+import { DEFAULT_LOAN_PRODUCTS, LoanProductCatalog } from './loanProducts';
+import { EMI_AFTER, EMI_BEFORE } from './obligations';
+
+export const INTENTS = [
+  'apply',
+  'check_status',
+  'withdraw_application',
+  'eligibility',
+  'compare_products',
+  'emi_what_if',
+  'general_question',
+  'small_talk',
+] as const;
+
+export type Intent = typeof INTENTS[number];
+
+export interface IntentContext {
+  // An application is being collected in this conversation; answers such as
+  // "50000" or "Priya" belong to it
+  applicationInProgress?: boolean;
+}
+
+export interface IntentClassification {
+  intent: Intent;
+  // 0 to 1
+  confidence: number;
+  source: 'pattern' | 'model';
+}
+
+// Below this the model is asked to classify the message
+export const INTENT_MODEL_THRESHOLD = 0.5;
+
+// Each match adds its weight; weight 2 is enough on its own, and 3 wins
+// over another intent's strong match
+const INTENT_PATTERNS: Record<Intent, [RegExp, number][]> = {
+  check_status: [
+    [/\b(status|track|tracking)\b.*\b(application|loan)s?\b|\b(application|loan)s?\b.*\b(status|track|tracking)\b/, 2],
+    [/\b(has|is|was) my (loan|application) (been )?(approved|rejected|processed|disbursed|reviewed|sanctioned)\b/, 2],
+    [/\b(any )?updates? on my (loan|application)\b/, 2],
+    [/\bstatus\b/, 1],
+    [/\bmy (loan )?applications\b/, 1],
+  ],
+  withdraw_application: [
+    [/\b(withdraw|cancel|call off|drop)\b.*\b(application|loan)s?\b/, 3],
+    [/\b(don't|do not|no longer) (want|need) (the|my|this|that)\b.*\b(loan|application)\b/, 3],
+    [/\bwithdraw\b/, 1],
+  ],
+  eligibility: [
+    [/\b(eligible|eligibility|qualify|qualifies|qualified)\b/, 2],
+    [/\bhow much (?:[a-z]+ )?(loan |money )?(can|could|will|would) i (get|borrow)\b/, 3],
+    [/\b(am i able to|will i|would i) get (a|an)\b.*\bloan\b/, 2],
+    [/\bcan i get (a|an)\b.*\bloan\b/, 1],
+    [/\b(minimum|min) (salary|income|credit score|cibil)\b/, 1],
+  ],
+  compare_products: [
+    [/\b(compare|comparison|versus|vs)\b/, 2],
+    [/\bdifference between\b/, 2],
+    [/\b(which|what) (loan|type of loan|kind of loan|loans)\b.*\b(best|better|cheapest|lowest|suit|suits)\b/, 2],
+    [/\b(loan (options|products|types)|types of loans?|what loans do you (offer|have))\b/, 2],
+    [/\binterest rates?\b.*\b(all|different|each|your) loans?\b/, 1],
+  ],
+  emi_what_if: [
+    [/\bemis?\b/, 2],
+    [/\bhow much (would|will) (i|my) (pay|payments?)\b/, 2],
+    [/\bwhat if\b/, 1],
+    [/\bif i (borrow|take|pay|prepay|choose|go for)\b/, 1],
+    [/\b(monthly (payment|instal?lment)s?|instal?lments?)\b/, 1],
+    [/\b(prepay|prepayment|part[- ]payment|foreclose|foreclosure)\b/, 1],
+    [/\btenure\b/, 1],
+  ],
+  apply: [
+    [/\b(apply|applying|application form)\b/, 2],
+    [/\b(i|we) (need|want|would like|'d like|am looking for|'m looking for)\b.*\bloan\b/, 2],
+    [/\b(start|begin|continue|resume)\b.*\b(application|applying)\b/, 2],
+    [/\b(add|include|with)\b.*\b(co[- ]?applicants?|joint applicants?|guarantors?)\b/, 2],
+    [/\b(personal|home|housing|vehicle|car|bike|business|education|gold|travel|medical|wedding) loan\b/, 1],
+    [/\bborrow\b/, 1],
+  ],
+  general_question: [
+    [/\b(credit score|cibil|interest|tax|inflation|sip|mutual funds?|fixed deposit|fd|savings|insurance|budget|invest|investing|investment|gst|repo rate|collateral)\b/, 1],
+    [/^(what|how|why|when|should|explain|tell me about)\b|\?$/, 1],
+  ],
+  small_talk: [
+    [/^(hi|hii+|hello|hey|hiya|namaste|good (morning|afternoon|evening)|thanks|thank you|thx|bye|goodbye|see you|how are you|who are you|what's up|ok|okay|cool|great|nice)\b[\w\s!?.,']{0,20}$/, 2],
+  ],
+};
+
+// Ties go to the earlier intent: a specific request beats applying, and
+// applying beats chat
+const PRIORITY: Intent[] = ['withdraw_application', 'check_status', 'emi_what_if', 'compare_products', 'eligibility', 'apply', 'general_question', 'small_talk'];
+
+const OBLIGATION_STATEMENT = /\b(i|we) (pay|am paying|'m paying|have)\b.*\bemis?\b|\b(my|existing|current|other|ongoing) emis?\b|\bno (existing |other )?emis?\b/;
+const QUESTION = /^(what|how|why|when|can|could|would|will|should)\b|\?$/;
+
+export const classifyIntent = (message: string, context: IntentContext = {}): IntentClassification => {
+  const text = message.trim().toLowerCase();
+
+  let best: { intent: Intent; score: number } | undefined;
+  for (const intent of PRIORITY) {
+    const score = INTENT_PATTERNS[intent].reduce((total, [pattern, weight]) => total + (pattern.test(text) ? weight : 0), 0);
+    if (score > 0 && (!best || score > best.score)) best = { intent, score };
+  }
+
+  // Mid-application, anything that isn't clearly another request is an answer
+  // to the last question; the loan flow can field questions along the way.
+  // "I pay 12k in EMIs" answers the obligations question rather than asking
+  // what an EMI would be.
+  const answersObligations = best?.intent === 'emi_what_if' && OBLIGATION_STATEMENT.test(text) && !QUESTION.test(text);
+  if (context.applicationInProgress && (!best || best.intent === 'general_question' || best.intent === 'small_talk' || answersObligations)) {
+    return { intent: 'apply', confidence: 0.8, source: 'pattern' };
+  }
+
+  if (!best) return { intent: 'general_question', confidence: 0.3, source: 'pattern' };
+  return { intent: best.intent, confidence: best.score >= 2 ? 0.9 : 0.6, source: 'pattern' };
+};
+
+export const INTENT_CLASSIFICATION_PROMPT = `Classify the user's message to a loan assistant in India. Reply with a single JSON object: {"intent": "<intent>"}.
+Intents:
+- apply: wants to apply for a loan or is giving details for an application
+- check_status: asks about an application they already submitted
+- withdraw_application: wants to withdraw or cancel an application they already submitted
+- eligibility: asks whether they qualify or how much they could borrow
+- compare_products: asks how loan types, rates or options compare
+- emi_what_if: asks about EMIs, repayments, tenure or prepayment for an amount
+- general_question: any other question about money, banking or credit
+- small_talk: greetings, thanks and chit-chat`;
+
+const intentReplySchema = z.object({ intent: z.enum(INTENTS) });
+
+// The intent from a model reply, or null when the reply doesn't name one
+export const parseIntentReply = (raw: string): Intent | null => {
+  const body = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    const result = intentReplySchema.safeParse(JSON.parse(body));
+    return result.success ? result.data.intent : null;
+  } catch {
+    return null;
+  }
+};
+
+export interface WhatIfScenario {
+  principal?: number;
+  annualRate?: number;
+  termMonths?: number;
+}
+
+const RATE = /(\d+(?:\.\d+)?)\s*(?:%|percent|per\s?cent)/i;
+const TERM = /(\d+(?:\.\d+)?)\s*(years?|yrs?|months?)\b/i;
+
+// Loan amount, rate and tenure from "EMI for 10 lakh at 9% over 5 years";
+// whatever isn't mentioned is left for the caller to fill in
+export const parseWhatIf = (message: string): WhatIfScenario => {
+  const scenario: WhatIfScenario = {};
+
+  const rate = RATE.exec(message);
+  if (rate) scenario.annualRate = parseFloat(rate[1]);
+
+  const term = TERM.exec(message);
+  if (term) {
+    const count = parseFloat(term[1]);
+    scenario.termMonths = Math.round(/^m/i.test(term[2]) ? count : count * 12);
+  }
+
+  const principal = findAmounts(message).find(amount =>
+    !amount.ambiguous && !/^\s*(?:%|percent|per\s?cent)/i.test(message.slice(amount.end))
+  );
+  if (principal) scenario.principal = principal.amount;
+
+  return scenario;
+};
+
+export interface EligibilityQuestion {
+  loan_type?: string;
+  loan_amount?: number;
+  monthly_income?: number;
+  existing_emis?: number;
+  credit_score?: number;
+}
+
+// Loan types the built-in catalog names, for callers without the live one
+const BUILT_IN_PRODUCTS = new LoanProductCatalog(DEFAULT_LOAN_PRODUCTS);
+
+const SCORE = /\b(?:credit score|cibil(?: score)?|score)(?:\s+(?:is|of))?\s+(\d{3})\b|\b(\d{3})\s+(?:credit score|cibil|score)\b/i;
+const LOAN_BEFORE = /\b(borrow|loan of|for an?|take an?|get an?)\s*$/i;
+const LOAN_AFTER = /^\s*(?:[a-z]+\s+)?loan\b/i;
+
+// Income, existing EMIs, credit score, loan type and amount from "how much
+// home loan can I get on 60k a month with a 750 score and 10k EMIs?"
+export const parseEligibilityQuestion = (message: string, products: LoanProductCatalog = BUILT_IN_PRODUCTS): EligibilityQuestion => {
+  const question: EligibilityQuestion = {};
+
+  const product = products.match(message);
+  if (product) question.loan_type = product.name;
+
+  const score = SCORE.exec(message);
+  const scoreValue = score ? parseInt(score[1] ?? score[2], 10) : NaN;
+  if (scoreValue >= 300 && scoreValue <= 900) question.credit_score = scoreValue;
+
+  for (const amount of findAmounts(message)) {
+    // The score itself reads as a bare number
+    if (score && amount.start >= score.index && amount.end <= score.index + score[0].length) continue;
+    if (amount.ambiguous) continue;
+
+    const before = message.slice(Math.max(0, amount.start - 30), amount.start);
+    const after = message.slice(amount.end, amount.end + 30);
+    if (question.existing_emis === undefined && (EMI_BEFORE.test(before) || EMI_AFTER.test(after))) {
+      question.existing_emis = toMonthly(amount);
+    } else if (question.loan_amount === undefined && (LOAN_BEFORE.test(before) || LOAN_AFTER.test(after))) {
+      question.loan_amount = amount.amount;
+    } else if (question.monthly_income === undefined) {
+      question.monthly_income = toMonthly(amount);
+    }
+  }
+
+  return question;
+};
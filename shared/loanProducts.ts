@@ -0,0 +1,369 @@
+// The loan-product catalog: every loan type on offer, the names applicants use
+// for it, and the rate band, amounts, tenures, questions and documents it is
+// sold with. The API server keeps it in the loan_products table, where admins
+// edit it; DEFAULT_LOAN_PRODUCTS is what migrations 0011 and 0012 seed it with
+// and what the client works from until the catalog has loaded.
+import { isDocumentType } from './documents';
+import { REQUIRED_FIELDS, type ExtractionField } from './extraction';
+import { fieldError } from './fieldValidation';
+import {
+  nextQuestion,
+  productDetails,
+  productQuestionsError,
+  type NextQuestion,
+  type ProductDetails,
+  type ProductQuestion
+} from './questionGraph';
+import { normalizeLoanType } from './underwriting/registry';
+import type { LoanApplicationData, LoanProductInput } from './types';
+
+// An application can't be saved without these, so every product asks them
+export const ALWAYS_REQUIRED_FIELDS: ExtractionField[] = ['loan_type', 'applicant_name', 'monthly_income', 'loan_amount', 'employment_status'];
+
+// The vehicle being bought secures the loan, so its answers fill in the collateral
+const VEHICLE_QUESTIONS: ProductQuestion[] = [
+  {
+    id: 'make_model',
+    label: 'vehicle make and model',
+    prompt: 'Which vehicle are you buying? Please give the make and model.',
+    kind: 'text',
+    collateral: 'description',
+  },
+  {
+    id: 'on_road_price',
+    label: 'on-road price',
+    prompt: 'What is its on-road price, including registration and insurance?',
+    kind: 'amount',
+    validation: { min: 20000, max: 50000000 },
+    collateral: 'value',
+  },
+  {
+    id: 'vehicle_condition',
+    label: 'vehicle condition',
+    prompt: 'Is it new or used?',
+    kind: 'choice',
+    validation: { options: ['new', 'used'] },
+    next: [{ when: { vehicle_condition: { eq: 'new' } }, to: null }],
+  },
+  {
+    id: 'vehicle_age',
+    label: 'vehicle age',
+    prompt: 'How many years old is it?',
+    kind: 'number',
+    validation: { min: 0, max: 10, message: 'We finance used vehicles up to 10 years old.' },
+  },
+];
+
+const BUSINESS_QUESTIONS: ProductQuestion[] = [
+  {
+    id: 'business_vintage',
+    label: 'years in business',
+    prompt: 'How many years has your business been running?',
+    kind: 'number',
+    validation: { min: 0, max: 100 },
+  },
+  {
+    id: 'annual_turnover',
+    label: 'annual turnover',
+    prompt: "What was your business's turnover over the last year?",
+    kind: 'amount',
+    validation: { min: 10000 },
+    // Below the GST registration threshold there is no GSTIN to ask for
+    next: [{ when: { annual_turnover: { lt: 4000000 } }, to: null }],
+  },
+  {
+    id: 'gstin',
+    label: 'GSTIN',
+    prompt: 'What is your business\'s GSTIN?',
+    kind: 'text',
+    validation: { pattern: '\\d{2}[a-z]{5}\\d{4}[a-z][1-9a-z]z[0-9a-z]', message: 'A GSTIN has 15 characters, like 27AAPFU0939F1ZV.' },
+  },
+];
+
+const EDUCATION_QUESTIONS: ProductQuestion[] = [
+  {
+    id: 'institution',
+    label: 'institution',
+    prompt: 'Which college or university will you be studying at?',
+    kind: 'text',
+  },
+  {
+    id: 'course',
+    label: 'course',
+    prompt: 'Which course will you be studying?',
+    kind: 'text',
+  },
+  {
+    id: 'study_location',
+    label: 'place of study',
+    prompt: 'Is the course in India or abroad?',
+    kind: 'choice',
+    validation: { options: ['India', 'abroad'] },
+    next: [{ when: { study_location: { eq: 'India' } }, to: null }],
+  },
+  {
+    id: 'study_country',
+    label: 'country of study',
+    prompt: 'Which country will you be studying in?',
+    kind: 'text',
+    validation: { pattern: "[\\p{L} .'-]{2,60}", message: 'Please tell me the country by name.' },
+  },
+];
+
+export const DEFAULT_LOAN_PRODUCTS: LoanProductInput[] = [
+  {
+    id: 'personal',
+    name: 'Personal Loan',
+    synonyms: ['consumer loan', 'travel loan', 'holiday loan', 'medical loan', 'wedding loan', 'marriage loan'],
+    policy_id: 'personal',
+    min_rate: 10.5,
+    max_rate: 18,
+    min_amount: 25000,
+    max_amount: 4000000,
+    min_term_years: 1,
+    max_term_years: 5,
+    required_fields: [...REQUIRED_FIELDS],
+    questions: [],
+    documents: ['pan', 'aadhaar', 'salary_slip', 'bank_statement'],
+    active: true,
+    sort_order: 1,
+  },
+  {
+    id: 'home',
+    name: 'Home Loan',
+    synonyms: ['house loan', 'housing loan', 'home mortgage', 'mortgage loan', 'property loan'],
+    policy_id: 'home',
+    min_rate: 6.5,
+    max_rate: 12,
+    min_amount: 500000,
+    max_amount: 100000000,
+    min_term_years: 5,
+    max_term_years: 30,
+    required_fields: [...REQUIRED_FIELDS],
+    questions: [],
+    documents: ['pan', 'aadhaar', 'salary_slip', 'bank_statement', 'itr', 'property_documents'],
+    active: true,
+    sort_order: 2,
+  },
+  {
+    id: 'vehicle',
+    name: 'Vehicle Loan',
+    synonyms: ['car loan', 'auto loan', 'bike loan', 'two wheeler loan', 'two-wheeler loan', 'motorcycle loan', 'scooter loan'],
+    policy_id: 'vehicle',
+    min_rate: 7,
+    max_rate: 15,
+    min_amount: 50000,
+    max_amount: 10000000,
+    min_term_years: 1,
+    max_term_years: 7,
+    required_fields: [...REQUIRED_FIELDS],
+    questions: VEHICLE_QUESTIONS,
+    documents: ['pan', 'aadhaar', 'salary_slip', 'bank_statement', 'vehicle_quotation'],
+    active: true,
+    sort_order: 3,
+  },
+  {
+    id: 'business',
+    name: 'Business Loan',
+    synonyms: ['msme loan', 'sme loan', 'working capital loan', 'startup loan', 'shop loan'],
+    policy_id: 'business',
+    min_rate: 9,
+    max_rate: 18,
+    min_amount: 100000,
+    max_amount: 50000000,
+    min_term_years: 1,
+    max_term_years: 10,
+    required_fields: [...REQUIRED_FIELDS],
+    questions: BUSINESS_QUESTIONS,
+    documents: ['pan', 'aadhaar', 'bank_statement', 'itr', 'business_registration'],
+    active: true,
+    sort_order: 4,
+  },
+  {
+    id: 'education',
+    name: 'Education Loan',
+    synonyms: ['student loan', 'study loan', 'college loan'],
+    policy_id: 'education',
+    min_rate: 7.5,
+    max_rate: 14,
+    min_amount: 50000,
+    max_amount: 15000000,
+    min_term_years: 1,
+    max_term_years: 15,
+    required_fields: [...REQUIRED_FIELDS],
+    questions: EDUCATION_QUESTIONS,
+    documents: ['pan', 'aadhaar', 'bank_statement', 'admission_letter'],
+    active: true,
+    sort_order: 5,
+  },
+  {
+    id: 'gold',
+    name: 'Gold Loan',
+    synonyms: ['loan against gold', 'gold jewellery loan', 'jewel loan'],
+    policy_id: 'gold',
+    min_rate: 8.5,
+    max_rate: 18,
+    min_amount: 10000,
+    max_amount: 10000000,
+    min_term_years: 1,
+    max_term_years: 3,
+    required_fields: [...REQUIRED_FIELDS],
+    questions: [],
+    documents: ['pan', 'aadhaar', 'collateral_documents'],
+    active: true,
+    sort_order: 6,
+  },
+];
+
+// Every name a product goes by, normalized the way policies match loan types
+const namesOf = (product: LoanProductInput): string[] =>
+  [product.name, ...product.synonyms].map(normalizeLoanType);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Questions the chat asks for the product, in the usual order
+export const requiredFieldsFor = (product: LoanProductInput | null | undefined): ExtractionField[] =>
+  product ? REQUIRED_FIELDS.filter(field => product.required_fields.includes(field)) : REQUIRED_FIELDS;
+
+export class LoanProductCatalog {
+  private products: LoanProductInput[] = [];
+
+  constructor(products: LoanProductInput[]) {
+    this.replace(products);
+  }
+
+  // Swapped in when the catalog is (re)loaded or an admin edits it
+  replace(products: LoanProductInput[]): void {
+    this.products = [...products].sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
+  }
+
+  list(): LoanProductInput[] {
+    return [...this.products];
+  }
+
+  // What applicants can apply for
+  active(): LoanProductInput[] {
+    return this.products.filter(product => product.active);
+  }
+
+  find(id: string): LoanProductInput | undefined {
+    return this.products.find(product => product.id === id);
+  }
+
+  // The active product a stored loan type ("Home Loan", "car loan") refers to
+  forLoanType(loanType: string | null | undefined): LoanProductInput | null {
+    if (!loanType) return null;
+    const normalized = normalizeLoanType(loanType);
+    return this.active().find(product => product.id === normalized || namesOf(product).includes(normalized)) ?? null;
+  }
+
+  // The product a message names: "I need a car loan" -> Vehicle Loan. The
+  // longest name wins, so "gold jewellery loan" beats "gold loan".
+  match(text: string): LoanProductInput | null {
+    let best: { product: LoanProductInput; length: number } | null = null;
+    for (const product of this.active()) {
+      for (const name of [product.name, ...product.synonyms]) {
+        const pattern = new RegExp(`\\b${escapeRegExp(name.trim()).replace(/\s+/g, '\\s+')}\\b`, 'i');
+        if (pattern.test(text) && (!best || name.length > best.length)) {
+          best = { product, length: name.length };
+        }
+      }
+    }
+    return best?.product ?? null;
+  }
+
+  requiredFields(loanType: string | null | undefined): ExtractionField[] {
+    return requiredFieldsFor(this.forLoanType(loanType));
+  }
+
+  // The product's own questions; loan types without a product have none
+  questions(loanType: string | null | undefined): ProductQuestion[] {
+    return this.forLoanType(loanType)?.questions ?? [];
+  }
+
+  // What to ask next for the loan type the data names
+  nextQuestion(data: LoanApplicationData): NextQuestion | undefined {
+    return nextQuestion(data, this.requiredFields(data.loan_type), this.questions(data.loan_type));
+  }
+
+  productDetails(data: LoanApplicationData): ProductDetails {
+    return productDetails(this.questions(data.loan_type), data);
+  }
+
+  // Checks `value` for `field`, with the amount limits of the loan type `data`
+  // names. A new loan type must also fit the loan amount in `data`.
+  fieldError(field: ExtractionField, value: unknown, data: Partial<LoanApplicationData> = {}): string | null {
+    const revised = { ...data, [field]: value };
+    const product = this.forLoanType(revised.loan_type);
+    const error = fieldError(field, value, product);
+    if (error || field !== 'loan_type') return error;
+
+    const amountError = fieldError('loan_amount', revised.loan_amount, product);
+    return amountError && `${amountError} Please change the loan amount first.`;
+  }
+}
+
+const SLUG = /^[a-z][a-z0-9_-]{1,39}$/;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Why `value` can't be saved as a product, or null when it can. `others` is
+// the rest of the catalog; no two products may answer to the same name.
+export const loanProductError = (value: unknown, others: LoanProductInput[] = []): string | null => {
+  if (typeof value !== 'object' || value === null) return 'product must be an object';
+  const product = value as Partial<Record<keyof LoanProductInput, unknown>>;
+
+  if (typeof product.id !== 'string' || !SLUG.test(product.id)) {
+    return 'id must be 2-40 lowercase letters, digits, dashes or underscores';
+  }
+  if (typeof product.name !== 'string' || !/^[\p{L}\d][\p{L}\d '&-]{1,59}$/u.test(product.name.trim())) {
+    return 'name must be 2-60 letters, digits or spaces';
+  }
+  if (!Array.isArray(product.synonyms) || product.synonyms.some(synonym => typeof synonym !== 'string' || synonym.trim().length < 3 || synonym.length > 60)) {
+    return 'synonyms must be a list of names of 3-60 characters';
+  }
+  if (product.policy_id !== null && (typeof product.policy_id !== 'string' || !product.policy_id.trim())) {
+    return 'policy_id must be a policy id or null';
+  }
+
+  const ranges: [keyof LoanProductInput, keyof LoanProductInput, string][] = [
+    ['min_rate', 'max_rate', 'rate'],
+    ['min_amount', 'max_amount', 'amount'],
+    ['min_term_years', 'max_term_years', 'tenure'],
+  ];
+  for (const [min, max, label] of ranges) {
+    const low = product[min];
+    const high = product[max];
+    if (!isFiniteNumber(low) || !isFiniteNumber(high) || low <= 0 || high <= 0) {
+      return `${min} and ${max} must be positive numbers`;
+    }
+    if (low > high) return `the minimum ${label} cannot be above the maximum`;
+  }
+  if (!Number.isInteger(product.min_term_years) || !Number.isInteger(product.max_term_years)) {
+    return 'tenures must be whole years';
+  }
+  if ((product.max_rate as number) > 50) return 'max_rate must be a yearly rate in percent';
+
+  // The chat only knows how to ask the fields it asks every applicant
+  if (!Array.isArray(product.required_fields) || !product.required_fields.every(field => (REQUIRED_FIELDS as unknown[]).includes(field))) {
+    return `required_fields must list fields from: ${REQUIRED_FIELDS.join(', ')}`;
+  }
+  const missing = ALWAYS_REQUIRED_FIELDS.filter(field => !(product.required_fields as unknown[]).includes(field));
+  if (missing.length > 0) return `required_fields must include ${missing.join(', ')}`;
+  if (!Array.isArray(product.documents) || !product.documents.every(isDocumentType)) {
+    return 'documents must list known document types';
+  }
+  const questionsError = productQuestionsError(product.questions);
+  if (questionsError) return questionsError;
+  if (typeof product.active !== 'boolean') return 'active must be true or false';
+  if (!Number.isInteger(product.sort_order)) return 'sort_order must be a whole number';
+
+  const names = [product.name, ...product.synonyms] as string[];
+  for (const other of others.filter(other => other.id !== product.id)) {
+    const otherNames = namesOf(other);
+    const taken = names.find(name => otherNames.includes(normalizeLoanType(name)));
+    if (taken) return `"${taken.trim()}" already names the ${other.name}`;
+  }
+  return null;
+};
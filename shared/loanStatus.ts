@@ -0,0 +1,56 @@
+// Loan application status lifecycle. The API server enforces these
+// transitions; the client uses the same table to decide which actions to offer.
+
+export const LOAN_APPLICATION_STATUSES = [
+  'draft',
+  'submitted',
+  'under_review',
+  'conditionally_approved',
+  'approved',
+  'rejected',
+  'disbursed',
+  'closed',
+  'withdrawn',
+] as const;
+
+export type LoanApplicationStatus = typeof LOAN_APPLICATION_STATUSES[number];
+
+// Statuses an application may be created in
+export const INITIAL_STATUSES: LoanApplicationStatus[] = ['draft', 'submitted'];
+
+// Statuses applicants may move their own applications to; every other
+// transition is an officer decision
+export const APPLICANT_STATUSES: LoanApplicationStatus[] = ['submitted', 'withdrawn'];
+
+export const STATUS_TRANSITIONS: Record<LoanApplicationStatus, LoanApplicationStatus[]> = {
+  draft: ['submitted', 'withdrawn'],
+  submitted: ['under_review', 'withdrawn'],
+  under_review: ['conditionally_approved', 'approved', 'rejected', 'withdrawn'],
+  conditionally_approved: ['approved', 'rejected', 'withdrawn'],
+  approved: ['disbursed', 'withdrawn'],
+  rejected: [],
+  disbursed: ['closed'],
+  closed: [],
+  withdrawn: [],
+};
+
+export const STATUS_LABELS: Record<LoanApplicationStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  under_review: 'Under Review',
+  conditionally_approved: 'Conditionally Approved',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  disbursed: 'Disbursed',
+  closed: 'Closed',
+  withdrawn: 'Withdrawn',
+};
+
+export const isLoanApplicationStatus = (value: unknown): value is LoanApplicationStatus =>
+  typeof value === 'string' && (LOAN_APPLICATION_STATUSES as readonly string[]).includes(value);
+
+export const canTransition = (from: LoanApplicationStatus, to: LoanApplicationStatus): boolean =>
+  STATUS_TRANSITIONS[from].includes(to);
+
+export const isTerminalStatus = (status: LoanApplicationStatus): boolean =>
+  STATUS_TRANSITIONS[status].length === 0;
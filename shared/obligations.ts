@@ -0,0 +1,112 @@
+// Repayments an applicant already carries, and FOIR (fixed obligations to
+// income ratio): the share of monthly income that goes to EMIs, including the
+// one applied for, and card repayments. Also reads the obligation answers out
+// of chat messages.
+import { findAmounts, toMonthly, type ParsedAmount } from './indianNumbers';
+
+export interface Obligations {
+  // Monthly EMIs on other loans
+  existing_emis?: string | number | null;
+  // Outstanding credit card balance
+  credit_card_dues?: string | number | null;
+}
+
+// Card issuers bill at least 5% of the outstanding balance each month, and
+// that is what lenders count towards FOIR
+export const CARD_DUES_MONTHLY_SHARE = 0.05;
+
+export const MAX_DEPENDENTS = 20;
+
+const toAmount = (value: string | number | null | undefined): number => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[^0-9.]/g, ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+// What the applicant already pays each month; anything not given counts as none
+export const monthlyObligations = ({ existing_emis, credit_card_dues }: Obligations): number =>
+  toAmount(existing_emis) + toAmount(credit_card_dues) * CARD_DUES_MONTHLY_SHARE;
+
+// Percent of monthly income, or null without an income
+export const calculateFoir = (monthlyIncome: number, proposedEmi: number, obligations: number): number | null =>
+  monthlyIncome > 0 ? ((proposedEmi + obligations) / monthlyIncome) * 100 : null;
+
+export const OBLIGATION_FIELDS = ['existing_emis', 'credit_card_dues', 'dependents'] as const;
+
+export type ObligationField = typeof OBLIGATION_FIELDS[number];
+
+export const isObligationField = (field: string | undefined): field is ObligationField =>
+  OBLIGATION_FIELDS.includes(field as ObligationField);
+
+export interface ObligationAnswers {
+  existing_emis?: string;
+  credit_card_dues?: string;
+  dependents?: number;
+}
+
+export const EMI_BEFORE = /\b(emis?|paying|repaying|obligations?)\b\D*$/i;
+export const EMI_AFTER = /^\s*(?:(?:a|per|each|every)\s+month\s+)?(?:in\s+|as\s+)?(?:existing\s+|other\s+|current\s+)?emis?\b/i;
+const PAY_BEFORE = /\b(?:i|we)\s+pay\b\D*$/i;
+const CARD_BEFORE = /\b(credit[- ]?cards?|card (?:dues|balance|outstanding|bill))\b\D*$/i;
+const CARD_AFTER = /^\s*(?:(?:in|of|on|as)\s+)?(?:my\s+)?(?:credit[- ]?cards?|card (?:dues|balance))\b/i;
+const DEPENDENTS_AFTER = /^\s*(?:dependents?|dependants?|kids|children|people (?:depend|rely) on me)\b/i;
+
+// "none" on its own answers whichever obligation we asked about
+const NONE_ANSWER = /^(?:none|nil|nothing|zero|0|no|nope|nah|not any|not really|i don'?t|i don'?t have any|i have none|n\/?a)(?:\s+(?:at all|whatsoever))?[.!]*$/i;
+const NO_EMIS = /\b(?:no|zero|nil)\s+(?:existing\s+|other\s+|current\s+|ongoing\s+)?(?:emis?|loans?)\b|\b(?:don'?t|do not)\s+(?:have|pay)\s+any\s+(?:other\s+)?(?:emis?|loans?)\b/i;
+const NO_CARD_DUES = /\bno\s+(?:credit[- ]?card\s+)?(?:dues|debt|balance|outstanding)\b|\bno\s+credit[- ]?cards?\b|\b(?:don'?t|do not)\s+(?:have|use)\s+(?:a\s+|any\s+)?credit[- ]?cards?\b|\bpay\s+(?:it|them|my\s+(?:credit\s+)?cards?|the\s+(?:credit\s+)?card)\s+(?:off\s+)?in\s+full\b/i;
+const NO_DEPENDENTS = /\b(?:no|zero)\s+(?:dependents?|dependants?)\b|\bno\s*(?:one|body)\s+(?:depends|relies)\s+on\s+me\b/i;
+// Words that make a lone amount about something else
+const OTHER_FIELD_CUES = /\b(income|salary|earn\w*|loan amount|borrow|credit score|cibil)\b/i;
+
+export interface ObligationReading {
+  answers: ObligationAnswers;
+  // Amounts the answers were read from, so other extractors can skip them
+  amounts: ParsedAmount[];
+}
+
+// Existing EMIs, card dues and dependents from "I pay 12k in EMIs and owe 40k
+// on my credit card", or from a bare "15000" / "none" answering `expectedField`
+export const readObligations = (message: string, expectedField?: string): ObligationReading => {
+  const text = message.trim();
+  const answers: ObligationAnswers = {};
+  const used: ParsedAmount[] = [];
+
+  if (isObligationField(expectedField) && NONE_ANSWER.test(text)) {
+    if (expectedField === 'dependents') answers.dependents = 0; else answers[expectedField] = '0';
+    return { answers, amounts: used };
+  }
+
+  const amounts = findAmounts(text);
+  const lone = amounts.length === 1 && !OTHER_FIELD_CUES.test(text) ? amounts[0] : null;
+
+  for (const amount of amounts) {
+    // Only the words since the last clause break, so "no EMIs, salary is 50k"
+    // doesn't read the salary as an EMI
+    const before = text.slice(Math.max(0, amount.start - 30), amount.start).split(/[,;.]|\band\b|\bbut\b/i).pop() ?? '';
+    const after = text.slice(amount.end, amount.end + 30);
+    const count = Number.isInteger(amount.amount) && amount.amount <= MAX_DEPENDENTS ? amount.amount : null;
+
+    if (count !== null && answers.dependents === undefined &&
+        (DEPENDENTS_AFTER.test(after) || (amount === lone && expectedField === 'dependents'))) {
+      answers.dependents = count;
+    } else if (amount.ambiguous) {
+      continue;
+    } else if (answers.credit_card_dues === undefined &&
+        (CARD_BEFORE.test(before) || CARD_AFTER.test(after) || (amount === lone && expectedField === 'credit_card_dues'))) {
+      // A balance, not a monthly figure
+      answers.credit_card_dues = String(Math.round(amount.amount));
+    } else if (answers.existing_emis === undefined &&
+        (EMI_BEFORE.test(before) || PAY_BEFORE.test(before) || EMI_AFTER.test(after) || (amount === lone && expectedField === 'existing_emis'))) {
+      answers.existing_emis = String(toMonthly(amount));
+    } else {
+      continue;
+    }
+    used.push(amount);
+  }
+
+  if (answers.existing_emis === undefined && NO_EMIS.test(text)) answers.existing_emis = '0';
+  if (answers.credit_card_dues === undefined && NO_CARD_DUES.test(text)) answers.credit_card_dues = '0';
+  if (answers.dependents === undefined && NO_DEPENDENTS.test(text)) answers.dependents = 0;
+
+  return { answers, amounts: used };
+};
@@ -0,0 +1,142 @@
+// Co-applicants and guarantors. A co-applicant repays the loan jointly, so
+// their income counts towards eligibility; a guarantor backs the loan without
+// adding income. Also reads the chat requests and answers that add them.
+import type { ExtractionField } from './extraction';
+import { fieldError } from './fieldValidation';
+import { parseAmount, toMonthly } from './indianNumbers';
+
+export const PARTY_ROLES = ['co_applicant', 'guarantor'] as const;
+
+export type PartyRole = typeof PARTY_ROLES[number];
+
+export const PARTY_ROLE_LABELS: Record<PartyRole, string> = {
+  co_applicant: 'co-applicant',
+  guarantor: 'guarantor',
+};
+
+export const isPartyRole = (value: unknown): value is PartyRole =>
+  PARTY_ROLES.includes(value as PartyRole);
+
+// Most parties an application can carry
+export const MAX_PARTIES = 4;
+
+// Asked in this order; a relationship named in the request isn't asked again
+export const PARTY_FIELDS = ['name', 'relationship', 'monthly_income', 'employment_status', 'credit_score'] as const;
+
+export type PartyField = typeof PARTY_FIELDS[number];
+
+export const PARTY_FIELD_LABELS: Record<PartyField, string> = {
+  name: 'full name',
+  relationship: 'relationship to you',
+  monthly_income: 'monthly income',
+  employment_status: 'employment status',
+  credit_score: 'credit score',
+};
+
+// The applicant's field each party detail is checked as; a relationship isn't checked
+const PARTY_APPLICANT_FIELDS: Partial<Record<PartyField, ExtractionField>> = {
+  name: 'applicant_name',
+  monthly_income: 'monthly_income',
+  employment_status: 'employment_status',
+  credit_score: 'credit_score',
+};
+
+// Why a party can't have this detail, or null when it can
+export const partyFieldError = (field: PartyField, value: unknown): string | null => {
+  const applicantField = PARTY_APPLICANT_FIELDS[field];
+  return applicantField ? fieldError(applicantField, value) : null;
+};
+
+// A party while it is collected in chat
+export interface PartyDetails {
+  role: PartyRole;
+  name?: string;
+  relationship?: string;
+  monthly_income?: string;
+  employment_status?: string;
+  credit_score?: number;
+}
+
+export interface PartyIncome {
+  role: string;
+  monthly_income?: string | number | null;
+}
+
+const toAmount = (value: string | number | null | undefined): number => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[^0-9.]/g, ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+// What co-applicants add to the applicant's monthly income
+export const coApplicantIncome = (parties: PartyIncome[] | null | undefined): number =>
+  (parties ?? [])
+    .filter(party => party.role === 'co_applicant')
+    .reduce((total, party) => total + toAmount(party.monthly_income), 0);
+
+export const nextMissingPartyField = (party: PartyDetails): PartyField | undefined =>
+  PARTY_FIELDS.find(field => party[field] === undefined || party[field] === '');
+
+const ROLE_WORDS: [RegExp, PartyRole][] = [
+  [/\bco[- ]?applicants?\b|\bco[- ]?borrowers?\b|\bjoint applicants?\b|\bapply jointly\b/i, 'co_applicant'],
+  [/\bguarantors?\b|\bstand guarantee\b|\bsurety\b/i, 'guarantor'],
+];
+const ADD_CUE = /\b(add|include|adding|have|bring|want|with|will be|would be|is going to be|as (?:my|a|the))\b/i;
+const QUESTION = /^(what|how|why|when|who|can|could|do|does|is|should)\b|\?$/i;
+const NEGATION = /\b(no|not|don'?t|do not|without|never)\b/i;
+const RELATIONSHIP = /\bmy\s+(wife|husband|spouse|partner|father|mother|dad|mom|mum|son|daughter|brother|sister|father[- ]in[- ]law|mother[- ]in[- ]law|friend|business partner|uncle|aunt)\b/i;
+
+export interface PartyRequest {
+  role: PartyRole;
+  relationship?: string;
+}
+
+// "add my wife as a co-applicant", "my father will be my guarantor". Questions
+// about co-applicants are left to the assistant.
+export const parsePartyRequest = (message: string): PartyRequest | null => {
+  const text = message.trim();
+  if (QUESTION.test(text) || NEGATION.test(text) || !ADD_CUE.test(text)) return null;
+
+  const role = ROLE_WORDS.find(([pattern]) => pattern.test(text))?.[1];
+  if (!role) return null;
+
+  const relationship = RELATIONSHIP.exec(text)?.[1].toLowerCase();
+  return relationship ? { role, relationship } : { role };
+};
+
+// "never mind", "skip the guarantor"
+export const CANCEL_PARTY = /^(?:cancel|skip|stop|never ?mind|forget (?:it|that|about (?:it|them))|no (?:co[- ]?applicant|guarantor)|don'?t add (?:them|anyone)|remove (?:them|the (?:co[- ]?applicant|guarantor)))\b/i;
+
+// Replies that fit the name pattern but aren't names
+const NOT_A_NAME = /^(?:yes|yeah|yep|no|nope|ok|okay|sure|hi|hello|thanks|thank you)$/i;
+
+const capitalize = (text: string): string =>
+  text.replace(/\b\p{L}/gu, letter => letter.toUpperCase());
+
+// The answer for `field`, or null when the message doesn't fit it
+export const readPartyAnswer = (field: PartyField, message: string): PartyDetails[PartyField] | null => {
+  const cleaned = message.trim()
+    .replace(/^(?:(?:it'?s|it is|that'?s|that is)\s+|(?:his|her|their)\s+\w+(?:\s+\w+)?\s+(?:is|are)\s+|(?:he|she|they)(?:\s+(?:is|are)|'s|'re)\s+)/i, '')
+    .replace(/[.!]+$/, '')
+    .trim();
+  if (!cleaned) return null;
+
+  switch (field) {
+    case 'name':
+      return /^[\p{L} .'-]{2,100}$/u.test(cleaned) && !NOT_A_NAME.test(cleaned) ? capitalize(cleaned) : null;
+    case 'relationship': {
+      const relationship = cleaned.replace(/^(?:my|a|an|the)\s+/i, '').toLowerCase();
+      return /^[\p{L} -]{2,40}$/u.test(relationship) ? relationship : null;
+    }
+    case 'monthly_income': {
+      const amount = parseAmount(cleaned);
+      if (!amount || amount.ambiguous || !(amount.amount > 0)) return null;
+      return String(toMonthly(amount));
+    }
+    case 'employment_status':
+      return /^[\p{L} ,.'&/-]{2,100}$/u.test(cleaned) ? cleaned.charAt(0).toUpperCase() + cleaned.slice(1) : null;
+    case 'credit_score': {
+      const score = Number(cleaned.match(/\b\d{3}\b/)?.[0]);
+      return score >= 300 && score <= 900 ? score : null;
+    }
+  }
+};
@@ -0,0 +1,354 @@
+// The questions the chat asks for a loan product, as a graph. Every product
+// asks the core fields it lists in required_fields (see ./loanProducts.ts),
+// in the usual order; its own questions - the institution for an education
+// loan, the turnover for a business loan - come straight after the loan
+// amount. Those are declared on the product: each has an answer kind and
+// validation, and edges whose conditions on earlier answers pick the next
+// question, so "Studying abroad?" can lead to "Which country?".
+import { EXTRACTION_FIELDS, REQUIRED_FIELDS, type ExtractionField } from './extraction';
+import { parseAmount } from './indianNumbers';
+import { matchesComparison } from './underwriting/engine';
+import type { PolicyComparison } from './underwriting/types';
+import type { LoanApplicationData } from './types';
+
+export const ANSWER_KINDS = ['text', 'amount', 'number', 'choice'] as const;
+
+export type AnswerKind = typeof ANSWER_KINDS[number];
+
+export const QUESTION_STAGES = ['personal_info', 'loan_details', 'financial_info'] as const;
+
+// The LoanApplicationStage values the flow moves through while questions are open
+export type QuestionStage = typeof QUESTION_STAGES[number];
+
+// Answers to a product's own questions, keyed by question id. Amounts and
+// numbers are stored as numbers, text and choices as strings.
+export type DetailValue = string | number;
+export type ProductDetails = Record<string, DetailValue>;
+
+// Every listed answer must satisfy its comparison. Keys are core fields or
+// the ids of earlier questions.
+export type AnswerCondition = Record<string, PolicyComparison>;
+
+export interface AnswerValidation {
+  min?: number; // Amounts and numbers
+  max?: number;
+  pattern?: string; // Text: a regular expression the whole answer must match
+  options?: string[]; // Choices
+  message?: string; // Said before asking again; a default is made up from the rules
+}
+
+export interface QuestionEdge {
+  when?: AnswerCondition;
+  to: string | null; // A later question, or null to finish the product's questions
+}
+
+export interface ProductQuestion {
+  id: string; // Key in LoanApplicationData.details, e.g. "institution"
+  label: string; // "institution", as in "your institution"
+  prompt: string;
+  kind: AnswerKind;
+  stage?: QuestionStage; // loan_details unless given
+  validation?: AnswerValidation;
+  // The answer also describes the collateral - the vehicle being bought is
+  // what secures a vehicle loan - so the collateral questions aren't asked again
+  collateral?: 'description' | 'value';
+  // The first edge whose condition holds wins; with none, the next question
+  // in the list follows
+  next?: QuestionEdge[];
+}
+
+export type NextQuestion =
+  | { type: 'field'; field: ExtractionField; stage: QuestionStage }
+  | { type: 'detail'; question: ProductQuestion; stage: QuestionStage };
+
+// What each core question is about, for LoanApplicationFlow.stage
+export const FIELD_STAGES: Record<ExtractionField, QuestionStage> = {
+  loan_type: 'loan_details',
+  applicant_name: 'personal_info',
+  monthly_income: 'financial_info',
+  loan_amount: 'loan_details',
+  employment_status: 'financial_info',
+  credit_score: 'financial_info',
+  existing_emis: 'financial_info',
+  credit_card_dues: 'financial_info',
+  dependents: 'financial_info',
+  loan_purpose: 'loan_details',
+};
+
+// The product's questions start once this core field is answered
+const DETAILS_AFTER: ExtractionField = 'loan_amount';
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+
+// Core fields and earlier answers, as the conditions on edges see them
+const answerValues = (data: LoanApplicationData): Record<string, string | number | null> => {
+  const values: Record<string, string | number | null> = {};
+  for (const field of EXTRACTION_FIELDS) {
+    const value = data[field];
+    values[field] = isMissing(value) ? null
+      : typeof value === 'string' && /^\d+(\.\d+)?$/.test(value) ? Number(value)
+      : value as string | number;
+  }
+  return { ...values, ...data.details };
+};
+
+const matchesAnswers = (condition: AnswerCondition, values: Record<string, string | number | null>): boolean =>
+  Object.entries(condition).every(([key, comparison]) => matchesComparison(values[key] ?? null, comparison));
+
+// The product's questions on the path the answers so far take, in order
+export const questionPath = (questions: ProductQuestion[], data: LoanApplicationData): ProductQuestion[] => {
+  const values = answerValues(data);
+  const path: ProductQuestion[] = [];
+  let index = 0;
+  while (index < questions.length) {
+    const question = questions[index];
+    path.push(question);
+    if (!question.next) {
+      index++;
+      continue;
+    }
+
+    const edge = question.next.find(candidate => !candidate.when || matchesAnswers(candidate.when, values));
+    if (!edge) {
+      index++;
+    } else if (edge.to === null) {
+      break;
+    } else {
+      // Edges only lead forward, so the walk always ends
+      const target = questions.findIndex(candidate => candidate.id === edge.to);
+      if (target <= index) break;
+      index = target;
+    }
+  }
+  return path;
+};
+
+// The first unanswered question, or undefined once the product has everything
+// it needs to quote terms. `fields` is what the product asks of the core fields.
+export const nextQuestion = (
+  data: LoanApplicationData,
+  fields: ExtractionField[] = REQUIRED_FIELDS,
+  questions: ProductQuestion[] = []
+): NextQuestion | undefined => {
+  const asked = REQUIRED_FIELDS.filter(field => fields.includes(field));
+  const split = asked.indexOf(DETAILS_AFTER) + 1;
+  const before = split > 0 ? asked.slice(0, split) : asked;
+  const after = split > 0 ? asked.slice(split) : [];
+
+  const field = before.find(candidate => isMissing(data[candidate]));
+  if (field) return { type: 'field', field, stage: FIELD_STAGES[field] };
+
+  // Answers to questions off the path are kept, but don't count
+  const question = questionPath(questions, data).find(candidate => isMissing(data.details?.[candidate.id]));
+  if (question) return { type: 'detail', question, stage: question.stage ?? 'loan_details' };
+
+  const later = after.find(candidate => isMissing(data[candidate]));
+  return later ? { type: 'field', field: later, stage: FIELD_STAGES[later] } : undefined;
+};
+
+// The answers on the product's current path, as submitted with the application
+export const productDetails = (questions: ProductQuestion[], data: LoanApplicationData): ProductDetails => {
+  const details: ProductDetails = {};
+  for (const question of questionPath(questions, data)) {
+    const value = data.details?.[question.id];
+    if (!isMissing(value)) details[question.id] = value!;
+  }
+  return details;
+};
+
+// What the product's answers say about the collateral, as CollateralDetails
+// holds it
+export const collateralFromDetails = (questions: ProductQuestion[], data: LoanApplicationData): { description?: string; value?: string } => {
+  const answers = productDetails(questions, data);
+  const result: { description?: string; value?: string } = {};
+  for (const question of questions) {
+    if (question.collateral && answers[question.id] !== undefined) {
+      result[question.collateral] = String(answers[question.id]);
+    }
+  }
+  return result;
+};
+
+export const formatDetail = (question: Pick<ProductQuestion, 'kind'>, value: DetailValue): string =>
+  question.kind === 'amount' && typeof value === 'number' ? `₹${value.toLocaleString('en-IN')}` : String(value);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Reads an answer to one of the product's questions, or null when the message
+// doesn't contain one. Whether it is acceptable is detailAnswerError's call.
+export const readDetailAnswer = (question: ProductQuestion, message: string): DetailValue | null => {
+  const cleaned = message.trim()
+    .replace(/^(?:(?:it'?s|it is|that'?s|that is|i'?m|i am)\s+)?(?:(?:about|around|roughly|nearly)\s+)?/i, '')
+    .replace(/[.!]+$/, '')
+    .trim();
+  if (!cleaned) return null;
+
+  switch (question.kind) {
+    case 'amount': {
+      const amount = parseAmount(cleaned);
+      return amount && !amount.ambiguous ? amount.amount : null;
+    }
+    case 'number': {
+      if (/^(?:none|zero|nil|no)\b/i.test(cleaned)) return 0;
+      const number = cleaned.match(/-?\d+(?:\.\d+)?/);
+      return number ? Number(number[0]) : null;
+    }
+    case 'choice': {
+      // The longest option named wins, so one named inside another loses
+      const named = (question.validation?.options ?? [])
+        .filter(option => new RegExp(`\\b${escapeRegExp(option)}\\b`, 'i').test(cleaned))
+        .sort((a, b) => b.length - a.length);
+      return named[0] ?? null;
+    }
+    case 'text':
+      return cleaned.length >= 2 && cleaned.length <= 200 ? cleaned : null;
+  }
+};
+
+// Why the answer can't be accepted, or null when it can
+export const detailAnswerError = (question: ProductQuestion, value: DetailValue): string | null => {
+  // Amounts and numbers are stored as numbers, text and choices as text
+  const numeric = question.kind === 'amount' || question.kind === 'number';
+  if (numeric && !(typeof value === 'number' && Number.isFinite(value))) {
+    return `The ${question.label} should be ${question.kind === 'amount' ? 'an amount in rupees' : 'a number'}.`;
+  }
+  const { validation } = question;
+  const optionsError = (options: string[]) =>
+    validation?.message ?? `The ${question.label} should be one of: ${options.join(', ')}.`;
+  if (!numeric && typeof value !== 'string') {
+    return validation?.options ? optionsError(validation.options) : `The ${question.label} should be written out, not given as a number.`;
+  }
+  if (!validation) return null;
+
+  const bound = (limit: number) => formatDetail(question, limit);
+  if (validation.options && !validation.options.includes(String(value))) {
+    return optionsError(validation.options);
+  }
+  if (typeof value === 'number') {
+    if (validation.min !== undefined && value < validation.min) {
+      return validation.message ?? `The ${question.label} can't be less than ${bound(validation.min)}.`;
+    }
+    if (validation.max !== undefined && value > validation.max) {
+      return validation.message ?? `The ${question.label} can't be more than ${bound(validation.max)}.`;
+    }
+  } else if (validation.pattern && !new RegExp(`^(?:${validation.pattern})$`, 'iu').test(value)) {
+    return validation.message ?? `That doesn't look like a valid ${question.label}.`;
+  }
+  return null;
+};
+
+const ID = /^[a-z][a-z0-9_]{1,39}$/;
+
+const COMPARISONS = ['gt', 'gte', 'lt', 'lte', 'eq', 'in', 'notIn'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern, 'iu');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Most questions a product can add to the core ones
+export const MAX_PRODUCT_QUESTIONS = 12;
+
+// Why `value` can't be used as a product's questions, or null when it can
+export const productQuestionsError = (value: unknown): string | null => {
+  if (!Array.isArray(value) || value.length > MAX_PRODUCT_QUESTIONS) {
+    return `questions must be a list of at most ${MAX_PRODUCT_QUESTIONS} questions`;
+  }
+
+  const ids: string[] = [];
+  for (const question of value as unknown[]) {
+    if (!isObject(question)) return 'each question must be an object';
+    const id = question.id;
+    if (typeof id !== 'string' || !ID.test(id)) {
+      return 'question ids must be 2-40 lowercase letters, digits or underscores';
+    }
+    if ((EXTRACTION_FIELDS as readonly string[]).includes(id) || ids.includes(id)) {
+      return `question id "${id}" is already in use`;
+    }
+    if (typeof question.label !== 'string' || question.label.trim().length < 2 || question.label.length > 60) {
+      return `${id}: label must be 2-60 characters`;
+    }
+    if (typeof question.prompt !== 'string' || question.prompt.trim().length < 5 || question.prompt.length > 300) {
+      return `${id}: prompt must be 5-300 characters`;
+    }
+    if (!(ANSWER_KINDS as readonly unknown[]).includes(question.kind)) {
+      return `${id}: kind must be one of ${ANSWER_KINDS.join(', ')}`;
+    }
+    if (question.stage !== undefined && !(QUESTION_STAGES as readonly unknown[]).includes(question.stage)) {
+      return `${id}: stage must be one of ${QUESTION_STAGES.join(', ')}`;
+    }
+
+    const validation = question.validation ?? {};
+    if (!isObject(validation)) return `${id}: validation must be an object`;
+    if ((validation.min !== undefined && !isNumber(validation.min)) || (validation.max !== undefined && !isNumber(validation.max))) {
+      return `${id}: validation min and max must be numbers`;
+    }
+    if (isNumber(validation.min) && isNumber(validation.max) && validation.min > validation.max) {
+      return `${id}: validation min cannot be above max`;
+    }
+    if (validation.pattern !== undefined && (typeof validation.pattern !== 'string' || !isPattern(validation.pattern))) {
+      return `${id}: validation pattern must be a regular expression`;
+    }
+    if (validation.message !== undefined && typeof validation.message !== 'string') {
+      return `${id}: validation message must be text`;
+    }
+    if (question.collateral !== undefined &&
+      !(question.collateral === 'description' && question.kind === 'text') &&
+      !(question.collateral === 'value' && question.kind === 'amount')) {
+      return `${id}: collateral is "description" for a text answer or "value" for an amount`;
+    }
+    if (question.collateral !== undefined && (value as unknown[]).filter(other => isObject(other) && other.collateral === question.collateral).length > 1) {
+      return `${id}: only one question can give the collateral's ${question.collateral}`;
+    }
+
+    const options = validation.options;
+    if (question.kind === 'choice'
+      ? !Array.isArray(options) || options.length < 2 || !options.every(option => typeof option === 'string' && option.trim())
+      : options !== undefined) {
+      return `${id}: choices need at least two options, and only choices have them`;
+    }
+
+    // Conditions test core fields and earlier questions; edges lead forward
+    const edges = question.next ?? [];
+    if (!Array.isArray(edges)) return `${id}: next must be a list of edges`;
+    for (const edge of edges as unknown[]) {
+      if (!isObject(edge) || !('to' in edge) || (edge.to !== null && typeof edge.to !== 'string')) {
+        return `${id}: each edge needs a "to" question id, or null`;
+      }
+      const when = edge.when ?? {};
+      if (!isObject(when)) return `${id}: edge conditions must be objects`;
+      for (const [key, comparison] of Object.entries(when)) {
+        if (!(EXTRACTION_FIELDS as readonly string[]).includes(key) && !ids.includes(key) && key !== id) {
+          return `${id}: conditions can only test core fields and earlier questions, not "${key}"`;
+        }
+        if (!isObject(comparison) || !Object.keys(comparison).every(operator => COMPARISONS.includes(operator))) {
+          return `${id}: "${key}" must be compared with ${COMPARISONS.join(', ')}`;
+        }
+      }
+    }
+    ids.push(id);
+  }
+
+  // Targets have to come later in the list, so every walk ends
+  for (const [index, question] of (value as ProductQuestion[]).entries()) {
+    for (const edge of question.next ?? []) {
+      if (edge.to !== null && ids.indexOf(edge.to) <= index) {
+        return `${question.id}: "${edge.to}" must be a later question`;
+      }
+    }
+  }
+  return null;
+};
+
+export const detailLabel = (questions: ProductQuestion[], id: string): string =>
+  questions.find(question => question.id === id)?.label ?? id.replace(/_/g, ' ');
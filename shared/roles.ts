@@ -0,0 +1,42 @@
+// Roles and the permissions they grant. Roles are stored in Clerk public
+// metadata ({ "role": "officer" }); users without one are applicants. The API
+// server enforces these in its data layer, the client only uses them to decide
+// what to show.
+
+export const USER_ROLES = ['applicant', 'officer', 'admin', 'auditor'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export const PERMISSIONS = [
+  'applications:create',
+  'applications:read:own',
+  'applications:update:own', // submit a draft or withdraw
+  'applications:read:any',
+  'applications:review', // assign, decide and request information
+  'products:manage', // edit the loan-product catalog
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  applicant: ['applications:create', 'applications:read:own', 'applications:update:own'],
+  officer: ['applications:create', 'applications:read:own', 'applications:update:own', 'applications:read:any', 'applications:review'],
+  admin: PERMISSIONS,
+  auditor: ['applications:read:own', 'applications:read:any'],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  applicant: 'Applicant',
+  officer: 'Loan Officer',
+  admin: 'Administrator',
+  auditor: 'Auditor',
+};
+
+export const isUserRole = (value: unknown): value is UserRole =>
+  typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+
+export const roleFromMetadata = (metadata: Record<string, unknown> | null | undefined): UserRole =>
+  isUserRole(metadata?.role) ? metadata.role : 'applicant';
+
+export const hasPermission = (role: UserRole, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].includes(permission);
@@ -0,0 +1,335 @@
+// Types shared by the browser client and the API server.
+// Dates travel over the wire as ISO strings; the client revives them.
+import type { CollateralDetails, CollateralType } from './collateral';
+import type { FieldRevisions } from './corrections';
+import type { DocumentStatus, DocumentType } from './documents';
+import type { ExtractionField, PendingConfirmation } from './extraction';
+import type { LoanApplicationStatus } from './loanStatus';
+import type { PartyDetails, PartyRole } from './parties';
+import type { ProductDetails, ProductQuestion } from './questionGraph';
+import type { UserRole } from './roles';
+import type { LoanOffer } from './underwriting/offers';
+import type { DocumentRequirement, UnderwritingDecision } from './underwriting/types';
+
+export type { CollateralType, DocumentStatus, DocumentType, LoanApplicationStatus, PartyRole, UserRole };
+
+export interface ChatMessage {
+  id: string;
+  content: string;
+  sender: string;
+  timestamp: Date;
+  type: string;
+  user_id: string;
+  conversation_id: string;
+}
+
+export interface LoanApplication {
+  id: string;
+  applicant_name: string;
+  loan_amount: string;
+  loan_type: string;
+  status: LoanApplicationStatus;
+  application_date: Date;
+  credit_score: number | null | string; // Allow null when not provided, or string input
+  monthly_income: string;
+  employment_status: string;
+  loan_purpose: string | null;
+  interest_rate: string | null; // Keep as string for now to match database operations
+  loan_term: number | null;
+  // Existing obligations, counted towards FOIR. Null on applications made
+  // before they were collected.
+  existing_emis: string | null; // Monthly EMIs on other loans
+  credit_card_dues: string | null; // Outstanding balance
+  dependents: number | null;
+  user_id: string;
+  // Underwriting policy version that priced the application
+  policy_id: string | null;
+  policy_version: string | null;
+  assigned_officer_id: string | null; // Clerk user ID of the reviewing officer
+  // Co-applicants and guarantors, in the order they were added
+  parties: LoanApplicationParty[];
+  // Security pledged against the loan, in the order it was added
+  collateral: LoanApplicationCollateral[];
+  // Answers to the loan product's own questions, e.g. the institution for an
+  // education loan. Null on applications made before products asked them.
+  product_details: ProductDetails | null;
+}
+
+// Co-applicant or guarantor on an application
+export interface LoanApplicationParty {
+  id: string;
+  loan_application_id: string;
+  role: PartyRole;
+  name: string;
+  relationship: string | null;
+  monthly_income: string;
+  employment_status: string;
+  credit_score: number | null;
+  created_at: Date;
+}
+
+export type NewLoanApplicationParty = Pick<LoanApplicationParty, 'role' | 'name' | 'monthly_income' | 'employment_status'> &
+  Partial<Pick<LoanApplicationParty, 'relationship' | 'credit_score'>>;
+
+// Collateral pledged against an application, with its declared value
+export interface LoanApplicationCollateral {
+  id: string;
+  loan_application_id: string;
+  type: CollateralType;
+  description: string;
+  value: string;
+  created_at: Date;
+}
+
+export type NewLoanApplicationCollateral = Pick<LoanApplicationCollateral, 'type' | 'description' | 'value'>;
+
+export interface NewChatMessage extends Omit<ChatMessage, 'id' | 'timestamp'> {
+  timestamp?: Date;
+}
+
+export interface NewLoanApplication extends Omit<LoanApplication, 'id' | 'application_date' | 'policy_id' | 'policy_version' | 'assigned_officer_id' | 'existing_emis' | 'credit_card_dues' | 'dependents' | 'parties' | 'collateral' | 'product_details'> {
+  application_date?: Date;
+  product_details?: ProductDetails | null;
+  parties?: NewLoanApplicationParty[];
+  collateral?: NewLoanApplicationCollateral[];
+  existing_emis?: string | null;
+  credit_card_dues?: string | null;
+  dependents?: number | null;
+  policy_id?: string | null;
+  policy_version?: string | null;
+}
+
+// status_change moves the application; the others leave from/to at the current status
+export type LoanApplicationEventType = 'status_change' | 'info_requested' | 'assigned' | 'document_reviewed';
+
+// One row of an application's status history
+export interface LoanApplicationEvent {
+  id: string;
+  event_type: LoanApplicationEventType;
+  loan_application_id: string;
+  from_status: LoanApplicationStatus | null; // null for the creation event
+  to_status: LoanApplicationStatus;
+  actor_id: string; // Clerk user ID of whoever made the change
+  reason: string | null;
+  created_at: Date;
+}
+
+export interface LoanApplicationStatusUpdate {
+  status: LoanApplicationStatus;
+  reason?: string | null;
+}
+
+// Supporting document uploaded against an application. The file itself lives
+// in document storage and is fetched through the API.
+export interface LoanApplicationDocument {
+  id: string;
+  loan_application_id: string;
+  document_type: DocumentType;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  status: DocumentStatus;
+  uploaded_by: string; // Clerk user ID
+  review_note: string | null; // Why an officer rejected it, or an optional note
+  reviewed_by: string | null;
+  created_at: Date;
+  reviewed_at: Date | null;
+}
+
+// One line of an application's checklist, with the latest upload for that type
+export interface DocumentChecklistItem extends DocumentRequirement {
+  status: DocumentStatus | 'missing';
+  document: LoanApplicationDocument | null;
+}
+
+export interface ApplicationDocuments {
+  checklist: DocumentChecklistItem[];
+  documents: LoanApplicationDocument[]; // Every upload, newest first
+}
+
+export interface DocumentReview {
+  status: Exclude<DocumentStatus, 'uploaded'>;
+  note?: string | null;
+}
+
+// Officer console
+
+export interface Officer {
+  id: string;
+  name: string;
+  email: string | null;
+}
+
+export interface ApplicationQueueFilters {
+  status?: LoanApplicationStatus;
+  loan_type?: string;
+  min_amount?: number;
+  max_amount?: number;
+  min_score?: number;
+  max_score?: number;
+  assigned?: 'me' | 'unassigned' | 'any';
+  limit?: number;
+  offset?: number;
+}
+
+export interface ApplicationQueuePage {
+  applications: LoanApplication[];
+  hasMore: boolean;
+}
+
+export interface OfficerApplicationDetail {
+  application: LoanApplication;
+  events: LoanApplicationEvent[];
+  analysis: UnderwritingDecision; // Decision support from the recorded policy version
+}
+
+// Loan-product catalog (see shared/loanProducts.ts)
+
+export interface LoanProductInput {
+  id: string; // Slug, e.g. "home"
+  name: string; // Shown to applicants and stored as the application's loan_type
+  synonyms: string[]; // Other names applicants use, e.g. "car loan"
+  policy_id: string | null; // Underwriting policy that prices it; null matches by loan type
+  min_rate: number;
+  max_rate: number;
+  min_amount: number;
+  max_amount: number;
+  min_term_years: number;
+  max_term_years: number;
+  required_fields: ExtractionField[]; // What the chat asks before quoting terms
+  questions: ProductQuestion[]; // Asked after the loan amount (see shared/questionGraph.ts)
+  documents: DocumentType[];
+  active: boolean;
+  sort_order: number;
+}
+
+export interface LoanProduct extends LoanProductInput {
+  updated_by: string | null; // Clerk user ID of the admin who last edited it
+  updated_at: Date;
+}
+
+export type ConversationMode = 'chat' | 'voice';
+
+export interface Conversation {
+  id: string;
+  user_id: string;
+  title: string | null;
+  mode: ConversationMode;
+  loan_application_id: string | null;
+  archived: boolean;
+  created_at: Date;
+  last_activity_at: Date;
+  message_count: number;
+}
+
+export interface NewConversation {
+  id: string;
+  mode?: ConversationMode;
+  title?: string | null;
+}
+
+export type ConversationUpdate = Partial<Pick<Conversation, 'title' | 'archived' | 'loan_application_id'>>;
+
+export interface ConversationListOptions {
+  archived?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ConversationPage {
+  conversations: Conversation[];
+  hasMore: boolean;
+}
+
+// In-progress application collected through chat or voice
+export interface LoanApplicationData {
+  applicant_name?: string;
+  loan_amount?: string;
+  loan_type?: string;
+  credit_score?: number | null; // Allow null values from database
+  monthly_income?: string;
+  employment_status?: string;
+  loan_purpose?: string;
+  // "0" when the applicant has none, so a missing answer stays distinguishable
+  existing_emis?: string;
+  credit_card_dues?: string;
+  dependents?: number | null;
+  // Co-applicants and guarantors; the last one may still be being collected
+  parties?: PartyDetails[];
+  // Pledged collateral; the last item may still be being collected
+  collateral?: CollateralDetails[];
+  // Answers to the loan product's own questions
+  details?: ProductDetails;
+  interest_rate?: string;
+  loan_term?: number | null; // Allow null values from database
+  // Low-confidence values waiting for the user to say yes or no
+  pending_confirmations?: PendingConfirmation[];
+  // Every change to a collected field, so any of them can be rolled back
+  revisions?: FieldRevisions;
+}
+
+export type LoanApplicationStage = 'initial' | 'personal_info' | 'loan_details' | 'financial_info' | 'terms_review' | 'complete';
+
+export interface CalculatedLoanTerms {
+  interestRate: string;
+  loanTerm: number;
+  monthlyPayment: string;
+  totalAmount: string;
+  policyId?: string;
+  policyVersion?: string;
+  // Variants quoted alongside at terms review; the terms above are the one
+  // the user last picked
+  offers?: LoanOffer[];
+  selectedOffer?: number;
+}
+
+// Persisted LoanApplicationFlow, one per conversation
+export interface LoanApplicationDraft {
+  conversation_id: string;
+  user_id: string;
+  stage: LoanApplicationStage;
+  data: LoanApplicationData;
+  manually_edited_fields: string[];
+  calculated_terms: CalculatedLoanTerms | null;
+  updated_at: Date;
+}
+
+export type LoanApplicationDraftInput = Pick<LoanApplicationDraft, 'stage' | 'data' | 'manually_edited_fields' | 'calculated_terms'>;
+
+// LLM proxy
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// The server picks the model for each task from its LLM configuration
+export type LlmTask = 'chat' | 'extraction';
+
+export interface LlmChatRequest {
+  messages: LlmMessage[];
+  task?: LlmTask;
+  temperature?: number;
+  max_tokens?: number;
+  // 'json' asks the provider for a JSON object (OpenAI-style JSON mode)
+  response_format?: 'text' | 'json';
+}
+
+export interface LlmUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface LlmChatResponse {
+  content: string | null;
+  usage?: LlmUsage;
+}
+
+export interface HealthResponse {
+  status: 'ok' | 'degraded';
+  database: boolean;
+}
+
+export interface ApiErrorResponse {
+  error: string;
+}
@@ -0,0 +1,243 @@
+// Pure evaluation of an UnderwritingPolicy against an application. No I/O, so
+// the browser and the API server produce identical decisions for the same input.
+import { calculateEmi } from '../amortization';
+import { calculateLtv, totalCollateralValue } from '../collateral';
+import { calculateFoir, monthlyObligations } from '../obligations';
+import { coApplicantIncome } from '../parties';
+import type {
+  DecisionFactor,
+  DocumentRequirement,
+  PolicyComparison,
+  PolicyCondition,
+  PolicyField,
+  PolicyNote,
+  UnderwritingDecision,
+  UnderwritingInput,
+  UnderwritingPolicy
+} from './types';
+
+type PolicyContext = Record<PolicyField, number | string | null>;
+
+const FIELD_LABELS: Record<PolicyField, string> = {
+  credit_score: 'Credit score',
+  monthly_income: 'Monthly income',
+  loan_amount: 'Loan amount',
+  loan_to_income: 'Loan-to-income ratio',
+  existing_obligations: 'Existing obligations',
+  foir: 'FOIR',
+  dependents: 'Dependents',
+  collateral_value: 'Collateral value',
+  ltv: 'Loan-to-value ratio',
+  employment_status: 'Employment status',
+};
+
+const toNumber = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^0-9.]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const buildPolicyContext = (policy: UnderwritingPolicy, input: UnderwritingInput): PolicyContext => {
+  // Co-applicants repay jointly, so the policy sees their combined income
+  const applicantIncome = toNumber(input.monthly_income);
+  const income = applicantIncome === null ? null : applicantIncome + coApplicantIncome(input.parties);
+  const amount = toNumber(input.loan_amount);
+  const obligations = monthlyObligations(input);
+  const collateral = totalCollateralValue(input.collateral, policy.collateralTypes);
+
+  const context: PolicyContext = {
+    credit_score: toNumber(input.credit_score),
+    monthly_income: income,
+    loan_amount: amount,
+    loan_to_income: income && amount !== null ? amount / income : null,
+    existing_obligations: obligations,
+    foir: null,
+    dependents: toNumber(input.dependents),
+    collateral_value: collateral > 0 ? collateral : null,
+    ltv: amount !== null ? calculateLtv(amount, collateral) : null,
+    employment_status: input.employment_status ? input.employment_status.trim().toLowerCase() : null,
+  };
+
+  // FOIR needs the proposed EMI, so the loan is priced first with foir still
+  // unknown; pricing tiers that test foir don't feed back into its own EMI
+  if (income && amount) {
+    const years = toNumber(input.loan_term) || calculateTermYears(policy, context);
+    const emi = calculateEmi(amount, calculateRate(policy, context), years * 12);
+    context.foir = calculateFoir(income, emi, obligations);
+  }
+  return context;
+};
+
+const normalize = (value: string | number) => (typeof value === 'string' ? value.toLowerCase() : value);
+
+export const matchesComparison = (value: number | string | null, comparison: PolicyComparison): boolean => {
+  if (value === null) return false;
+
+  if (typeof value === 'number') {
+    if (comparison.gt !== undefined && !(value > comparison.gt)) return false;
+    if (comparison.gte !== undefined && !(value >= comparison.gte)) return false;
+    if (comparison.lt !== undefined && !(value < comparison.lt)) return false;
+    if (comparison.lte !== undefined && !(value <= comparison.lte)) return false;
+  } else if ([comparison.gt, comparison.gte, comparison.lt, comparison.lte].some(bound => bound !== undefined)) {
+    return false;
+  }
+
+  if (comparison.eq !== undefined && normalize(value) !== normalize(comparison.eq)) return false;
+  if (comparison.in && !comparison.in.map(normalize).includes(normalize(value))) return false;
+  if (comparison.notIn && comparison.notIn.map(normalize).includes(normalize(value))) return false;
+  return true;
+};
+
+export const matchesCondition = (condition: PolicyCondition, context: PolicyContext): boolean =>
+  (Object.keys(condition) as PolicyField[]).every(field => matchesComparison(context[field], condition[field]!));
+
+const formatField = (field: PolicyField, value: number | string | null): string => {
+  if (value === null) return 'Not provided';
+  if (typeof value === 'string') return value;
+
+  switch (field) {
+    case 'monthly_income':
+    case 'loan_amount':
+    case 'existing_obligations':
+    case 'collateral_value':
+      return `₹${Math.round(value).toLocaleString('en-IN')}`;
+    case 'loan_to_income':
+    case 'foir':
+    case 'ltv':
+      return value.toFixed(1);
+    default:
+      return String(value);
+  }
+};
+
+// Fill {field} placeholders in policy text
+const fillTemplate = (template: string, context: PolicyContext, extra: Record<string, string> = {}): string =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => {
+    if (key in extra) return extra[key];
+    if (key in context) return formatField(key as PolicyField, context[key as PolicyField]);
+    return match;
+  });
+
+const collectNotes = (notes: PolicyNote[], context: PolicyContext, outcome: 'approved' | 'rejected'): string[] =>
+  notes
+    .filter(note => !note.outcome || note.outcome === 'any' || note.outcome === outcome)
+    .filter(note => matchesCondition(note.when, context))
+    .map(note => fillTemplate(note.text, context));
+
+// Condition documents replace the generic reason with the condition's text
+const collectDocuments = (policy: UnderwritingPolicy, context: PolicyContext, outcome: 'approved' | 'rejected' | null): DocumentRequirement[] => {
+  const requirements = new Map<string, DocumentRequirement>(
+    (policy.documents ?? []).map(type => [type, { document_type: type, reason: 'Required for this loan type' }])
+  );
+
+  if (outcome) {
+    policy.conditions
+      .filter(note => note.documents && (!note.outcome || note.outcome === 'any' || note.outcome === outcome))
+      .filter(note => matchesCondition(note.when, context))
+      .forEach(note => note.documents!.forEach(type => {
+        requirements.set(type, { document_type: type, reason: fillTemplate(note.text, context) });
+      }));
+  }
+
+  return [...requirements.values()];
+};
+
+export const calculateRate = (policy: UnderwritingPolicy, context: PolicyContext): number => {
+  const rate = policy.pricing.adjustments.reduce((total, adjustment) => {
+    const tier = adjustment.tiers.find(t => matchesCondition(t.when, context));
+    return total + (tier ? tier.add : 0);
+  }, policy.pricing.baseRate);
+
+  return Math.max(policy.pricing.minRate, Math.min(policy.pricing.maxRate, rate));
+};
+
+export const calculateTermYears = (policy: UnderwritingPolicy, context: PolicyContext): number => {
+  const years = policy.term.tiers.find(tier => matchesCondition(tier.when, context))?.years ?? policy.term.defaultYears;
+  return Math.max(policy.term.minYears ?? 1, Math.min(policy.term.maxYears ?? years, years));
+};
+
+// Tenures the policy lends over: any term from the product's shortest up to
+// the longest the policy quotes
+export const termLimits = (policy: UnderwritingPolicy): { min: number; max: number } => ({
+  min: policy.term.minYears ?? 1,
+  max: Math.min(policy.term.maxYears ?? Infinity, Math.max(policy.term.defaultYears, ...policy.term.tiers.map(tier => tier.years))),
+});
+
+export const calculateScore = (policy: UnderwritingPolicy, context: PolicyContext): number =>
+  Math.min(100, policy.scoring.factors.reduce((total, factor) => {
+    const tier = factor.tiers.find(t => matchesCondition(t.when, context));
+    return total + (tier ? tier.points : 0);
+  }, 0));
+
+const describeFactors = (policy: UnderwritingPolicy, context: PolicyContext): DecisionFactor[] =>
+  policy.factorImpacts.map(rule => {
+    const value = context[rule.field];
+    // loan_to_income is a multiple of income, foir and ltv are percents
+    const display = rule.field === 'credit_score' && typeof value === 'number'
+      ? value
+      : rule.field === 'loan_to_income' && value !== null
+        ? `${formatField(rule.field, value)}x`
+        : (rule.field === 'foir' || rule.field === 'ltv') && value !== null
+          ? `${formatField(rule.field, value)}%`
+          : formatField(rule.field, value);
+
+    return {
+      name: rule.name,
+      value: display,
+      impact: matchesCondition(rule.positive, context)
+        ? 'positive'
+        : rule.neutral && matchesCondition(rule.neutral, context) ? 'neutral' : 'negative',
+    };
+  });
+
+export const evaluatePolicy = (policy: UnderwritingPolicy, input: UnderwritingInput): UnderwritingDecision => {
+  const context = buildPolicyContext(policy, input);
+  const policyRef = { id: policy.id, version: policy.version };
+  const quotedRate = calculateRate(policy, context).toFixed(2);
+  const loanTerm = toNumber(input.loan_term) || calculateTermYears(policy, context);
+  const factors = describeFactors(policy, context);
+
+  // Can't decide without the basics
+  const missing = policy.requiredFields.filter(field => context[field] === null);
+  if (missing.length > 0) {
+    const labels = missing.map(field => FIELD_LABELS[field]);
+    return {
+      decision: 'incomplete',
+      reason: fillTemplate(policy.reasons.incomplete, context, { missing: labels.join(', ') }),
+      interest_rate: 'N/A',
+      quoted_rate: quotedRate,
+      loan_term: loanTerm,
+      confidence: 0,
+      overallScore: 0,
+      approvalReasons: [],
+      rejectionRisks: labels.map(label => `${label} not provided`),
+      conditions: labels.map(label => `Please provide your ${label.toLowerCase()} to proceed with the application`),
+      documents: collectDocuments(policy, context, null),
+      failedRules: [],
+      factors,
+      policy: policyRef,
+    };
+  }
+
+  const failed = policy.eligibility
+    .filter(rule => !rule.when || matchesCondition(rule.when, context))
+    .filter(rule => !matchesCondition(rule.require, context));
+  const outcome = failed.length === 0 ? 'approved' : 'rejected';
+
+  return {
+    decision: outcome,
+    reason: outcome === 'approved' ? policy.reasons.approved : fillTemplate(failed[0].failure, context),
+    interest_rate: outcome === 'approved' ? quotedRate : 'N/A',
+    quoted_rate: quotedRate,
+    loan_term: loanTerm,
+    confidence: policy.confidence[outcome],
+    overallScore: calculateScore(policy, context),
+    approvalReasons: collectNotes(policy.approvalReasons, context, outcome),
+    rejectionRisks: collectNotes(policy.risks, context, outcome),
+    conditions: collectNotes(policy.conditions, context, outcome),
+    documents: collectDocuments(policy, context, outcome),
+    failedRules: failed.map(rule => rule.id),
+    factors,
+    policy: policyRef,
+  };
+};
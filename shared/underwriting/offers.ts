@@ -0,0 +1,179 @@
+// Offer variants quoted at terms review: the recommended terms plus a shorter
+// and a longer tenure, a lower amount and a co-applicant option, all priced by
+// the same policy rules. Also reads which one the user picked.
+import { evaluatePolicy, termLimits } from './engine';
+import { prequalify } from './prequalification';
+import { minimumLoanAmount } from './products';
+import { generateAmortizationSchedule } from '../amortization';
+import type { UnderwritingInput, UnderwritingPolicy } from './types';
+
+export type OfferKind = 'recommended' | 'shorter_term' | 'longer_term' | 'lower_amount' | 'co_applicant';
+
+export interface LoanOffer {
+  kind: OfferKind;
+  label: string;
+  loanAmount: number;
+  interestRate: number;
+  termYears: number;
+  emi: number;
+  totalPayment: number;
+  // Co-applicant option only: the least monthly income they need to bring
+  coApplicantIncome?: number;
+}
+
+export const OFFER_LABELS: Record<OfferKind, string> = {
+  recommended: 'Recommended',
+  shorter_term: 'Shorter tenure',
+  longer_term: 'Longer tenure',
+  lower_amount: 'Lower amount',
+  co_applicant: 'With co-applicant',
+};
+
+const AMOUNT_STEP = 10000;
+const INCOME_STEP = 1000;
+
+const toNumber = (value: string | number | null | undefined): number =>
+  typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[^0-9.]/g, ''));
+
+const buildOffer = (kind: OfferKind, loanAmount: number, interestRate: number, termYears: number, coApplicantIncome?: number): LoanOffer => {
+  const schedule = generateAmortizationSchedule({ principal: loanAmount, annualRate: interestRate, termMonths: termYears * 12 });
+  return {
+    kind,
+    label: OFFER_LABELS[kind],
+    loanAmount,
+    interestRate,
+    termYears,
+    emi: schedule.emi,
+    totalPayment: schedule.totalPayment,
+    ...(coApplicantIncome !== undefined ? { coApplicantIncome } : {}),
+  };
+};
+
+// A noticeably shorter tenure: five years off long loans, two or one off short ones
+const shorterTerm = (years: number): number =>
+  years >= 10 ? years - 5 : years >= 4 ? years - 2 : years - 1;
+
+// Least extra monthly income that makes `better` true, searched up to five
+// times the applicant's own income
+const incomeNeeded = (income: number, better: (extra: number) => boolean): number | undefined => {
+  // Bisect over whole steps of INCOME_STEP
+  let high = Math.ceil((Math.max(income, INCOME_STEP) * 5) / INCOME_STEP);
+  if (!better(high * INCOME_STEP)) return undefined;
+  let low = 0;
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (better(middle * INCOME_STEP)) high = middle; else low = middle;
+  }
+  return high * INCOME_STEP;
+};
+
+// The recommended offer comes first. Each variant is priced by the policy at
+// its own amount, term and income, and left out unless that is approved or
+// it repeats an earlier offer's terms.
+export const generateOffers = (policy: UnderwritingPolicy, input: UnderwritingInput): LoanOffer[] => {
+  const amount = toNumber(input.loan_amount);
+  const income = toNumber(input.monthly_income);
+  const score = toNumber(input.credit_score);
+  if (!(amount > 0)) return [];
+
+  const decision = evaluatePolicy(policy, input);
+  const rate = parseFloat(decision.quoted_rate);
+  const term = decision.loan_term;
+  const approved = decision.decision === 'approved';
+  const offers = [buildOffer('recommended', amount, rate, term)];
+
+  const addVariant = (kind: OfferKind, changes: Partial<UnderwritingInput>, coApplicantIncome?: number) => {
+    const variant = evaluatePolicy(policy, { ...input, ...changes });
+    if (variant.decision !== 'approved') return;
+    const loanAmount = toNumber(changes.loan_amount ?? amount);
+    offers.push(buildOffer(kind, loanAmount, parseFloat(variant.quoted_rate), variant.loan_term, coApplicantIncome));
+  };
+
+  // Within the product's tenure range when the catalog sets one
+  const { min: shortest, max: longest } = termLimits(policy);
+  if (term > shortest) {
+    addVariant('shorter_term', { loan_term: Math.max(shortest, shorterTerm(term)) });
+  }
+
+  if (longest > term) {
+    addVariant('longer_term', { loan_term: longest });
+  }
+
+  // Approved: a fifth less. Refused: the most the policy would approve.
+  let lowerAmount: number | undefined;
+  if (approved) {
+    lowerAmount = Math.floor((amount * 0.8) / AMOUNT_STEP) * AMOUNT_STEP;
+  } else if (income > 0 && score > 0) {
+    const result = prequalify(policy, {
+      loan_type: input.loan_type,
+      monthly_income: income,
+      existing_emis: toNumber(input.existing_emis) || 0,
+      credit_card_dues: toNumber(input.credit_card_dues) || 0,
+      dependents: toNumber(input.dependents) || 0,
+      parties: input.parties ?? undefined,
+      collateral: input.collateral ?? undefined,
+      credit_score: score,
+      employment_status: input.employment_status,
+    });
+    lowerAmount = result.eligible ? result.maxAmount : undefined;
+  }
+  if (lowerAmount && lowerAmount >= Math.max(AMOUNT_STEP, minimumLoanAmount(policy)) && lowerAmount < amount) {
+    addVariant('lower_amount', { loan_amount: lowerAmount });
+  }
+
+  // A co-applicant's income counts towards the application: enough of it to
+  // get a refused application approved, or an approved one a better rate
+  if (income > 0) {
+    const withIncome = (extra: number) => evaluatePolicy(policy, { ...input, monthly_income: income + extra });
+    const needed = incomeNeeded(income, extra => {
+      const result = withIncome(extra);
+      return result.decision === 'approved' && (!approved || parseFloat(result.quoted_rate) < rate);
+    });
+    if (needed !== undefined) {
+      addVariant('co_applicant', { monthly_income: income + needed }, needed);
+    }
+  }
+
+  return offers.filter((offer, index) => offers.findIndex(other =>
+    other.loanAmount === offer.loanAmount && other.interestRate === offer.interestRate &&
+    other.termYears === offer.termYears && other.coApplicantIncome === offer.coApplicantIncome
+  ) === index);
+};
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth'];
+const NUMBER_WORDS = ['one', 'two', 'three', 'four', 'five'];
+
+const DESCRIPTIONS: [RegExp, OfferKind][] = [
+  [/\b(shorter|shortest|quicker|faster|fewer years|less time)\b/, 'shorter_term'],
+  [/\b(longer|longest|more years|more time|lower emi|smaller emi|cheaper emi)\b/, 'longer_term'],
+  [/\b(lower|lowest|smaller|less|reduced)\b.*\b(amount|loan)\b|\bborrow less\b/, 'lower_amount'],
+  [/\bco[- ]?applicant\b|\bjoint\b/, 'co_applicant'],
+  [/\b(recommended|original|standard|first offer|default)\b/, 'recommended'],
+];
+
+// Index of the offer the message picks: "option 2", "2", "the second one",
+// "the shorter tenure", "with a co-applicant". Null when it doesn't pick one.
+export const parseOfferChoice = (message: string, offers: LoanOffer[]): number | null => {
+  const text = message.trim().toLowerCase().replace(/[.!?]+$/, '');
+
+  const numbered = /^(?:(?:i'?ll take |i want |go with |pick |choose )?(?:the )?(?:option|offer|number|no\.?|#)\s*)?(\d)(?:st|nd|rd|th)?(?: one| option| offer)?(?: please)?$/.exec(text)
+    ?? /\b(?:option|offer|number|#)\s*(\d)\b/.exec(text);
+  if (numbered) {
+    const index = parseInt(numbered[1], 10) - 1;
+    return index >= 0 && index < offers.length ? index : null;
+  }
+
+  const word = new RegExp(`\\b(?:option|offer|number) (${NUMBER_WORDS.join('|')})\\b|\\bthe (${ORDINALS.join('|')})\\b`).exec(text);
+  if (word) {
+    const index = word[1] ? NUMBER_WORDS.indexOf(word[1]) : ORDINALS.indexOf(word[2]);
+    return index < offers.length ? index : null;
+  }
+
+  for (const [pattern, kind] of DESCRIPTIONS) {
+    if (pattern.test(text)) {
+      const index = offers.findIndex(offer => offer.kind === kind);
+      if (index >= 0) return index;
+    }
+  }
+  return null;
+};
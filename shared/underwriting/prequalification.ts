@@ -0,0 +1,152 @@
+// "How much can I borrow?" before applying. Runs the policy's own eligibility
+// rules over candidate loan amounts, so the answer always agrees with what
+// underwriting will decide for the real application.
+import { evaluatePolicy } from './engine';
+import { minimumLoanAmount } from './products';
+import { generateAmortizationSchedule } from '../amortization';
+import type { CollateralValue } from '../collateral';
+import type { PartyIncome } from '../parties';
+import type { PolicyReference, UnderwritingDecision, UnderwritingPolicy } from './types';
+
+export interface PrequalificationInput {
+  loan_type?: string | null;
+  monthly_income: number;
+  // Monthly EMIs already being paid on other loans
+  existing_emis?: number;
+  // Outstanding credit card balance
+  credit_card_dues?: number;
+  dependents?: number;
+  // Co-applicants' incomes count with the applicant's
+  parties?: PartyIncome[];
+  // Collateral caps the amount at the policy's LTV limit
+  collateral?: CollateralValue[];
+  credit_score: number;
+  employment_status?: string | null;
+}
+
+export type ApprovalLikelihood = 'high' | 'medium' | 'low' | 'unlikely';
+
+export interface Prequalification {
+  eligible: boolean;
+  // Largest approvable amount, rounded down to AMOUNT_STEP; 0 when none is
+  maxAmount: number;
+  // Rate and term underwriting would quote for maxAmount
+  interestRate: number;
+  termYears: number;
+  emi: number;
+  // EMI for maxAmount over the longest and shortest terms the policy offers
+  emiRange: { min: number; max: number };
+  termRange: { min: number; max: number };
+  likelihood: ApprovalLikelihood;
+  // Policy score (0-100) at maxAmount
+  score: number;
+  // Why nothing can be approved, or the risks at maxAmount
+  reasons: string[];
+  conditions: string[];
+  policy: PolicyReference;
+}
+
+export const AMOUNT_STEP = 1000;
+const MIN_PROBE = 10000;
+const MAX_PROBE = 1000000000;
+
+const LIKELIHOOD_BANDS: [number, ApprovalLikelihood][] = [[70, 'high'], [50, 'medium'], [0, 'low']];
+
+const emiFor = (principal: number, annualRate: number, years: number) =>
+  generateAmortizationSchedule({ principal, annualRate, termMonths: years * 12 }).emi;
+
+// Loan amounts where the policy's term changes. A longer term lowers the EMI,
+// so FOIR can drop as the amount crosses one.
+const termThresholds = (policy: UnderwritingPolicy): number[] =>
+  [...new Set(policy.term.tiers.map(tier => tier.when.loan_amount?.gt ?? tier.when.loan_amount?.gte)
+    .filter((amount): amount is number => amount !== undefined))]
+    .sort((a, b) => a - b);
+
+export const prequalify = (policy: UnderwritingPolicy, input: PrequalificationInput): Prequalification => {
+  // Existing EMIs and card dues count towards FOIR along with the new EMI
+  const evaluate = (amount: number): UnderwritingDecision => evaluatePolicy(policy, {
+    loan_type: input.loan_type,
+    loan_amount: amount,
+    monthly_income: input.monthly_income,
+    existing_emis: input.existing_emis,
+    credit_card_dues: input.credit_card_dues,
+    dependents: input.dependents,
+    parties: input.parties,
+    collateral: input.collateral,
+    credit_score: input.credit_score,
+    employment_status: input.employment_status,
+  });
+  const approves = (amount: number) => evaluate(amount).decision === 'approved';
+
+  const terms = [policy.term.defaultYears, ...policy.term.tiers.map(tier => tier.years)]
+    .map(years => Math.max(policy.term.minYears ?? 1, Math.min(policy.term.maxYears ?? years, years)));
+  const termRange = { min: Math.min(...terms), max: Math.max(...terms) };
+
+  // Smallest approvable amount, doubling up from the least the policy lends
+  const lowest = Math.max(MIN_PROBE, minimumLoanAmount(policy));
+  let approved = lowest;
+  while (approved <= MAX_PROBE && !approves(approved)) approved *= 2;
+
+  if (approved > MAX_PROBE) {
+    const decision = evaluate(lowest);
+    return {
+      eligible: false,
+      maxAmount: 0,
+      interestRate: parseFloat(decision.quoted_rate),
+      termYears: decision.loan_term,
+      emi: 0,
+      emiRange: { min: 0, max: 0 },
+      termRange,
+      likelihood: 'unlikely',
+      score: decision.overallScore,
+      reasons: [decision.reason, ...decision.rejectionRisks.filter(risk => risk !== decision.reason)],
+      conditions: decision.conditions,
+      policy: decision.policy,
+    };
+  }
+
+  // Then the first amount above it that is refused, and bisect between them.
+  // Within one term band the EMI only grows with the amount, so approval
+  // doesn't come back; the next band can approve more, so each is tried.
+  const largestFrom = (start: number): number => {
+    let largest = start;
+    let refused = start * 2;
+    while (refused <= MAX_PROBE && approves(refused)) {
+      largest = refused;
+      refused *= 2;
+    }
+    while (refused - largest > AMOUNT_STEP) {
+      const middle = Math.floor((largest + refused) / 2);
+      if (approves(middle)) largest = middle; else refused = middle;
+    }
+    return largest;
+  };
+
+  approved = largestFrom(approved);
+  for (const threshold of termThresholds(policy)) {
+    const start = (Math.floor(threshold / AMOUNT_STEP) + 1) * AMOUNT_STEP;
+    if (start > approved && approves(start)) approved = largestFrom(start);
+  }
+
+  const maxAmount = Math.max(lowest, Math.floor(approved / AMOUNT_STEP) * AMOUNT_STEP);
+  const decision = evaluate(maxAmount);
+  const interestRate = parseFloat(decision.quoted_rate);
+
+  return {
+    eligible: true,
+    maxAmount,
+    interestRate,
+    termYears: decision.loan_term,
+    emi: emiFor(maxAmount, interestRate, decision.loan_term),
+    emiRange: {
+      min: emiFor(maxAmount, interestRate, termRange.max),
+      max: emiFor(maxAmount, interestRate, termRange.min),
+    },
+    termRange,
+    likelihood: LIKELIHOOD_BANDS.find(([score]) => decision.overallScore >= score)![1],
+    score: decision.overallScore,
+    reasons: decision.rejectionRisks,
+    conditions: decision.conditions,
+    policy: decision.policy,
+  };
+};
@@ -0,0 +1,33 @@
+// Limits from the loan-product catalog (shared/loanProducts.ts) laid over the
+// policy that prices the product: the catalog sets the rate band, the amounts
+// and tenures on offer and the documents to upload, the policy everything else.
+import type { LoanProductInput } from '../types';
+import type { UnderwritingPolicy } from './types';
+
+const formatAmount = (value: number) => `₹${Math.round(value).toLocaleString('en-IN')}`;
+
+export const applyLoanProduct = (policy: UnderwritingPolicy, product: LoanProductInput): UnderwritingPolicy => ({
+  ...policy,
+  documents: product.documents,
+  eligibility: [
+    {
+      id: 'product-min-amount',
+      require: { loan_amount: { gte: product.min_amount } },
+      failure: `${product.name} amounts start at ${formatAmount(product.min_amount)}`,
+    },
+    {
+      id: 'product-max-amount',
+      require: { loan_amount: { lte: product.max_amount } },
+      failure: `${product.name} amounts go up to ${formatAmount(product.max_amount)}`,
+    },
+    ...policy.eligibility,
+  ],
+  pricing: { ...policy.pricing, minRate: product.min_rate, maxRate: product.max_rate },
+  term: { ...policy.term, minYears: product.min_term_years, maxYears: product.max_term_years },
+});
+
+// Least amount the policy will consider, from its unconditional loan_amount rules
+export const minimumLoanAmount = (policy: UnderwritingPolicy): number =>
+  Math.max(0, ...policy.eligibility
+    .filter(rule => !rule.when)
+    .map(rule => rule.require.loan_amount?.gte ?? rule.require.loan_amount?.gt ?? 0));
@@ -0,0 +1,279 @@
+// Loading, validation and lookup of versioned policy documents
+import { parse as parseYaml } from 'yaml';
+import { evaluatePolicy } from './engine';
+import { prequalify, type Prequalification, type PrequalificationInput } from './prequalification';
+import { applyLoanProduct } from './products';
+import { isCollateralType } from '../collateral';
+import { isDocumentType } from '../documents';
+import type { LoanProductCatalog } from '../loanProducts';
+import {
+  PolicyValidationError,
+  type PolicyCondition,
+  type PolicyField,
+  type PolicyReference,
+  type UnderwritingDecision,
+  type UnderwritingInput,
+  type UnderwritingPolicy
+} from './types';
+
+const POLICY_FIELDS: PolicyField[] = [
+  'credit_score',
+  'monthly_income',
+  'loan_amount',
+  'loan_to_income',
+  'existing_obligations',
+  'foir',
+  'dependents',
+  'collateral_value',
+  'ltv',
+  'employment_status',
+];
+const COMPARISON_KEYS = ['gt', 'gte', 'lt', 'lte', 'eq', 'in', 'notIn'];
+const FALLBACK_LOAN_TYPE = '*';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// "Home Loan", "home" and " HOME loan " all map to "home"
+export const normalizeLoanType = (loanType: string): string =>
+  loanType.trim().toLowerCase().replace(/\s+/g, ' ').replace(/ loan$/, '');
+
+const validateCondition = (condition: unknown, path: string, source?: string): void => {
+  if (!isObject(condition)) {
+    throw new PolicyValidationError(`${path} must be an object`, source);
+  }
+  for (const [field, comparison] of Object.entries(condition)) {
+    if (!POLICY_FIELDS.includes(field as PolicyField)) {
+      throw new PolicyValidationError(`${path} uses unknown field "${field}"`, source);
+    }
+    if (!isObject(comparison) || Object.keys(comparison).length === 0) {
+      throw new PolicyValidationError(`${path}.${field} must be a non-empty comparison`, source);
+    }
+    for (const key of Object.keys(comparison)) {
+      if (!COMPARISON_KEYS.includes(key)) {
+        throw new PolicyValidationError(`${path}.${field} uses unknown operator "${key}"`, source);
+      }
+    }
+  }
+};
+
+const requireArray = (value: unknown, path: string, source?: string): unknown[] => {
+  if (!Array.isArray(value)) {
+    throw new PolicyValidationError(`${path} must be a list`, source);
+  }
+  return value;
+};
+
+const requireNumber = (value: unknown, path: string, source?: string): void => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new PolicyValidationError(`${path} must be a number`, source);
+  }
+};
+
+const requireString = (value: unknown, path: string, source?: string): void => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new PolicyValidationError(`${path} must be a non-empty string`, source);
+  }
+};
+
+const validateTiers = (tiers: unknown, path: string, valueKey: string, source?: string): void => {
+  requireArray(tiers, path, source).forEach((tier, index) => {
+    if (!isObject(tier)) throw new PolicyValidationError(`${path}[${index}] must be an object`, source);
+    validateCondition(tier.when, `${path}[${index}].when`, source);
+    requireNumber(tier[valueKey], `${path}[${index}].${valueKey}`, source);
+  });
+};
+
+const validateDocuments = (documents: unknown, path: string, source?: string): void => {
+  requireArray(documents, path, source).forEach((type, index) => {
+    if (!isDocumentType(type)) {
+      throw new PolicyValidationError(`${path}[${index}] is not a known document type`, source);
+    }
+  });
+};
+
+const validateNotes = (notes: unknown, path: string, source?: string): void => {
+  requireArray(notes, path, source).forEach((note, index) => {
+    if (!isObject(note)) throw new PolicyValidationError(`${path}[${index}] must be an object`, source);
+    validateCondition(note.when, `${path}[${index}].when`, source);
+    requireString(note.text, `${path}[${index}].text`, source);
+    if (note.documents !== undefined) validateDocuments(note.documents, `${path}[${index}].documents`, source);
+  });
+};
+
+export const validatePolicy = (document: unknown, source?: string): UnderwritingPolicy => {
+  if (!isObject(document)) {
+    throw new PolicyValidationError('policy must be an object', source);
+  }
+
+  requireString(document.id, 'id', source);
+  requireString(document.version, 'version', source);
+  requireString(document.name, 'name', source);
+  requireString(document.effectiveFrom, 'effectiveFrom', source);
+  if (Number.isNaN(Date.parse(document.effectiveFrom as string))) {
+    throw new PolicyValidationError('effectiveFrom must be an ISO date', source);
+  }
+  requireArray(document.loanTypes, 'loanTypes', source).forEach((type, index) => requireString(type, `loanTypes[${index}]`, source));
+  requireArray(document.requiredFields, 'requiredFields', source).forEach((field, index) => {
+    if (!POLICY_FIELDS.includes(field as PolicyField)) {
+      throw new PolicyValidationError(`requiredFields[${index}] is not a known field`, source);
+    }
+  });
+  if (document.collateralTypes !== undefined) {
+    requireArray(document.collateralTypes, 'collateralTypes', source).forEach((type, index) => {
+      if (!isCollateralType(type)) {
+        throw new PolicyValidationError(`collateralTypes[${index}] is not a known collateral type`, source);
+      }
+    });
+  }
+  // Collateral can only be required when the policy says which kinds it takes
+  const requiresCollateral = (document.requiredFields as string[]).some(field => field === 'collateral_value' || field === 'ltv');
+  if (requiresCollateral && !(document.collateralTypes as unknown[] | undefined)?.length) {
+    throw new PolicyValidationError('collateralTypes must list the collateral the policy requires', source);
+  }
+  if (document.documents !== undefined) validateDocuments(document.documents, 'documents', source);
+
+  requireArray(document.eligibility, 'eligibility', source).forEach((rule, index) => {
+    if (!isObject(rule)) throw new PolicyValidationError(`eligibility[${index}] must be an object`, source);
+    requireString(rule.id, `eligibility[${index}].id`, source);
+    if (rule.when !== undefined) validateCondition(rule.when, `eligibility[${index}].when`, source);
+    validateCondition(rule.require, `eligibility[${index}].require`, source);
+    requireString(rule.failure, `eligibility[${index}].failure`, source);
+  });
+
+  const pricing = document.pricing;
+  if (!isObject(pricing)) throw new PolicyValidationError('pricing must be an object', source);
+  requireNumber(pricing.baseRate, 'pricing.baseRate', source);
+  requireNumber(pricing.minRate, 'pricing.minRate', source);
+  requireNumber(pricing.maxRate, 'pricing.maxRate', source);
+  requireArray(pricing.adjustments, 'pricing.adjustments', source).forEach((adjustment, index) => {
+    if (!isObject(adjustment)) throw new PolicyValidationError(`pricing.adjustments[${index}] must be an object`, source);
+    requireString(adjustment.name, `pricing.adjustments[${index}].name`, source);
+    validateTiers(adjustment.tiers, `pricing.adjustments[${index}].tiers`, 'add', source);
+  });
+
+  const term = document.term;
+  if (!isObject(term)) throw new PolicyValidationError('term must be an object', source);
+  requireNumber(term.defaultYears, 'term.defaultYears', source);
+  validateTiers(term.tiers, 'term.tiers', 'years', source);
+  if (term.minYears !== undefined) requireNumber(term.minYears, 'term.minYears', source);
+  if (term.maxYears !== undefined) requireNumber(term.maxYears, 'term.maxYears', source);
+  if (typeof term.minYears === 'number' && typeof term.maxYears === 'number' && term.minYears > term.maxYears) {
+    throw new PolicyValidationError('term.minYears cannot be above term.maxYears', source);
+  }
+  // FOIR is worked out from the term, so the term can't depend on it
+  (term.tiers as { when: PolicyCondition }[]).forEach((tier, index) => {
+    if ('foir' in tier.when) {
+      throw new PolicyValidationError(`term.tiers[${index}].when cannot use foir`, source);
+    }
+  });
+
+  const scoring = document.scoring;
+  if (!isObject(scoring)) throw new PolicyValidationError('scoring must be an object', source);
+  requireArray(scoring.factors, 'scoring.factors', source).forEach((factor, index) => {
+    if (!isObject(factor)) throw new PolicyValidationError(`scoring.factors[${index}] must be an object`, source);
+    validateTiers(factor.tiers, `scoring.factors[${index}].tiers`, 'points', source);
+  });
+
+  const reasons = document.reasons;
+  if (!isObject(reasons)) throw new PolicyValidationError('reasons must be an object', source);
+  requireString(reasons.approved, 'reasons.approved', source);
+  requireString(reasons.incomplete, 'reasons.incomplete', source);
+
+  const confidence = document.confidence;
+  if (!isObject(confidence)) throw new PolicyValidationError('confidence must be an object', source);
+  requireNumber(confidence.approved, 'confidence.approved', source);
+  requireNumber(confidence.rejected, 'confidence.rejected', source);
+
+  validateNotes(document.approvalReasons, 'approvalReasons', source);
+  validateNotes(document.risks, 'risks', source);
+  validateNotes(document.conditions, 'conditions', source);
+
+  requireArray(document.factorImpacts, 'factorImpacts', source).forEach((rule, index) => {
+    if (!isObject(rule)) throw new PolicyValidationError(`factorImpacts[${index}] must be an object`, source);
+    requireString(rule.name, `factorImpacts[${index}].name`, source);
+    if (!POLICY_FIELDS.includes(rule.field as PolicyField)) {
+      throw new PolicyValidationError(`factorImpacts[${index}].field is not a known field`, source);
+    }
+    validateCondition(rule.positive, `factorImpacts[${index}].positive`, source);
+    if (rule.neutral !== undefined) validateCondition(rule.neutral as PolicyCondition, `factorImpacts[${index}].neutral`, source);
+  });
+
+  return document as unknown as UnderwritingPolicy;
+};
+
+// Parse a policy document; `source` is the file name and decides JSON vs YAML
+export const parsePolicyDocument = (text: string, source: string): UnderwritingPolicy => {
+  let document: unknown;
+  try {
+    document = source.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new PolicyValidationError(`could not be parsed (${error instanceof Error ? error.message : error})`, source);
+  }
+  return validatePolicy(document, source);
+};
+
+export class PolicyRegistry {
+  private readonly policies: UnderwritingPolicy[];
+
+  // With a product catalog, loan types resolve through it: the product names
+  // the policy that prices it and its limits are applied to that policy
+  constructor(policies: UnderwritingPolicy[], private readonly products?: LoanProductCatalog) {
+    const seen = new Set<string>();
+    for (const policy of policies) {
+      const key = `${policy.id}@${policy.version}`;
+      if (seen.has(key)) {
+        throw new PolicyValidationError(`duplicate policy ${key}`);
+      }
+      seen.add(key);
+    }
+    if (!policies.some(policy => policy.loanTypes.includes(FALLBACK_LOAN_TYPE))) {
+      throw new PolicyValidationError(`no fallback policy (loanTypes: ["${FALLBACK_LOAN_TYPE}"]) defined`);
+    }
+
+    // Newest first, so lookups return the latest version in effect; of two
+    // taking effect the same day, the higher version
+    this.policies = [...policies].sort((a, b) =>
+      Date.parse(b.effectiveFrom) - Date.parse(a.effectiveFrom) || b.version.localeCompare(a.version, undefined, { numeric: true }));
+  }
+
+  list(): UnderwritingPolicy[] {
+    return [...this.policies];
+  }
+
+  find(reference: PolicyReference): UnderwritingPolicy | undefined {
+    return this.policies.find(policy => policy.id === reference.id && policy.version === reference.version);
+  }
+
+  // Policy in effect for a loan type at a given moment
+  forLoanType(loanType: string | null | undefined, at: Date = new Date()): UnderwritingPolicy {
+    const inEffect = this.policies.filter(policy => Date.parse(policy.effectiveFrom) <= at.getTime());
+    const normalized = loanType ? normalizeLoanType(loanType) : '';
+    const product = this.products?.forLoanType(loanType);
+
+    const policy = (product?.policy_id ? inEffect.find(p => p.id === product.policy_id) : undefined)
+      ?? inEffect.find(p => p.loanTypes.some(type => normalizeLoanType(type) === normalized))
+      ?? inEffect.find(p => p.loanTypes.includes(FALLBACK_LOAN_TYPE));
+    if (!policy) {
+      throw new PolicyValidationError(`no policy in effect for "${loanType}" on ${at.toISOString()}`);
+    }
+    return product ? applyLoanProduct(policy, product) : policy;
+  }
+
+  // Evaluate with a specific policy version when re-checking a past decision,
+  // otherwise with the policy currently in effect for the loan type. The
+  // product's limits are the catalog's current ones either way.
+  evaluate(input: UnderwritingInput, reference?: PolicyReference | null): UnderwritingDecision {
+    const recorded = reference && this.find(reference);
+    const product = recorded ? this.products?.forLoanType(input.loan_type) : null;
+    const policy = recorded
+      ? (product ? applyLoanProduct(recorded, product) : recorded)
+      : this.forLoanType(input.loan_type);
+    return evaluatePolicy(policy, input);
+  }
+
+  // Maximum eligible amount under the policy currently in effect
+  prequalify(input: PrequalificationInput): Prequalification {
+    return prequalify(this.forLoanType(input.loan_type), input);
+  }
+}
@@ -0,0 +1,195 @@
+// Underwriting policy documents and decision results. Policies are declarative
+// YAML/JSON documents (see ./policies) evaluated by ./engine.ts, so the chat
+// flow, the applications page and the API server all reach the same answer.
+import type { CollateralType, CollateralValue } from '../collateral';
+import type { DocumentType } from '../documents';
+import type { PartyIncome } from '../parties';
+
+// Fields a policy rule can test. loan_to_income is loan_amount / monthly_income.
+// existing_obligations is what the applicant already repays each month, and
+// foir is that plus the proposed EMI as a percent of monthly income.
+// collateral_value is what the collateral the policy accepts is worth, and ltv
+// is loan_amount as a percent of it.
+export type PolicyField =
+  | 'credit_score'
+  | 'monthly_income'
+  | 'loan_amount'
+  | 'loan_to_income'
+  | 'existing_obligations'
+  | 'foir'
+  | 'dependents'
+  | 'collateral_value'
+  | 'ltv'
+  | 'employment_status';
+
+export interface PolicyComparison {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  eq?: string | number;
+  in?: Array<string | number>;
+  notIn?: Array<string | number>;
+}
+
+// Every listed field must satisfy its comparison
+export type PolicyCondition = Partial<Record<PolicyField, PolicyComparison>>;
+
+export interface EligibilityRule {
+  id: string;
+  // The rule only applies when this matches, e.g. once collateral is given
+  when?: PolicyCondition;
+  require: PolicyCondition;
+  // Shown when the rule fails; {field} placeholders are filled from the application
+  failure: string;
+}
+
+export interface PricingTier {
+  when: PolicyCondition;
+  add: number;
+}
+
+// Tiers are checked in order and only the first match applies
+export interface PricingAdjustment {
+  name: string;
+  tiers: PricingTier[];
+}
+
+export interface TermTier {
+  when: PolicyCondition;
+  years: number;
+}
+
+export interface ScoringTier {
+  when: PolicyCondition;
+  points: number;
+}
+
+export interface ScoringFactor {
+  name: string;
+  tiers: ScoringTier[];
+}
+
+export type RuleOutcome = 'approved' | 'rejected' | 'any';
+
+export interface PolicyNote {
+  when: PolicyCondition;
+  text: string;
+  outcome?: RuleOutcome;
+  // Conditions only: uploads that satisfy the condition
+  documents?: DocumentType[];
+}
+
+export interface FactorImpactRule {
+  name: string;
+  field: PolicyField;
+  positive: PolicyCondition;
+  neutral?: PolicyCondition;
+}
+
+export interface UnderwritingPolicy {
+  id: string;
+  version: string;
+  name: string;
+  // ISO date; the newest policy already in effect wins
+  effectiveFrom: string;
+  // Lower-cased loan type names this policy covers; '*' marks the fallback policy
+  loanTypes: string[];
+  requiredFields: PolicyField[];
+  // Collateral the policy lends against; other collateral isn't counted.
+  // Listing collateral_value in requiredFields makes it mandatory.
+  collateralTypes?: CollateralType[];
+  // Documents every application of this type has to upload; versions from
+  // before uploads list none
+  documents?: DocumentType[];
+  eligibility: EligibilityRule[];
+  pricing: {
+    baseRate: number;
+    minRate: number;
+    maxRate: number;
+    adjustments: PricingAdjustment[];
+  };
+  term: {
+    defaultYears: number;
+    tiers: TermTier[];
+    // Tenure range the terms are kept within; the loan-product catalog sets these
+    minYears?: number;
+    maxYears?: number;
+  };
+  scoring: {
+    factors: ScoringFactor[];
+  };
+  reasons: {
+    approved: string;
+    incomplete: string;
+  };
+  confidence: {
+    approved: number;
+    rejected: number;
+  };
+  approvalReasons: PolicyNote[];
+  risks: PolicyNote[];
+  conditions: PolicyNote[];
+  factorImpacts: FactorImpactRule[];
+}
+
+export interface UnderwritingInput {
+  loan_type?: string | null;
+  loan_amount?: string | number | null;
+  monthly_income?: string | number | null;
+  credit_score?: string | number | null;
+  employment_status?: string | null;
+  // Monthly EMIs on other loans and the outstanding credit card balance
+  existing_emis?: string | number | null;
+  credit_card_dues?: string | number | null;
+  dependents?: string | number | null;
+  // Tenure the applicant picked; the policy's own term otherwise
+  loan_term?: number | null;
+  // Co-applicants' incomes are added to monthly_income
+  parties?: PartyIncome[] | null;
+  // Pledged collateral and its declared value
+  collateral?: CollateralValue[] | null;
+}
+
+export interface PolicyReference {
+  id: string;
+  version: string;
+}
+
+export interface DecisionFactor {
+  name: string;
+  value: string | number;
+  impact: 'positive' | 'neutral' | 'negative';
+}
+
+export interface DocumentRequirement {
+  document_type: DocumentType;
+  reason: string;
+}
+
+export interface UnderwritingDecision {
+  decision: 'approved' | 'rejected' | 'incomplete';
+  reason: string;
+  // Annual rate as a plain number string ("9.50"), 'N/A' when not approved
+  interest_rate: string;
+  // Offered rate regardless of outcome, used to quote terms during the application
+  quoted_rate: string;
+  loan_term: number;
+  confidence: number;
+  overallScore: number;
+  approvalReasons: string[];
+  rejectionRisks: string[];
+  conditions: string[];
+  // The policy's checklist plus whatever the matched conditions ask for
+  documents: DocumentRequirement[];
+  failedRules: string[];
+  factors: DecisionFactor[];
+  policy: PolicyReference;
+}
+
+export class PolicyValidationError extends Error {
+  constructor(message: string, public readonly source?: string) {
+    super(source ? `${source}: ${message}` : message);
+    this.name = 'PolicyValidationError';
+  }
+}
@@ -1,14 +1,19 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Routes, Route, Navigate } from 'react-router-dom';
-import { useAuth } from '@clerk/clerk-react';
+import { useAuth, useUser } from '@clerk/clerk-react';
 import LoginPage from './components/LoginPage';
 import LoanApplicationsPage from './components/LoanApplicationsPage';
+import EligibilityPage from './components/EligibilityPage';
 import ChatInterface from './components/ChatInterface';
 import VoiceMode from './components/VoiceMode';
 import Sidebar from './components/Sidebar';
 import Header from './components/Header';
 import ToastContainer from './components/ToastContainer';
+import OfficerConsole from './components/OfficerConsole';
+import LoanProductsPage from './components/LoanProductsPage';
 import { seedDemoData } from './seedData';
+import { loadLoanProducts } from './services/loanProducts';
+import { can } from './services/userRoles';
 
 function Dashboard({ children }: { children: React.ReactNode }) {
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
@@ -18,10 +23,11 @@ function Dashboard({ children }: { children: React.ReactNode }) {
   const chatRef = useRef<{ clearConversation: () => void }>(null);
   const voiceRef = useRef<{ clearConversation: () => void; getMessages: () => any[] }>(null);
 
-  // Seed demo data when user first logs in
+  // Seed demo data and load the loan-product catalog when the user logs in
   useEffect(() => {
     if (userId) {
       seedDemoData(userId).catch(console.error);
+      loadLoanProducts().catch(console.error);
     }
   }, [userId]);
 
@@ -75,6 +81,7 @@ function Dashboard({ children }: { children: React.ReactNode }) {
 
 function App() {
   const { isLoaded, userId } = useAuth();
+  const { user } = useUser();
 
   if (!isLoaded) {
     return (
@@ -107,6 +114,15 @@ function App() {
           )
         } />
         <Route path="/loan-applications" element={userId ? <LoanApplicationsPage /> : <Navigate to="/login" replace />} />
+        <Route path="/eligibility" element={userId ? <EligibilityPage /> : <Navigate to="/login" replace />} />
+        <Route path="/officer" element={
+          !userId ? <Navigate to="/login" replace /> :
+          can(user, 'applications:read:any') ? <OfficerConsole /> : <Navigate to="/voice" replace />
+        } />
+        <Route path="/products" element={
+          !userId ? <Navigate to="/login" replace /> :
+          can(user, 'products:manage') ? <LoanProductsPage /> : <Navigate to="/voice" replace />
+        } />
         <Route path="/" element={<Navigate to="/voice" replace />} />
       </Routes>
       <ToastContainer />
@@ -0,0 +1,286 @@
+import { useMemo, useState } from 'react';
+import { Calendar, Download, Plus, Trash2 } from 'lucide-react';
+import {
+  generateAmortizationSchedule,
+  summarizeByYear,
+  type AmortizationSchedule as Schedule,
+  type Moratorium,
+  type Prepayment
+} from '../../shared/amortization';
+import { downloadScheduleCsv, downloadSchedulePdf } from '../services/scheduleExport';
+import { toastService } from '../services/toastService';
+
+interface AmortizationScheduleProps {
+  principal: number;
+  annualRate: number;
+  termYears: number;
+  startDate?: Date;
+  title: string;
+  fileName: string;
+}
+
+const formatAmount = (value: number) => '₹' + Math.round(value).toLocaleString('en-IN');
+
+export default function AmortizationSchedule({ principal, annualRate, termYears, startDate, title, fileName }: AmortizationScheduleProps) {
+  const [view, setView] = useState<'yearly' | 'monthly'>('yearly');
+  const [moratoriumMonths, setMoratoriumMonths] = useState(0);
+  const [moratoriumInterest, setMoratoriumInterest] = useState<Moratorium['interest']>('capitalize');
+  const [stepUpPercent, setStepUpPercent] = useState(0);
+  const [stepUpEvery, setStepUpEvery] = useState(12);
+  const [prepayments, setPrepayments] = useState<Prepayment[]>([]);
+  const [prepaymentMonth, setPrepaymentMonth] = useState('');
+  const [prepaymentAmount, setPrepaymentAmount] = useState('');
+  const [strategy, setStrategy] = useState<'reduce_tenure' | 'reduce_emi'>('reduce_tenure');
+
+  const termMonths = Math.round(termYears * 12);
+
+  const result = useMemo((): { schedule: Schedule } | { error: string } => {
+    try {
+      return {
+        schedule: generateAmortizationSchedule({
+          principal,
+          annualRate,
+          termMonths,
+          startDate,
+          moratorium: moratoriumMonths > 0 ? { months: moratoriumMonths, interest: moratoriumInterest } : undefined,
+          stepUp: stepUpPercent !== 0 ? { everyMonths: stepUpEvery, percent: stepUpPercent } : undefined,
+          prepayments,
+          prepaymentStrategy: strategy
+        })
+      };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Could not build the schedule' };
+    }
+  }, [principal, annualRate, termMonths, startDate, moratoriumMonths, moratoriumInterest, stepUpPercent, stepUpEvery, prepayments, strategy]);
+
+  const handleAddPrepayment = () => {
+    const month = parseInt(prepaymentMonth, 10);
+    const amount = parseFloat(prepaymentAmount.replace(/[^0-9.]/g, ''));
+
+    if (!Number.isInteger(month) || month < 1 || !(amount > 0)) {
+      toastService.addToast('Enter a month number and an amount for the prepayment', 'error', 3000);
+      return;
+    }
+
+    setPrepayments([...prepayments, { month, amount }].sort((a, b) => a.month - b.month));
+    setPrepaymentMonth('');
+    setPrepaymentAmount('');
+  };
+
+  const handleExportPdf = async (schedule: Schedule) => {
+    try {
+      await downloadSchedulePdf(schedule, { title, principal, annualRate, termMonths }, `${fileName}.pdf`);
+    } catch (error) {
+      console.error('❌ Error exporting schedule PDF:', error);
+      toastService.addToast('Could not export the schedule as PDF', 'error', 4000);
+    }
+  };
+
+  if ('error' in result) {
+    return (
+      <div className="bg-gray-800 rounded-lg p-6 mb-6">
+        <h3 className="text-lg font-semibold mb-2 flex items-center">
+          <Calendar className="text-blue-500 mr-3" size={20} />
+          Repayment Schedule
+        </h3>
+        <p className="text-sm text-yellow-400">{result.error}</p>
+      </div>
+    );
+  }
+
+  const { schedule } = result;
+  const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Calendar className="text-blue-500 mr-3" size={20} />
+          Repayment Schedule
+        </h3>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => downloadScheduleCsv(schedule, `${fileName}.csv`)}
+            className="flex items-center px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 border border-gray-600 rounded-lg transition-colors"
+          >
+            <Download size={14} className="mr-1" />
+            CSV
+          </button>
+          <button
+            onClick={() => handleExportPdf(schedule)}
+            className="flex items-center px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 border border-gray-600 rounded-lg transition-colors"
+          >
+            <Download size={14} className="mr-1" />
+            PDF
+          </button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-gray-700 p-4 rounded-lg">
+          <label className="text-sm text-gray-400 block mb-1">{stepUpPercent !== 0 ? 'Starting EMI' : 'Monthly EMI'}</label>
+          <p className="text-lg font-semibold text-blue-400">{formatAmount(schedule.emi)}</p>
+        </div>
+        <div className="bg-gray-700 p-4 rounded-lg">
+          <label className="text-sm text-gray-400 block mb-1">Total Interest</label>
+          <p className="text-lg font-semibold">{formatAmount(schedule.totalInterest)}</p>
+        </div>
+        <div className="bg-gray-700 p-4 rounded-lg">
+          <label className="text-sm text-gray-400 block mb-1">Total Paid</label>
+          <p className="text-lg font-semibold">{formatAmount(schedule.totalPayment)}</p>
+        </div>
+        <div className="bg-gray-700 p-4 rounded-lg">
+          <label className="text-sm text-gray-400 block mb-1">Paid Off In</label>
+          <p className="text-lg font-semibold">{schedule.payoffMonth} months</p>
+        </div>
+      </div>
+
+      {/* Scenario options */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="bg-gray-700/50 p-4 rounded-lg space-y-2">
+          <label className="text-sm text-gray-300 block">Moratorium (months)</label>
+          <input
+            type="number"
+            min={0}
+            value={moratoriumMonths}
+            onChange={(e) => setMoratoriumMonths(Math.max(0, parseInt(e.target.value, 10) || 0))}
+            className={inputClass}
+          />
+          <select
+            value={moratoriumInterest}
+            onChange={(e) => setMoratoriumInterest(e.target.value as Moratorium['interest'])}
+            className={inputClass}
+          >
+            <option value="capitalize">Add interest to balance</option>
+            <option value="interest_only">Pay interest only</option>
+          </select>
+        </div>
+
+        <div className="bg-gray-700/50 p-4 rounded-lg space-y-2">
+          <label className="text-sm text-gray-300 block">Step-up EMI (% increase)</label>
+          <input
+            type="number"
+            step={0.5}
+            value={stepUpPercent}
+            onChange={(e) => setStepUpPercent(parseFloat(e.target.value) || 0)}
+            className={inputClass}
+          />
+          <select
+            value={stepUpEvery}
+            onChange={(e) => setStepUpEvery(parseInt(e.target.value, 10))}
+            className={inputClass}
+          >
+            <option value={6}>Every 6 months</option>
+            <option value={12}>Every year</option>
+            <option value={24}>Every 2 years</option>
+          </select>
+        </div>
+
+        <div className="bg-gray-700/50 p-4 rounded-lg space-y-2">
+          <label className="text-sm text-gray-300 block">Prepayments</label>
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              min={1}
+              placeholder="Month"
+              value={prepaymentMonth}
+              onChange={(e) => setPrepaymentMonth(e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              placeholder="Amount"
+              value={prepaymentAmount}
+              onChange={(e) => setPrepaymentAmount(e.target.value)}
+              className={inputClass}
+            />
+            <button
+              onClick={handleAddPrepayment}
+              className="px-3 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+              title="Add prepayment"
+            >
+              <Plus size={14} />
+            </button>
+          </div>
+          <select
+            value={strategy}
+            onChange={(e) => setStrategy(e.target.value as 'reduce_tenure' | 'reduce_emi')}
+            className={inputClass}
+          >
+            <option value="reduce_tenure">Prepayments shorten the tenure</option>
+            <option value="reduce_emi">Prepayments lower the EMI</option>
+          </select>
+          {prepayments.map((prepayment, index) => (
+            <div key={`${prepayment.month}-${index}`} className="flex items-center justify-between text-sm text-gray-300">
+              <span>Month {prepayment.month}: {formatAmount(prepayment.amount)}</span>
+              <button
+                onClick={() => setPrepayments(prepayments.filter((_, i) => i !== index))}
+                className="p-1 rounded hover:bg-red-500/20"
+                title="Remove prepayment"
+              >
+                <Trash2 size={12} className="text-gray-400 hover:text-red-400" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Schedule table */}
+      <div className="flex space-x-2 mb-3">
+        {(['yearly', 'monthly'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setView(option)}
+            className={`px-3 py-1 text-sm rounded-lg border transition-colors ${
+              view === option ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {option === 'yearly' ? 'Yearly' : 'Monthly'}
+          </button>
+        ))}
+      </div>
+
+      <div className="max-h-96 overflow-y-auto custom-scrollbar">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-gray-800 text-gray-400">
+            <tr className="text-right">
+              <th className="text-left py-2">{view === 'yearly' ? 'Year' : 'Month'}</th>
+              <th className="py-2">Payment</th>
+              <th className="py-2">Interest</th>
+              <th className="py-2">Principal</th>
+              <th className="py-2">Prepayment</th>
+              <th className="py-2">Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {view === 'yearly'
+              ? summarizeByYear(schedule).map(year => (
+                <tr key={year.year} className="text-right border-t border-gray-700">
+                  <td className="text-left py-2">{year.year}</td>
+                  <td className="py-2">{formatAmount(year.payment)}</td>
+                  <td className="py-2">{formatAmount(year.interest)}</td>
+                  <td className="py-2">{formatAmount(year.principal)}</td>
+                  <td className="py-2">{year.prepayment > 0 ? formatAmount(year.prepayment) : '-'}</td>
+                  <td className="py-2">{formatAmount(year.closingBalance)}</td>
+                </tr>
+              ))
+              : schedule.rows.map(row => (
+                <tr key={row.month} className={`text-right border-t border-gray-700 ${row.phase === 'moratorium' ? 'text-yellow-300' : ''}`}>
+                  <td className="text-left py-2">
+                    {row.month}
+                    {row.dueDate && <span className="text-gray-500 ml-2">{row.dueDate}</span>}
+                  </td>
+                  <td className="py-2">{formatAmount(row.payment)}</td>
+                  <td className="py-2">{formatAmount(row.interest)}</td>
+                  <td className="py-2">{formatAmount(row.principal)}</td>
+                  <td className="py-2">{row.prepayment > 0 ? formatAmount(row.prepayment) : '-'}</td>
+                  <td className="py-2">{formatAmount(row.closingBalance)}</td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { ShieldCheck } from 'lucide-react';
+import type { LoanApplicationCollateral } from '../dbOperations';
+import { COLLATERAL_TYPE_LABELS, calculateLtv, totalCollateralValue } from '../../shared/collateral';
+
+interface ApplicationCollateralProps {
+  collateral: LoanApplicationCollateral[];
+  loanAmount: string;
+}
+
+const formatAmount = (value: string | number) => '₹' + Math.round(Number(value)).toLocaleString('en-IN');
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Pledged collateral, with the loan-to-value ratio it gives the loan
+export default function ApplicationCollateral({ collateral, loanAmount }: ApplicationCollateralProps) {
+  if (collateral.length === 0) return null;
+
+  const total = totalCollateralValue(collateral);
+  const ltv = calculateLtv(Number(loanAmount), total);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center">
+        <ShieldCheck className="text-blue-500 mr-3" size={20} />
+        Collateral
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {collateral.map(item => (
+          <div key={item.id} className="bg-gray-700 p-4 rounded-lg">
+            <div className="flex items-center justify-between mb-2">
+              <p className="font-semibold">{capitalize(COLLATERAL_TYPE_LABELS[item.type])}</p>
+              <span className="text-sm">{formatAmount(item.value)}</span>
+            </div>
+            <p className="text-sm text-gray-400">{item.description}</p>
+          </div>
+        ))}
+      </div>
+
+      {ltv !== null && (
+        <p className="text-sm text-gray-300 mt-4">
+          Loan-to-value: {ltv.toFixed(1)}% ({formatAmount(loanAmount)} against {formatAmount(total)} of declared collateral).
+        </p>
+      )}
+    </div>
+  );
+}
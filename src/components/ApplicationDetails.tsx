@@ -0,0 +1,40 @@
+import { ClipboardList } from 'lucide-react';
+import { detailLabel, formatDetail, type ProductDetails } from '../../shared/questionGraph';
+import { loanProductCatalog } from '../services/loanProducts';
+
+interface ApplicationDetailsProps {
+  loanType: string;
+  details: ProductDetails | null;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Answers to the loan product's own questions. A question the product no
+// longer asks still shows, under its id.
+export default function ApplicationDetails({ loanType, details }: ApplicationDetailsProps) {
+  const answers = Object.entries(details ?? {});
+  if (answers.length === 0) return null;
+
+  const questions = loanProductCatalog.questions(loanType);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center">
+        <ClipboardList className="text-blue-500 mr-3" size={20} />
+        {loanType} Details
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {answers.map(([id, value]) => {
+          const question = questions.find(candidate => candidate.id === id);
+          return (
+            <div key={id}>
+              <label className="text-sm text-gray-400">{capitalize(detailLabel(questions, id))}</label>
+              <p className="font-semibold">{question ? formatDetail(question, value) : String(value)}</p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
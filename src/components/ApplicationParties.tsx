@@ -0,0 +1,50 @@
+import { Users } from 'lucide-react';
+import type { LoanApplicationParty } from '../dbOperations';
+import { PARTY_ROLE_LABELS, coApplicantIncome } from '../../shared/parties';
+
+interface ApplicationPartiesProps {
+  parties: LoanApplicationParty[];
+  applicantIncome: string;
+}
+
+const formatAmount = (value: string | number) => '₹' + Math.round(Number(value)).toLocaleString('en-IN');
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Co-applicants and guarantors, with the combined income underwriting used
+export default function ApplicationParties({ parties, applicantIncome }: ApplicationPartiesProps) {
+  if (parties.length === 0) return null;
+
+  const coApplicants = coApplicantIncome(parties);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center">
+        <Users className="text-blue-500 mr-3" size={20} />
+        Co-applicants &amp; Guarantors
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {parties.map(party => (
+          <div key={party.id} className="bg-gray-700 p-4 rounded-lg">
+            <div className="flex items-center justify-between mb-2">
+              <p className="font-semibold">{party.name}</p>
+              <span className="text-xs px-2 py-1 rounded bg-gray-600 text-gray-200">{capitalize(PARTY_ROLE_LABELS[party.role])}</span>
+            </div>
+            {party.relationship && <p className="text-sm text-gray-400 mb-2">{capitalize(party.relationship)}</p>}
+            <p className="text-sm"><span className="text-gray-400">Monthly income:</span> {formatAmount(party.monthly_income)}</p>
+            <p className="text-sm"><span className="text-gray-400">Employment:</span> {party.employment_status}</p>
+            <p className="text-sm"><span className="text-gray-400">Credit score:</span> {party.credit_score ?? 'Not provided'}</p>
+          </div>
+        ))}
+      </div>
+
+      {coApplicants > 0 && (
+        <p className="text-sm text-gray-300 mt-4">
+          Combined monthly income for eligibility: {formatAmount(Number(applicantIncome) + coApplicants)}
+          {' '}(applicant {formatAmount(applicantIncome)} + co-applicants {formatAmount(coApplicants)}). Guarantors' incomes are not counted.
+        </p>
+      )}
+    </div>
+  );
+}
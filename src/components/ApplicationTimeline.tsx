@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import { getLoanApplicationEvents } from '../dbOperations';
+import type { LoanApplicationEvent, LoanApplicationStatus } from '../dbOperations';
+import { STATUS_LABELS } from '../../shared/loanStatus';
+
+interface ApplicationTimelineProps {
+  applicationId: string;
+  applicantId: string;
+  // Changes whenever the status does, so the history reloads after an action
+  status: LoanApplicationStatus;
+}
+
+export default function ApplicationTimeline({ applicationId, applicantId, status }: ApplicationTimelineProps) {
+  const [events, setEvents] = useState<LoanApplicationEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    getLoanApplicationEvents(applicationId).then(result => {
+      if (!cancelled) {
+        setEvents(result);
+        setLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applicationId, status]);
+
+  const formatTimestamp = (date: Date) => date.toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center">
+        <History className="text-blue-500 mr-3" size={20} />
+        Status History
+      </h3>
+
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading history...</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-400">No status changes recorded yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-600 ml-2">
+          {events.map(event => (
+            <li key={event.id} className="mb-6 ml-6 last:mb-0">
+              <span className="absolute -left-1.5 w-3 h-3 rounded-full bg-blue-500 border-2 border-gray-800" />
+              <p className="text-sm font-medium text-white">
+                {event.event_type === 'info_requested'
+                  ? 'More information requested'
+                  : event.event_type === 'assigned'
+                    ? 'Reviewer updated'
+                    : event.event_type === 'document_reviewed'
+                      ? 'Document reviewed'
+                      : event.from_status
+                        ? `${STATUS_LABELS[event.from_status]} → ${STATUS_LABELS[event.to_status]}`
+                        : STATUS_LABELS[event.to_status]}
+              </p>
+              <p className="text-xs text-gray-400 mt-1">
+                {formatTimestamp(event.created_at)} · {event.actor_id === applicantId ? 'You' : 'LoanWise team'}
+              </p>
+              {event.reason && <p className="text-sm text-gray-300 mt-1">{event.reason}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useUser } from '@clerk/clerk-react';
 import { useLocation } from 'react-router-dom';
 import { getChatMessages, getConversationMessages, addChatMessage, clearChatMessages } from '../dbOperations';
 import loanApplicationService from '../services/loanApplicationService';
+import assistantRouter from '../services/assistantRouter';
 import ConversationalAI from '../services/conversationalAI';
 import ReactMarkdown from 'react-markdown';
 
@@ -272,70 +273,27 @@ const ChatInterface = forwardRef<ChatInterfaceRef>((_, ref) => {
       console.log('🔍 ChatInterface: Getting AI response for conversation:', currentConversationId);
       console.log('🔍 ChatInterface: User text:', userText);
 
-      // Check if this is loan application related and process with service
-      const loanResult = await loanApplicationService.processUserInput(
+      // Routed to the loan flow, a status lookup, the EMI calculator or a general answer
+      const reply = await assistantRouter.handleMessage(
         currentConversationId,
         userText,
-        user.id
+        user.id,
+        'chat'
       );
 
-      console.log('🔍 ChatInterface: Loan service response:', loanResult.response);
+      console.log('🔍 ChatInterface: Assistant response:', reply.intent, reply.response);
 
-      // If loan service handled it, return its response
-      if (loanResult.response !== "general_response") {
-        // Dispatch event to update sidebar if application was created
-        if (loanResult.shouldCreateApplication) {
-          window.dispatchEvent(new CustomEvent('loanApplicationCreated'));
-        }
-
-        return loanResult.response;
-      }
-
-      // Otherwise, use general AI response
-      const groqApiKey = import.meta.env.VITE_GROQ_API_KEY;
-      console.log('Groq API Key check:', groqApiKey ? 'Present' : 'Missing');
-
-      if (!groqApiKey) {
-        throw new Error('Groq API key not configured');
+      // Dispatch event to update sidebar if application was created
+      if (reply.shouldCreateApplication) {
+        window.dispatchEvent(new CustomEvent('loanApplicationCreated'));
       }
-
-      const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${groqApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'llama3-8b-8192',
-          messages: [
-            {
-              role: 'system',
-              content: `You are LoanWise AI, a helpful financial assistant for India. Keep responses SHORT and helpful. Be professional and friendly.
-
-              If someone asks about loans, say: "I'd be happy to help you apply for a loan! What type of loan are you looking for - personal, home, or vehicle?"
-
-              For other financial topics, provide brief helpful guidance relevant to Indian banking and finance. Always keep responses concise and actionable.`
-            },
-            {
-              role: 'user',
-              content: userText
-            }
-          ],
-          max_tokens: 150,
-          temperature: 0.7,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Groq API error details:', errorText);
-        throw new Error(`Groq API error: ${response.status} - ${errorText}`);
+      if (reply.shouldUpdateApplication) {
+        window.dispatchEvent(new CustomEvent('loanApplicationUpdated'));
       }
 
-      const data = await response.json();
-      return data.choices[0]?.message?.content || null;
+      return reply.response;
     } catch (error) {
-      console.error('Groq API error:', error);
+      console.error('LLM request error:', error);
       return null;
     }
   };
@@ -426,6 +384,7 @@ const ChatInterface = forwardRef<ChatInterfaceRef>((_, ref) => {
                               ol: ({children}) => <ol className="list-decimal list-inside mb-2">{children}</ol>,
                               li: ({children}) => <li className="mb-1">{children}</li>,
                               code: ({children}) => <code className="bg-black/20 px-1 py-0.5 rounded text-xs">{children}</code>,
+                              pre: ({children}) => <pre className="bg-black/20 p-2 rounded mb-2 overflow-x-auto whitespace-pre">{children}</pre>,
                               h3: ({children}) => <h3 className="font-semibold text-base mb-2">{children}</h3>,
                               h4: ({children}) => <h4 className="font-medium text-sm mb-1">{children}</h4>,
                             }}
@@ -0,0 +1,204 @@
+import { useEffect, useRef, useState } from 'react';
+import { CheckCircle, Clock, FileUp, Paperclip, XCircle } from 'lucide-react';
+import { documentOperations, officerOperations } from '../dbOperations';
+import type { ApplicationDocuments, DocumentType, LoanApplicationDocument, LoanApplicationStatus } from '../dbOperations';
+import { ApiError } from '../services/apiClient';
+import { toastService } from '../services/toastService';
+import {
+  ACCEPTED_DOCUMENT_CONTENT_TYPES,
+  DOCUMENT_LABELS,
+  DOCUMENT_STATUS_LABELS,
+  MAX_DOCUMENT_BYTES
+} from '../../shared/documents';
+
+interface DocumentChecklistProps {
+  applicationId: string;
+  // Changes whenever the status does, so the checklist reloads after an action
+  status: LoanApplicationStatus;
+  canUpload: boolean;
+  canReview: boolean;
+}
+
+const STATUS_STYLES = {
+  missing: { icon: FileUp, color: 'text-gray-400' },
+  uploaded: { icon: Clock, color: 'text-yellow-400' },
+  verified: { icon: CheckCircle, color: 'text-green-400' },
+  rejected: { icon: XCircle, color: 'text-red-400' },
+};
+
+export default function DocumentChecklist({ applicationId, status, canUpload, canReview }: DocumentChecklistProps) {
+  const [documents, setDocuments] = useState<ApplicationDocuments | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyType, setBusyType] = useState<DocumentType | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const pendingType = useRef<DocumentType | null>(null);
+
+  const load = async () => {
+    const result = await documentOperations.getApplicationDocuments(applicationId);
+    setDocuments(result);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [applicationId, status]);
+
+  const chooseFile = (documentType: DocumentType) => {
+    pendingType.current = documentType;
+    fileInput.current?.click();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    const documentType = pendingType.current;
+    if (fileInput.current) fileInput.current.value = '';
+    if (!file || !documentType) return;
+
+    if (!ACCEPTED_DOCUMENT_CONTENT_TYPES.includes(file.type)) {
+      toastService.addToast('Upload a PDF, JPEG or PNG file', 'error', 4000);
+      return;
+    }
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      toastService.addToast(`Files must be under ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB`, 'error', 4000);
+      return;
+    }
+
+    setBusyType(documentType);
+    try {
+      await documentOperations.uploadDocument(applicationId, documentType, file);
+      toastService.addToast(`${DOCUMENT_LABELS[documentType]} uploaded`, 'success', 3000);
+      await load();
+    } catch (error) {
+      console.error('❌ Error uploading document:', error);
+      const message = error instanceof ApiError && error.detail ? error.detail : 'Could not upload the document';
+      toastService.addToast(message, 'error', 5000);
+    } finally {
+      setBusyType(null);
+    }
+  };
+
+  // Opened from a blob because the file endpoint needs the session token
+  const openDocument = async (document: LoanApplicationDocument) => {
+    const blob = await documentOperations.downloadDocument(applicationId, document.id);
+    if (!blob) {
+      toastService.addToast('Could not open the document', 'error', 4000);
+      return;
+    }
+    const url = URL.createObjectURL(blob);
+    window.open(url, '_blank', 'noopener');
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  const handleReview = async (document: LoanApplicationDocument, decision: 'verified' | 'rejected') => {
+    let note: string | null = null;
+    if (decision === 'rejected') {
+      note = window.prompt(`Why is the ${DOCUMENT_LABELS[document.document_type].toLowerCase()} being rejected? The applicant will see this.`);
+      if (!note?.trim()) return;
+    }
+
+    setBusyType(document.document_type);
+    try {
+      await officerOperations.reviewDocument(applicationId, document.id, { status: decision, note });
+      toastService.addToast(`${DOCUMENT_LABELS[document.document_type]} ${decision}`, 'success', 3000);
+      await load();
+    } catch (error) {
+      console.error('❌ Error reviewing document:', error);
+      const message = error instanceof ApiError && error.detail ? error.detail : 'Could not review the document';
+      toastService.addToast(message, 'error', 5000);
+    } finally {
+      setBusyType(null);
+    }
+  };
+
+  const checklist = documents?.checklist ?? [];
+  const completed = checklist.filter(item => item.status === 'verified').length;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Paperclip className="text-blue-500 mr-3" size={20} />
+          Documents
+        </h3>
+        {checklist.length > 0 && (
+          <span className="text-sm text-gray-400">{completed} of {checklist.length} verified</span>
+        )}
+      </div>
+
+      <input
+        ref={fileInput}
+        type="file"
+        accept={ACCEPTED_DOCUMENT_CONTENT_TYPES.join(',')}
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading documents...</p>
+      ) : !documents ? (
+        <p className="text-sm text-gray-400">Could not load documents.</p>
+      ) : (
+        <ul className="divide-y divide-gray-700">
+          {checklist.map(item => {
+            const { icon: Icon, color } = STATUS_STYLES[item.status];
+            const busy = busyType === item.document_type;
+            return (
+              <li key={item.document_type} className="py-3 flex items-start justify-between gap-4">
+                <div className="flex items-start min-w-0">
+                  <Icon className={`${color} mr-3 mt-0.5 flex-shrink-0`} size={18} />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-white">{DOCUMENT_LABELS[item.document_type]}</p>
+                    <p className="text-xs text-gray-400">{item.reason}</p>
+                    {item.document && (
+                      <button
+                        onClick={() => openDocument(item.document!)}
+                        className="text-xs text-blue-400 hover:text-blue-300 truncate max-w-full"
+                      >
+                        {item.document.file_name}
+                      </button>
+                    )}
+                    {item.status === 'rejected' && item.document?.review_note && (
+                      <p className="text-xs text-red-300 mt-1">{item.document.review_note}</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <span className={`text-xs ${color}`}>{DOCUMENT_STATUS_LABELS[item.status]}</span>
+                  {canReview && item.document && item.status === 'uploaded' && (
+                    <>
+                      <button
+                        onClick={() => handleReview(item.document!, 'verified')}
+                        disabled={busy}
+                        className="px-2 py-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded text-xs"
+                      >
+                        Verify
+                      </button>
+                      <button
+                        onClick={() => handleReview(item.document!, 'rejected')}
+                        disabled={busy}
+                        className="px-2 py-1 bg-red-600 hover:bg-red-700 disabled:opacity-50 rounded text-xs"
+                      >
+                        Reject
+                      </button>
+                    </>
+                  )}
+                  {canUpload && item.status !== 'verified' && (
+                    <button
+                      onClick={() => chooseFile(item.document_type)}
+                      disabled={busy}
+                      className="px-2 py-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded text-xs"
+                    >
+                      {busy ? 'Uploading...' : item.document ? 'Replace' : 'Upload'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
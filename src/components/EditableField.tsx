@@ -0,0 +1,95 @@
+import { Check, Edit3, Undo2, X } from 'lucide-react';
+
+interface EditableFieldProps {
+  label: string;
+  // The value as shown when not being edited
+  display: string;
+  editing: boolean;
+  editValue: string;
+  error: string | null;
+  placeholder?: string;
+  canUndo: boolean;
+  onEdit: () => void;
+  onUndo: () => void;
+  onChange: (value: string) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+// One field of the application slate: its value, or an input while it is
+// being edited, with the reason a rejected value can't be saved
+export default function EditableField({
+  label,
+  display,
+  editing,
+  editValue,
+  error,
+  placeholder,
+  canUndo,
+  onEdit,
+  onUndo,
+  onChange,
+  onSave,
+  onCancel
+}: EditableFieldProps) {
+  return (
+    <div className="bg-gray-800/40 backdrop-blur-xl border border-blue-400/20 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-blue-300 text-sm font-medium">{label}</span>
+        {editing ? (
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={onSave}
+              className="p-1 text-green-400 hover:text-green-300 transition-colors"
+            >
+              <Check size={16} />
+            </button>
+            <button
+              onClick={onCancel}
+              className="p-1 text-red-400 hover:text-red-300 transition-colors"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center space-x-2">
+            {canUndo && (
+              <button
+                onClick={onUndo}
+                className="p-1 text-blue-400 hover:text-blue-300 transition-colors"
+                title="Undo last change"
+              >
+                <Undo2 size={16} />
+              </button>
+            )}
+            <button
+              onClick={onEdit}
+              className="p-1 text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              <Edit3 size={16} />
+            </button>
+          </div>
+        )}
+      </div>
+      {editing ? (
+        <>
+          <input
+            type="text"
+            value={editValue}
+            onChange={(e) => onChange(e.target.value)}
+            className={`w-full bg-gray-700/50 border rounded-lg px-3 py-2 text-white/95 text-sm focus:outline-none ${error ? 'border-red-400/60 focus:border-red-400' : 'border-blue-400/30 focus:border-blue-400'}`}
+            placeholder={placeholder}
+            autoFocus
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') onSave();
+              if (e.key === 'Escape') onCancel();
+            }}
+          />
+          {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+        </>
+      ) : (
+        <span className="text-white/95 text-sm">{display}</span>
+      )}
+    </div>
+  );
+}
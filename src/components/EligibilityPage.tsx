@@ -0,0 +1,275 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Calculator, CheckCircle, AlertCircle, XCircle } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { policyRegistry } from '../services/underwritingPolicies';
+import { loadLoanProducts, loanProductCatalog } from '../services/loanProducts';
+import { COLLATERAL_TYPE_LABELS } from '../../shared/collateral';
+import type { ApprovalLikelihood } from '../../shared/underwriting/prequalification';
+
+const formatAmount = (value: number) => '₹' + Math.round(value).toLocaleString('en-IN');
+
+const parseNumber = (value: string) => parseFloat(value.replace(/[^0-9.]/g, ''));
+
+const productNames = () => loanProductCatalog.active().map(product => product.name);
+
+const LIKELIHOOD_STYLES: Record<ApprovalLikelihood, { label: string; className: string }> = {
+  high: { label: 'High', className: 'text-green-400' },
+  medium: { label: 'Medium', className: 'text-yellow-400' },
+  low: { label: 'Low', className: 'text-orange-400' },
+  unlikely: { label: 'Unlikely', className: 'text-red-400' },
+};
+
+export default function EligibilityPage() {
+  const navigate = useNavigate();
+  const [loanTypes, setLoanTypes] = useState(productNames);
+  const [loanType, setLoanType] = useState(() => productNames()[0] ?? '');
+  const [monthlyIncome, setMonthlyIncome] = useState('');
+  const [existingEmis, setExistingEmis] = useState('');
+  const [cardDues, setCardDues] = useState('');
+  const [coApplicantIncome, setCoApplicantIncome] = useState('');
+  const [collateralValue, setCollateralValue] = useState('');
+  const [creditScore, setCreditScore] = useState('');
+  const [employmentStatus, setEmploymentStatus] = useState('salaried');
+
+  // The built-in catalog shows straight away; swap in the live one once it loads
+  useEffect(() => {
+    loadLoanProducts().then(() => setLoanTypes(productNames())).catch(console.error);
+  }, []);
+
+  const income = parseNumber(monthlyIncome);
+  const score = parseNumber(creditScore);
+  const emis = existingEmis ? parseNumber(existingEmis) : 0;
+  const dues = cardDues ? parseNumber(cardDues) : 0;
+  const jointIncome = coApplicantIncome ? parseNumber(coApplicantIncome) : 0;
+  // Secured loans are capped at their LTV limit, so ask what the collateral is worth
+  const policy = policyRegistry.forLoanType(loanType || null);
+  const collateralType = policy.collateralTypes?.[0];
+  const collateralRequired = policy.requiredFields.includes('collateral_value');
+  const security = collateralValue ? parseNumber(collateralValue) : 0;
+
+  const inputError =
+    !monthlyIncome || !creditScore ? null :
+    !(income > 0) ? 'Enter your monthly income in rupees' :
+    !(score >= 300 && score <= 900) ? 'Credit scores run from 300 to 900' :
+    !(emis >= 0) ? 'Enter your existing EMIs in rupees, or leave it blank' :
+    !(dues >= 0) ? 'Enter your credit card balance in rupees, or leave it blank' :
+    !(jointIncome >= 0) ? "Enter your co-applicant's monthly income in rupees, or leave it blank" :
+    collateralType && !(security >= 0) ? `Enter the value of the ${COLLATERAL_TYPE_LABELS[collateralType]} in rupees` :
+    collateralRequired && !collateralValue ? `Enter the value of the ${COLLATERAL_TYPE_LABELS[collateralType!]} - a ${loanType} is capped at a share of it` :
+    null;
+
+  const result = useMemo(() => {
+    if (!monthlyIncome || !creditScore || inputError) return null;
+    return policyRegistry.prequalify({
+      loan_type: loanType || null,
+      monthly_income: income,
+      existing_emis: emis,
+      credit_card_dues: dues,
+      parties: jointIncome > 0 ? [{ role: 'co_applicant', monthly_income: jointIncome }] : [],
+      collateral: collateralType && security > 0 ? [{ type: collateralType, value: security }] : [],
+      credit_score: score,
+      employment_status: employmentStatus
+    });
+  }, [loanType, monthlyIncome, creditScore, income, emis, dues, jointIncome, collateralType, security, score, employmentStatus, inputError]);
+
+  const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white overflow-y-auto">
+      <div className="max-w-4xl mx-auto p-6">
+        {/* Header */}
+        <div className="flex items-center mb-8 py-4">
+          <button
+            onClick={() => navigate('/voice')}
+            className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-all duration-200 mr-4"
+            title="Back to Dashboard"
+          >
+            <ArrowLeft size={24} />
+          </button>
+          <div>
+            <h1 className="text-3xl font-bold text-white">Check Eligibility</h1>
+            <p className="text-gray-400 mt-1">See how much you can borrow before you apply</p>
+          </div>
+        </div>
+
+        {/* Inputs */}
+        <div className="bg-gray-800 rounded-lg p-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4 flex items-center">
+            <Calculator className="text-blue-500 mr-3" size={20} />
+            Your Details
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm text-gray-400 block mb-1">Loan Type</label>
+              <select value={loanType} onChange={(e) => setLoanType(e.target.value)} className={inputClass}>
+                {loanTypes.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+                <option value="">Other</option>
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-gray-400 block mb-1">Employment</label>
+              <select value={employmentStatus} onChange={(e) => setEmploymentStatus(e.target.value)} className={inputClass}>
+                <option value="salaried">Salaried</option>
+                <option value="self-employed">Self-employed</option>
+                <option value="business">Business owner</option>
+                <option value="freelancer">Freelancer</option>
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-gray-400 block mb-1">Monthly Income (₹)</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                placeholder="e.g. 75000"
+                value={monthlyIncome}
+                onChange={(e) => setMonthlyIncome(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="text-sm text-gray-400 block mb-1">Co-applicant's Monthly Income (₹)</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                placeholder="Optional"
+                value={coApplicantIncome}
+                onChange={(e) => setCoApplicantIncome(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="text-sm text-gray-400 block mb-1">Existing EMIs per Month (₹)</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                placeholder="0"
+                value={existingEmis}
+                onChange={(e) => setExistingEmis(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="text-sm text-gray-400 block mb-1">Credit Card Dues (₹)</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                placeholder="0"
+                value={cardDues}
+                onChange={(e) => setCardDues(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            {collateralType && (
+              <div>
+                <label className="text-sm text-gray-400 block mb-1">
+                  Value of the {COLLATERAL_TYPE_LABELS[collateralType]} (₹)
+                </label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  placeholder={collateralRequired ? 'Required' : 'Optional'}
+                  value={collateralValue}
+                  onChange={(e) => setCollateralValue(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            )}
+            <div>
+              <label className="text-sm text-gray-400 block mb-1">Credit Score</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                placeholder="300 - 900"
+                value={creditScore}
+                onChange={(e) => setCreditScore(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          {inputError && <p className="text-sm text-yellow-400 mt-4">{inputError}</p>}
+        </div>
+
+        {/* Result */}
+        {result && (
+          <div className="bg-gray-800 rounded-lg p-6 mb-6">
+            <h3 className="text-lg font-semibold mb-4 flex items-center">
+              {result.eligible
+                ? <CheckCircle className="text-green-500 mr-3" size={20} />
+                : <XCircle className="text-red-500 mr-3" size={20} />}
+              {result.eligible ? 'You could borrow up to' : 'Not eligible yet'}
+            </h3>
+
+            {result.eligible && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                <div className="bg-gray-700 p-4 rounded-lg">
+                  <label className="text-sm text-gray-400 block mb-1">Maximum Amount</label>
+                  <p className="text-lg font-semibold text-blue-400">{formatAmount(result.maxAmount)}</p>
+                </div>
+                <div className="bg-gray-700 p-4 rounded-lg">
+                  <label className="text-sm text-gray-400 block mb-1">Interest Rate</label>
+                  <p className="text-lg font-semibold">{result.interestRate}%</p>
+                </div>
+                <div className="bg-gray-700 p-4 rounded-lg">
+                  <label className="text-sm text-gray-400 block mb-1">
+                    EMI ({result.termRange.min === result.termRange.max ? `${result.termRange.min} years` : `${result.termRange.max} - ${result.termRange.min} years`})
+                  </label>
+                  <p className="text-lg font-semibold">
+                    {result.emiRange.min === result.emiRange.max
+                      ? formatAmount(result.emi)
+                      : `${formatAmount(result.emiRange.min)} - ${formatAmount(result.emiRange.max)}`}
+                  </p>
+                </div>
+                <div className="bg-gray-700 p-4 rounded-lg">
+                  <label className="text-sm text-gray-400 block mb-1">Approval Likelihood</label>
+                  <p className={`text-lg font-semibold ${LIKELIHOOD_STYLES[result.likelihood].className}`}>
+                    {LIKELIHOOD_STYLES[result.likelihood].label}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {result.reasons.length > 0 && (
+              <div className="mb-4">
+                <label className="text-sm text-gray-400 block mb-2">{result.eligible ? 'Things to watch' : 'Why'}</label>
+                <ul className="space-y-1">
+                  {result.reasons.map(reason => (
+                    <li key={reason} className="text-sm text-gray-300 flex items-start">
+                      <AlertCircle className="text-yellow-500 mr-2 mt-0.5 flex-shrink-0" size={14} />
+                      {reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {result.conditions.length > 0 && (
+              <div className="mb-4">
+                <label className="text-sm text-gray-400 block mb-2">{result.eligible ? 'You may be asked to' : 'What can help'}</label>
+                <ul className="space-y-1">
+                  {result.conditions.map(condition => (
+                    <li key={condition} className="text-sm text-gray-300">• {condition}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500 mt-4">
+              An estimate from the {result.policy.id} lending policy (version {result.policy.version}). The final decision depends on your verified documents.
+            </p>
+
+            {result.eligible && (
+              <button
+                onClick={() => navigate('/chat')}
+                className="mt-4 px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium transition-colors"
+              >
+                Apply Now
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
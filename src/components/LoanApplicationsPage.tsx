@@ -1,12 +1,20 @@
 import { useState, useEffect } from 'react';
-import { ArrowLeft, Search, Filter, Eye, DollarSign, User, CheckCircle, Clock, XCircle, AlertCircle, Edit, FileText } from 'lucide-react';
+import { ArrowLeft, Search, Filter, Eye, DollarSign, User, CheckCircle, Clock, XCircle, AlertCircle, Edit, FileText, Banknote, Archive } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useUser } from '@clerk/clerk-react';
 import { db } from '../db';
-import type { LoanApplication } from '../dbOperations';
+import type { LoanApplication, LoanApplicationStatus } from '../dbOperations';
 import { updateLoanApplicationStatus } from '../dbOperations';
 import { toastService } from '../services/toastService';
 import loanApplicationService from '../services/loanApplicationService';
+import AmortizationSchedule from './AmortizationSchedule';
+import ApplicationCollateral from './ApplicationCollateral';
+import ApplicationDetails from './ApplicationDetails';
+import ApplicationParties from './ApplicationParties';
+import ApplicationTimeline from './ApplicationTimeline';
+import DocumentChecklist from './DocumentChecklist';
+import { LOAN_APPLICATION_STATUSES, STATUS_LABELS, canTransition } from '../../shared/loanStatus';
+import { DOCUMENT_UPLOAD_STATUSES } from '../../shared/documents';
 
 export default function LoanApplicationsPage() {
   const navigate = useNavigate();
@@ -37,44 +45,62 @@ export default function LoanApplicationsPage() {
       fetchApplications();
     };
 
+    // A status change made from chat or voice, e.g. a withdrawal
+    const handleLoanApplicationUpdated = () => {
+      console.log('📋 LoanApplicationsPage: Application updated - refreshing...');
+      fetchApplications();
+    };
+
     window.addEventListener('loanApplicationCreated', handleLoanApplicationCreated);
+    window.addEventListener('loanApplicationUpdated', handleLoanApplicationUpdated);
 
     return () => {
       window.removeEventListener('loanApplicationCreated', handleLoanApplicationCreated);
+      window.removeEventListener('loanApplicationUpdated', handleLoanApplicationUpdated);
     };
-  }, [user?.id]);  const getStatusIcon = (status: string) => {
+  }, [user?.id]);  const getStatusIcon = (status: LoanApplicationStatus) => {
     switch (status) {
       case 'approved':
         return <CheckCircle className="text-green-500" size={20} />;
-      case 'pending':
+      case 'conditionally_approved':
+        return <CheckCircle className="text-teal-500" size={20} />;
+      case 'submitted':
         return <Clock className="text-yellow-500" size={20} />;
       case 'rejected':
         return <XCircle className="text-red-500" size={20} />;
       case 'withdrawn':
         return <XCircle className="text-gray-500" size={20} />;
-      case 'under-review':
+      case 'under_review':
         return <AlertCircle className="text-blue-500" size={20} />;
-      case 'incomplete':
+      case 'draft':
         return <Edit className="text-orange-500" size={20} />;
+      case 'disbursed':
+        return <Banknote className="text-emerald-500" size={20} />;
+      case 'closed':
+        return <Archive className="text-gray-500" size={20} />;
       default:
         return <Clock className="text-gray-500" size={20} />;
     }
   };
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: LoanApplicationStatus) => {
     switch (status) {
       case 'approved':
         return 'text-green-400 bg-green-500/10 border-green-500/30';
-      case 'pending':
+      case 'conditionally_approved':
+        return 'text-teal-400 bg-teal-500/10 border-teal-500/30';
+      case 'submitted':
         return 'text-yellow-400 bg-yellow-500/10 border-yellow-500/30';
       case 'rejected':
         return 'text-red-400 bg-red-500/10 border-red-500/30';
       case 'withdrawn':
         return 'text-gray-400 bg-gray-500/10 border-gray-500/30';
-      case 'under-review':
+      case 'under_review':
         return 'text-blue-400 bg-blue-500/10 border-blue-500/30';
-      case 'incomplete':
+      case 'draft':
         return 'text-orange-400 bg-orange-500/10 border-orange-500/30';
+      case 'disbursed':
+        return 'text-emerald-400 bg-emerald-500/10 border-emerald-500/30';
       default:
         return 'text-gray-400 bg-gray-500/10 border-gray-500/30';
     }
@@ -83,7 +109,7 @@ export default function LoanApplicationsPage() {
   const isApplicationIncomplete = (application: LoanApplication) => {
     return !application.loan_purpose ||
            !application.employment_status ||
-           application.status === 'incomplete' ||
+           application.status === 'draft' ||
            parseFloat(application.loan_amount) <= 0;
   };  const handleContinueApplication = async (applicationId: string) => {
     try {
@@ -117,11 +143,12 @@ export default function LoanApplicationsPage() {
   const handleWithdrawApplication = async (applicationId: string) => {
     if (confirm('Are you sure you want to withdraw this loan application? This action cannot be undone.')) {
       try {
-        const success = await updateLoanApplicationStatus(applicationId, 'withdrawn');
+        const success = await updateLoanApplicationStatus(applicationId, 'withdrawn', 'Withdrawn by applicant');
         if (success) {
           // Refresh the applications list
           const result = await db.getLoanApplications(user!.id);
           setApplications(result);
+          setSelectedApplication(current => current && (result.find(app => app.id === current.id) ?? null));
           toastService.addToast('Application withdrawn successfully', 'success', 3000);
         } else {
           toastService.addToast('Failed to withdraw application. Please try again.', 'error', 4000);
@@ -244,10 +271,19 @@ export default function LoanApplicationsPage() {
                     Continue Application
                   </button>
                 )}
+                {canTransition(selectedApplication.status, 'withdrawn') && (
+                  <button
+                    onClick={() => handleWithdrawApplication(selectedApplication.id)}
+                    className="flex items-center px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-all duration-200"
+                  >
+                    <XCircle size={20} className="mr-2" />
+                    Withdraw
+                  </button>
+                )}
                 <div className={`px-4 py-2 rounded-lg text-sm font-medium border ${getStatusColor(selectedApplication.status)}`}>
                   <div className="flex items-center">
                     {getStatusIcon(selectedApplication.status)}
-                    <span className="ml-2 capitalize">{selectedApplication.status.replace('-', ' ')}</span>
+                    <span className="ml-2">{STATUS_LABELS[selectedApplication.status]}</span>
                   </div>
                 </div>
               </div>
@@ -305,7 +341,22 @@ export default function LoanApplicationsPage() {
                   <p className="text-lg font-semibold">{selectedApplication.employment_status || 'Not provided'}</p>
                 </div>
 
-                <div className="md:col-span-2">
+                <div>
+                  <label className="text-sm text-gray-400 block mb-1">Existing EMIs</label>
+                  <p className="text-lg font-semibold">{selectedApplication.existing_emis != null ? `${formatCurrency(selectedApplication.existing_emis)}/month` : 'Not provided'}</p>
+                </div>
+
+                <div>
+                  <label className="text-sm text-gray-400 block mb-1">Credit Card Dues</label>
+                  <p className="text-lg font-semibold">{selectedApplication.credit_card_dues != null ? formatCurrency(selectedApplication.credit_card_dues) : 'Not provided'}</p>
+                </div>
+
+                <div>
+                  <label className="text-sm text-gray-400 block mb-1">Dependents</label>
+                  <p className="text-lg font-semibold">{selectedApplication.dependents ?? 'Not provided'}</p>
+                </div>
+
+                <div>
                   <label className="text-sm text-gray-400 block mb-1">Application Date</label>
                   <p className="text-lg font-semibold">{formatDate(selectedApplication.application_date)}</p>
                 </div>
@@ -359,6 +410,23 @@ export default function LoanApplicationsPage() {
             </div>
           </div>
 
+          <ApplicationParties parties={selectedApplication.parties} applicantIncome={selectedApplication.monthly_income} />
+          <ApplicationDetails loanType={selectedApplication.loan_type} details={selectedApplication.product_details} />
+          <ApplicationCollateral collateral={selectedApplication.collateral} loanAmount={selectedApplication.loan_amount} />
+
+          <ApplicationTimeline
+            applicationId={selectedApplication.id}
+            applicantId={selectedApplication.user_id}
+            status={selectedApplication.status}
+          />
+
+          <DocumentChecklist
+            applicationId={selectedApplication.id}
+            status={selectedApplication.status}
+            canUpload={DOCUMENT_UPLOAD_STATUSES.includes(selectedApplication.status)}
+            canReview={false}
+          />
+
           {/* Loan Decision Analysis */}
           <div className="bg-gray-800 rounded-lg p-6 mb-6">
             <h3 className="text-lg font-semibold mb-4 flex items-center">
@@ -392,10 +460,13 @@ export default function LoanApplicationsPage() {
                     </div>
                     <p className={`text-sm mt-2 font-medium ${
                       analysis.decision === 'approved' ? 'text-green-400' :
-                      analysis.decision === 'under-review' ? 'text-yellow-400' : 'text-red-400'
+                      analysis.decision === 'incomplete' ? 'text-yellow-400' : 'text-red-400'
                     }`}>
                       Recommendation: {(analysis.decision || 'pending').toUpperCase()}
                     </p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      Policy: {analysis.policy.id} v{analysis.policy.version}
+                    </p>
                   </div>
 
                   {/* Approval Reasons */}
@@ -456,7 +527,7 @@ export default function LoanApplicationsPage() {
               })()}
             </div>
           </div>          {/* Approved Terms Section */}
-          {selectedApplication.status === 'approved' && (
+          {(selectedApplication.status === 'approved' || selectedApplication.status === 'disbursed') && (
             <div className="bg-green-900/20 border border-green-500/30 rounded-lg p-6">
               <h3 className="text-lg font-semibold text-green-400 mb-4 flex items-center">
                 <CheckCircle className="text-green-500 mr-3" size={20} />
@@ -474,6 +545,27 @@ export default function LoanApplicationsPage() {
               </div>
             </div>
           )}
+
+          {/* Repayment Schedule */}
+          {(() => {
+            const annualRate = parseFloat(String(selectedApplication.interest_rate ?? '').replace('%', ''));
+            const principal = parseFloat(selectedApplication.loan_amount);
+            if (!(annualRate > 0) || !(principal > 0) || !selectedApplication.loan_term || selectedApplication.loan_term <= 0) {
+              return null;
+            }
+            return (
+              <div className="mt-6">
+                <AmortizationSchedule
+                  principal={principal}
+                  annualRate={annualRate}
+                  termYears={selectedApplication.loan_term}
+                  startDate={selectedApplication.application_date}
+                  title={`${selectedApplication.loan_type} Loan - Repayment Schedule`}
+                  fileName={`repayment-schedule-${selectedApplication.id}`}
+                />
+              </div>
+            );
+          })()}
           </div>
         </div>
       </div>
@@ -523,12 +615,9 @@ export default function LoanApplicationsPage() {
               className="pl-10 pr-8 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:border-blue-500 focus:outline-none transition-colors appearance-none cursor-pointer"
             >
               <option value="all">All Status</option>
-              <option value="pending">Pending</option>
-              <option value="under-review">Under Review</option>
-              <option value="approved">Approved</option>
-              <option value="rejected">Rejected</option>
-              <option value="withdrawn">Withdrawn</option>
-              <option value="incomplete">Incomplete</option>
+              {LOAN_APPLICATION_STATUSES.map(status => (
+                <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+              ))}
             </select>
           </div>
         </div>
@@ -563,7 +652,7 @@ export default function LoanApplicationsPage() {
                     <td className="px-6 py-4">
                       <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(application.status)}`}>
                         {getStatusIcon(application.status)}
-                        <span className="ml-1 capitalize">{application.status.replace('-', ' ')}</span>
+                        <span className="ml-1">{STATUS_LABELS[application.status]}</span>
                       </div>
                     </td>
                     <td className="px-6 py-4">
@@ -600,7 +689,7 @@ export default function LoanApplicationsPage() {
                             Continue
                           </button>
                         )}
-                        {(application.status === 'pending' || application.status === 'under-review') && (
+                        {canTransition(application.status, 'withdrawn') && (
                           <button
                             onClick={() => handleWithdrawApplication(application.id)}
                             className="flex items-center px-3 py-1 bg-red-600 hover:bg-red-700 text-white text-sm rounded-md transition-colors"
@@ -0,0 +1,341 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Plus, Save, Tags } from 'lucide-react';
+import { productOperations } from '../dbOperations';
+import type { DocumentType, LoanProductInput } from '../dbOperations';
+import { ApiError } from '../services/apiClient';
+import { loadLoanProducts } from '../services/loanProducts';
+import { toastService } from '../services/toastService';
+import { policyRegistry } from '../services/underwritingPolicies';
+import { DOCUMENT_LABELS, DOCUMENT_TYPES } from '../../shared/documents';
+import { EXTRACTION_FIELD_LABELS, REQUIRED_FIELDS, type ExtractionField } from '../../shared/extraction';
+import { ALWAYS_REQUIRED_FIELDS, loanProductError } from '../../shared/loanProducts';
+
+const formatAmount = (value: number) => '₹' + Math.round(value).toLocaleString('en-IN');
+
+// Numbers are edited as text so a half-typed value doesn't jump about, and
+// the question graph as JSON
+interface ProductForm {
+  id: string;
+  name: string;
+  synonyms: string;
+  policy_id: string;
+  min_rate: string;
+  max_rate: string;
+  min_amount: string;
+  max_amount: string;
+  min_term_years: string;
+  max_term_years: string;
+  required_fields: ExtractionField[];
+  questions: string;
+  documents: DocumentType[];
+  active: boolean;
+  sort_order: string;
+}
+
+const NEW_PRODUCT: ProductForm = {
+  id: '',
+  name: '',
+  synonyms: '',
+  policy_id: '',
+  min_rate: '',
+  max_rate: '',
+  min_amount: '',
+  max_amount: '',
+  min_term_years: '1',
+  max_term_years: '5',
+  required_fields: [...REQUIRED_FIELDS],
+  questions: '[]',
+  documents: ['pan', 'aadhaar'],
+  active: true,
+  sort_order: '0',
+};
+
+const toForm = (product: LoanProductInput): ProductForm => ({
+  ...product,
+  synonyms: product.synonyms.join(', '),
+  policy_id: product.policy_id ?? '',
+  min_rate: String(product.min_rate),
+  max_rate: String(product.max_rate),
+  min_amount: String(product.min_amount),
+  max_amount: String(product.max_amount),
+  min_term_years: String(product.min_term_years),
+  max_term_years: String(product.max_term_years),
+  questions: JSON.stringify(product.questions, null, 2),
+  sort_order: String(product.sort_order),
+});
+
+// Throws when the questions aren't valid JSON
+const toProduct = (form: ProductForm): LoanProductInput => ({
+  ...form,
+  id: form.id.trim(),
+  name: form.name.trim(),
+  synonyms: form.synonyms.split(',').map(synonym => synonym.trim().toLowerCase()).filter(Boolean),
+  policy_id: form.policy_id || null,
+  min_rate: Number(form.min_rate),
+  max_rate: Number(form.max_rate),
+  min_amount: Number(form.min_amount),
+  max_amount: Number(form.max_amount),
+  min_term_years: Number(form.min_term_years),
+  max_term_years: Number(form.max_term_years),
+  questions: form.questions.trim() ? JSON.parse(form.questions) : [],
+  sort_order: Number(form.sort_order),
+});
+
+// Latest version of each policy, for the "priced by" picker
+const POLICIES = policyRegistry.list()
+  .filter((policy, index, all) => all.findIndex(other => other.id === policy.id) === index);
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(other => other !== value) : [...values, value];
+
+export default function LoanProductsPage() {
+  const navigate = useNavigate();
+  const [products, setProducts] = useState<LoanProductInput[]>([]);
+  const [form, setForm] = useState<ProductForm | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadLoanProducts().then(setProducts).catch(console.error);
+  }, []);
+
+  const edit = (product: LoanProductInput) => {
+    setForm(toForm(product));
+    setIsNew(false);
+  };
+
+  const create = () => {
+    setForm({ ...NEW_PRODUCT, sort_order: String(products.length + 1) });
+    setIsNew(true);
+  };
+
+  const update = (changes: Partial<ProductForm>) => setForm(current => (current ? { ...current, ...changes } : current));
+
+  const save = async () => {
+    if (!form) return;
+    let product: LoanProductInput;
+    try {
+      product = toProduct(form);
+    } catch {
+      toastService.addToast('The product questions are not valid JSON', 'error', 5000);
+      return;
+    }
+    const error = loanProductError(product, products);
+    if (error) {
+      toastService.addToast(error, 'error', 5000);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await productOperations.saveProduct(product);
+      setProducts(await loadLoanProducts());
+      setIsNew(false);
+      toastService.addToast(`${product.name} saved`, 'success', 3000);
+    } catch (saveError) {
+      const message = saveError instanceof ApiError && saveError.detail ? saveError.detail : 'Could not save the product';
+      toastService.addToast(message, 'error', 5000);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-blue-500 focus:outline-none';
+
+  const numberField = (label: string, key: keyof ProductForm) => (
+    <div>
+      <label className="text-sm text-gray-400 block mb-1">{label}</label>
+      <input
+        type="number"
+        value={form?.[key] as string}
+        onChange={(e) => update({ [key]: e.target.value })}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white overflow-y-auto">
+      <div className="max-w-6xl mx-auto p-6">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center">
+            <button
+              onClick={() => navigate(-1)}
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-all duration-200 mr-4"
+              title="Back"
+            >
+              <ArrowLeft size={24} />
+            </button>
+            <div>
+              <h1 className="text-3xl font-bold">Loan Products</h1>
+              <p className="text-gray-400 mt-1">What the assistant offers, and the limits it quotes within</p>
+            </div>
+          </div>
+          <button
+            onClick={create}
+            className="flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium transition-colors"
+          >
+            <Plus size={16} className="mr-2" />
+            New Product
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="bg-gray-800 rounded-lg p-4 space-y-2 h-fit">
+            {products.map(product => (
+              <button
+                key={product.id}
+                onClick={() => edit(product)}
+                className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                  form?.id === product.id && !isNew ? 'border-blue-500 bg-gray-700' : 'border-gray-700 hover:bg-gray-700/50'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{product.name}</span>
+                  {!product.active && <span className="text-xs text-gray-400">Inactive</span>}
+                </div>
+                <p className="text-xs text-gray-400 mt-1">
+                  {product.min_rate}%-{product.max_rate}% · {formatAmount(product.min_amount)} to {formatAmount(product.max_amount)} · {product.min_term_years}-{product.max_term_years} years
+                </p>
+              </button>
+            ))}
+            {products.length === 0 && <p className="text-gray-400 text-sm p-3">No products yet.</p>}
+          </div>
+
+          <div className="bg-gray-800 rounded-lg p-6 lg:col-span-2">
+            {!form ? (
+              <div className="text-center text-gray-400 py-12">
+                <Tags className="mx-auto mb-3" size={32} />
+                Pick a product to edit, or add a new one.
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-sm text-gray-400 block mb-1">ID</label>
+                    <input
+                      value={form.id}
+                      onChange={(e) => update({ id: e.target.value })}
+                      disabled={!isNew}
+                      placeholder="e.g. solar"
+                      className={`${inputClass} disabled:text-gray-500`}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm text-gray-400 block mb-1">Name</label>
+                    <input
+                      value={form.name}
+                      onChange={(e) => update({ name: e.target.value })}
+                      placeholder="e.g. Solar Loan"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="text-sm text-gray-400 block mb-1">Other names applicants use (comma-separated)</label>
+                    <input
+                      value={form.synonyms}
+                      onChange={(e) => update({ synonyms: e.target.value })}
+                      placeholder="e.g. rooftop solar loan, solar panel loan"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm text-gray-400 block mb-1">Priced by</label>
+                    <select value={form.policy_id} onChange={(e) => update({ policy_id: e.target.value })} className={inputClass}>
+                      <option value="">Policy matching the loan type</option>
+                      {POLICIES.map(policy => (
+                        <option key={policy.id} value={policy.id}>{policy.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    {numberField('Sort order', 'sort_order')}
+                    <label className="flex items-center text-sm text-gray-300 mt-6">
+                      <input
+                        type="checkbox"
+                        checked={form.active}
+                        onChange={(e) => update({ active: e.target.checked })}
+                        className="mr-2"
+                      />
+                      Offered
+                    </label>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  {numberField('Min rate (%)', 'min_rate')}
+                  {numberField('Min amount (₹)', 'min_amount')}
+                  {numberField('Min tenure (years)', 'min_term_years')}
+                  {numberField('Max rate (%)', 'max_rate')}
+                  {numberField('Max amount (₹)', 'max_amount')}
+                  {numberField('Max tenure (years)', 'max_term_years')}
+                </div>
+
+                <div>
+                  <h3 className="text-sm text-gray-400 mb-2">Questions the assistant asks</h3>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                    {REQUIRED_FIELDS.map(field => (
+                      <label key={field} className="flex items-center text-sm text-gray-300 capitalize">
+                        <input
+                          type="checkbox"
+                          checked={form.required_fields.includes(field)}
+                          disabled={ALWAYS_REQUIRED_FIELDS.includes(field)}
+                          onChange={() => update({ required_fields: toggle(form.required_fields, field) })}
+                          className="mr-2"
+                        />
+                        {EXTRACTION_FIELD_LABELS[field]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <h3 className="text-sm text-gray-400 mb-1">Product questions</h3>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Asked after the loan amount, in order. A question's <code>next</code> edges skip ahead or stop depending on the answers so far.
+                  </p>
+                  <textarea
+                    value={form.questions}
+                    onChange={(e) => update({ questions: e.target.value })}
+                    rows={8}
+                    spellCheck={false}
+                    className={`${inputClass} font-mono text-xs`}
+                  />
+                </div>
+
+                <div>
+                  <h3 className="text-sm text-gray-400 mb-2">Documents to upload</h3>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                    {DOCUMENT_TYPES.map(type => (
+                      <label key={type} className="flex items-center text-sm text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={form.documents.includes(type)}
+                          onChange={() => update({ documents: toggle(form.documents, type) })}
+                          className="mr-2"
+                        />
+                        {DOCUMENT_LABELS[type]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    onClick={save}
+                    disabled={saving}
+                    className="flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded-lg text-sm font-medium transition-colors"
+                  >
+                    <Save size={16} className="mr-2" />
+                    {saving ? 'Saving...' : 'Save Product'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
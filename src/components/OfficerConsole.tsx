@@ -0,0 +1,514 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useUser } from '@clerk/clerk-react';
+import { ArrowLeft, Briefcase, CheckCircle, Filter, HelpCircle, RefreshCw, UserCheck, XCircle } from 'lucide-react';
+import { officerOperations } from '../dbOperations';
+import type {
+  ApplicationQueueFilters,
+  LoanApplication,
+  LoanApplicationStatus,
+  Officer,
+  OfficerApplicationDetail
+} from '../dbOperations';
+import { ApiError } from '../services/apiClient';
+import ApplicationCollateral from './ApplicationCollateral';
+import ApplicationDetails from './ApplicationDetails';
+import ApplicationParties from './ApplicationParties';
+import DocumentChecklist from './DocumentChecklist';
+import { toastService } from '../services/toastService';
+import { can } from '../services/userRoles';
+import { APPLICANT_STATUSES, LOAN_APPLICATION_STATUSES, STATUS_LABELS, STATUS_TRANSITIONS } from '../../shared/loanStatus';
+
+const PAGE_SIZE = 25;
+
+// Decisions that must carry a note for the applicant
+const NOTE_REQUIRED: LoanApplicationStatus[] = ['rejected', 'conditionally_approved'];
+
+const DECISION_STYLES: Partial<Record<LoanApplicationStatus, string>> = {
+  under_review: 'bg-blue-600 hover:bg-blue-700',
+  conditionally_approved: 'bg-teal-600 hover:bg-teal-700',
+  approved: 'bg-green-600 hover:bg-green-700',
+  rejected: 'bg-red-600 hover:bg-red-700',
+  disbursed: 'bg-emerald-600 hover:bg-emerald-700',
+  closed: 'bg-gray-600 hover:bg-gray-500',
+};
+
+const formatCurrency = (amount: string | number) =>
+  '₹' + Math.round(typeof amount === 'string' ? parseFloat(amount) : amount).toLocaleString('en-IN');
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+interface QueueFilterState {
+  status: LoanApplicationStatus | '';
+  loan_type: string;
+  min_amount: string;
+  max_amount: string;
+  min_score: string;
+  max_score: string;
+  assigned: NonNullable<ApplicationQueueFilters['assigned']>;
+}
+
+const INITIAL_FILTERS: QueueFilterState = {
+  status: 'submitted',
+  loan_type: '',
+  min_amount: '',
+  max_amount: '',
+  min_score: '',
+  max_score: '',
+  assigned: 'any',
+};
+
+const toQueueFilters = (filters: QueueFilterState, offset: number): ApplicationQueueFilters => {
+  const number = (value: string) => (value.trim() === '' ? undefined : Number(value));
+  return {
+    status: filters.status || undefined,
+    loan_type: filters.loan_type.trim() || undefined,
+    min_amount: number(filters.min_amount),
+    max_amount: number(filters.max_amount),
+    min_score: number(filters.min_score),
+    max_score: number(filters.max_score),
+    assigned: filters.assigned,
+    limit: PAGE_SIZE,
+    offset,
+  };
+};
+
+export default function OfficerConsole() {
+  const navigate = useNavigate();
+  const { user } = useUser();
+  const [filters, setFilters] = useState<QueueFilterState>(INITIAL_FILTERS);
+  const [queue, setQueue] = useState<LoanApplication[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [officers, setOfficers] = useState<Officer[]>([]);
+  const [detail, setDetail] = useState<OfficerApplicationDetail | null>(null);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadQueue = useCallback(async (offset = 0) => {
+    setLoading(true);
+    const page = await officerOperations.getApplicationQueue(toQueueFilters(filters, offset));
+    setQueue(current => (offset === 0 ? page.applications : [...current, ...page.applications]));
+    setHasMore(page.hasMore);
+    setLoading(false);
+  }, [filters]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  useEffect(() => {
+    officerOperations.getOfficers().then(setOfficers);
+  }, []);
+
+  const officerName = (id: string | null) => {
+    if (!id) return 'Unassigned';
+    if (id === user?.id) return 'You';
+    return officers.find(officer => officer.id === id)?.name ?? 'Another officer';
+  };
+
+  const actorName = (actorId: string, application: LoanApplication) =>
+    actorId === application.user_id ? 'Applicant' : officerName(actorId);
+
+  const openApplication = async (id: string) => {
+    const result = await officerOperations.getApplicationDetail(id);
+    if (!result) {
+      toastService.addToast('Could not load the application', 'error', 4000);
+      return;
+    }
+    setDetail(result);
+    setNote('');
+  };
+
+  // Reload both the open application and the queue after an action
+  const refresh = async (id: string) => {
+    await Promise.all([openApplication(id), loadQueue()]);
+  };
+
+  const handleAssign = async (application: LoanApplication, officerId?: string | null) => {
+    const success = await officerOperations.assignApplication(application.id, officerId);
+    if (!success) {
+      toastService.addToast('Could not update the assignment', 'error', 4000);
+      return;
+    }
+    await refresh(application.id);
+  };
+
+  const handleDecision = async (application: LoanApplication, status: LoanApplicationStatus) => {
+    if (NOTE_REQUIRED.includes(status) && !note.trim()) {
+      toastService.addToast(`Add a note explaining the ${STATUS_LABELS[status].toLowerCase()} decision`, 'error', 4000);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await officerOperations.decideApplication(application.id, status, note.trim() || undefined);
+      toastService.addToast(`Application moved to ${STATUS_LABELS[status]}`, 'success', 3000);
+      await refresh(application.id);
+    } catch (error) {
+      console.error('❌ Error recording decision:', error);
+      const message = error instanceof ApiError && error.detail ? error.detail : 'Could not record the decision';
+      toastService.addToast(message, 'error', 5000);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRequestInfo = async (application: LoanApplication) => {
+    if (!note.trim()) {
+      toastService.addToast('Describe the information you need from the applicant', 'error', 4000);
+      return;
+    }
+
+    setSubmitting(true);
+    const success = await officerOperations.requestInformation(application.id, note.trim());
+    setSubmitting(false);
+
+    if (success) {
+      toastService.addToast('Information requested from the applicant', 'success', 3000);
+      await refresh(application.id);
+    } else {
+      toastService.addToast('Could not send the information request', 'error', 4000);
+    }
+  };
+
+  const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-blue-500 focus:outline-none';
+
+  if (detail) {
+    const { application, analysis, events } = detail;
+    const decisions = STATUS_TRANSITIONS[application.status].filter(status => !APPLICANT_STATUSES.includes(status));
+    const canRequestInfo = application.status === 'submitted' || application.status === 'under_review' || application.status === 'conditionally_approved';
+    // Auditors get a read-only view, and nobody reviews their own application
+    const readOnlyReason = !can(user, 'applications:review')
+      ? 'Your role has read-only access to applications.'
+      : application.user_id === user?.id
+        ? 'You cannot review your own application.'
+        : null;
+
+    return (
+      <div className="min-h-screen bg-gray-900 text-white overflow-y-auto">
+        <div className="max-w-6xl mx-auto p-6">
+          <div className="flex items-center justify-between mb-8">
+            <div className="flex items-center">
+              <button
+                onClick={() => setDetail(null)}
+                className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-all duration-200 mr-4"
+                title="Back to queue"
+              >
+                <ArrowLeft size={24} />
+              </button>
+              <div>
+                <h1 className="text-3xl font-bold">{application.applicant_name}</h1>
+                <p className="text-gray-400 mt-1">Application ID: {application.id}</p>
+              </div>
+            </div>
+            <span className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-600 bg-gray-800">
+              {STATUS_LABELS[application.status]}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+            <div className="bg-gray-800 rounded-lg p-6 space-y-3">
+              <h2 className="text-lg font-semibold mb-2">Application</h2>
+              <p><span className="text-gray-400 text-sm block">Loan</span>{application.loan_type} · {formatCurrency(application.loan_amount)}</p>
+              <p><span className="text-gray-400 text-sm block">Monthly income</span>{formatCurrency(application.monthly_income)}</p>
+              <p><span className="text-gray-400 text-sm block">Credit score</span>{application.credit_score ?? 'Not provided'}</p>
+              <p><span className="text-gray-400 text-sm block">Employment</span>{application.employment_status}</p>
+              <p><span className="text-gray-400 text-sm block">Existing EMIs</span>{application.existing_emis != null ? `${formatCurrency(application.existing_emis)}/month` : 'Not provided'}</p>
+              <p><span className="text-gray-400 text-sm block">Credit card dues</span>{application.credit_card_dues != null ? formatCurrency(application.credit_card_dues) : 'Not provided'}</p>
+              <p><span className="text-gray-400 text-sm block">Dependents</span>{application.dependents ?? 'Not provided'}</p>
+              <p><span className="text-gray-400 text-sm block">Purpose</span>{application.loan_purpose || 'Not provided'}</p>
+              <p><span className="text-gray-400 text-sm block">Submitted</span>{formatDate(application.application_date)}</p>
+            </div>
+
+            <div className="bg-gray-800 rounded-lg p-6 lg:col-span-2">
+              <h2 className="text-lg font-semibold mb-4">Decision Support</h2>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-gray-300">Approval Score</span>
+                <span className={`text-xl font-bold ${
+                  analysis.overallScore >= 75 ? 'text-green-400' :
+                  analysis.overallScore >= 55 ? 'text-yellow-400' : 'text-red-400'
+                }`}>
+                  {analysis.overallScore}/100
+                </span>
+              </div>
+              <p className="text-sm text-gray-300 mb-1">
+                Recommendation: <span className="font-medium">{analysis.decision.toUpperCase()}</span> ({analysis.confidence}% confidence)
+              </p>
+              <p className="text-sm text-gray-400 mb-1">{analysis.reason}</p>
+              <p className="text-xs text-gray-500 mb-4">
+                Policy {analysis.policy.id} v{analysis.policy.version} · Rate {analysis.quoted_rate}% · {analysis.loan_term} years
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                {[
+                  { title: 'Approval factors', items: analysis.approvalReasons, color: 'text-green-300' },
+                  { title: 'Risks', items: analysis.rejectionRisks, color: 'text-red-300' },
+                  { title: 'Failed rules', items: analysis.failedRules, color: 'text-red-300' },
+                  { title: 'Conditions', items: analysis.conditions, color: 'text-yellow-300' },
+                ].filter(section => section.items.length > 0).map(section => (
+                  <div key={section.title} className="bg-gray-700/50 rounded-lg p-3">
+                    <h3 className="text-gray-300 font-medium mb-1">{section.title}</h3>
+                    <ul className="space-y-1">
+                      {section.items.map((item, index) => (
+                        <li key={index} className={section.color}>• {item}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <ApplicationParties parties={application.parties} applicantIncome={application.monthly_income} />
+          <ApplicationDetails loanType={application.loan_type} details={application.product_details} />
+          <ApplicationCollateral collateral={application.collateral} loanAmount={application.loan_amount} />
+
+          <DocumentChecklist
+            applicationId={application.id}
+            status={application.status}
+            canUpload={false}
+            canReview={!readOnlyReason}
+          />
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-gray-800 rounded-lg p-6">
+              <h2 className="text-lg font-semibold mb-4">Review</h2>
+
+              {readOnlyReason ? (
+                <p className="text-sm text-gray-400">{readOnlyReason}</p>
+              ) : (
+                <>
+                  <label className="text-sm text-gray-400 block mb-1">Assigned officer</label>
+                  <div className="flex space-x-2 mb-4">
+                    <select
+                      value={application.assigned_officer_id ?? ''}
+                      onChange={(e) => handleAssign(application, e.target.value || null)}
+                      className={inputClass}
+                    >
+                      <option value="">Unassigned</option>
+                      {officers.map(officer => (
+                        <option key={officer.id} value={officer.id}>{officer.name}</option>
+                      ))}
+                    </select>
+                    {application.assigned_officer_id !== user?.id && (
+                      <button
+                        onClick={() => handleAssign(application)}
+                        className="flex items-center px-3 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm whitespace-nowrap transition-colors"
+                      >
+                        <UserCheck size={16} className="mr-1" />
+                        Assign to me
+                      </button>
+                    )}
+                  </div>
+
+                  <label className="text-sm text-gray-400 block mb-1">Notes for the decision</label>
+                  <textarea
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    rows={4}
+                    maxLength={1000}
+                    placeholder="Required when rejecting, conditionally approving or requesting information"
+                    className={`${inputClass} mb-4`}
+                  />
+
+                  <div className="flex flex-wrap gap-2">
+                    {decisions.map(status => (
+                      <button
+                        key={status}
+                        disabled={submitting}
+                        onClick={() => handleDecision(application, status)}
+                        className={`flex items-center px-4 py-2 rounded-lg text-sm transition-colors disabled:opacity-50 ${DECISION_STYLES[status] ?? 'bg-gray-600 hover:bg-gray-500'}`}
+                      >
+                        {status === 'rejected' ? <XCircle size={16} className="mr-1" /> : <CheckCircle size={16} className="mr-1" />}
+                        {status === 'under_review' ? 'Start Review' : STATUS_LABELS[status]}
+                      </button>
+                    ))}
+                    {canRequestInfo && (
+                      <button
+                        disabled={submitting}
+                        onClick={() => handleRequestInfo(application)}
+                        className="flex items-center px-4 py-2 rounded-lg text-sm bg-yellow-600 hover:bg-yellow-700 transition-colors disabled:opacity-50"
+                      >
+                        <HelpCircle size={16} className="mr-1" />
+                        Request Info
+                      </button>
+                    )}
+                    {decisions.length === 0 && !canRequestInfo && (
+                      <p className="text-sm text-gray-400">No further review actions for a {STATUS_LABELS[application.status].toLowerCase()} application.</p>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="bg-gray-800 rounded-lg p-6">
+              <h2 className="text-lg font-semibold mb-4">History</h2>
+              <ol className="space-y-3 max-h-96 overflow-y-auto">
+                {events.map(event => (
+                  <li key={event.id} className="border-l-2 border-blue-500 pl-3">
+                    <p className="text-sm font-medium">
+                      {event.event_type === 'info_requested'
+                        ? 'Information requested'
+                        : event.event_type === 'assigned'
+                          ? 'Assignment changed'
+                          : event.event_type === 'document_reviewed'
+                            ? 'Document reviewed'
+                            : event.from_status
+                              ? `${STATUS_LABELS[event.from_status]} → ${STATUS_LABELS[event.to_status]}`
+                              : `Created as ${STATUS_LABELS[event.to_status]}`}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {event.created_at.toLocaleString('en-IN')} · {actorName(event.actor_id, application)}
+                    </p>
+                    {event.reason && <p className="text-sm text-gray-300 mt-1">{event.reason}</p>}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white overflow-y-auto">
+      <div className="max-w-7xl mx-auto p-6">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center">
+            <button
+              onClick={() => navigate('/voice')}
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-all duration-200 mr-4"
+              title="Back to Dashboard"
+            >
+              <ArrowLeft size={24} />
+            </button>
+            <div>
+              <h1 className="text-3xl font-bold flex items-center">
+                <Briefcase className="text-blue-400 mr-3" size={28} />
+                Review Queue
+              </h1>
+              <p className="text-gray-400 mt-1">Applications awaiting an underwriting decision</p>
+            </div>
+          </div>
+          <button
+            onClick={() => loadQueue()}
+            className="flex items-center px-4 py-2 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg transition-colors"
+          >
+            <RefreshCw size={16} className={`mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3 mb-6">
+          <div className="relative">
+            <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={14} />
+            <select
+              value={filters.status}
+              onChange={(e) => setFilters({ ...filters, status: e.target.value as QueueFilterState['status'] })}
+              className={`${inputClass} pl-8`}
+            >
+              <option value="">All statuses</option>
+              {LOAN_APPLICATION_STATUSES.filter(status => status !== 'draft').map(status => (
+                <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+          <input
+            placeholder="Loan type"
+            value={filters.loan_type}
+            onChange={(e) => setFilters({ ...filters, loan_type: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            placeholder="Min amount"
+            value={filters.min_amount}
+            onChange={(e) => setFilters({ ...filters, min_amount: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            placeholder="Max amount"
+            value={filters.max_amount}
+            onChange={(e) => setFilters({ ...filters, max_amount: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            placeholder="Min score"
+            value={filters.min_score}
+            onChange={(e) => setFilters({ ...filters, min_score: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            placeholder="Max score"
+            value={filters.max_score}
+            onChange={(e) => setFilters({ ...filters, max_score: e.target.value })}
+            className={inputClass}
+          />
+          <select
+            value={filters.assigned}
+            onChange={(e) => setFilters({ ...filters, assigned: e.target.value as QueueFilterState['assigned'] })}
+            className={inputClass}
+          >
+            <option value="any">Anyone</option>
+            <option value="me">Assigned to me</option>
+            <option value="unassigned">Unassigned</option>
+          </select>
+        </div>
+
+        {/* Queue */}
+        <div className="bg-gray-800 rounded-lg overflow-hidden border border-gray-700">
+          <table className="w-full">
+            <thead className="bg-gray-700 border-b border-gray-600">
+              <tr className="text-left text-sm text-gray-300">
+                <th className="px-4 py-3 font-medium">Applicant</th>
+                <th className="px-4 py-3 font-medium">Loan Type</th>
+                <th className="px-4 py-3 font-medium">Amount</th>
+                <th className="px-4 py-3 font-medium">Score</th>
+                <th className="px-4 py-3 font-medium">Status</th>
+                <th className="px-4 py-3 font-medium">Assigned</th>
+                <th className="px-4 py-3 font-medium">Submitted</th>
+              </tr>
+            </thead>
+            <tbody>
+              {queue.map(application => (
+                <tr
+                  key={application.id}
+                  onClick={() => openApplication(application.id)}
+                  className="border-b border-gray-700 hover:bg-gray-700/50 cursor-pointer text-sm"
+                >
+                  <td className="px-4 py-3">{application.applicant_name}</td>
+                  <td className="px-4 py-3">{application.loan_type}</td>
+                  <td className="px-4 py-3">{formatCurrency(application.loan_amount)}</td>
+                  <td className="px-4 py-3">{application.credit_score ?? '-'}</td>
+                  <td className="px-4 py-3">{STATUS_LABELS[application.status]}</td>
+                  <td className="px-4 py-3 text-gray-300">{officerName(application.assigned_officer_id)}</td>
+                  <td className="px-4 py-3 text-gray-300">{formatDate(application.application_date)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {queue.length === 0 && !loading && (
+            <p className="text-center text-gray-400 py-12">No applications match these filters.</p>
+          )}
+        </div>
+
+        {hasMore && (
+          <button
+            onClick={() => loadQueue(queue.length)}
+            disabled={loading}
+            className="mt-4 w-full py-2 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-sm transition-colors disabled:opacity-50"
+          >
+            {loading ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,29 +8,42 @@ import {
   Clock,
   Trash2,
   Plus,
-  LogOut
+  LogOut,
+  Mic,
+  Pencil,
+  Archive,
+  ArchiveRestore,
+  Check,
+  X,
+  Briefcase,
+  Calculator,
+  Tags
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useUser, UserButton, useClerk } from '@clerk/clerk-react';
 import { useState, useEffect } from 'react';
-import { getRecentChats, deleteConversation, clearChatMessages } from '../dbOperations';
+import { getConversations, updateConversation, deleteConversation, clearChatMessages } from '../dbOperations';
+import type { Conversation } from '../dbOperations';
 import loanApplicationService from '../services/loanApplicationService';
+import { can } from '../services/userRoles';
 
 interface SidebarProps {
   isCollapsed: boolean;
   onToggle: () => void;
 }
 
+const PAGE_SIZE = 20;
+
 export default function Sidebar({ isCollapsed, onToggle }: SidebarProps) {
   const navigate = useNavigate();
   const { user, isLoaded } = useUser();
   const { signOut } = useClerk();
-  const [recentChats, setRecentChats] = useState<Array<{
-    id: string;
-    summary: string;
-    timestamp: Date;
-    messageCount: number;
-  }>>([]);
+  const [recentChats, setRecentChats] = useState<Conversation[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [pages, setPages] = useState(1);
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
 
   useEffect(() => {
     if (user?.id) {
@@ -58,19 +71,61 @@ export default function Sidebar({ isCollapsed, onToggle }: SidebarProps) {
         window.removeEventListener('loanApplicationCreated', handleLoanApplicationCreated);
       };
     }
-  }, [user?.id]);
+  }, [user?.id, showArchived, pages]);
 
   const loadRecentChats = async () => {
     if (!user?.id) return;
 
     try {
-      const chats = await getRecentChats(user.id);
-      setRecentChats(chats);
+      // Reload every page shown so far so the periodic refresh keeps the list stable
+      const page = await getConversations(user.id, { archived: showArchived, limit: PAGE_SIZE * pages });
+      setRecentChats(page.conversations);
+      setHasMore(page.hasMore);
     } catch (error) {
       console.error('Error loading recent chats:', error);
     }
   };
 
+  const handleToggleArchived = () => {
+    setShowArchived(!showArchived);
+    setPages(1);
+    setEditingId(null);
+  };
+
+  const handleStartRename = (chat: Conversation, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setEditingId(chat.id);
+    setEditTitle(chat.title || '');
+  };
+
+  const handleRename = async (conversationId: string) => {
+    if (!user?.id) return;
+
+    const title = editTitle.trim();
+    setEditingId(null);
+    if (!title) return;
+
+    console.log('✏️ Sidebar: Renaming conversation:', conversationId);
+    const updated = await updateConversation(user.id, conversationId, { title });
+    if (updated) {
+      setRecentChats(chats => chats.map(chat => chat.id === conversationId ? updated : chat));
+    }
+  };
+
+  const handleArchiveConversation = async (chat: Conversation, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!user?.id) return;
+
+    console.log(chat.archived ? '📤 Sidebar: Restoring conversation:' : '📥 Sidebar: Archiving conversation:', chat.id);
+    const updated = await updateConversation(user.id, chat.id, { archived: !chat.archived });
+    if (updated) {
+      await loadRecentChats();
+    }
+  };
+
   const handleDeleteConversation = async (conversationId: string, e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -113,8 +168,8 @@ export default function Sidebar({ isCollapsed, onToggle }: SidebarProps) {
     }
   };
 
-  const handleConversationClick = (conversationId: string) => {
-    navigate('/chat', { state: { conversationId } });
+  const handleConversationClick = (chat: Conversation) => {
+    navigate(chat.mode === 'voice' ? '/voice' : '/chat', { state: { conversationId: chat.id } });
   };
 
   const handleNewConversation = () => {
@@ -241,60 +296,137 @@ export default function Sidebar({ isCollapsed, onToggle }: SidebarProps) {
                 {!isCollapsed && (
                   <>
                     <div className="flex items-center justify-between mb-3">
-                      <h3 className="text-sm font-semibold text-gray-300">Recent Chats</h3>
-                      {recentChats.length > 0 && (
+                      <h3 className="text-sm font-semibold text-gray-300">
+                        {showArchived ? 'Archived Chats' : 'Recent Chats'}
+                      </h3>
+                      <div className="flex items-center space-x-1">
                         <button
-                          onClick={handleClearAllChats}
-                          className="p-1 rounded hover:bg-red-500/20 border border-transparent hover:border-red-400/30 transition-all duration-200 group"
-                          title="Clear all chats"
+                          onClick={handleToggleArchived}
+                          className="p-1 rounded hover:bg-gray-700/50 border border-transparent hover:border-gray-600/50 transition-all duration-200 group"
+                          title={showArchived ? 'Show recent chats' : 'Show archived chats'}
                         >
-                          <Trash2 size={12} className="text-gray-400 group-hover:text-red-400" />
+                          {showArchived
+                            ? <MessageSquare size={12} className="text-gray-400 group-hover:text-gray-200" />
+                            : <Archive size={12} className="text-gray-400 group-hover:text-gray-200" />}
                         </button>
-                      )}
+                        {recentChats.length > 0 && !showArchived && (
+                          <button
+                            onClick={handleClearAllChats}
+                            className="p-1 rounded hover:bg-red-500/20 border border-transparent hover:border-red-400/30 transition-all duration-200 group"
+                            title="Clear all chats"
+                          >
+                            <Trash2 size={12} className="text-gray-400 group-hover:text-red-400" />
+                          </button>
+                        )}
+                      </div>
                     </div>
 
                     {/* Chat List with borders (outline) and proper scrolling */}
                     <div className="flex-1 overflow-y-auto space-y-2 custom-scrollbar-thin">
                       {recentChats.map((chat) => (
                         <div key={chat.id} className="group relative">
+                          {editingId === chat.id ? (
+                            <div className="w-full p-2 rounded-lg bg-gray-800/60 border border-blue-500/50 flex items-center space-x-1">
+                              <input
+                                autoFocus
+                                value={editTitle}
+                                onChange={(e) => setEditTitle(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') handleRename(chat.id);
+                                  if (e.key === 'Escape') setEditingId(null);
+                                }}
+                                maxLength={255}
+                                className="min-w-0 flex-1 bg-transparent text-sm text-gray-200 outline-none"
+                              />
+                              <button
+                                onClick={() => handleRename(chat.id)}
+                                className="p-1 rounded hover:bg-green-500/20"
+                                title="Save title"
+                              >
+                                <Check size={10} className="text-green-400" />
+                              </button>
+                              <button
+                                onClick={() => setEditingId(null)}
+                                className="p-1 rounded hover:bg-gray-600/50"
+                                title="Cancel"
+                              >
+                                <X size={10} className="text-gray-400" />
+                              </button>
+                            </div>
+                          ) : (
                           <button
-                            onClick={() => handleConversationClick(chat.id)}
+                            onClick={() => handleConversationClick(chat)}
                             className="w-full p-3 rounded-lg bg-gray-800/40 hover:bg-gray-700/50
                                      border border-gray-700/60 hover:border-gray-600/70
                                      transition-all duration-200 text-left group"
                           >
                             <div className="flex items-center justify-between min-w-0">
                               <div className="flex items-center min-w-0 space-x-3">
-                                <div className="flex-shrink-0 w-2 h-2 rounded-full bg-green-400"></div>
+                                {chat.mode === 'voice'
+                                  ? <Mic size={10} className="flex-shrink-0 text-purple-400" />
+                                  : <div className="flex-shrink-0 w-2 h-2 rounded-full bg-green-400"></div>}
                                 <div className="min-w-0 flex-1">
                                   <div className="text-sm font-medium text-gray-200 truncate">
-                                    {chat.summary}
+                                    {chat.title || 'New conversation'}
                                   </div>
                                   <div className="flex items-center space-x-2 text-xs text-gray-400 mt-1">
                                     <Clock size={10} />
-                                    <span>{formatTimestamp(chat.timestamp)}</span>
+                                    <span>{formatTimestamp(chat.last_activity_at)}</span>
                                     <span>•</span>
-                                    <span>{chat.messageCount} msgs</span>
+                                    <span>{chat.message_count} msgs</span>
+                                    {chat.loan_application_id && (
+                                      <span title="Linked loan application">
+                                        <FileText size={10} className="text-blue-400" />
+                                      </span>
+                                    )}
                                   </div>
                                 </div>
                               </div>
 
-                              <button
-                                onClick={(e) => handleDeleteConversation(chat.id, e)}
-                                className="opacity-0 group-hover:opacity-100 p-1 rounded hover:bg-red-500/20 border border-transparent hover:border-red-400/30 transition-all duration-200"
-                                title="Delete conversation"
-                              >
-                                <Trash2 size={10} className="text-gray-400 hover:text-red-400" />
-                              </button>
+                              <div className="flex flex-col opacity-0 group-hover:opacity-100 transition-all duration-200">
+                                <button
+                                  onClick={(e) => handleStartRename(chat, e)}
+                                  className="p-1 rounded hover:bg-gray-600/50 border border-transparent"
+                                  title="Rename conversation"
+                                >
+                                  <Pencil size={10} className="text-gray-400 hover:text-gray-200" />
+                                </button>
+                                <button
+                                  onClick={(e) => handleArchiveConversation(chat, e)}
+                                  className="p-1 rounded hover:bg-gray-600/50 border border-transparent"
+                                  title={chat.archived ? 'Restore conversation' : 'Archive conversation'}
+                                >
+                                  {chat.archived
+                                    ? <ArchiveRestore size={10} className="text-gray-400 hover:text-gray-200" />
+                                    : <Archive size={10} className="text-gray-400 hover:text-gray-200" />}
+                                </button>
+                                <button
+                                  onClick={(e) => handleDeleteConversation(chat.id, e)}
+                                  className="p-1 rounded hover:bg-red-500/20 border border-transparent hover:border-red-400/30"
+                                  title="Delete conversation"
+                                >
+                                  <Trash2 size={10} className="text-gray-400 hover:text-red-400" />
+                                </button>
+                              </div>
                             </div>
                           </button>
+                          )}
                         </div>
                       ))}
 
+                      {hasMore && (
+                        <button
+                          onClick={() => setPages(pages + 1)}
+                          className="w-full py-2 text-xs text-gray-400 hover:text-gray-200 transition-colors duration-200"
+                        >
+                          Load more
+                        </button>
+                      )}
+
                       {recentChats.length === 0 && (
                         <div className="text-center py-6 text-gray-500">
                           <MessageSquare size={20} className="mx-auto mb-2 opacity-50" />
-                          <p className="text-xs">No recent chats</p>
+                          <p className="text-xs">{showArchived ? 'No archived chats' : 'No recent chats'}</p>
                         </div>
                       )}
                     </div>
@@ -326,6 +458,70 @@ export default function Sidebar({ isCollapsed, onToggle }: SidebarProps) {
               </span>
             </button>
 
+            {/* Eligibility Button */}
+            <button
+              onClick={() => navigate('/eligibility')}
+              className={`
+                w-full p-2 rounded-lg bg-gray-800/50 hover:bg-gray-700/50
+                border border-gray-600/30 hover:border-gray-500/50
+                flex items-center transition-all duration-300 group
+                ${isCollapsed ? 'justify-center' : 'justify-start'}
+              `}
+              title={isCollapsed ? "Check Eligibility" : ""}
+            >
+              <Calculator size={16} className="text-green-400 group-hover:text-green-300" />
+              <span className={`
+                ml-2 font-medium text-gray-200 whitespace-nowrap transition-all duration-300 text-sm
+                ${isCollapsed ? 'opacity-0 scale-95 -translate-x-4' : 'opacity-100 scale-100 translate-x-0'}
+              `}>
+                Check Eligibility
+              </span>
+            </button>
+
+            {/* Review Queue Button - officers, admins and auditors */}
+            {can(user, 'applications:read:any') && (
+              <button
+                onClick={() => navigate('/officer')}
+                className={`
+                  w-full p-2 rounded-lg bg-gray-800/50 hover:bg-gray-700/50
+                  border border-gray-600/30 hover:border-gray-500/50
+                  flex items-center transition-all duration-300 group
+                  ${isCollapsed ? 'justify-center' : 'justify-start'}
+                `}
+                title={isCollapsed ? "Review Queue" : ""}
+              >
+                <Briefcase size={16} className="text-purple-400 group-hover:text-purple-300" />
+                <span className={`
+                  ml-2 font-medium text-gray-200 whitespace-nowrap transition-all duration-300 text-sm
+                  ${isCollapsed ? 'opacity-0 scale-95 -translate-x-4' : 'opacity-100 scale-100 translate-x-0'}
+                `}>
+                  Review Queue
+                </span>
+              </button>
+            )}
+
+            {/* Loan Products Button - admins */}
+            {can(user, 'products:manage') && (
+              <button
+                onClick={() => navigate('/products')}
+                className={`
+                  w-full p-2 rounded-lg bg-gray-800/50 hover:bg-gray-700/50
+                  border border-gray-600/30 hover:border-gray-500/50
+                  flex items-center transition-all duration-300 group
+                  ${isCollapsed ? 'justify-center' : 'justify-start'}
+                `}
+                title={isCollapsed ? "Loan Products" : ""}
+              >
+                <Tags size={16} className="text-amber-400 group-hover:text-amber-300" />
+                <span className={`
+                  ml-2 font-medium text-gray-200 whitespace-nowrap transition-all duration-300 text-sm
+                  ${isCollapsed ? 'opacity-0 scale-95 -translate-x-4' : 'opacity-100 scale-100 translate-x-0'}
+                `}>
+                  Loan Products
+                </span>
+              </button>
+            )}
+
             {/* Sign Out Button */}
             <button
               onClick={() => signOut()}
@@ -1,12 +1,19 @@
 import { useState, useEffect, forwardRef, useImperativeHandle, useRef } from 'react';
-import { Mic, MessageSquare, Square, Edit3, Check, X } from 'lucide-react';
+import { Mic, MessageSquare, Square } from 'lucide-react';
 import { useUser } from '@clerk/clerk-react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { getConversationMessages, addChatMessage, clearChatMessages } from '../dbOperations';
 import { speechService } from '../services/speechService';
 import loanApplicationService from '../services/loanApplicationService';
+import assistantRouter from '../services/assistantRouter';
 import ConversationalAI from '../services/conversationalAI';
+import { loanProductCatalog } from '../services/loanProducts';
+import { parseAmount, toMonthly } from '../../shared/indianNumbers';
+import type { ExtractionField } from '../../shared/extraction';
+import type { CalculatedLoanTerms, LoanApplicationData } from '../../shared/types';
+import type { LoanOffer } from '../../shared/underwriting/offers';
 import ReactMarkdown from 'react-markdown';
+import EditableField from './EditableField';
 
 interface Message {
   id: string;
@@ -18,6 +25,14 @@ interface Message {
   conversation_id: string;
 }
 
+// What the application slate shows: the answers so far and the terms quoted for them
+type SlateData = LoanApplicationData & { calculatedTerms?: CalculatedLoanTerms };
+
+// One of the flow's answers onto the slate
+const copyField = <K extends keyof LoanApplicationData>(target: SlateData, source: LoanApplicationData, key: K) => {
+  target[key] = source[key];
+};
+
 interface VoiceModeRef {
   clearConversation: () => void;
   getMessages: () => any[];
@@ -34,12 +49,13 @@ const VoiceMode = forwardRef<VoiceModeRef>((_, ref) => {
   const [currentTranscript, setCurrentTranscript] = useState('');
   const [currentConversationId, setCurrentConversationId] = useState<string>('');
   const [selectedVoice, setSelectedVoice] = useState<SpeechSynthesisVoice | null>(null);
-  const [currentLoanData, setCurrentLoanData] = useState<any>({});
+  const [currentLoanData, setCurrentLoanData] = useState<SlateData>({});
   const [submittedApplicationId, setSubmittedApplicationId] = useState<string | null>(null);
 
   // Editing states
   const [editingField, setEditingField] = useState<string | null>(null);
   const [editValue, setEditValue] = useState<string>('');
+  const [editError, setEditError] = useState<string | null>(null);
   const [manuallyEditedFields, setManuallyEditedFields] = useState<Set<string>>(new Set());
 
   // Refs for auto-scrolling
@@ -375,7 +391,7 @@ const VoiceMode = forwardRef<VoiceModeRef>((_, ref) => {
         type: message.type,
         user_id: user.id,
         conversation_id: message.conversation_id
-      });
+      }, 'voice');
       console.log('✅ VoiceMode: Message saved successfully');
 
       // Dispatch event to notify sidebar of new message/conversation
@@ -393,22 +409,24 @@ const VoiceMode = forwardRef<VoiceModeRef>((_, ref) => {
         return "Please log in to continue.";
       }
 
-      // Check if this is loan application related and process with service
-      const loanResult = await loanApplicationService.processUserInput(
+      // Routed to the loan flow, a status lookup, the EMI calculator or a general answer
+      const loanResult = await assistantRouter.handleMessage(
         conversationId,
         userText,
-        user.id
+        user.id,
+        'voice'
       );
+      const flow = loanResult.flow;
 
       // Update current loan data for display - but preserve existing edits
-      if (loanResult.flow && loanResult.flow.data) {
+      if (flow && flow.data) {
         // Smart merge: only update fields that have new values and don't overwrite manual edits
-        setCurrentLoanData((prevData: any) => {
+        setCurrentLoanData(prevData => {
           const newData = { ...prevData };
 
           // Only update fields that have new non-empty values AND haven't been manually edited
-          Object.keys(loanResult.flow.data).forEach(key => {
-            const newValue = loanResult.flow.data[key];
+          (Object.keys(flow.data) as (keyof LoanApplicationData)[]).forEach(key => {
+            const newValue = flow.data[key];
             const existingValue = prevData[key];
 
             // Skip if this field has been manually edited
@@ -421,101 +439,65 @@ const VoiceMode = forwardRef<VoiceModeRef>((_, ref) => {
             // 1. There's no existing value, OR
             // 2. The new value is different and not empty/null
             if (!existingValue || (newValue && newValue !== existingValue)) {
-              newData[key] = newValue;
+              copyField(newData, flow.data, key);
             }
           });
 
+          // A correction or undo in the conversation wins over local edits, and
+          // may have cleared a field
+          loanResult.revisedFields?.forEach(field => copyField(newData, flow.data, field));
+
           // Also merge calculated terms if available
-          if (loanResult.flow.calculatedTerms) {
-            newData.calculatedTerms = loanResult.flow.calculatedTerms;
+          if (flow.calculatedTerms) {
+            newData.calculatedTerms = flow.calculatedTerms;
           }
 
           console.log('🔄 Smart merging loan data:', {
             previous: prevData,
-            fromFlow: loanResult.flow.data,
-            calculatedTerms: loanResult.flow.calculatedTerms,
+            fromFlow: flow.data,
+            calculatedTerms: flow.calculatedTerms,
             merged: newData
           });
           return newData;
         });
       }
 
-      // If loan service handled it, return its response
-      if (loanResult.response !== "general_response") {
-        // Dispatch event to update sidebar if application was created
-        if (loanResult.shouldCreateApplication) {
-          window.dispatchEvent(new CustomEvent('loanApplicationCreated'));
-
-          // Show the application ID if available
-          if (loanResult.flow && loanResult.flow.applicationId) {
-            console.log('🎤 Application created with ID:', loanResult.flow.applicationId);
-            setSubmittedApplicationId(loanResult.flow.applicationId);
-
-            // Clear the current loan data after a delay to show the success state
-            setTimeout(() => {
-              // Only clear if we're not currently editing fields
-              if (!editingField) {
-                setCurrentLoanData({});
-                setManuallyEditedFields(new Set());
-                setSubmittedApplicationId(null);
-              }
-            }, 5000); // Show success for 5 seconds
-          }
-
-          // Stop voice mode after successful loan application submission
-          console.log('🎤 Stopping voice mode after successful loan application submission');
-          speechService.setContinuousMode(false);
-          stopAllSpeechServices();
-        }
-
-        return loanResult.response;
+      if (loanResult.revisedFields?.length) {
+        setManuallyEditedFields(prev => new Set([...prev].filter(field => !loanResult.revisedFields!.includes(field as ExtractionField))));
       }
 
-      // Otherwise, use general AI response
-      const groqApiKey = import.meta.env.VITE_GROQ_API_KEY;
-      console.log('Groq API Key check:', groqApiKey ? 'Present' : 'Missing');
+      // Dispatch event to update sidebar if application was created
+      if (loanResult.shouldCreateApplication) {
+        window.dispatchEvent(new CustomEvent('loanApplicationCreated'));
+
+        // Show the application ID if available
+        if (flow && flow.applicationId) {
+          console.log('🎤 Application created with ID:', flow.applicationId);
+          setSubmittedApplicationId(flow.applicationId);
+
+          // Clear the current loan data after a delay to show the success state
+          setTimeout(() => {
+            // Only clear if we're not currently editing fields
+            if (!editingField) {
+              setCurrentLoanData({});
+              setManuallyEditedFields(new Set());
+              setSubmittedApplicationId(null);
+            }
+          }, 5000); // Show success for 5 seconds
+        }
 
-      if (!groqApiKey) {
-        throw new Error('Groq API key not configured');
+        // Stop voice mode after successful loan application submission
+        console.log('🎤 Stopping voice mode after successful loan application submission');
+        speechService.setContinuousMode(false);
+        stopAllSpeechServices();
       }
-
-      const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${groqApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'llama3-8b-8192',
-          messages: [
-            {
-              role: 'system',
-              content: `You are LoanWise AI, a helpful financial assistant for India. Keep responses VERY SHORT (1-2 sentences max) and conversational. Be friendly and natural.
-
-              If someone asks about loans, say: "I'd be happy to help you apply for a loan! What type of loan are you looking for - personal, home, or vehicle?"
-
-              For other topics, provide brief helpful responses relevant to Indian financial context. Always keep it short and friendly.`
-            },
-            {
-              role: 'user',
-              content: userText
-            }
-          ],
-          max_tokens: 80,
-          temperature: 0.7,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Groq API error details:', errorText);
-        throw new Error(`Groq API error: ${response.status} - ${errorText}`);
+      if (loanResult.shouldUpdateApplication) {
+        window.dispatchEvent(new CustomEvent('loanApplicationUpdated'));
       }
 
-      const data = await response.json();
-      return data.choices[0]?.message?.content || null;
+      return loanResult.response;
     } catch (error) {
-      console.error('Groq API error:', error);
+      console.error('LLM request error:', error);
       return null;
     }
   };
@@ -600,11 +582,13 @@ const VoiceMode = forwardRef<VoiceModeRef>((_, ref) => {
   const startEditing = (field: string, currentValue: string) => {
     setEditingField(field);
     setEditValue(currentValue);
+    setEditError(null);
   };
 
   const cancelEditing = () => {
     setEditingField(null);
     setEditValue('');
+    setEditError(null);
   };
 
   const saveEdit = async () => {
@@ -613,34 +597,47 @@ const VoiceMode = forwardRef<VoiceModeRef>((_, ref) => {
       return;
     }
 
+    // Amounts may be typed as "5 lakhs" or "₹5,00,000"; store plain rupees
+    const amount = editingField === 'loan_amount' || editingField === 'monthly_income' ? parseAmount(editValue) : null;
+    const value = amount
+      ? String(editingField === 'monthly_income' ? toMonthly(amount) : amount.amount)
+      : editValue.trim();
+
+    // Checked like a spoken answer; the field stays open until it passes
+    const error = loanProductCatalog.fieldError(editingField as ExtractionField, value, currentLoanData);
+    if (error) {
+      console.log('❌ Save edit failed:', error);
+      setEditError(error);
+      return;
+    }
+
+    // Checked as typed; stored as the number it is
+    const saved = editingField === 'credit_score' ? Number(value) : value;
+
     try {
-      console.log('💾 Saving edit:', { field: editingField, value: editValue.trim() });
+      console.log('💾 Saving edit:', { field: editingField, value: saved });
+
+      // Update the loan application flow if it exists; the service records the
+      // edit so it can be undone and marks the field as manually edited
+      const currentFlow = loanApplicationService.editField(currentConversationId, editingField as ExtractionField, saved);
+      if (currentFlow) {
+        console.log('💾 Updated flow data:', currentFlow.data);
+      }
 
       // Update the current loan data immediately
-      const updatedData = { ...currentLoanData, [editingField]: editValue.trim() };
+      const updatedData = { ...currentLoanData, [editingField]: saved, revisions: currentFlow?.data.revisions };
       setCurrentLoanData(updatedData);
 
       // Mark this field as manually edited
       setManuallyEditedFields(prev => new Set([...prev, editingField]));
       console.log('🔒 Marked field as manually edited:', editingField);
 
-      // Update the loan application flow if it exists
-      const currentFlow = loanApplicationService.getCurrentFlow(currentConversationId);
-      if (currentFlow) {
-        currentFlow.data = { ...currentFlow.data, [editingField]: editValue.trim() };
-        console.log('💾 Updated flow data:', currentFlow.data);
-
-        // Mark this field as manually edited in the service
-        loanApplicationService.markFieldAsManuallyEdited(currentConversationId, editingField);
-
-        // The flow is stored by reference in the service, so this update persists automatically
-      }
-
-      console.log('✅ Edit saved successfully:', { field: editingField, value: editValue.trim() });
+      console.log('✅ Edit saved successfully:', { field: editingField, value: saved });
 
       // Clear editing state immediately after successful local update
       setEditingField(null);
       setEditValue('');
+      setEditError(null);
 
       // NO AI CALL - just update local state to prevent overwriting
       // The data is already updated in both local state and flow
@@ -651,6 +648,51 @@ const VoiceMode = forwardRef<VoiceModeRef>((_, ref) => {
     }
   };
 
+  // Roll a field back to its value before the latest change
+  const undoFieldChange = (field: ExtractionField) => {
+    const result = loanApplicationService.undoField(currentConversationId, field);
+    if (!result) return;
+
+    setCurrentLoanData(prevData => ({
+      ...prevData,
+      [field]: result.flow.data[field],
+      revisions: result.flow.data.revisions
+    }));
+    if (!result.flow.manuallyEditedFields?.has(field)) {
+      setManuallyEditedFields(prev => new Set([...prev].filter(edited => edited !== field)));
+    }
+  };
+
+  const canUndo = (field: ExtractionField) => !!currentLoanData.revisions?.[field]?.length;
+
+  // The fields the application slate shows, in order, once they have a value
+  const editableFields: { field: ExtractionField; label: string; placeholder?: string; format?: (value: string) => string }[] = [
+    { field: 'applicant_name', label: 'Name' },
+    {
+      field: 'loan_type',
+      label: 'Loan Type',
+      placeholder: `e.g., ${loanProductCatalog.active().map(product => product.name).join(', ')}`
+    },
+    {
+      field: 'loan_amount',
+      label: 'Amount',
+      placeholder: 'e.g., 500000, 5 lakhs',
+      format: value => `₹${parseFloat(value).toLocaleString()}`
+    },
+    {
+      field: 'monthly_income',
+      label: 'Monthly Income',
+      placeholder: 'e.g., 50000, 50k',
+      format: value => `₹${parseFloat(value).toLocaleString()}/month`
+    },
+    {
+      field: 'employment_status',
+      label: 'Employment',
+      placeholder: 'e.g., Employed, Self-Employed, Business Owner, Student, Retired'
+    },
+    { field: 'credit_score', label: 'Credit Score', placeholder: 'e.g., 750' }
+  ];
+
   useImperativeHandle(ref, () => ({
     clearConversation,
     getMessages: () => {
@@ -988,239 +1030,26 @@ const VoiceMode = forwardRef<VoiceModeRef>((_, ref) => {
                   </div>
                 )}
 
-                  {currentLoanData.applicant_name && (
-                    <div className="bg-gray-800/40 backdrop-blur-xl border border-blue-400/20 rounded-xl p-4">
-                      <div className="flex items-center justify-between mb-2">
-                        <span className="text-blue-300 text-sm font-medium">Name</span>
-                        {editingField === 'applicant_name' ? (
-                          <div className="flex items-center space-x-2">
-                            <button
-                              onClick={saveEdit}
-                              className="p-1 text-green-400 hover:text-green-300 transition-colors"
-                            >
-                              <Check size={16} />
-                            </button>
-                            <button
-                              onClick={cancelEditing}
-                              className="p-1 text-red-400 hover:text-red-300 transition-colors"
-                            >
-                              <X size={16} />
-                            </button>
-                          </div>
-                        ) : (
-                          <button
-                            onClick={() => startEditing('applicant_name', currentLoanData.applicant_name)}
-                            className="p-1 text-blue-400 hover:text-blue-300 transition-colors"
-                          >
-                            <Edit3 size={16} />
-                          </button>
-                        )}
-                      </div>
-                      {editingField === 'applicant_name' ? (
-                        <input
-                          type="text"
-                          value={editValue}
-                          onChange={(e) => setEditValue(e.target.value)}
-                          className="w-full bg-gray-700/50 border border-blue-400/30 rounded-lg px-3 py-2 text-white/95 text-sm focus:outline-none focus:border-blue-400"
-                          autoFocus
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') saveEdit();
-                            if (e.key === 'Escape') cancelEditing();
-                          }}
-                        />
-                      ) : (
-                        <span className="text-white/95 text-sm">{currentLoanData.applicant_name}</span>
-                      )}
-                    </div>
-                  )}
-
-                  {currentLoanData.loan_type && (
-                    <div className="bg-gray-800/40 backdrop-blur-xl border border-blue-400/20 rounded-xl p-4">
-                      <div className="flex items-center justify-between mb-2">
-                        <span className="text-blue-300 text-sm font-medium">Loan Type</span>
-                        {editingField === 'loan_type' ? (
-                          <div className="flex items-center space-x-2">
-                            <button
-                              onClick={saveEdit}
-                              className="p-1 text-green-400 hover:text-green-300 transition-colors"
-                            >
-                              <Check size={16} />
-                            </button>
-                            <button
-                              onClick={cancelEditing}
-                              className="p-1 text-red-400 hover:text-red-300 transition-colors"
-                            >
-                              <X size={16} />
-                            </button>
-                          </div>
-                        ) : (
-                          <button
-                            onClick={() => startEditing('loan_type', currentLoanData.loan_type)}
-                            className="p-1 text-blue-400 hover:text-blue-300 transition-colors"
-                          >
-                            <Edit3 size={16} />
-                          </button>
-                        )}
-                      </div>
-                      {editingField === 'loan_type' ? (
-                        <input
-                          type="text"
-                          value={editValue}
-                          onChange={(e) => setEditValue(e.target.value)}
-                          className="w-full bg-gray-700/50 border border-blue-400/30 rounded-lg px-3 py-2 text-white/95 text-sm focus:outline-none focus:border-blue-400"
-                          placeholder="e.g., Personal Loan, Home Loan, Vehicle Loan, Business Loan"
-                          autoFocus
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') saveEdit();
-                            if (e.key === 'Escape') cancelEditing();
-                          }}
-                        />
-                      ) : (
-                        <span className="text-white/95 text-sm">{currentLoanData.loan_type}</span>
-                      )}
-                    </div>
-                  )}
-
-                  {currentLoanData.loan_amount && (
-                    <div className="bg-gray-800/40 backdrop-blur-xl border border-blue-400/20 rounded-xl p-4">
-                      <div className="flex items-center justify-between mb-2">
-                        <span className="text-blue-300 text-sm font-medium">Amount</span>
-                        {editingField === 'loan_amount' ? (
-                          <div className="flex items-center space-x-2">
-                            <button
-                              onClick={saveEdit}
-                              className="p-1 text-green-400 hover:text-green-300 transition-colors"
-                            >
-                              <Check size={16} />
-                            </button>
-                            <button
-                              onClick={cancelEditing}
-                              className="p-1 text-red-400 hover:text-red-300 transition-colors"
-                            >
-                              <X size={16} />
-                            </button>
-                          </div>
-                        ) : (
-                          <button
-                            onClick={() => startEditing('loan_amount', currentLoanData.loan_amount)}
-                            className="p-1 text-blue-400 hover:text-blue-300 transition-colors"
-                          >
-                            <Edit3 size={16} />
-                          </button>
-                        )}
-                      </div>
-                      {editingField === 'loan_amount' ? (
-                        <input
-                          type="text"
-                          value={editValue}
-                          onChange={(e) => setEditValue(e.target.value)}
-                          className="w-full bg-gray-700/50 border border-blue-400/30 rounded-lg px-3 py-2 text-white/95 text-sm focus:outline-none focus:border-blue-400"
-                          placeholder="e.g., 500000, 5 lakhs"
-                          autoFocus
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') saveEdit();
-                            if (e.key === 'Escape') cancelEditing();
-                          }}
-                        />
-                      ) : (
-                        <span className="text-white/95 text-sm">₹{parseFloat(currentLoanData.loan_amount).toLocaleString()}</span>
-                      )}
-                    </div>
-                  )}
-
-                  {currentLoanData.monthly_income && (
-                    <div className="bg-gray-800/40 backdrop-blur-xl border border-blue-400/20 rounded-xl p-4">
-                      <div className="flex items-center justify-between mb-2">
-                        <span className="text-blue-300 text-sm font-medium">Monthly Income</span>
-                        {editingField === 'monthly_income' ? (
-                          <div className="flex items-center space-x-2">
-                            <button
-                              onClick={saveEdit}
-                              className="p-1 text-green-400 hover:text-green-300 transition-colors"
-                            >
-                              <Check size={16} />
-                            </button>
-                            <button
-                              onClick={cancelEditing}
-                              className="p-1 text-red-400 hover:text-red-300 transition-colors"
-                            >
-                              <X size={16} />
-                            </button>
-                          </div>
-                        ) : (
-                          <button
-                            onClick={() => startEditing('monthly_income', currentLoanData.monthly_income)}
-                            className="p-1 text-blue-400 hover:text-blue-300 transition-colors"
-                          >
-                            <Edit3 size={16} />
-                          </button>
-                        )}
-                      </div>
-                      {editingField === 'monthly_income' ? (
-                        <input
-                          type="text"
-                          value={editValue}
-                          onChange={(e) => setEditValue(e.target.value)}
-                          className="w-full bg-gray-700/50 border border-blue-400/30 rounded-lg px-3 py-2 text-white/95 text-sm focus:outline-none focus:border-blue-400"
-                          placeholder="e.g., 50000, 50k"
-                          autoFocus
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') saveEdit();
-                            if (e.key === 'Escape') cancelEditing();
-                          }}
-                        />
-                      ) : (
-                        <span className="text-white/95 text-sm">₹{parseFloat(currentLoanData.monthly_income).toLocaleString()}/month</span>
-                      )}
-                    </div>
-                  )}
-
-                  {currentLoanData.employment_status && (
-                    <div className="bg-gray-800/40 backdrop-blur-xl border border-blue-400/20 rounded-xl p-4">
-                      <div className="flex items-center justify-between mb-2">
-                        <span className="text-blue-300 text-sm font-medium">Employment</span>
-                        {editingField === 'employment_status' ? (
-                          <div className="flex items-center space-x-2">
-                            <button
-                              onClick={saveEdit}
-                              className="p-1 text-green-400 hover:text-green-300 transition-colors"
-                            >
-                              <Check size={16} />
-                            </button>
-                            <button
-                              onClick={cancelEditing}
-                              className="p-1 text-red-400 hover:text-red-300 transition-colors"
-                            >
-                              <X size={16} />
-                            </button>
-                          </div>
-                        ) : (
-                          <button
-                            onClick={() => startEditing('employment_status', currentLoanData.employment_status)}
-                            className="p-1 text-blue-400 hover:text-blue-300 transition-colors"
-                          >
-                            <Edit3 size={16} />
-                          </button>
-                        )}
-                      </div>
-                      {editingField === 'employment_status' ? (
-                        <input
-                          type="text"
-                          value={editValue}
-                          onChange={(e) => setEditValue(e.target.value)}
-                          className="w-full bg-gray-700/50 border border-blue-400/30 rounded-lg px-3 py-2 text-white/95 text-sm focus:outline-none focus:border-blue-400"
-                          placeholder="e.g., Employed, Self-Employed, Business Owner, Student, Retired"
-                          autoFocus
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') saveEdit();
-                            if (e.key === 'Escape') cancelEditing();
-                          }}
-                        />
-                      ) : (
-                        <span className="text-white/95 text-sm">{currentLoanData.employment_status}</span>
-                      )}
-                    </div>
-                  )}
+                  {editableFields.filter(({ field }) => currentLoanData[field]).map(({ field, label, placeholder, format }) => (
+                    <EditableField
+                      key={field}
+                      label={label}
+                      display={format ? format(String(currentLoanData[field])) : String(currentLoanData[field])}
+                      editing={editingField === field}
+                      editValue={editValue}
+                      error={editError}
+                      placeholder={placeholder}
+                      canUndo={canUndo(field)}
+                      onEdit={() => startEditing(field, String(currentLoanData[field]))}
+                      onUndo={() => undoFieldChange(field)}
+                      onChange={(value) => {
+                        setEditValue(value);
+                        setEditError(null);
+                      }}
+                      onSave={saveEdit}
+                      onCancel={cancelEditing}
+                    />
+                  ))}
 
                   {/* Calculated Terms Section */}
                   {currentLoanData.calculatedTerms && (
@@ -1248,6 +1077,25 @@ const VoiceMode = forwardRef<VoiceModeRef>((_, ref) => {
                           </div>
                         </div>
                       </div>
+
+                      {/* Offer variants; say an option number to switch */}
+                      {(currentLoanData.calculatedTerms.offers?.length ?? 0) > 1 && (
+                        <div className="space-y-1 text-xs">
+                          {currentLoanData.calculatedTerms.offers!.map((offer: LoanOffer, index: number) => (
+                            <div
+                              key={offer.kind}
+                              className={`flex justify-between rounded-lg px-3 py-1.5 border ${
+                                index === (currentLoanData.calculatedTerms!.selectedOffer ?? 0)
+                                  ? 'border-green-400/50 bg-green-800/20 text-white/95'
+                                  : 'border-white/10 text-white/70'
+                              }`}
+                            >
+                              <span>{index + 1}. {offer.label}</span>
+                              <span>₹{Math.round(offer.emi).toLocaleString('en-IN')}/mo · {offer.termYears}y</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   )}
                 </div> {/* Close the scrollable container */}
@@ -1,5 +1,5 @@
 import { render, screen } from '@testing-library/react';
-import { describe, it, expect } from '@jest/globals';
+import { describe, it, expect, jest } from '@jest/globals';
 import ChatInterface from '../ChatInterface';
 
 // Mock Clerk
@@ -12,15 +12,45 @@ jest.mock('react-router-dom', () => ({
   useLocation: () => ({ search: '' }),
 }));
 
+// The services reach the API through Vite's import.meta.env, so they are
+// mocked rather than loaded
+jest.mock('../../dbOperations', () => ({
+  getChatMessages: jest.fn(async () => []),
+  getConversationMessages: jest.fn(async () => []),
+  addChatMessage: jest.fn(async () => null),
+  clearChatMessages: jest.fn(async () => undefined),
+}));
+
+jest.mock('../../services/loanApplicationService', () => ({
+  __esModule: true,
+  default: { clearFlow: jest.fn() },
+}));
+
+jest.mock('../../services/assistantRouter', () => ({
+  __esModule: true,
+  default: { handleMessage: jest.fn() },
+}));
+
+jest.mock('../../services/conversationalAI', () => ({
+  __esModule: true,
+  default: { getInstance: jest.fn() },
+}));
+
+// react-markdown is published as ES modules only
+jest.mock('react-markdown', () => ({
+  __esModule: true,
+  default: ({ children }: { children: string }) => children,
+}));
+
 describe('ChatInterface', () => {
-  it('renders without crashing', () => {
+  it('renders without crashing', async () => {
     render(<ChatInterface />);
-    expect(screen.getByRole('textbox')).toBeInTheDocument();
+    expect(await screen.findByRole('textbox')).toBeInTheDocument();
   });
 
-  it('displays message input field', () => {
+  it('displays message input field', async () => {
     render(<ChatInterface />);
-    const input = screen.getByRole('textbox');
-    expect(input).toHaveAttribute('placeholder', 'Type your message...');
+    const input = await screen.findByRole('textbox');
+    expect(input).toHaveAttribute('placeholder', 'Ask about loans, credit, or financial planning...');
   });
 });
@@ -1,4 +1,4 @@
-// PostgreSQL database implementation using Neon
+// Database access through the LoanWise API server
 import {
   getChatMessages as dbGetChatMessages,
   addChatMessage as dbAddChatMessage,
@@ -10,38 +10,8 @@ import {
 } from './dbOperations';
 
 // Re-export types
-export interface LoanApplication {
-  id: string;
-  applicant_name: string;
-  loan_amount: string;
-  loan_type: string;
-  status: string;
-  application_date: Date;
-  credit_score: number | null; // Allow null when not provided
-  monthly_income: string;
-  employment_status: string;
-  loan_purpose: string | null;
-  interest_rate: string | null;
-  loan_term: number | null;
-  user_id: string;
-}
-
-export interface ChatMessage {
-  id: string;
-  content: string;
-  sender: string;
-  timestamp: Date;
-  type: string;
-  user_id: string;
-}
-
-export interface NewLoanApplication extends Omit<LoanApplication, 'id' | 'application_date'> {
-  application_date?: Date;
-}
-
-export interface NewChatMessage extends Omit<ChatMessage, 'id' | 'timestamp'> {
-  timestamp?: Date;
-}
+import type { LoanApplication, LoanApplicationStatus, ChatMessage, NewLoanApplication, NewChatMessage } from '../shared/types';
+export type { LoanApplication, LoanApplicationStatus, ChatMessage, NewLoanApplication, NewChatMessage };
 
 // Test database connection on module load
 let databaseAvailable = false;
@@ -107,7 +77,7 @@ const databaseOperations = {
     return await dbAddLoanApplication(application);
   },
 
-  updateLoanApplicationStatus: async (id: string, status: string): Promise<boolean> => {
+  updateLoanApplicationStatus: async (id: string, status: LoanApplicationStatus): Promise<boolean> => {
     if (!databaseAvailable) {
       console.warn('Database not available, cannot update status');
       return false;
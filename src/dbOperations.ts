@@ -1,116 +1,99 @@
-// Real Neon database implementation using Drizzle ORM
-// This works in the browser with proper connection pooling
-
-import { drizzle } from 'drizzle-orm/neon-http';
-import { neon } from '@neondatabase/serverless';
-import { eq, and } from 'drizzle-orm';
-import { pgTable, uuid, text, timestamp, integer, decimal } from 'drizzle-orm/pg-core';
-
-// Database schema definitions
-export const chatMessages = pgTable('chat_messages', {
-  id: uuid('id').primaryKey().defaultRandom(),
-  content: text('content').notNull(),
-  sender: text('sender').notNull(),
-  timestamp: timestamp('timestamp').defaultNow().notNull(),
-  type: text('type').notNull(),
-  user_id: text('user_id').notNull(),
-  conversation_id: text('conversation_id').notNull(), // New field for conversation sessions
-});
+// Data access for the browser. All reads and writes go through the LoanWise
+// API server, which verifies the Clerk session and owns the database.
+// The userId parameters are kept for call-site compatibility; the server
+// always scopes data to the authenticated user.
+
+import { apiDownload, apiRequest, apiUpload, ApiError } from './services/apiClient';
+import type {
+  ApplicationDocuments,
+  ApplicationQueueFilters,
+  ApplicationQueuePage,
+  ChatMessage,
+  Conversation,
+  ConversationListOptions,
+  ConversationMode,
+  ConversationPage,
+  ConversationUpdate,
+  DocumentReview,
+  DocumentType,
+  LoanApplication,
+  LoanApplicationCollateral,
+  LoanApplicationDocument,
+  LoanApplicationDraft,
+  LoanApplicationDraftInput,
+  LoanApplicationEvent,
+  LoanApplicationParty,
+  LoanApplicationStatus,
+  LoanProduct,
+  LoanProductInput,
+  NewChatMessage,
+  NewConversation,
+  NewLoanApplication,
+  Officer,
+  OfficerApplicationDetail,
+  HealthResponse
+} from '../shared/types';
+
+export type {
+  ApplicationDocuments,
+  ApplicationQueueFilters,
+  ApplicationQueuePage,
+  ChatMessage,
+  Conversation,
+  ConversationMode,
+  ConversationPage,
+  ConversationUpdate,
+  DocumentReview,
+  DocumentType,
+  LoanApplication,
+  LoanApplicationCollateral,
+  LoanApplicationDocument,
+  LoanApplicationDraft,
+  LoanApplicationDraftInput,
+  LoanApplicationEvent,
+  LoanApplicationParty,
+  LoanApplicationStatus,
+  LoanProduct,
+  LoanProductInput,
+  NewChatMessage,
+  NewConversation,
+  NewLoanApplication,
+  Officer,
+  OfficerApplicationDetail
+};
 
-export const loanApplications = pgTable('loan_applications', {
-  id: uuid('id').primaryKey().defaultRandom(),
-  applicant_name: text('applicant_name').notNull(),
-  loan_amount: decimal('loan_amount', { precision: 12, scale: 2 }).notNull(),
-  loan_type: text('loan_type').notNull(),
-  status: text('status').notNull().default('pending'),
-  application_date: timestamp('application_date').defaultNow().notNull(),
-  credit_score: integer('credit_score'), // Made nullable - not everyone provides credit score
-  monthly_income: decimal('monthly_income', { precision: 10, scale: 2 }).notNull(),
-  employment_status: text('employment_status').notNull(),
-  loan_purpose: text('loan_purpose'),
-  interest_rate: decimal('interest_rate', { precision: 5, scale: 2 }),
-  loan_term: integer('loan_term'),
-  user_id: text('user_id').notNull(),
+// JSON turns dates into strings - restore them
+const reviveMessage = (message: ChatMessage): ChatMessage => ({
+  ...message,
+  timestamp: new Date(message.timestamp)
 });
 
-// Initialize Drizzle with Neon
-const getDatabaseConnection = () => {
-  const databaseUrl = import.meta.env.VITE_DATABASE_URL;
-
-  console.log('🔍 Database URL check:', {
-    exists: !!databaseUrl,
-    length: databaseUrl?.length || 0,
-    prefix: databaseUrl?.substring(0, 20) || 'not found'
-  });
-
-  if (!databaseUrl) {
-    console.error('❌ VITE_DATABASE_URL not found in environment variables');
-    console.error('❌ Available env vars:', Object.keys(import.meta.env));
-    throw new Error('❌ VITE_DATABASE_URL not found in environment variables');
-  }
+const reviveConversation = (conversation: Conversation): Conversation => ({
+  ...conversation,
+  created_at: new Date(conversation.created_at),
+  last_activity_at: new Date(conversation.last_activity_at)
+});
 
-  try {
-    const sql = neon(databaseUrl);
-    const db = drizzle(sql);
-    console.log('✅ Drizzle ORM initialized with Neon database');
-    return db;
-  } catch (error) {
-    console.error('❌ Failed to initialize database connection:', error);
-    throw error;
-  }
-};
+const reviveApplication = (application: LoanApplication): LoanApplication => ({
+  ...application,
+  application_date: new Date(application.application_date),
+  parties: (application.parties ?? []).map(party => ({ ...party, created_at: new Date(party.created_at) })),
+  collateral: (application.collateral ?? []).map(item => ({ ...item, created_at: new Date(item.created_at) }))
+});
 
-// Get database instance
-const db = getDatabaseConnection();
-
-// Types
-export interface ChatMessage {
-  id: string;
-  content: string;
-  sender: string;
-  timestamp: Date;
-  type: string;
-  user_id: string;
-  conversation_id: string;
-}
-
-export interface LoanApplication {
-  id: string;
-  applicant_name: string;
-  loan_amount: string;
-  loan_type: string;
-  status: string;
-  application_date: Date;
-  credit_score: number | null | string; // Allow null when not provided, or string input
-  monthly_income: string;
-  employment_status: string;
-  loan_purpose: string | null;
-  interest_rate: string | null; // Keep as string for now to match database operations
-  loan_term: number | null;
-  user_id: string;
-}
-
-export interface NewChatMessage extends Omit<ChatMessage, 'id' | 'timestamp'> {
-  timestamp?: Date;
-}
-
-export interface NewLoanApplication extends Omit<LoanApplication, 'id' | 'application_date'> {
-  application_date?: Date;
-}
+const reviveEvent = (event: LoanApplicationEvent): LoanApplicationEvent => ({
+  ...event,
+  created_at: new Date(event.created_at)
+});
 
 // Chat Operations
 export const chatOperations = {
   async getChatMessages(userId: string): Promise<ChatMessage[]> {
     try {
       console.log('🔍 Fetching chat messages for user:', userId);
-      const messages = await db
-        .select()
-        .from(chatMessages)
-        .where(eq(chatMessages.user_id, userId))
-        .orderBy(chatMessages.timestamp);
-
+      const messages = await apiRequest<ChatMessage[]>('/messages');
       console.log('📨 Found', messages.length, 'chat messages');
-      return messages;
+      return messages.map(reviveMessage);
     } catch (error) {
       console.error('❌ Error fetching chat messages:', error);
       return [];
@@ -120,40 +103,31 @@ export const chatOperations = {
   async getConversationMessages(userId: string, conversationId: string): Promise<ChatMessage[]> {
     try {
       console.log('🔍 Fetching conversation messages for user:', userId, 'conversation:', conversationId);
-      const messages = await db
-        .select()
-        .from(chatMessages)
-        .where(and(
-          eq(chatMessages.user_id, userId),
-          eq(chatMessages.conversation_id, conversationId)
-        ))
-        .orderBy(chatMessages.timestamp);
-
+      const messages = await apiRequest<ChatMessage[]>(`/conversations/${encodeURIComponent(conversationId)}/messages`);
       console.log('📨 Found', messages.length, 'conversation messages');
-      return messages;
+      return messages.map(reviveMessage);
     } catch (error) {
       console.error('❌ Error fetching conversation messages:', error);
       return [];
     }
   },
 
-  async addChatMessage(message: NewChatMessage): Promise<ChatMessage | null> {
+  // mode is recorded on the conversation when this message starts it
+  async addChatMessage(message: NewChatMessage, mode: ConversationMode = 'chat'): Promise<ChatMessage | null> {
     try {
-      console.log('➕ Adding chat message:', message);
-      const [newMessage] = await db
-        .insert(chatMessages)
-        .values({
+      const newMessage = await apiRequest<ChatMessage>('/messages', {
+        method: 'POST',
+        body: {
+          mode,
           content: message.content,
           sender: message.sender,
           type: message.type,
-          user_id: message.user_id,
           conversation_id: message.conversation_id,
-          timestamp: message.timestamp || new Date(),
-        })
-        .returning();
-
+          timestamp: message.timestamp,
+        }
+      });
       console.log('✅ Chat message added with ID:', newMessage.id);
-      return newMessage;
+      return reviveMessage(newMessage);
     } catch (error) {
       console.error('❌ Error adding chat message:', error);
       return null;
@@ -163,10 +137,7 @@ export const chatOperations = {
   async clearChatMessages(userId: string): Promise<boolean> {
     try {
       console.log('🗑️ Clearing chat messages for user:', userId);
-      await db
-        .delete(chatMessages)
-        .where(eq(chatMessages.user_id, userId));
-
+      await apiRequest<void>('/messages', { method: 'DELETE' });
       console.log('✅ Chat messages cleared for user:', userId);
       return true;
     } catch (error) {
@@ -178,13 +149,7 @@ export const chatOperations = {
   async deleteConversation(userId: string, conversationId: string): Promise<boolean> {
     try {
       console.log('🗑️ Deleting conversation for user:', userId, 'conversation:', conversationId);
-      await db
-        .delete(chatMessages)
-        .where(and(
-          eq(chatMessages.user_id, userId),
-          eq(chatMessages.conversation_id, conversationId)
-        ));
-
+      await apiRequest<void>(`/conversations/${encodeURIComponent(conversationId)}`, { method: 'DELETE' });
       console.log('✅ Conversation deleted:', conversationId);
       return true;
     } catch (error) {
@@ -193,72 +158,60 @@ export const chatOperations = {
     }
   },
 
-  async getRecentChats(userId: string): Promise<Array<{
-    id: string;
-    summary: string;
-    timestamp: Date;
-    messageCount: number;
-  }>> {
+  async getConversations(userId: string, options: ConversationListOptions = {}): Promise<ConversationPage> {
     try {
-      console.log('🔍 Fetching recent chats for user:', userId);
-
-      // Get the latest messages grouped by conversation_id
-      const recentMessages = await db
-        .select({
-          content: chatMessages.content,
-          timestamp: chatMessages.timestamp,
-          sender: chatMessages.sender,
-          conversation_id: chatMessages.conversation_id
-        })
-        .from(chatMessages)
-        .where(eq(chatMessages.user_id, userId))
-        .orderBy(chatMessages.timestamp)
-        .limit(100); // Get last 100 messages
-
-      // Group messages by conversation_id
-      const chatsByConversation = new Map<string, any[]>();
-
-      recentMessages.forEach(msg => {
-        if (!chatsByConversation.has(msg.conversation_id)) {
-          chatsByConversation.set(msg.conversation_id, []);
-        }
-        chatsByConversation.get(msg.conversation_id)!.push(msg);
+      console.log('🔍 Fetching conversations for user:', userId, options);
+      const params = new URLSearchParams();
+      if (options.archived) params.set('archived', 'true');
+      if (options.limit !== undefined) params.set('limit', String(options.limit));
+      if (options.offset !== undefined) params.set('offset', String(options.offset));
+
+      const query = params.toString();
+      const page = await apiRequest<ConversationPage>(`/conversations${query ? `?${query}` : ''}`);
+      console.log('💬 Found', page.conversations.length, 'conversations');
+      return { ...page, conversations: page.conversations.map(reviveConversation) };
+    } catch (error) {
+      console.error('❌ Error fetching conversations:', error);
+      return { conversations: [], hasMore: false };
+    }
+  },
+
+  async getConversation(_userId: string, conversationId: string): Promise<Conversation | null> {
+    try {
+      const conversation = await apiRequest<Conversation>(`/conversations/${encodeURIComponent(conversationId)}`);
+      return reviveConversation(conversation);
+    } catch (error) {
+      console.error('❌ Error fetching conversation:', error);
+      return null;
+    }
+  },
+
+  async createConversation(_userId: string, conversation: NewConversation): Promise<Conversation | null> {
+    try {
+      console.log('➕ Creating conversation:', conversation.id);
+      const created = await apiRequest<Conversation>('/conversations', {
+        method: 'POST',
+        body: conversation
       });
+      return reviveConversation(created);
+    } catch (error) {
+      console.error('❌ Error creating conversation:', error);
+      return null;
+    }
+  },
 
-      // Convert to recent chats format
-      const recentChats = Array.from(chatsByConversation.entries())
-        .map(([conversationId, messages]) => {
-          const latestMessage = messages[messages.length - 1];
-          const userMessages = messages.filter(m => m.sender === 'user');
-          const firstUserMessage = userMessages[0];
-
-          // Create a summary from the first user message or latest content
-          let summary = 'Chat Session';
-          if (firstUserMessage) {
-            summary = firstUserMessage.content.length > 30
-              ? firstUserMessage.content.substring(0, 30) + '...'
-              : firstUserMessage.content;
-          } else if (latestMessage) {
-            summary = latestMessage.content.length > 30
-              ? latestMessage.content.substring(0, 30) + '...'
-              : latestMessage.content;
-          }
-
-          return {
-            id: conversationId,
-            summary: summary,
-            timestamp: latestMessage.timestamp,
-            messageCount: messages.length
-          };
-        })
-        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
-        .slice(0, 10); // Show last 10 conversations
-
-      console.log('💬 Found', recentChats.length, 'recent conversations');
-      return recentChats;
+  async updateConversation(_userId: string, conversationId: string, update: ConversationUpdate): Promise<Conversation | null> {
+    try {
+      console.log('🔄 Updating conversation:', conversationId, update);
+      const updated = await apiRequest<Conversation>(`/conversations/${encodeURIComponent(conversationId)}`, {
+        method: 'PATCH',
+        body: update
+      });
+      console.log('✅ Conversation updated:', conversationId);
+      return reviveConversation(updated);
     } catch (error) {
-      console.error('❌ Error fetching recent chats:', error);
-      return [];
+      console.error('❌ Error updating conversation:', error);
+      return null;
     }
   }
 };
@@ -268,106 +221,268 @@ export const loanOperations = {
   async getLoanApplications(userId: string): Promise<LoanApplication[]> {
     try {
       console.log('🔍 Fetching loan applications for user:', userId);
-      const applications = await db
-        .select()
-        .from(loanApplications)
-        .where(eq(loanApplications.user_id, userId))
-        .orderBy(loanApplications.application_date);
-
+      const applications = await apiRequest<LoanApplication[]>('/loan-applications');
       console.log('📋 Found', applications.length, 'loan applications');
-      return applications;
+      return applications.map(reviveApplication);
     } catch (error) {
       console.error('❌ Error fetching loan applications:', error);
       return [];
     }
   },
 
-  async addLoanApplication(application: NewLoanApplication): Promise<LoanApplication | null> {
+  async getLoanApplication(id: string): Promise<LoanApplication | null> {
     try {
-      // Test database connection first
-      try {
-        await db.select().from(loanApplications).limit(1);
-        console.log('✅ Database connection verified');
-      } catch (connError) {
-        console.error('❌ Database connection test failed:', connError);
-        throw new Error('Database connection failed');
-      }
+      const application = await apiRequest<LoanApplication>(`/loan-applications/${encodeURIComponent(id)}`);
+      return reviveApplication(application);
+    } catch (error) {
+      console.error('❌ Error fetching loan application:', error);
+      return null;
+    }
+  },
 
+  async addLoanApplication(application: NewLoanApplication): Promise<LoanApplication | null> {
+    try {
       console.log('➕ Adding loan application:', application);
+      const newApplication = await apiRequest<LoanApplication>('/loan-applications', {
+        method: 'POST',
+        body: application
+      });
+      console.log('✅ Loan application added with ID:', newApplication.id);
+      return reviveApplication(newApplication);
+    } catch (error) {
+      console.error('❌ Error adding loan application:', error);
+      return null;
+    }
+  },
 
-      // Validate and clean the data
-      const cleanLoanAmount = String(application.loan_amount).replace(/[^0-9.]/g, '');
-      const cleanMonthlyIncome = String(application.monthly_income).replace(/[^0-9.]/g, '');
-      const cleanInterestRate = application.interest_rate ? String(application.interest_rate).replace(/[^0-9.]/g, '') : null;
-
-      // Handle credit score - convert empty string to null
-      let cleanCreditScore: number | null = null;
-      const creditScoreValue = application.credit_score;
-
-      if (creditScoreValue !== null && creditScoreValue !== undefined) {
-        if (typeof creditScoreValue === 'string') {
-          if (creditScoreValue.trim() !== '') {
-            const numericScore = parseInt(creditScoreValue.replace(/[^0-9]/g, ''));
-            cleanCreditScore = isNaN(numericScore) ? null : numericScore;
-          }
-        } else {
-          cleanCreditScore = creditScoreValue;
-        }
-      }
+  async updateLoanApplicationStatus(id: string, status: LoanApplicationStatus, reason?: string): Promise<boolean> {
+    try {
+      console.log('🔄 Updating loan application status:', id, '->', status);
+      await apiRequest<LoanApplication>(`/loan-applications/${encodeURIComponent(id)}/status`, {
+        method: 'PATCH',
+        body: { status, reason }
+      });
+      console.log('✅ Loan application status updated');
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating loan application status:', error);
+      return false;
+    }
+  },
 
-      console.log('➕ Cleaned data:', {
-        loan_amount: cleanLoanAmount,
-        monthly_income: cleanMonthlyIncome,
-        interest_rate: cleanInterestRate,
-        credit_score: cleanCreditScore
-      });      // Validate that required fields are not empty after cleaning
-      if (!cleanLoanAmount || !cleanMonthlyIncome) {
-        throw new Error('Invalid loan amount or monthly income');
+  async getLoanApplicationEvents(id: string): Promise<LoanApplicationEvent[]> {
+    try {
+      const events = await apiRequest<LoanApplicationEvent[]>(`/loan-applications/${encodeURIComponent(id)}/events`);
+      return events.map(reviveEvent);
+    } catch (error) {
+      console.error('❌ Error fetching loan application events:', error);
+      return [];
+    }
+  }
+};
+
+// Draft Operations
+export const draftOperations = {
+  async getLoanApplicationDraft(_userId: string, conversationId: string): Promise<LoanApplicationDraft | null> {
+    try {
+      const draft = await apiRequest<LoanApplicationDraft>(`/conversations/${encodeURIComponent(conversationId)}/draft`);
+      console.log('📝 Found loan application draft for conversation:', conversationId, 'stage:', draft.stage);
+      return { ...draft, updated_at: new Date(draft.updated_at) };
+    } catch (error) {
+      // 404 simply means nothing has been collected for this conversation yet
+      if (!(error instanceof ApiError && error.status === 404)) {
+        console.error('❌ Error fetching loan application draft:', error);
       }
+      return null;
+    }
+  },
 
-      const [newApplication] = await db
-        .insert(loanApplications)
-        .values({
-          applicant_name: application.applicant_name,
-          loan_amount: cleanLoanAmount,
-          loan_type: application.loan_type,
-          status: application.status,
-          credit_score: cleanCreditScore,
-          monthly_income: cleanMonthlyIncome,
-          employment_status: application.employment_status,
-          loan_purpose: application.loan_purpose,
-          interest_rate: cleanInterestRate,
-          loan_term: application.loan_term,
-          user_id: application.user_id,
-          application_date: application.application_date || new Date(),
-        })
-        .returning();
-
-      console.log('✅ Loan application added with ID:', newApplication?.id);
-      console.log('✅ Full application result:', newApplication);
-      return newApplication || null;
+  async saveLoanApplicationDraft(_userId: string, conversationId: string, draft: LoanApplicationDraftInput): Promise<boolean> {
+    try {
+      await apiRequest<LoanApplicationDraft>(`/conversations/${encodeURIComponent(conversationId)}/draft`, {
+        method: 'PUT',
+        body: draft
+      });
+      console.log('💾 Loan application draft saved for conversation:', conversationId);
+      return true;
     } catch (error) {
-      console.error('❌ Error adding loan application:', error);
-      console.error('❌ Error stack:', error instanceof Error ? error.stack : 'No stack trace');
-      console.error('❌ Error message:', error instanceof Error ? error.message : String(error));
+      console.error('❌ Error saving loan application draft:', error);
+      return false;
+    }
+  },
+
+  async deleteLoanApplicationDraft(_userId: string, conversationId: string): Promise<boolean> {
+    try {
+      await apiRequest<void>(`/conversations/${encodeURIComponent(conversationId)}/draft`, { method: 'DELETE' });
+      console.log('🗑️ Loan application draft deleted for conversation:', conversationId);
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting loan application draft:', error);
+      return false;
+    }
+  }
+};
+
+// Document Operations
+const reviveDocument = (document: LoanApplicationDocument): LoanApplicationDocument => ({
+  ...document,
+  created_at: new Date(document.created_at),
+  reviewed_at: document.reviewed_at ? new Date(document.reviewed_at) : null
+});
+
+const documentsPath = (applicationId: string) => `/loan-applications/${encodeURIComponent(applicationId)}/documents`;
+
+export const documentOperations = {
+  async getApplicationDocuments(applicationId: string): Promise<ApplicationDocuments | null> {
+    try {
+      const result = await apiRequest<ApplicationDocuments>(documentsPath(applicationId));
+      return {
+        checklist: result.checklist.map(item => ({ ...item, document: item.document && reviveDocument(item.document) })),
+        documents: result.documents.map(reviveDocument)
+      };
+    } catch (error) {
+      console.error('❌ Error fetching application documents:', error);
       return null;
     }
   },
 
-  async updateLoanApplicationStatus(id: string, status: string): Promise<boolean> {
+  // Throws ApiError so the checklist can show why an upload was refused
+  async uploadDocument(applicationId: string, documentType: DocumentType, file: File): Promise<LoanApplicationDocument> {
+    console.log('📎 Uploading document:', documentType, file.name);
+    const document = await apiUpload<LoanApplicationDocument>(
+      `${documentsPath(applicationId)}?document_type=${encodeURIComponent(documentType)}`,
+      file
+    );
+    return reviveDocument(document);
+  },
+
+  async downloadDocument(applicationId: string, documentId: string): Promise<Blob | null> {
     try {
-      console.log('🔄 Updating loan application status:', id, '->', status);
-      await db
-        .update(loanApplications)
-        .set({ status })
-        .where(eq(loanApplications.id, id));
+      return await apiDownload(`${documentsPath(applicationId)}/${encodeURIComponent(documentId)}/file`);
+    } catch (error) {
+      console.error('❌ Error downloading document:', error);
+      return null;
+    }
+  }
+};
 
-      console.log('✅ Loan application status updated');
+// Officer Operations - rejected by the server unless the user has the officer role
+export const officerOperations = {
+  async getApplicationQueue(filters: ApplicationQueueFilters = {}): Promise<ApplicationQueuePage> {
+    try {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') params.set(key, String(value));
+      });
+
+      const query = params.toString();
+      const page = await apiRequest<ApplicationQueuePage>(`/officer/applications${query ? `?${query}` : ''}`);
+      console.log('📋 Found', page.applications.length, 'queued applications');
+      return { ...page, applications: page.applications.map(reviveApplication) };
+    } catch (error) {
+      console.error('❌ Error fetching application queue:', error);
+      return { applications: [], hasMore: false };
+    }
+  },
+
+  async getApplicationDetail(id: string): Promise<OfficerApplicationDetail | null> {
+    try {
+      const detail = await apiRequest<OfficerApplicationDetail>(`/officer/applications/${encodeURIComponent(id)}`);
+      return {
+        ...detail,
+        application: reviveApplication(detail.application),
+        events: detail.events.map(reviveEvent)
+      };
+    } catch (error) {
+      console.error('❌ Error fetching application detail:', error);
+      return null;
+    }
+  },
+
+  async getOfficers(): Promise<Officer[]> {
+    try {
+      return await apiRequest<Officer[]>('/officer/officers');
+    } catch (error) {
+      console.error('❌ Error fetching officers:', error);
+      return [];
+    }
+  },
+
+  // officerId undefined assigns the caller, null unassigns
+  async assignApplication(id: string, officerId?: string | null): Promise<boolean> {
+    try {
+      await apiRequest<LoanApplication>(`/officer/applications/${encodeURIComponent(id)}/assign`, {
+        method: 'POST',
+        body: officerId === undefined ? {} : { officer_id: officerId }
+      });
+      console.log('✅ Loan application assigned:', id);
       return true;
     } catch (error) {
-      console.error('❌ Error updating loan application status:', error);
+      console.error('❌ Error assigning loan application:', error);
+      return false;
+    }
+  },
+
+  // Throws ApiError so the console can show why a decision was refused
+  async decideApplication(id: string, status: LoanApplicationStatus, reason?: string): Promise<LoanApplication> {
+    console.log('⚖️ Recording decision:', id, '->', status);
+    const updated = await apiRequest<LoanApplication>(`/officer/applications/${encodeURIComponent(id)}/status`, {
+      method: 'POST',
+      body: { status, reason }
+    });
+    return reviveApplication(updated);
+  },
+
+  async requestInformation(id: string, reason: string): Promise<boolean> {
+    try {
+      await apiRequest<LoanApplicationEvent>(`/officer/applications/${encodeURIComponent(id)}/request-info`, {
+        method: 'POST',
+        body: { reason }
+      });
+      console.log('✅ Information requested for application:', id);
+      return true;
+    } catch (error) {
+      console.error('❌ Error requesting information:', error);
       return false;
     }
+  },
+
+  // Throws ApiError so the console can show why a review was refused
+  async reviewDocument(applicationId: string, documentId: string, review: DocumentReview): Promise<LoanApplicationDocument> {
+    console.log('🔎 Reviewing document:', documentId, '->', review.status);
+    const updated = await apiRequest<LoanApplicationDocument>(
+      `/officer/applications/${encodeURIComponent(applicationId)}/documents/${encodeURIComponent(documentId)}/review`,
+      { method: 'POST', body: review }
+    );
+    return reviveDocument(updated);
+  }
+};
+
+// Loan-product catalog - saving is rejected by the server without products:manage
+const reviveProduct = (product: LoanProduct): LoanProduct => ({
+  ...product,
+  updated_at: new Date(product.updated_at)
+});
+
+export const productOperations = {
+  async getProducts(): Promise<LoanProduct[]> {
+    try {
+      const products = await apiRequest<LoanProduct[]>('/products');
+      return products.map(reviveProduct);
+    } catch (error) {
+      console.error('❌ Error fetching loan products:', error);
+      return [];
+    }
+  },
+
+  // Throws ApiError so the editor can show why a change was refused
+  async saveProduct(product: LoanProductInput): Promise<LoanProduct> {
+    console.log('🏷️ Saving loan product:', product.id);
+    const saved = await apiRequest<LoanProduct>(`/products/${encodeURIComponent(product.id)}`, {
+      method: 'PUT',
+      body: product
+    });
+    return reviveProduct(saved);
   }
 };
 
@@ -377,20 +492,31 @@ export const getConversationMessages = chatOperations.getConversationMessages;
 export const addChatMessage = chatOperations.addChatMessage;
 export const clearChatMessages = chatOperations.clearChatMessages;
 export const deleteConversation = chatOperations.deleteConversation;
-export const getRecentChats = chatOperations.getRecentChats;
+export const getConversations = chatOperations.getConversations;
+export const getConversation = chatOperations.getConversation;
+export const createConversation = chatOperations.createConversation;
+export const updateConversation = chatOperations.updateConversation;
 export const getLoanApplications = loanOperations.getLoanApplications;
+export const getLoanApplication = loanOperations.getLoanApplication;
 export const addLoanApplication = loanOperations.addLoanApplication;
 export const updateLoanApplicationStatus = loanOperations.updateLoanApplicationStatus;
+export const getLoanApplicationEvents = loanOperations.getLoanApplicationEvents;
+export const getApplicationDocuments = documentOperations.getApplicationDocuments;
+export const uploadDocument = documentOperations.uploadDocument;
+export const downloadDocument = documentOperations.downloadDocument;
+export const getLoanApplicationDraft = draftOperations.getLoanApplicationDraft;
+export const saveLoanApplicationDraft = draftOperations.saveLoanApplicationDraft;
+export const deleteLoanApplicationDraft = draftOperations.deleteLoanApplicationDraft;
 
 // Test connection
 export const testDatabaseConnection = async (): Promise<boolean> => {
   try {
-    console.log('🧪 Testing Neon database connection with Drizzle...');
-    await db.select().from(chatMessages).limit(1);
-    console.log('✅ Neon database connection successful!');
-    return true;
+    console.log('🧪 Testing API server connection...');
+    const health = await apiRequest<HealthResponse>('/health');
+    console.log('✅ API server reachable, database:', health.database ? 'up' : 'down');
+    return health.database;
   } catch (error) {
-    console.error('❌ Neon database connection failed:', error);
+    console.error('❌ API server connection failed:', error);
     return false;
   }
 };
@@ -1,46 +1,48 @@
 // Seed some initial data for demo purposes
 import { addLoanApplication, addChatMessage } from './db';
+import type { NewLoanApplication } from './db';
 
-// Initial loan applications for demo
-const sampleApplications = [
+// Initial loan applications for demo. New applications start as submitted or
+// draft; later statuses are reached through the review workflow.
+const sampleApplications: NewLoanApplication[] = [
   {
-    applicantName: 'John Smith',
-    loanAmount: '250000',
-    loanType: 'Home Mortgage',
-    status: 'approved',
-    creditScore: 750,
-    monthlyIncome: '8500',
-    employmentStatus: 'Full-time',
-    loanPurpose: 'Primary residence purchase',
-    interestRate: '3.25',
-    loanTerm: 30,
-    userId: 'demo_user'
+    applicant_name: 'John Smith',
+    loan_amount: '250000',
+    loan_type: 'Home Mortgage',
+    status: 'submitted',
+    credit_score: 750,
+    monthly_income: '8500',
+    employment_status: 'Full-time',
+    loan_purpose: 'Primary residence purchase',
+    interest_rate: '3.25',
+    loan_term: 30,
+    user_id: 'demo_user'
   },
   {
-    applicantName: 'Sarah Johnson',
-    loanAmount: '45000',
-    loanType: 'Auto Loan',
-    status: 'pending',
-    creditScore: 680,
-    monthlyIncome: '6200',
-    employmentStatus: 'Full-time',
-    loanPurpose: 'Vehicle purchase',
-    interestRate: null,
-    loanTerm: null,
-    userId: 'demo_user'
+    applicant_name: 'Sarah Johnson',
+    loan_amount: '45000',
+    loan_type: 'Auto Loan',
+    status: 'submitted',
+    credit_score: 680,
+    monthly_income: '6200',
+    employment_status: 'Full-time',
+    loan_purpose: 'Vehicle purchase',
+    interest_rate: null,
+    loan_term: null,
+    user_id: 'demo_user'
   },
   {
-    applicantName: 'Mike Davis',
-    loanAmount: '150000',
-    loanType: 'Business Loan',
-    status: 'under-review',
-    creditScore: 720,
-    monthlyIncome: '12000',
-    employmentStatus: 'Self-employed',
-    loanPurpose: 'Business expansion',
-    interestRate: null,
-    loanTerm: null,
-    userId: 'demo_user'
+    applicant_name: 'Mike Davis',
+    loan_amount: '150000',
+    loan_type: 'Business Loan',
+    status: 'draft',
+    credit_score: 720,
+    monthly_income: '12000',
+    employment_status: 'Self-employed',
+    loan_purpose: 'Business expansion',
+    interest_rate: null,
+    loan_term: null,
+    user_id: 'demo_user'
   }
 ];
 
@@ -50,19 +52,19 @@ const sampleMessages = [
     content: 'Hello! Welcome to LoanWise. I\'m your AI loan assistant. How can I help you today?',
     sender: 'ai',
     type: 'text',
-    userId: 'demo_user'
+    user_id: 'demo_user'
   },
   {
     content: 'Hi! I\'m interested in learning about home mortgage options.',
     sender: 'user',
     type: 'text',
-    userId: 'demo_user'
+    user_id: 'demo_user'
   },
   {
     content: 'Great! I\'d be happy to help you with home mortgage information. Based on your profile, I can see you\'re looking at substantial loan amounts. What specific aspects of home mortgages would you like to know more about? Interest rates, qualification requirements, or loan terms?',
     sender: 'ai',
     type: 'text',
-    userId: 'demo_user'
+    user_id: 'demo_user'
   }
 ];
 
@@ -74,14 +76,14 @@ export const seedDemoData = async (userId: string) => {
   if (existingApps.length === 0) {
     console.log('Seeding demo loan applications...');
     for (const app of sampleApplications) {
-      await addLoanApplication({ ...app, userId });
+      await addLoanApplication({ ...app, user_id: userId });
     }
   }
 
   if (existingMessages.length === 0) {
     console.log('Seeding demo chat messages...');
     for (const msg of sampleMessages) {
-      await addChatMessage({ ...msg, userId });
+      await addChatMessage({ ...msg, user_id: userId, conversation_id: `${userId}-demo` });
     }
   }
 };
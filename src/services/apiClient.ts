@@ -0,0 +1,92 @@
+// HTTP client for the LoanWise API server. Every request carries the
+// current Clerk session token; the server owns the database and LLM keys.
+import type { ApiErrorResponse, LlmChatRequest, LlmChatResponse } from '../../shared/types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || '/api';
+
+export class ApiError extends Error {
+  // `detail` is the server's `{ error }` message, when it sent one
+  constructor(message: string, public readonly status: number, public readonly detail?: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const readErrorDetail = (text: string): string | undefined => {
+  try {
+    return (JSON.parse(text) as Partial<ApiErrorResponse>).error;
+  } catch {
+    return undefined;
+  }
+};
+
+// The part of the Clerk instance ClerkProvider puts on window that requests use
+declare global {
+  interface Window {
+    Clerk?: {
+      session?: { getToken(): Promise<string | null> } | null;
+    };
+  }
+}
+
+const getSessionToken = async (): Promise<string | null> => {
+  const session = window.Clerk?.session;
+  if (!session) {
+    return null;
+  }
+  return await session.getToken();
+};
+
+const send = async (path: string, method: string, headers: Record<string, string>, body?: BodyInit): Promise<Response> => {
+  const token = await getSessionToken();
+
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method,
+    headers: {
+      ...headers,
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+    },
+    body,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ApiError(`API error: ${response.status} - ${errorText}`, response.status, readErrorDetail(errorText));
+  }
+  return response;
+};
+
+export const apiRequest = async <T>(path: string, options: { method?: string; body?: unknown } = {}): Promise<T> => {
+  const response = await send(
+    path,
+    options.method || 'GET',
+    { 'Content-Type': 'application/json' },
+    options.body !== undefined ? JSON.stringify(options.body) : undefined
+  );
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  return await response.json() as T;
+};
+
+// Sends a file as the raw request body; the server reads the name from X-File-Name
+export const apiUpload = async <T>(path: string, file: File): Promise<T> => {
+  const response = await send(path, 'POST', {
+    'Content-Type': file.type,
+    'X-File-Name': encodeURIComponent(file.name),
+  }, file);
+  return await response.json() as T;
+};
+
+// Authenticated file download, for links that can't carry the session token
+export const apiDownload = async (path: string): Promise<Blob> => {
+  const response = await send(path, 'GET', {});
+  return await response.blob();
+};
+
+// Chat completion proxied through the server
+export const requestChatCompletion = async (request: LlmChatRequest): Promise<string | null> => {
+  const result = await apiRequest<LlmChatResponse>('/llm/chat', { method: 'POST', body: request });
+  return result.content;
+};
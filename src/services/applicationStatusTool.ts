@@ -0,0 +1,162 @@
+// Status lookups and withdrawals from the conversation. Both chat and voice
+// reach this through the assistant router, so they answer the same way.
+import { updateLoanApplicationStatus } from '../dbOperations';
+import type { LoanApplication } from '../dbOperations';
+import loanApplicationService from './loanApplicationService';
+import { findReferencedApplications } from '../../shared/applicationLookup';
+import { STATUS_LABELS, canTransition, isTerminalStatus } from '../../shared/loanStatus';
+import { generateAmortizationSchedule } from '../../shared/amortization';
+
+export interface ToolReply {
+  response: string;
+  // The application changed; pages showing it should reload
+  shouldUpdateApplication?: boolean;
+}
+
+// A withdrawal waits for the user to say yes; if they have several
+// applications it first waits for them to say which
+type PendingAction =
+  | { kind: 'confirm_withdrawal'; application: LoanApplication }
+  | { kind: 'choose_withdrawal'; candidates: LoanApplication[] };
+
+const CONFIRM = /^(yes|yeah|yep|yes please|confirm|confirmed|go ahead|do it|(yes,? )?withdraw it)$/;
+const DECLINE = /^(no|nope|don't|do not|cancel|never mind|nevermind|(no,? )?keep it)$/;
+
+const formatRupees = (amount: string | number) =>
+  '₹' + Math.round(typeof amount === 'string' ? parseFloat(amount) : amount).toLocaleString('en-IN');
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const describe = (application: LoanApplication) =>
+  `${application.loan_type} application for ${formatRupees(application.loan_amount)} (ID ${application.id.slice(0, 8)})`;
+
+class ApplicationStatusTool {
+  private static instance: ApplicationStatusTool;
+  private pendingActions: Map<string, PendingAction> = new Map();
+
+  static getInstance(): ApplicationStatusTool {
+    if (!ApplicationStatusTool.instance) {
+      ApplicationStatusTool.instance = new ApplicationStatusTool();
+    }
+    return ApplicationStatusTool.instance;
+  }
+
+  // Answers a question this tool asked last turn. Returns null when the
+  // message is about something else; the pending action is dropped then.
+  async resolvePending(conversationId: string, userInput: string): Promise<ToolReply | null> {
+    const pending = this.pendingActions.get(conversationId);
+    if (!pending) return null;
+    this.pendingActions.delete(conversationId);
+
+    const answer = userInput.trim().toLowerCase().replace(/[.!]+$/, '');
+    if (pending.kind === 'choose_withdrawal') {
+      const [chosen, ...others] = findReferencedApplications(userInput, pending.candidates);
+      if (!chosen || others.length > 0 || DECLINE.test(answer)) {
+        return DECLINE.test(answer) ? { response: 'Okay, I won\'t withdraw anything.' } : null;
+      }
+      return this.askToConfirm(conversationId, chosen);
+    }
+
+    if (CONFIRM.test(answer)) {
+      return this.withdraw(pending.application);
+    }
+    if (DECLINE.test(answer)) {
+      return { response: `Okay, your ${pending.application.loan_type} application stays as it is.` };
+    }
+    return null;
+  }
+
+  async describeStatus(userId: string, userInput: string): Promise<ToolReply> {
+    const applications = await loanApplicationService.getUserApplications(userId);
+    if (applications.length === 0) {
+      return { response: "You don't have any loan applications yet. Would you like to start one?" };
+    }
+
+    const referenced = findReferencedApplications(userInput, applications);
+    if (referenced.length === 1) {
+      return { response: this.summarize(referenced[0]) };
+    }
+
+    const latest = referenced.slice(0, 5);
+    const lines = latest.map(application =>
+      `• ${application.loan_type}, ${formatRupees(application.loan_amount)}: **${STATUS_LABELS[application.status]}** (applied ${formatDate(application.application_date)}, ID ${application.id.slice(0, 8)})`
+    );
+    const more = referenced.length > latest.length
+      ? `\n\nThe other ${referenced.length - latest.length} are in the Loan Applications section.`
+      : '';
+
+    return { response: `Here are your latest applications:\n${lines.join('\n')}${more}\n\nAsk about one of them, for example "what's the status of my ${latest[0].loan_type.toLowerCase()}?", for the details.` };
+  }
+
+  async requestWithdrawal(conversationId: string, userId: string, userInput: string): Promise<ToolReply> {
+    const applications = await loanApplicationService.getUserApplications(userId);
+    const withdrawable = applications.filter(application => canTransition(application.status, 'withdrawn'));
+    if (withdrawable.length === 0) {
+      return { response: "You don't have any applications that can be withdrawn. Only applications that haven't been rejected, disbursed or closed can be." };
+    }
+
+    const referenced = findReferencedApplications(userInput, applications);
+    const candidates = referenced.filter(application => canTransition(application.status, 'withdrawn'));
+
+    if (referenced.length === 1 && candidates.length === 0) {
+      const [application] = referenced;
+      return { response: `Your ${describe(application)} is ${STATUS_LABELS[application.status].toLowerCase()}, so it can't be withdrawn.` };
+    }
+    if (candidates.length === 1) {
+      return this.askToConfirm(conversationId, candidates[0]);
+    }
+
+    const choices = candidates.length > 0 ? candidates : withdrawable;
+    this.pendingActions.set(conversationId, { kind: 'choose_withdrawal', candidates: choices });
+    const lines = choices.map(application => `• ${describe(application)}: ${STATUS_LABELS[application.status]}`);
+    return { response: `Which application would you like to withdraw?\n${lines.join('\n')}` };
+  }
+
+  private askToConfirm(conversationId: string, application: LoanApplication): ToolReply {
+    this.pendingActions.set(conversationId, { kind: 'confirm_withdrawal', application });
+    return {
+      response: `Are you sure you want to withdraw your ${describe(application)}? This can't be undone. Say "yes, withdraw it" to confirm or "no" to keep it.`
+    };
+  }
+
+  private async withdraw(application: LoanApplication): Promise<ToolReply> {
+    console.log('🗑️ ApplicationStatusTool: Withdrawing application:', application.id);
+    const success = await updateLoanApplicationStatus(application.id, 'withdrawn', 'Withdrawn by applicant in conversation');
+    if (!success) {
+      return { response: "I couldn't withdraw the application just now. Please try again, or withdraw it from the Loan Applications section." };
+    }
+    return {
+      response: `Your ${describe(application)} has been withdrawn.`,
+      shouldUpdateApplication: true
+    };
+  }
+
+  // Status, terms and anything still outstanding for one application
+  private summarize(application: LoanApplication): string {
+    const lines = [`Your ${describe(application)}, submitted ${formatDate(application.application_date)}, is **${STATUS_LABELS[application.status]}**.`];
+
+    const rate = application.interest_rate ? parseFloat(application.interest_rate) : NaN;
+    if (!Number.isNaN(rate) && application.loan_term) {
+      const schedule = generateAmortizationSchedule({
+        principal: parseFloat(application.loan_amount),
+        annualRate: rate,
+        termMonths: application.loan_term * 12
+      });
+      lines.push(`• Terms: ${rate}% over ${application.loan_term} years, EMI about ${formatRupees(schedule.emi)} a month`);
+    }
+
+    if (!isTerminalStatus(application.status)) {
+      const { conditions } = loanApplicationService.analyzeLoanDecision(application);
+      if (conditions.length > 0) {
+        lines.push(`• Still outstanding: ${conditions.join('; ')}`);
+      }
+    }
+
+    if (canTransition(application.status, 'withdrawn')) {
+      lines.push('You can withdraw it at any time by asking me to.');
+    }
+    return lines.join('\n');
+  }
+}
+
+export default ApplicationStatusTool.getInstance();
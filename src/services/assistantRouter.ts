@@ -0,0 +1,243 @@
+// Entry point for chat and voice messages. Classifies what the user is asking
+// for and hands it to the matching handler; only applications go through the
+// loan flow.
+import { requestChatCompletion } from './apiClient';
+import loanApplicationService, { type LoanApplicationFlow, type LoanApplicationResult } from './loanApplicationService';
+import { loanProductCatalog } from './loanProducts';
+import { policyRegistry } from './underwritingPolicies';
+import applicationStatusTool, { type ToolReply } from './applicationStatusTool';
+import ConversationalAI from './conversationalAI';
+import type { ConversationMode } from '../../shared/types';
+import {
+  INTENT_CLASSIFICATION_PROMPT,
+  INTENT_MODEL_THRESHOLD,
+  classifyIntent,
+  parseEligibilityQuestion,
+  parseIntentReply,
+  parseWhatIf,
+  type Intent,
+  type IntentClassification
+} from '../../shared/intents';
+import { parseOfferChoice } from '../../shared/underwriting/offers';
+import { generateAmortizationSchedule } from '../../shared/amortization';
+
+export interface AssistantReply extends Omit<LoanApplicationResult, 'flow'> {
+  intent: Intent;
+  // Set when the message went through the loan flow or one is in progress
+  flow?: LoanApplicationFlow;
+}
+
+const formatRupees = (amount: string | number) =>
+  '₹' + Math.round(typeof amount === 'string' ? parseFloat(amount) : amount).toLocaleString('en-IN');
+
+// Voice replies are spoken, so they stay shorter
+const GENERAL_PROMPTS: Record<ConversationMode, { content: string; max_tokens: number }> = {
+  chat: {
+    content: `You are LoanWise AI, a helpful financial assistant for India. Keep responses SHORT and helpful. Be professional and friendly.
+
+If someone asks about loans, say: "I'd be happy to help you apply for a loan! What type of loan are you looking for - personal, home, or vehicle?"
+
+For other financial topics, provide brief helpful guidance relevant to Indian banking and finance. Always keep responses concise and actionable.`,
+    max_tokens: 150
+  },
+  voice: {
+    content: `You are LoanWise AI, a helpful financial assistant for India. Keep responses VERY SHORT (1-2 sentences max) and conversational. Be friendly and natural.
+
+If someone asks about loans, say: "I'd be happy to help you apply for a loan! What type of loan are you looking for - personal, home, or vehicle?"
+
+For other topics, provide brief helpful responses relevant to Indian financial context. Always keep it short and friendly.`,
+    max_tokens: 80
+  }
+};
+
+class AssistantRouter {
+  private static instance: AssistantRouter;
+  private conversationalAI: ConversationalAI;
+
+  constructor() {
+    this.conversationalAI = ConversationalAI.getInstance();
+  }
+
+  static getInstance(): AssistantRouter {
+    if (!AssistantRouter.instance) {
+      AssistantRouter.instance = new AssistantRouter();
+    }
+    return AssistantRouter.instance;
+  }
+
+  async handleMessage(conversationId: string, userInput: string, userId: string, mode: ConversationMode): Promise<AssistantReply> {
+    const flow = await loanApplicationService.findFlow(conversationId, userId, userInput);
+
+    // "yes" or "no" to a withdrawal the assistant asked about last turn
+    const pending = await applicationStatusTool.resolvePending(conversationId, userInput);
+    if (pending) {
+      return this.reply(conversationId, userInput, 'withdraw_application', pending, flow);
+    }
+
+    // Picking one of the offers quoted at terms review ("the shorter tenure")
+    // belongs to the loan flow even when it reads like another request
+    const offers = flow?.stage === 'terms_review' ? flow.calculatedTerms?.offers : undefined;
+    const { intent } = offers && parseOfferChoice(userInput, offers) !== null
+      ? { intent: 'apply' as const }
+      : await this.classify(userInput, loanApplicationService.isInProgress(flow));
+
+    if (intent === 'apply') {
+      const result = await loanApplicationService.processUserInput(conversationId, userInput, userId, mode);
+      return { ...result, intent };
+    }
+    if (intent === 'check_status') {
+      return this.reply(conversationId, userInput, intent, await applicationStatusTool.describeStatus(userId, userInput), flow);
+    }
+    if (intent === 'withdraw_application') {
+      return this.reply(conversationId, userInput, intent, await applicationStatusTool.requestWithdrawal(conversationId, userId, userInput), flow);
+    }
+
+    const response = await this.answer(intent, userInput, mode, flow);
+    return this.reply(conversationId, userInput, intent, { response }, flow);
+  }
+
+  private reply(conversationId: string, userInput: string, intent: Intent, reply: ToolReply, flow?: LoanApplicationFlow): AssistantReply {
+    // Keep the loan flow's memory complete in case the user applies next
+    this.conversationalAI.recordExchange(conversationId, userInput, reply.response);
+    return { ...reply, intent, flow };
+  }
+
+  private async classify(userInput: string, applicationInProgress: boolean): Promise<IntentClassification> {
+    const classification = classifyIntent(userInput, { applicationInProgress });
+    if (classification.confidence >= INTENT_MODEL_THRESHOLD) {
+      console.log('🧭 AssistantRouter: Intent:', classification);
+      return classification;
+    }
+
+    try {
+      const reply = await requestChatCompletion({
+        task: 'extraction',
+        messages: [
+          { role: 'system', content: INTENT_CLASSIFICATION_PROMPT },
+          { role: 'user', content: userInput }
+        ],
+        response_format: 'json',
+        max_tokens: 20,
+        temperature: 0
+      });
+      const intent = reply ? parseIntentReply(reply) : null;
+      if (intent) {
+        console.log('🧭 AssistantRouter: Intent from model:', intent);
+        return { intent, confidence: 0.7, source: 'model' };
+      }
+    } catch (error) {
+      console.warn('⚠️ AssistantRouter: Intent classification failed, using patterns:', error);
+    }
+
+    console.log('🧭 AssistantRouter: Intent:', classification);
+    return classification;
+  }
+
+  private async answer(intent: Exclude<Intent, 'apply' | 'check_status' | 'withdraw_application'>, userInput: string, mode: ConversationMode, flow?: LoanApplicationFlow): Promise<string> {
+    switch (intent) {
+      case 'eligibility':
+        return this.checkEligibility(userInput, flow);
+      case 'compare_products':
+        return this.compareProducts();
+      case 'emi_what_if':
+        return this.calculateWhatIf(userInput, flow);
+      default:
+        return this.generalAnswer(userInput, mode);
+    }
+  }
+
+  // Maximum amount for the income and score in the message, filling gaps from
+  // the application in progress
+  private checkEligibility(userInput: string, flow?: LoanApplicationFlow): string {
+    const question = parseEligibilityQuestion(userInput, loanProductCatalog);
+    const data = flow?.data;
+    const monthlyIncome = question.monthly_income ?? (data?.monthly_income ? parseFloat(data.monthly_income) : undefined);
+    const creditScore = question.credit_score ?? (data?.credit_score ? Number(data.credit_score) : undefined);
+    if (!monthlyIncome || !creditScore) {
+      return 'Eligibility depends mainly on your monthly income, existing EMIs and credit score. Tell me those and the type of loan, for example "how much home loan can I get on 80k a month with a 750 score and 10k EMIs?", and I\'ll work out the most you can borrow. The Eligibility page has the same calculator.';
+    }
+
+    const loanType = question.loan_type ?? data?.loan_type;
+    const result = policyRegistry.prequalify({
+      loan_type: loanType,
+      monthly_income: monthlyIncome,
+      existing_emis: question.existing_emis ?? (data?.existing_emis ? parseFloat(data.existing_emis) : undefined),
+      credit_card_dues: data?.credit_card_dues ? parseFloat(data.credit_card_dues) : undefined,
+      parties: data?.parties,
+      collateral: data?.collateral,
+      credit_score: creditScore,
+      employment_status: data?.employment_status
+    });
+    const product = loanType || 'loan';
+
+    if (!result.eligible) {
+      return `With that profile, a ${product} is unlikely to be approved yet:\n${result.reasons.map(reason => `• ${reason}`).join('\n')}\n\nA co-applicant's income or a better credit score can help.`;
+    }
+
+    const tenure = result.termRange.min === result.termRange.max
+      ? `${result.termRange.min} years`
+      : `${result.termRange.max} to ${result.termRange.min} years`;
+    const emi = result.emiRange.min === result.emiRange.max
+      ? formatRupees(result.emi)
+      : `${formatRupees(result.emiRange.min)} to ${formatRupees(result.emiRange.max)}`;
+    const requested = question.loan_amount ?? (data?.loan_amount ? parseFloat(data.loan_amount) : undefined);
+    const fits = requested
+      ? requested <= result.maxAmount
+        ? ` The ${formatRupees(requested)} you mentioned is within that.`
+        : ` The ${formatRupees(requested)} you mentioned is above that limit.`
+      : '';
+
+    return `You could borrow up to about ${formatRupees(result.maxAmount)} as a ${product} at around ${result.interestRate}%.${fits} The EMI would be ${emi} a month over ${tenure}, and approval chances look ${result.likelihood}. Would you like to apply?`;
+  }
+
+  private compareProducts(): string {
+    // Each product on offer, with the policy currently pricing it
+    const products = loanProductCatalog.active()
+      .map(product => ({ product, policy: policyRegistry.forLoanType(product.name) }))
+      .sort((a, b) => a.policy.pricing.baseRate - b.policy.pricing.baseRate);
+
+    const lines = products.map(({ product, policy }) =>
+      `• **${product.name}**: from ${product.min_rate}% (typically ${policy.pricing.baseRate}%), ${formatRupees(product.min_amount)} to ${formatRupees(product.max_amount)} over ${product.min_term_years}-${product.max_term_years} years`
+    );
+
+    return `Here's how our loans compare:\n${lines.join('\n')}\n\nYour actual rate depends on your credit score, income and the loan amount. Would you like to apply for one of these?`;
+  }
+
+  // EMI for the amount, rate and tenure mentioned, filling gaps from the
+  // application in progress or the policy for its loan type
+  private calculateWhatIf(userInput: string, flow?: LoanApplicationFlow): string {
+    const scenario = parseWhatIf(userInput);
+    const principal = scenario.principal ?? (flow?.data.loan_amount ? parseFloat(flow.data.loan_amount) : undefined);
+    if (!principal) {
+      return 'Tell me the loan amount and I\'ll work out the EMI, for example "EMI for 10 lakh over 5 years at 10%".';
+    }
+
+    const policy = policyRegistry.forLoanType(flow?.data.loan_type);
+    const quoted = flow?.calculatedTerms;
+    const annualRate = scenario.annualRate ?? (quoted ? parseFloat(quoted.interestRate) : policy.pricing.baseRate);
+    const termMonths = scenario.termMonths ?? (quoted ? quoted.loanTerm : policy.term.defaultYears) * 12;
+
+    const schedule = generateAmortizationSchedule({ principal, annualRate, termMonths });
+    const tenure = termMonths % 12 === 0 ? `${termMonths / 12} years` : `${termMonths} months`;
+    const assumed = scenario.annualRate === undefined
+      ? ` (${quoted ? 'your quoted rate' : `the typical ${policy.name.replace(/ Policy$/, '')} rate`})`
+      : '';
+
+    return `For ${formatRupees(principal)} at ${annualRate}%${assumed} over ${tenure}, the EMI is about ${formatRupees(schedule.emi)} a month. You'd pay ${formatRupees(schedule.totalInterest)} in interest, ${formatRupees(schedule.totalPayment)} in total.`;
+  }
+
+  private async generalAnswer(userInput: string, mode: ConversationMode): Promise<string> {
+    const prompt = GENERAL_PROMPTS[mode];
+    const response = await requestChatCompletion({
+      messages: [
+        { role: 'system', content: prompt.content },
+        { role: 'user', content: userInput }
+      ],
+      max_tokens: prompt.max_tokens,
+      temperature: 0.7,
+    });
+    return response || "I'm not sure about that one. I can help you apply for a loan, check an application or work out an EMI.";
+  }
+}
+
+export default AssistantRouter.getInstance();
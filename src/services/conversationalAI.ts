@@ -1,10 +1,36 @@
 import { LoanApplicationFlow } from './loanApplicationService';
+import { requestChatCompletion } from './apiClient';
+import { loanProductCatalog } from './loanProducts';
+import type { LlmMessage, LoanApplicationData } from '../../shared/types';
+import {
+  EXTRACTION_RESPONSE_FORMAT,
+  EXTRACTION_FIELDS,
+  extractedValues,
+  mergeExtractions,
+  parseExtraction,
+  type ExtractedFields,
+  type ExtractionField
+} from '../../shared/extraction';
+import { findAmounts, toMonthly } from '../../shared/indianNumbers';
+import { isObligationField, readObligations } from '../../shared/obligations';
 
 interface ConversationMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
 }
 
+// Corrected replies to ask for when the model's JSON fails validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Confidence for amounts the currency heuristics rewrote after the model replied
+const HEURISTIC_CONFIDENCE = 0.7;
+
+// Bare 1-2 digit amounts ("income is 2") are usually lakhs
+const assumeLakhs = (amount: number): number => (amount < 100 ? amount * 100000 : amount);
+
+// A value read by the pattern extractor
+const found = <T>(value: T, confidence: number) => ({ value, confidence, source: 'pattern' as const });
+
 class ConversationalAI {
   private static instance: ConversationalAI;
   private conversationHistory: Map<string, ConversationMessage[]> = new Map();
@@ -16,16 +42,52 @@ class ConversationalAI {
     return ConversationalAI.instance;
   }
 
+  // One line per product on offer, so the model names loan types the way the
+  // catalog does
+  private describeProducts(): string {
+    const format = (value: number) => '₹' + Math.round(value).toLocaleString('en-IN');
+    return loanProductCatalog.active().map(product => {
+      const synonyms = product.synonyms.length > 0 ? ` (also called: ${product.synonyms.join(', ')})` : '';
+      return `- ${product.name}${synonyms}: ${format(product.min_amount)} to ${format(product.max_amount)} over ${product.min_term_years}-${product.max_term_years} years, ${product.min_rate}%-${product.max_rate}% a year`;
+    }).join('\n');
+  }
+
+  // Extraction examples from the catalog: "car loan" -> Vehicle Loan
+  private loanTypeExamples(prefix: string): string {
+    return loanProductCatalog.active().flatMap(product =>
+      [product.name, ...product.synonyms.slice(0, 2)].map(name =>
+        `${prefix}"${name.toLowerCase()}" → {"loan_type": {"value": "${product.name}", "confidence": 0.95}}`)
+    ).join('\n');
+  }
+
   private getSystemPrompt(): string {
     return `You are LoanWise AI, a professional loan advisor with HUMAN-LEVEL INTELLIGENCE and PERFECT MEMORY. Your job is to have natural conversations while intelligently extracting loan application information.
 
 MANDATORY FIELDS TO COLLECT:
-1. loan_type (ANY type of loan - Personal, Business, Vehicle, Home, Education, Agriculture, Gold, Travel, Medical, Wedding, Emergency, etc.)
+1. loan_type (one of the LOAN PRODUCTS below, using its exact name)
 2. applicant_name (full name)
 3. monthly_income (number only)
 4. loan_amount (number only)
 5. employment_status (job/employment type)
 6. credit_score (IMPORTANT: Required for loan processing - ask if not provided)
+7. existing_emis (total monthly EMIs on other loans, 0 if none)
+8. credit_card_dues (outstanding credit card balance, 0 if none)
+9. dependents (people who depend on the applicant financially, 0 if none)
+
+LOAN PRODUCTS:
+${this.describeProducts()}
+- Any other purpose (travel, a wedding, medical bills) is a Personal Loan unless a product above fits better
+- Quote amounts, tenures and rates only within these ranges
+
+CO-APPLICANTS AND GUARANTORS (optional):
+- A co-applicant's income counts towards eligibility; a guarantor backs the loan
+- For home and business loans, or when the income looks low for the amount, mention that the user can say "add a co-applicant" or "add a guarantor"
+- Their details are collected separately; never put them in the applicant's fields
+
+COLLATERAL:
+- Gold and vehicle loans are secured: once the fields above are collected, the collateral questions (what is pledged and what it is worth) are asked separately
+- The collateral's value is NOT the loan amount or income; never put it in the applicant's fields
+- For home loans the user can say "I'll pledge the flat" to record the property's value; a lower loan-to-value ratio can mean a better rate
 
 MEMORY AND CONTEXT RULES:
 - You have PERFECT MEMORY of this entire conversation
@@ -43,13 +105,7 @@ CREDIT SCORE HANDLING:
 HUMAN INTELLIGENCE RULES:
 - ALWAYS respond in ENGLISH only - no Hindi or other languages
 - Use SMART INFERENCE and CONTEXT UNDERSTANDING like a human would
-- If someone mentions "restaurant", "shop", "business", "company" - AUTOMATICALLY infer Business Loan
-- If someone mentions "car", "bike", "vehicle" - AUTOMATICALLY infer Vehicle Loan
-- If someone mentions "house", "home", "property" - AUTOMATICALLY infer Home Loan
-- If someone mentions "travel", "trip", "vacation" - AUTOMATICALLY infer Travel Loan
-- If someone mentions "medical", "hospital", "treatment" - AUTOMATICALLY infer Medical Loan
-- If someone mentions "wedding", "marriage", "shaadi" - AUTOMATICALLY infer Wedding Loan
-- If someone mentions "education", "college", "study" - AUTOMATICALLY infer Education Loan
+- AUTOMATICALLY infer the loan product from context - a restaurant, shop or company means a business, a car or bike a vehicle, a house or flat a home, college or study an education - and use that product's name from LOAN PRODUCTS
 - If someone says "employed" or mentions a job/company - extract employment_status as "Private" or "Government" based on context
 - If someone says they work in "IT company" - employment_status is "Private"
 - NEVER ask redundant questions - if context clearly provides information, extract it and move on
@@ -61,7 +117,7 @@ Remember: This is a continuous conversation. Use ALL previous context to avoid r
 
   async chat(conversationId: string, userMessage: string, loanFlow?: LoanApplicationFlow): Promise<{
     response: string;
-    extractedInfo?: Partial<LoanApplicationFlow['data']>;
+    extractedInfo?: ExtractedFields;
     shouldStartApplication?: boolean;
     applicationComplete?: boolean;
   }> {
@@ -108,19 +164,21 @@ Remember: This is a continuous conversation. Use ALL previous context to avoid r
   }  // AI-powered response that extracts info and generates natural responses
   private async getSmartResponse(conversationId: string, userMessage: string, loanFlow?: LoanApplicationFlow): Promise<{
     response: string;
-    extractedInfo?: Partial<LoanApplicationFlow['data']>;
+    extractedInfo?: ExtractedFields;
     shouldStartApplication?: boolean;
     applicationComplete?: boolean;
   }> {
     // Extract information using AI with conversation context
     const extractedInfo = await this.extractInformationWithAI(conversationId, userMessage, loanFlow);
 
+    const extractedData = extractedValues(extractedInfo);
+
     // Generate response using AI with conversation context
-    const response = await this.generateResponseWithAI(conversationId, userMessage, loanFlow, extractedInfo);
+    const response = await this.generateResponseWithAI(conversationId, userMessage, loanFlow, extractedData);
 
     // Check if we should start application or if it's complete
     const shouldStartApplication = !!(extractedInfo.loan_type || extractedInfo.applicant_name);
-    const applicationComplete = this.isApplicationComplete(loanFlow?.data, extractedInfo);
+    const applicationComplete = this.isApplicationComplete(loanFlow?.data, extractedData);
 
     return {
       response,
@@ -130,53 +188,55 @@ Remember: This is a continuous conversation. Use ALL previous context to avoid r
     };
   }
 
-  // AI-powered information extraction
-  private async extractInformationWithAI(conversationId: string, userMessage: string, loanFlow?: LoanApplicationFlow): Promise<Partial<LoanApplicationFlow['data']>> {
+  // Runs the patterns and the model on every message and reconciles them field
+  // by field (see FIELD_PRECEDENCE), so "I'm Priya, a teacher, earning 60000"
+  // keeps the income from the patterns and the name and job from the model
+  private async extractInformationWithAI(conversationId: string, userMessage: string, loanFlow?: LoanApplicationFlow): Promise<ExtractedFields> {
     const currentData = loanFlow?.data || {};
 
     console.log('🔍 Extracting from message:', userMessage);
     console.log('🔍 Current data:', currentData);
 
-    // Use simple pattern matching first (more reliable)
-    const extracted = this.extractInformationWithPatterns(userMessage);
-
-    console.log('🔍 Pattern extraction result:', extracted);
+    const next = loanProductCatalog.nextQuestion(currentData);
+    const patternExtracted = this.extractInformationWithPatterns(userMessage, next?.type === 'field' ? next.field : undefined);
+    console.log('🔍 Pattern extraction result:', patternExtracted);
 
-    // Only use AI if pattern matching didn't find anything
-    if (Object.keys(extracted).length === 0) {
-      try {
-        const aiExtracted = await this.extractWithAI(conversationId, userMessage, currentData);
-        console.log('🔍 AI extraction result:', aiExtracted);
-        return aiExtracted;
-      } catch (error) {
-        console.error('AI extraction failed, using pattern result:', error);
-        return extracted;
-      }
+    let aiExtracted: ExtractedFields = {};
+    try {
+      aiExtracted = await this.extractWithAI(conversationId, userMessage, currentData);
+      console.log('🔍 AI extraction result:', aiExtracted);
+    } catch (error) {
+      console.error('AI extraction failed, using pattern result:', error);
     }
 
-    return extracted;
+    const { fields, disagreements } = mergeExtractions(patternExtracted, aiExtracted);
+    // Structured so the logs can be collected to tune the patterns and prompt
+    disagreements.forEach(disagreement => {
+      console.warn('⚖️ Extraction disagreement:', JSON.stringify({ conversationId, message: userMessage, ...disagreement }));
+    });
+
+    console.log('🔍 Merged extraction result:', Object.entries(fields).map(([field, extracted]) => `${field}=${extracted.value} (${extracted.source})`).join(', '));
+    return fields;
   }
 
-  // Simple pattern-based extraction (more reliable)
-  private extractInformationWithPatterns(message: string): Partial<LoanApplicationFlow['data']> {
-    const result: any = {};
+  // Simple pattern-based extraction (more reliable). `expectedField` is the
+  // field the last question asked for, so bare numbers can be read in context.
+  private extractInformationWithPatterns(message: string, expectedField?: ExtractionField): ExtractedFields {
+    const result: ExtractedFields = {};
     const lowerMessage = message.toLowerCase();
 
-    // Extract loan type
-    if (lowerMessage.includes('business loan')) result.loan_type = 'Business Loan';
-    else if (lowerMessage.includes('education loan')) result.loan_type = 'Education Loan';
-    else if (lowerMessage.includes('vehicle loan') || lowerMessage.includes('car loan') || lowerMessage.includes('bike loan')) result.loan_type = 'Vehicle Loan';
-    else if (lowerMessage.includes('home loan') || lowerMessage.includes('house loan')) result.loan_type = 'Home Loan';
-    else if (lowerMessage.includes('personal loan')) result.loan_type = 'Personal Loan';
+    // Loan type: any name or synonym in the product catalog
+    const product = loanProductCatalog.match(message);
+    if (product) result.loan_type = found(product.name, 0.95);
 
     // Extract name - be more careful about patterns
     const namePatterns = [
-      /(?:my (?:full )?name is)\s+([a-zA-Z\s]+)/i,
-      /(?:i am|call me)\s+([A-Z][a-zA-Z\s]+)(?:\s+and\s+|[^a-zA-Z]|$)/i,  // Only match when followed by capitalized name
-      /name:\s*([a-zA-Z\s]+)/i,
+      { pattern: /(?:my (?:full )?name is)\s+([a-zA-Z\s]+)/i, confidence: 0.9 },
+      { pattern: /(?:i am|call me)\s+([A-Z][a-zA-Z\s]+)(?:\s+and\s+|[^a-zA-Z]|$)/i, confidence: 0.8 },  // Only match when followed by capitalized name
+      { pattern: /name:\s*([a-zA-Z\s]+)/i, confidence: 0.9 },
       // Avoid matching "I am looking" or "I am working" type phrases
     ];
-    for (const pattern of namePatterns) {
+    for (const { pattern, confidence } of namePatterns) {
       const match = message.match(pattern);
       if (match) {
         const extractedName = match[1].trim();
@@ -185,126 +245,113 @@ Remember: This is a continuous conversation. Use ALL previous context to avoid r
         const hasLoanWords = loanRelatedWords.some(word => extractedName.toLowerCase().includes(word));
 
         if (!hasLoanWords && extractedName.length > 1) {
-          result.applicant_name = extractedName;
+          result.applicant_name = found(extractedName, confidence);
           break;
         }
       }
     }
 
-  // Extract income - handle various formats
-    const incomePatterns = [
-      /(?:income|salary|earn)(?:\s+is)?\s+(\d+(?:\.\d+)?)\s*(?:lakh|lakhs)/i,
-      /(?:income|salary|earn)(?:\s+is)?\s+(\d+(?:\.\d+)?)\s*(?:crore|crores)/i,
-      /(?:income|salary|earn)(?:\s+is)?\s+(\d{4,})/i,  // 4+ digits assume exact amount
-      /(?:income|salary|earn)(?:\s+is)?\s+(\d{1,3})$/i,  // 1-3 digits assume lakhs
-      /^\s*(?:yeah\s+)?(\d{4,})\s*$/i,  // Standalone numbers (when user just answers with a number)
-      /^\s*(?:yes\s+)?(\d{4,})\s*$/i   // Another variation
-    ];
+    // Existing EMIs, card dues and dependents first, so the amounts they were
+    // read from aren't taken for the income or the loan as well
+    const obligations = readObligations(message, expectedField);
+    if (obligations.answers.existing_emis !== undefined) result.existing_emis = found(obligations.answers.existing_emis, 0.85);
+    if (obligations.answers.credit_card_dues !== undefined) result.credit_card_dues = found(obligations.answers.credit_card_dues, 0.85);
+    if (obligations.answers.dependents !== undefined) result.dependents = found(obligations.answers.dependents, 0.85);
 
-    for (const pattern of incomePatterns) {
-      const match = message.match(pattern);
-      if (match) {
-        const num = parseFloat(match[1]);
-        if (pattern.source.includes('lakh')) {
-          result.monthly_income = (num * 100000).toString();
-        } else if (pattern.source.includes('crore')) {
-          result.monthly_income = (num * 10000000).toString();
-        } else if (num >= 1000) {
-          result.monthly_income = num.toString();
-        } else {
-          // Small number, assume lakhs
-          result.monthly_income = (num * 100000).toString();
-        }
-        break;
-      }
-    }
-
-    // Extract loan amount - be careful not to misread monthly income as loan amount
+    // Amounts come from the shared parser; the words around each one decide
+    // whether it is the income or the loan
+    const amounts = findAmounts(message).filter(amount => !obligations.amounts.some(used => used.start === amount.start));
     const hasIncomeContext = /income|salary|per\s*month|monthly/.test(lowerMessage);
-    const explicitLoanContext = /(\bloan\b|\bamount\b|\bloan amount\b|\bneed\b|\bwant\b|looking for|borrow|fund|funding)/.test(lowerMessage);
-
-    // Strong loan amount patterns (lakh/crore or explicit loan-related phrasing)
-    const amountPatternsStrong = [
-      /(\d+(?:\.\d+)?)\s*(?:lacs?|lakhs?)/i,  // Handle both "lacs" and "lakhs"
-      /(\d+(?:\.\d+)?)\s*(?:crores?)/i,       // Handle "crore" and "crores"
-      /(?:loan|amount|need|want|looking for)(?:\s+(?:amount|of))?(?:\s+is)?(?:\s+around)?(?:\s+rupees)?(?:\s+of)?\s+(\d{4,})/i,
-      /(?:for|about|around|approximately)\s+(\d{4,})\s*(?:of\s+)?(?:loan|amount|rupees)?/i, // "for 600000 of loan amount"
-      /(\d{4,})\s+(?:of\s+)?(?:loan|amount|rupees)/i, // "600000 of loan amount"
-      /(?:around|approximately|about)\s+(\d+)/i
-    ];
-
-    // Only attempt to extract loan amount if:
-    // - The message explicitly talks about a loan/amount, OR
-    // - There's no income context and we didn't just extract monthly_income
-    if (explicitLoanContext || (!hasIncomeContext && !result.monthly_income)) {
-      let matchedAmount = false;
-      for (const pattern of amountPatternsStrong) {
-        const match = message.match(pattern);
-        if (match) {
-          console.log(`🔍 Loan amount pattern matched: ${pattern.source} -> ${match[1]}`);
-          const num = parseFloat(match[1]);
-          if (pattern.source.includes('lacs?|lakhs?')) {
-            result.loan_amount = (num * 100000).toString();
-          } else if (pattern.source.includes('crores?')) {
-            result.loan_amount = (num * 10000000).toString();
-          } else {
-            result.loan_amount = num.toString();
-          }
-          console.log(`🔍 Extracted loan amount: ${result.loan_amount}`);
-          matchedAmount = true;
-          break;
-        }
+    const incomeBefore = /(income|salary|earn\w*|make|ctc|package|take[- ]home)\b\D*$/;
+    const loanBefore = /(\bloan\b|\bamount\b|\bneed\b|\bwant\b|looking for|borrow|fund\w*|\bfor\b|about|around|approximately)\D*$/;
+    const loanAfter = /^\s*(?:of\s+)?(?:loan|amount)/;
+    const only = amounts.length === 1 ? amounts[0] : null;
+    // Bare numbers answering an obligations question were read above
+    const standalone = only !== null && !isObligationField(expectedField) &&
+      /^\s*(?:(?:yes|yeah|it's|its|around|about)\s+)?$/i.test(message.slice(0, only.start)) &&
+      message.slice(only.end).trim() === '';
+
+    if (standalone && only) {
+      // A bare amount answers whichever question we just asked
+      const value = only.ambiguous ? assumeLakhs(only.amount) : only.amount;
+      const confidence = only.ambiguous ? 0.5 : 0.85;
+      if (expectedField === 'loan_amount') {
+        result.loan_amount = found(String(value), confidence);
+      } else if (expectedField === 'monthly_income') {
+        result.monthly_income = found(String(toMonthly({ amount: value, period: only.period })), confidence);
+      } else if (!only.ambiguous && only.period) {
+        result.monthly_income = found(String(toMonthly(only)), 0.7);
+      } else if (!only.ambiguous && only.scale && only.scale !== 'thousand') {
+        result.loan_amount = found(String(only.amount), 0.7);
+      } else if (!only.ambiguous) {
+        result.monthly_income = found(String(toMonthly(only)), 0.6);
       }
-
-      // As a last resort, allow standalone 5+ digit numbers ONLY when there's explicit loan context
-      if (!matchedAmount && explicitLoanContext) {
-        const fallback = message.match(/^\s*(\d{5,})\s*$/i);
-        if (fallback) {
-          const num = parseFloat(fallback[1]);
-          result.loan_amount = num.toString();
-          console.log(`🔍 Extracted loan amount from fallback (explicit context): ${result.loan_amount}`);
+    } else {
+      for (const amount of amounts) {
+        const before = lowerMessage.slice(Math.max(0, amount.start - 30), amount.start);
+        const after = lowerMessage.slice(amount.end, amount.end + 20);
+
+        if (!result.monthly_income && (incomeBefore.test(before) || (amount.period && !loanBefore.test(before)))) {
+          // "income is 2" probably means lakhs, but the user confirms it
+          result.monthly_income = amount.ambiguous
+            ? found(String(assumeLakhs(amount.amount)), 0.5)
+            : found(String(toMonthly(amount)), amount.period === 'year' ? 0.85 : 0.9);
+        } else if (!result.loan_amount && (loanBefore.test(before) || loanAfter.test(after))) {
+          result.loan_amount = amount.ambiguous
+            ? found(String(assumeLakhs(amount.amount)), 0.5)
+            : found(String(amount.amount), 0.9);
+        } else if (!result.loan_amount && !amount.ambiguous && amount.scale && !hasIncomeContext) {
+          // "25 lakhs" with nothing else to go on is almost always the loan
+          result.loan_amount = found(String(amount.amount), 0.85);
         }
       }
     }
+    if (result.loan_amount) console.log(`🔍 Extracted loan amount: ${result.loan_amount.value}`);
 
     // Extract employment status
     if (lowerMessage.includes('employed') && !lowerMessage.includes('unemployed')) {
-      result.employment_status = 'Employed';
+      result.employment_status = found('Employed', 0.85);
     } else if (lowerMessage.includes('self-employed') || lowerMessage.includes('business owner')) {
-      result.employment_status = 'Self-employed';
+      result.employment_status = found('Self-employed', 0.85);
     } else if (lowerMessage.includes('student')) {
-      result.employment_status = 'Student';
+      result.employment_status = found('Student', 0.85);
     }
 
     // Extract credit score
+    const standaloneScoreConfidence = expectedField === 'credit_score' ? 0.85 : 0.6;
     const creditPatterns = [
-      /(?:credit score|cibil score|score)(?:\s+is)?\s+(\d{3})/i,
-      /^\s*(?:it's\s+)?(\d{3})\s*$/i,  // Standalone 3-digit numbers
-      /^\s*(\d{3})\s*$/i               // Just the number
+      { pattern: /(?:credit score|cibil score|score)(?:\s+is)?\s+(\d{1,4})\b/i, confidence: 0.95, labelled: true },
+      // A bare 3-digit number, unless we just asked about obligations
+      ...(isObligationField(expectedField) ? [] : [
+        { pattern: /^\s*(?:it's\s+)?(\d{3})\s*$/i, confidence: standaloneScoreConfidence, labelled: false },  // Standalone 3-digit numbers
+        { pattern: /^\s*(\d{3})\s*$/i, confidence: standaloneScoreConfidence, labelled: false }               // Just the number
+      ])
     ];
 
-    for (const pattern of creditPatterns) {
+    for (const { pattern, confidence, labelled } of creditPatterns) {
       const creditMatch = message.match(pattern);
       if (creditMatch) {
-        result.credit_score = parseInt(creditMatch[1]);
+        const score = parseInt(creditMatch[1]);
+        // A bare number outside 300-900 is some other number; a labelled one is
+        // kept so validation can say what's wrong with it
+        if (labelled || (score >= 300 && score <= 900)) {
+          result.credit_score = found(score, confidence);
+        }
         break;
       }
     }
 
-    // Extract terms acceptance/rejection
-    if (lowerMessage.match(/^(yes|yeah|yep|accept|approve|proceed|ok|okay|sounds good|looks good|agree)$/i)) {
-      result.terms_accepted = true;
-    } else if (lowerMessage.match(/^(no|nope|reject|decline|cancel|not interested)$/i)) {
-      result.terms_rejected = true;
-    }
-
     return result;
   }
 
-  // Fallback AI extraction
-  private async extractWithAI(conversationId: string, userMessage: string, existingData: any): Promise<any> {
+  // Fallback AI extraction. Asks for JSON mode, validates the reply against the
+  // shared schema and sends validation errors back for a corrected reply.
+  private async extractWithAI(conversationId: string, userMessage: string, existingData: LoanApplicationData): Promise<ExtractedFields> {
     const conversationHistory = this.conversationHistory.get(conversationId) || [];
 
+    // Only the collected values; the revision history would just cost tokens
+    const collected = Object.fromEntries(EXTRACTION_FIELDS.filter(field => existingData[field] != null).map(field => [field, existingData[field]]));
+
     // First, preprocess the message for Indian currency terms (backup conversion)
     const preprocessedMessage = this.preprocessIndianCurrency(userMessage);
 
@@ -312,7 +359,7 @@ Remember: This is a continuous conversation. Use ALL previous context to avoid r
     const extractionPrompt = `Extract loan information from this message: "${preprocessedMessage}"
 
 CURRENT DATA ALREADY COLLECTED:
-${JSON.stringify(existingData, null, 2)}
+${JSON.stringify(collected, null, 2)}
 
 CONVERSATION HISTORY (for context):
 ${conversationHistory.slice(-8).map(msg => `${msg.role}: ${msg.content}`).join('\n')}
@@ -330,109 +377,106 @@ INDIAN CURRENCY CONVERSION (VERY IMPORTANT):
 - Convert lakhs/crores to actual rupee amounts
 
 CURRENCY EXTRACTION EXAMPLES:
-✅ "30 lakhs" → {"loan_amount": "3000000"} (30 × 100000)
-✅ "5 crores" → {"loan_amount": "50000000"} (5 × 10000000)
-✅ "2.5 lakhs" → {"loan_amount": "250000"} (2.5 × 100000)
-✅ "50000 rupees" → {"loan_amount": "50000"}
-✅ "1.5 crore" → {"loan_amount": "15000000"} (1.5 × 10000000)
-✅ "45000 per month" → {"monthly_income": "45000"}
-✅ "2 lakh monthly" → {"monthly_income": "200000"}
+✅ "30 lakhs" → {"loan_amount": {"value": 3000000, "confidence": 0.95}} (30 × 100000)
+✅ "5 crores" → {"loan_amount": {"value": 50000000, "confidence": 0.95}} (5 × 10000000)
+✅ "2.5 lakhs" → {"loan_amount": {"value": 250000, "confidence": 0.95}} (2.5 × 100000)
+✅ "50000 rupees" → {"loan_amount": {"value": 50000, "confidence": 0.95}}
+✅ "1.5 crore" → {"loan_amount": {"value": 15000000, "confidence": 0.95}} (1.5 × 10000000)
+✅ "45000 per month" → {"monthly_income": {"value": 45000, "confidence": 0.95}}
+✅ "2 lakh monthly" → {"monthly_income": {"value": 200000, "confidence": 0.95}}
 
 OTHER EXTRACTION EXAMPLES:
-✅ "education loan" → {"loan_type": "Education Loan"}
-✅ "vehicle loan" → {"loan_type": "Vehicle Loan"}
-✅ "car loan" → {"loan_type": "Vehicle Loan"}
-✅ "bike loan" → {"loan_type": "Vehicle Loan"}
-✅ "business loan" → {"loan_type": "Business Loan"}
-✅ "home loan" → {"loan_type": "Home Loan"}
-✅ "personal loan" → {"loan_type": "Personal Loan"}
-✅ "Max Verstappen" → {"applicant_name": "Max Verstappen"}
-✅ "Gabriel Jackson" → {"applicant_name": "Gabriel Jackson"}
-✅ "my name is John Doe" → {"applicant_name": "John Doe"}
-✅ "I am John Smith" → {"applicant_name": "John Smith"}
-✅ "my full name is Gabriel Jackson" → {"applicant_name": "Gabriel Jackson"}
-✅ "call me Alex" → {"applicant_name": "Alex"}
-✅ "I am employed" → {"employment_status": "Employed"}
-✅ "currently employed" → {"employment_status": "Employed"}
-✅ "self-employed" → {"employment_status": "Self-employed"}
-✅ "student" → {"employment_status": "Student"}
+${this.loanTypeExamples('✅ ')}
+✅ "Max Verstappen" → {"applicant_name": {"value": "Max Verstappen", "confidence": 0.95}}
+✅ "Gabriel Jackson" → {"applicant_name": {"value": "Gabriel Jackson", "confidence": 0.95}}
+✅ "my name is John Doe" → {"applicant_name": {"value": "John Doe", "confidence": 0.95}}
+✅ "I am John Smith" → {"applicant_name": {"value": "John Smith", "confidence": 0.95}}
+✅ "my full name is Gabriel Jackson" → {"applicant_name": {"value": "Gabriel Jackson", "confidence": 0.95}}
+✅ "call me Alex" → {"applicant_name": {"value": "Alex", "confidence": 0.95}}
+✅ "I am employed" → {"employment_status": {"value": "Employed", "confidence": 0.95}}
+✅ "currently employed" → {"employment_status": {"value": "Employed", "confidence": 0.95}}
+✅ "self-employed" → {"employment_status": {"value": "Self-employed", "confidence": 0.95}}
+✅ "student" → {"employment_status": {"value": "Student", "confidence": 0.95}}
+✅ "I pay 12000 a month for my car loan" → {"existing_emis": {"value": 12000, "confidence": 0.9}}
+✅ "no other loans" → {"existing_emis": {"value": 0, "confidence": 0.9}}
+✅ "about 40k outstanding on my credit card" → {"credit_card_dues": {"value": 40000, "confidence": 0.9}}
+✅ "my wife and two kids depend on me" → {"dependents": {"value": 3, "confidence": 0.85}}
 
 SPECIAL INCOME HANDLING:
-✅ "monthly income is 2" → {"monthly_income": "200000"} (assume 2 lakhs)
-✅ "income is 3" → {"monthly_income": "300000"} (assume 3 lakhs)
-✅ "salary is 5" → {"monthly_income": "500000"} (assume 5 lakhs)
-✅ "I earn 4" → {"monthly_income": "400000"} (assume 4 lakhs)
+✅ "monthly income is 2" → {"monthly_income": {"value": 200000, "confidence": 0.6}} (assume 2 lakhs)
+✅ "income is 3" → {"monthly_income": {"value": 300000, "confidence": 0.6}} (assume 3 lakhs)
+✅ "salary is 5" → {"monthly_income": {"value": 500000, "confidence": 0.6}} (assume 5 lakhs)
+✅ "I earn 4" → {"monthly_income": {"value": 400000, "confidence": 0.6}} (assume 4 lakhs)
 
 ❌ "I want a loan" → {} (NO loan_type - not specific enough)
 ❌ "apply for loan" → {} (NO loan_type - not specific enough)
 ❌ "need money" → {} (NO loan_type - not specific enough)
 
-Only extract what is EXPLICITLY stated. Convert lakhs/crores to rupees. Return ONLY valid JSON:`;
+Only extract what is EXPLICITLY stated. Convert lakhs/crores to rupees.
 
-    try {
-      const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_GROQ_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'llama-3.1-8b-instant',
-          messages: [
-            { role: 'system', content: `You are a conservative information extractor with expertise in Indian currency. Only extract information that is EXPLICITLY stated.
+${EXTRACTION_RESPONSE_FORMAT}`;
+
+    const messages: LlmMessage[] = [
+      { role: 'system', content: `You are a conservative information extractor with expertise in Indian currency. Only extract information that is EXPLICITLY stated.
 
 CONVERSATION CONTEXT:
 ${conversationHistory.slice(-6).map(msg => `${msg.role}: ${msg.content}`).join('\n')}
 
-Current data: ${JSON.stringify(existingData)}
+Current data: ${JSON.stringify(collected)}
 
 STRICT RULES:
 - Extract ONLY explicit information from the latest user message
 - CAREFULLY extract loan_type when mentioned (e.g. "vehicle loan", "car loan", "education loan", "home loan")
 - Convert Indian currency terms: 1 lakh = 100000, 1 crore = 10000000
 - For single digit income (e.g. "income is 2"), assume lakhs: 2 = 200000
+- monthly_income is per month: divide annual figures (per annum, LPA, CTC) by 12
 - Return valid JSON only
 - When in doubt, extract nothing
 
 LOAN TYPE EXAMPLES:
-- "vehicle loan" → {"loan_type": "Vehicle Loan"}
-- "car loan" → {"loan_type": "Vehicle Loan"}
-- "education loan" → {"loan_type": "Education Loan"}
-- "business loan" → {"loan_type": "Business Loan"}` },
-            { role: 'user', content: extractionPrompt }
-          ],
+${this.loanTypeExamples('- ')}` },
+      { role: 'user', content: extractionPrompt }
+    ];
+
+    try {
+      for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        const extractedContent = await requestChatCompletion({
+          task: 'extraction',
+          messages,
           temperature: 0.1,
-          max_tokens: 200
-        }),
-      });
+          max_tokens: 300,
+          response_format: 'json'
+        });
 
-      if (!response.ok) {
-        throw new Error('Failed to extract information');
-      }
+        const extractedText = extractedContent?.trim() || '{}';
+        const parsed = parseExtraction(extractedText);
 
-      const data = await response.json();
-      const extractedText = data.choices[0]?.message?.content?.trim() || '{}';
+        if (parsed.success) {
+          console.log('🔍 Extracted from message:', parsed.fields);
+          console.log('🔍 Current data before merge:', existingData);
 
-      try {
-        const extracted = JSON.parse(extractedText);
-        console.log('🔍 Extracted from message:', extracted);
-        console.log('🔍 Current data before merge:', existingData);
+          // Post-process extracted data to ensure currency conversion
+          const processedExtracted = this.postProcessExtractedData(parsed.fields, userMessage);
+          console.log('🔍 Post-processed extracted data:', processedExtracted);
 
-        // Post-process extracted data to ensure currency conversion
-        const processedExtracted = this.postProcessExtractedData(extracted, userMessage);
-        console.log('🔍 Post-processed extracted data:', processedExtracted);
+          return processedExtracted;
+        }
 
-        return processedExtracted;
-      } catch {
-        console.log('⚠️ Failed to parse extracted JSON:', extractedText);
-        return {};
+        console.log(`⚠️ Extraction reply failed validation (attempt ${attempt + 1}):`, parsed.error);
+        messages.push(
+          { role: 'assistant', content: extractedText },
+          { role: 'user', content: `${parsed.error} Reply again with only the corrected JSON object.` }
+        );
       }
+
+      console.log('⚠️ Giving up on AI extraction after', MAX_REPAIR_ATTEMPTS, 'repair attempts');
+      return {};
     } catch (error) {
       console.error('AI extraction error:', error);
       return {};
     }
   }  // AI-powered response generation
-  private async generateResponseWithAI(conversationId: string, userMessage: string, loanFlow?: LoanApplicationFlow, extractedInfo?: any): Promise<string> {
+  private async generateResponseWithAI(conversationId: string, userMessage: string, loanFlow?: LoanApplicationFlow, extractedInfo?: Partial<LoanApplicationData>): Promise<string> {
     // Merge current data with newly extracted info properly
     const baseData = loanFlow?.data || {};
     const mergedData = { ...baseData, ...extractedInfo };
@@ -441,61 +485,54 @@ LOAN TYPE EXAMPLES:
     console.log('🔍 Response generation - Extracted info:', extractedInfo);
     console.log('🔍 Response generation - Merged data:', mergedData);
 
-    // Determine what information is missing from the merged data
-    const missingFields = [];
-    if (!mergedData.loan_type) missingFields.push("loan type");
-    if (!mergedData.applicant_name) missingFields.push("applicant name");
-    if (!mergedData.monthly_income) missingFields.push("monthly income");
-    if (!mergedData.loan_amount) missingFields.push("loan amount");
-    if (!mergedData.employment_status) missingFields.push("employment status");
-    if (!mergedData.credit_score) missingFields.push("credit score");
-
-    console.log('🔍 Missing fields after merge:', missingFields);
-
-    const nextField = missingFields[0]; // Get the next missing field
+    // The product's question graph decides what to ask next
+    const next = loanProductCatalog.nextQuestion(mergedData);
+    console.log('🔍 Next question after merge:', next?.type === 'detail' ? next.question.id : next?.field);
 
     // Use deterministic response generation
-    if (!nextField) {
+    if (!next) {
       // Check if we're in terms review stage
       if (loanFlow?.stage === 'terms_review') {
         return "Perfect! I have all the information needed. Let me calculate your personalized loan terms!";
       }
       return "Perfect! I have all the information needed. Let me calculate your personalized loan terms!";
     }
+    if (next.type === 'detail') {
+      return next.question.prompt;
+    }
 
     // Generate appropriate response for the next field
-    switch (nextField) {
-      case "loan type":
-        return "What type of loan are you looking for? (Personal, Education, Business, Home, Vehicle, etc.)";
-      case "applicant name":
+    switch (next.field) {
+      case 'loan_type':
+        return `What type of loan are you looking for? (${loanProductCatalog.active().map(product => product.name.replace(/ Loan$/, '')).join(', ')})`;
+      case 'applicant_name':
         if (mergedData.loan_type) {
           return `Great! A ${mergedData.loan_type} is an excellent choice. Could you please tell me your full name?`;
         }
         return "Could you please tell me your full name?";
-      case "monthly income":
+      case 'monthly_income':
         return "Thank you! Now, what's your monthly income in rupees?";
-      case "loan amount":
+      case 'loan_amount':
         return "Perfect! How much loan amount are you looking for?";
-      case "employment status":
+      case 'employment_status':
         return "Excellent! Are you currently employed, self-employed, or a student?";
-      case "credit score":
+      case 'credit_score':
         return "Great! What's your credit score? If you don't know, you can check it through CIBIL or your bank app.";
+      case 'existing_emis':
+        return "Thanks! Are you paying EMIs on any other loans right now? If so, how much in total each month? Say \"none\" if you aren't.";
+      case 'credit_card_dues':
+        return "Do you have an outstanding credit card balance? Tell me the amount, or say \"none\".";
+      case 'dependents':
+        return "Last question: how many people depend on you financially? Say \"none\" if nobody does.";
       default:
         return "Thank you for that information. What else would you like to tell me about your loan application?";
     }
   }
 
   // Helper method to check if application is complete
-  private isApplicationComplete(currentData?: any, extractedInfo?: any): boolean {
+  private isApplicationComplete(currentData?: LoanApplicationData, extractedInfo?: Partial<LoanApplicationData>): boolean {
     const data = { ...(currentData || {}), ...extractedInfo };
-    return !!(
-      data.loan_type &&
-      data.applicant_name &&
-      data.monthly_income &&
-      data.loan_amount &&
-      data.employment_status &&
-      data.credit_score
-    );
+    return !loanProductCatalog.nextQuestion(data);
   }
 
   clearConversation(conversationId: string): void {
@@ -505,6 +542,19 @@ LOAN TYPE EXAMPLES:
     console.log('✅ ConversationalAI: Conversation cleared (had history:', hadHistory, ')');
   }
 
+  // Rebuild history from stored messages after a reload; no-op if it's already in memory
+  restoreConversation(conversationId: string, messages: ConversationMessage[]): void {
+    if (this.conversationHistory.has(conversationId) || messages.length === 0) {
+      return;
+    }
+
+    console.log('♻️ ConversationalAI: Restoring', messages.length, 'messages for:', conversationId);
+    this.conversationHistory.set(conversationId, [
+      { role: 'system', content: this.getSystemPrompt() },
+      ...messages.slice(-20)
+    ]);
+  }
+
   // Method to clear ALL conversation histories (for when user clears all chats)
   clearAllConversations(): void {
     console.log('🔄 ConversationalAI: Clearing ALL conversation histories');
@@ -513,11 +563,20 @@ LOAN TYPE EXAMPLES:
     console.log('✅ ConversationalAI: All conversations cleared (cleared', count, 'conversations)');
   }
 
-  // Method to reset wrong data extraction while preserving conversation context
-  resetWrongData(conversationId: string): void {
-    // Keep conversation history but don't delete it completely
-    // This allows the AI to learn from the conversation context
-    console.log('Resetting wrong data for conversation:', conversationId);
+  // Corrections, status lookups and EMI sums are answered without the model.
+  // Adding the exchange to its history keeps later replies consistent with them.
+  recordExchange(conversationId: string, userMessage: string, response: string): void {
+    if (!this.conversationHistory.has(conversationId)) {
+      this.conversationHistory.set(conversationId, [
+        { role: 'system', content: this.getSystemPrompt() }
+      ]);
+    }
+
+    const history = this.conversationHistory.get(conversationId)!;
+    history.push({ role: 'user', content: userMessage }, { role: 'assistant', content: response });
+    if (history.length > 21) {
+      this.conversationHistory.set(conversationId, [history[0], ...history.slice(-20)]);
+    }
   }
 
   // Method to get conversation context for debugging
@@ -530,106 +589,74 @@ LOAN TYPE EXAMPLES:
     let processed = message;
     console.log('🔍 Original message:', message);
 
-    // Convert various patterns of lakhs and crores
-    // Handle patterns like "30 lakhs", "30 lakh", "30lakhs", "30-lakhs", "8 lacs", etc.
-    processed = processed.replace(/(\d+(?:\.\d+)?)\s*(?:lacs?|lakhs?)/gi, (_, num) => {
-      const amount = parseFloat(num) * 100000;
-      console.log(`🔍 Converting ${num} lakhs/lacs to ${amount} rupees`);
-      return `${amount} rupees`;
-    });
-
-    // Handle crores
-    processed = processed.replace(/(\d+(?:\.\d+)?)\s*(?:crore|crores)/gi, (_, num) => {
-      const amount = parseFloat(num) * 10000000;
-      console.log(`🔍 Converting ${num} crores to ${amount} rupees`);
-      return `${amount} rupees`;
-    });
+    // Spell out every amount the parser is sure of ("12.5L", "one and a half
+    // crore", "2.5 lacs per annum") as plain rupees. Working backwards keeps
+    // the earlier positions valid.
+    for (const amount of findAmounts(message).reverse()) {
+      if (amount.ambiguous) continue;
+      const replacement = `${amount.amount} rupees${amount.period ? ` per ${amount.period}` : ''}`;
+      console.log(`🔍 Converting ${amount.text} to ${replacement}`);
+      processed = processed.slice(0, amount.start) + replacement + processed.slice(amount.end);
+    }
 
     console.log('🔍 Processed message:', processed);
     return processed;
   }
 
   // Helper method to post-process extracted data for currency conversion
-  private postProcessExtractedData(extracted: any, originalMessage: string): any {
+  private postProcessExtractedData(extractedFields: ExtractedFields, originalMessage: string): ExtractedFields {
+    const extracted = extractedValues(extractedFields);
     const processed = { ...extracted };
     const lowerMessage = originalMessage.toLowerCase();
 
     console.log('🔍 Post-processing extracted data:', extracted);
     console.log('🔍 Original message for post-processing:', originalMessage);
 
-    // Look for lakh/crore patterns that might have been missed
-    const lakhMatch = lowerMessage.match(/(\d+(?:\.\d+)?)\s*(?:lacs?|lakhs?)/);
-    const croreMatch = lowerMessage.match(/(\d+(?:\.\d+)?)\s*(?:crores?)/);
+    const obligationAmounts = readObligations(originalMessage).amounts;
+    const amounts = findAmounts(originalMessage).filter(amount => !obligationAmounts.some(used => used.start === amount.start));
 
     // Special pattern: Handle "80000 8000" type corrections where user repeats/clarifies
-    const duplicateNumberPattern = lowerMessage.match(/(\d{4,6})\s+(\d{4,6})/);
-    if (duplicateNumberPattern && lowerMessage.includes('income')) {
-      const [, num1, num2] = duplicateNumberPattern;
+    const [firstAmount, secondAmount] = amounts;
+    if (firstAmount && secondAmount && lowerMessage.includes('income') && !firstAmount.scale && !secondAmount.scale &&
+        /^\s+$/.test(originalMessage.slice(firstAmount.end, secondAmount.start))) {
+      const [num1, num2] = [String(firstAmount.amount), String(secondAmount.amount)];
       // If the numbers are similar or one is a substring of another, use the first (likely correct) one
-      if (num1.includes(num2) || num2.includes(num1) || Math.abs(parseInt(num1) - parseInt(num2)) < parseInt(num1) * 0.2) {
+      if (num1.includes(num2) || num2.includes(num1) || Math.abs(firstAmount.amount - secondAmount.amount) < firstAmount.amount * 0.2) {
         console.log(`🔍 Found duplicate/correction pattern: ${num1} ${num2}, using ${num1}`);
         processed.monthly_income = num1;
       }
     }
 
-    // Special case: Handle single digit income (assume lakhs)
-    if (extracted.monthly_income && /^\d{1}$/.test(extracted.monthly_income)) {
-      const lakhs = parseInt(extracted.monthly_income);
-      const amount = lakhs * 100000;
-      console.log(`🔍 Converting single digit income ${lakhs} to ${amount} rupees (assuming lakhs)`);
+    // Special case: the model returned a bare "2" for a small income (assume lakhs)
+    if (extracted.monthly_income && Number(extracted.monthly_income) < 100) {
+      const amount = assumeLakhs(Number(extracted.monthly_income));
+      console.log(`🔍 Converting small income ${extracted.monthly_income} to ${amount} rupees (assuming lakhs)`);
       processed.monthly_income = amount.toString();
     }
 
-    // Special case: User says just a number followed by "lakh" in context
-    // Example: "I am looking for around" -> "8" -> "hey I just wanted to make a correction I said 8 lakh"
-    const numberWithLakhContext = lowerMessage.match(/(\d+)\s*lakh/);
-    const justNumberPattern = lowerMessage.match(/^(\d+)$/);
+    // An amount the user gave in lakhs or crores wins over the model's reading
+    const scaled = amounts.find(amount => amount.scale === 'lakh' || amount.scale === 'crore');
+    const justNumber = amounts.length === 1 && amounts[0].ambiguous && originalMessage.trim() === amounts[0].text;
 
-    // If user says "8 lakh" directly
-    if (lakhMatch) {
-      const lakhValue = parseFloat(lakhMatch[1]);
-      const amount = lakhValue * 100000;
-      console.log(`🔍 Found lakh pattern: ${lakhValue} lakhs = ${amount} rupees`);
+    if (scaled) {
+      console.log(`🔍 Found ${scaled.scale} amount: ${scaled.text} = ${scaled.amount} rupees`);
 
       // Determine if this is loan amount or monthly income based on context
-      if (lowerMessage.includes('month') || lowerMessage.includes('salary') || lowerMessage.includes('income')) {
+      if (scaled.period || lowerMessage.includes('month') || lowerMessage.includes('salary') || lowerMessage.includes('income')) {
+        const amount = toMonthly(scaled);
         console.log(`🔍 Setting monthly_income to ${amount}`);
         processed.monthly_income = amount.toString();
       } else {
-        console.log(`🔍 Setting loan_amount to ${amount}`);
-        processed.loan_amount = amount.toString();
+        console.log(`🔍 Setting loan_amount to ${scaled.amount}`);
+        processed.loan_amount = scaled.amount.toString();
       }
     }
 
-    // If user mentions "correction" and "lakh" - this handles "I said 8 lakh you have written as 8"
-    else if (lowerMessage.includes('correction') && numberWithLakhContext) {
-      const lakhValue = parseFloat(numberWithLakhContext[1]);
-      const amount = lakhValue * 100000;
-      console.log(`🔍 Found correction with lakh: ${lakhValue} lakhs = ${amount} rupees`);
-      processed.loan_amount = amount.toString();
-    }
-
     // If user just says a number and extracted loan_amount exists but is small
-    else if (justNumberPattern && extracted.loan_amount && parseInt(extracted.loan_amount) < 100) {
-      // This might be lakhs - check if it makes sense as lakhs
-      const number = parseInt(justNumberPattern[1]);
-      if (number >= 1 && number <= 100) { // Reasonable range for lakhs
-        const amount = number * 100000;
-        console.log(`🔍 Converting solo number ${number} to ${amount} rupees (assuming lakhs)`);
-        processed.loan_amount = amount.toString();
-      }
-    }    if (croreMatch) {
-      const croreValue = parseFloat(croreMatch[1]);
-      const amount = croreValue * 10000000;
-      console.log(`🔍 Found crore pattern: ${croreValue} crores = ${amount} rupees`);
-
-      if (lowerMessage.includes('month') || lowerMessage.includes('salary') || lowerMessage.includes('income')) {
-        console.log(`🔍 Setting monthly_income to ${amount}`);
-        processed.monthly_income = amount.toString();
-      } else {
-        console.log(`🔍 Setting loan_amount to ${amount}`);
-        processed.loan_amount = amount.toString();
-      }
+    else if (justNumber && extracted.loan_amount && Number(extracted.loan_amount) < 100) {
+      const amount = assumeLakhs(amounts[0].amount);
+      console.log(`🔍 Converting solo number ${amounts[0].amount} to ${amount} rupees (assuming lakhs)`);
+      processed.loan_amount = amount.toString();
     }
 
     // Final safety: if we captured monthly_income and there's no explicit loan context in the message,
@@ -643,7 +670,18 @@ LOAN TYPE EXAMPLES:
     }
 
     console.log('🔍 Final processed data:', processed);
-    return processed;
+
+    // Amounts the heuristics changed no longer carry the model's confidence
+    const result: ExtractedFields = { ...extractedFields };
+    for (const field of ['monthly_income', 'loan_amount'] as const) {
+      const value = processed[field];
+      if (!value) {
+        delete result[field];
+      } else if (value !== extractedFields[field]?.value) {
+        result[field] = { value, confidence: HEURISTIC_CONFIDENCE, source: 'model' };
+      }
+    }
+    return result;
   }
 }
 
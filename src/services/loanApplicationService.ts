@@ -1,39 +1,103 @@
-import { addLoanApplication, getLoanApplications } from '../dbOperations';
+import {
+  addLoanApplication,
+  getLoanApplication,
+  getLoanApplications,
+  updateConversation,
+  getConversationMessages,
+  getLoanApplicationDraft,
+  saveLoanApplicationDraft,
+  deleteLoanApplicationDraft
+} from '../dbOperations';
 import type { LoanApplication, NewLoanApplication } from '../dbOperations';
+import type { CalculatedLoanTerms, ConversationMode, LoanApplicationData, LoanApplicationStage } from '../../shared/types';
+import {
+  EXTRACTION_FIELDS,
+  EXTRACTION_FIELD_LABELS,
+  needsConfirmation,
+  type ExtractedFields,
+  type ExtractionField,
+  type PendingConfirmation
+} from '../../shared/extraction';
+import {
+  lastRevisedField,
+  parseCorrection,
+  reviseFields,
+  undoRevision,
+  type CorrectionCommand,
+  type FieldChanges,
+  type FieldValue,
+  type UndoneRevision
+} from '../../shared/corrections';
+import type { UnderwritingDecision } from '../../shared/underwriting/types';
+import {
+  CANCEL_COLLATERAL,
+  COLLATERAL_TYPE_LABELS,
+  MAX_COLLATERAL,
+  calculateLtv,
+  nextMissingCollateralField,
+  parseCollateralRequest,
+  readCollateralAnswer,
+  totalCollateralValue,
+  type CollateralDetails,
+  type CollateralField,
+  type CollateralType
+} from '../../shared/collateral';
+import { generateOffers, parseOfferChoice, type LoanOffer } from '../../shared/underwriting/offers';
+import { calculateFoir, monthlyObligations } from '../../shared/obligations';
+import {
+  CANCEL_PARTY,
+  MAX_PARTIES,
+  PARTY_ROLE_LABELS,
+  coApplicantIncome,
+  nextMissingPartyField,
+  parsePartyRequest,
+  partyFieldError,
+  readPartyAnswer,
+  type PartyDetails,
+  type PartyField,
+  type PartyRequest
+} from '../../shared/parties';
+import { generateAmortizationSchedule, summarizeByYear, type AmortizationSchedule } from '../../shared/amortization';
+import {
+  collateralFromDetails,
+  detailAnswerError,
+  formatDetail,
+  readDetailAnswer,
+  type NextQuestion,
+  type ProductQuestion
+} from '../../shared/questionGraph';
 import { toastService } from './toastService';
+import { loanProductCatalog } from './loanProducts';
+import { policyRegistry } from './underwritingPolicies';
 import ConversationalAI from './conversationalAI';
 
-export interface LoanApplicationData {
-  applicant_name?: string;
-  loan_amount?: string;
-  loan_type?: string;
-  credit_score?: number | null; // Allow null values from database
-  monthly_income?: string;
-  employment_status?: string;
-  loan_purpose?: string;
-  interest_rate?: string;
-  loan_term?: number | null; // Allow null values from database
-  name_needs_confirmation?: boolean;
-}
+export type { LoanApplicationData };
 
 export interface LoanApplicationFlow {
-  stage: 'initial' | 'personal_info' | 'loan_details' | 'financial_info' | 'terms_review' | 'complete';
+  stage: LoanApplicationStage;
   data: LoanApplicationData;
   applicationId?: string;
   nextQuestion?: string;
   isComplete: boolean;
   manuallyEditedFields?: Set<string>; // Track which fields have been manually edited
-  calculatedTerms?: {
-    interestRate: string;
-    loanTerm: number;
-    monthlyPayment: string;
-    totalAmount: string;
-  };
+  calculatedTerms?: CalculatedLoanTerms;
+}
+
+export interface LoanApplicationResult {
+  flow: LoanApplicationFlow;
+  response: string;
+  shouldCreateApplication?: boolean;
+  shouldUpdateApplication?: boolean;
+  // Fields a correction or undo just changed; the UI takes these from the
+  // flow even where it holds its own edits
+  revisedFields?: ExtractionField[];
 }
 
 class LoanApplicationService {
   private static instance: LoanApplicationService;
   private activeFlows: Map<string, LoanApplicationFlow> = new Map();
+  // Owner of each active flow, so edits made outside processUserInput can be persisted
+  private flowOwners: Map<string, string> = new Map();
   private conversationalAI: ConversationalAI;
 
   constructor() {
@@ -67,25 +131,149 @@ class LoanApplicationService {
     return flow;
   }
 
-  // Process user input using conversational AI
-  async processUserInput(conversationId: string, userInput: string, userId: string): Promise<{
-    flow: LoanApplicationFlow;
-    response: string;
-    shouldCreateApplication?: boolean;
-    shouldUpdateApplication?: boolean;
-  }> {
+  // Process user input using conversational AI. `mode` decides how offers are
+  // presented: a table in chat, spoken options in voice.
+  async processUserInput(conversationId: string, userInput: string, userId: string, mode: ConversationMode = 'chat'): Promise<LoanApplicationResult> {
     console.log('🔍 LoanApplicationService: Processing input for conversation:', conversationId);
     console.log('🔍 LoanApplicationService: User input:', userInput);
 
-    let flow = this.activeFlows.get(conversationId);
-    console.log('🔍 LoanApplicationService: Existing flow:', flow ? 'Found' : 'Not found');
+    let flow = await this.findFlow(conversationId, userId, userInput);
 
     if (!flow) {
       console.log('🔍 LoanApplicationService: Creating new flow for conversation:', conversationId);
       flow = await this.startLoanApplication(userId, conversationId);
     }
 
+    const result = await this.handleUserInput(flow, conversationId, userInput, userId, mode);
+    this.syncStage(result.flow);
+    await this.persistFlow(conversationId, result.flow);
+    return result;
+  }
+
+  // The conversation's flow, restored from its draft on first use in this session
+  async findFlow(conversationId: string, userId: string, pendingInput: string): Promise<LoanApplicationFlow | undefined> {
+    this.flowOwners.set(conversationId, userId);
+    const flow = this.activeFlows.get(conversationId);
+    console.log('🔍 LoanApplicationService: Existing flow:', flow ? 'Found' : 'Not found');
+
+    // First use in this session - pick up where a previous page load or device left off
+    return flow ?? this.restoreFlow(conversationId, userId, pendingInput);
+  }
+
+  // Collecting details that haven't been submitted yet
+  isInProgress(flow: LoanApplicationFlow | undefined): boolean {
+    if (!flow || flow.stage === 'complete') return false;
+    return flow.stage !== 'initial' || EXTRACTION_FIELDS.some(field => flow.data[field]);
+  }
+
+  // The stage follows the question being asked, until the terms are quoted
+  private syncStage(flow: LoanApplicationFlow): void {
+    if (!this.isInProgress(flow) || flow.stage === 'terms_review' || flow.stage === 'complete') return;
+    const next = loanProductCatalog.nextQuestion(flow.data);
+    if (next) {
+      flow.stage = next.stage;
+    }
+  }
+
+  private async handleUserInput(flow: LoanApplicationFlow, conversationId: string, userInput: string, userId: string, mode: ConversationMode): Promise<LoanApplicationResult> {
     try {
+      // Values we read back last turn are settled before anything else
+      let confirmedValues = false;
+      const pending = flow.data.pending_confirmations;
+      if (pending?.length) {
+        flow.data = { ...flow.data, pending_confirmations: undefined };
+        const answer = this.readConfirmation(userInput);
+
+        if (answer === 'no') {
+          console.log('🔍 LoanApplicationService: User rejected unconfirmed values:', pending);
+          return {
+            flow,
+            response: `Sorry about that. What is your ${EXTRACTION_FIELD_LABELS[pending[0].field]}?`
+          };
+        }
+        if (answer === 'yes') {
+          console.log('🔍 LoanApplicationService: User confirmed values:', pending);
+          const confirmed: FieldChanges = {};
+          pending.forEach(confirmation => {
+            if (!flow.manuallyEditedFields?.has(confirmation.field)) {
+              Object.assign(confirmed, { [confirmation.field]: confirmation.value });
+            }
+          });
+          flow.data = reviseFields(flow.data, confirmed, 'confirmation');
+          confirmedValues = true;
+        }
+        // Anything else is a new message; the unconfirmed values are dropped
+      }
+
+      // A co-applicant or guarantor being added takes the answers until it is
+      // complete or dropped
+      if (this.partyInProgress(flow)) {
+        const result = this.collectParty(flow, userInput, mode);
+        this.conversationalAI.recordExchange(conversationId, userInput, result.response);
+        this.activeFlows.set(conversationId, flow);
+        return result;
+      }
+
+      // Likewise collateral being recorded
+      if (this.collateralInProgress(flow)) {
+        const result = this.collectCollateral(flow, userInput, mode);
+        this.conversationalAI.recordExchange(conversationId, userInput, result.response);
+        this.activeFlows.set(conversationId, flow);
+        return result;
+      }
+
+      // "actually my income is 80k, not 8k", "undo that". "it" is the value we
+      // just read back, or else the last one that changed.
+      const command = flow.stage === 'complete' ? null : parseCorrection(userInput, pending?.[0]?.field ?? lastRevisedField(flow.data));
+      if (command) {
+        console.log('🔍 LoanApplicationService: Correction command:', command);
+        const result = this.applyCorrection(flow, command, mode);
+        this.conversationalAI.recordExchange(conversationId, userInput, result.response);
+        this.activeFlows.set(conversationId, flow);
+        return result;
+      }
+
+      // "add my wife as a co-applicant", "my father will be my guarantor"
+      const partyRequest = flow.stage === 'complete' ? null : parsePartyRequest(userInput);
+      if (partyRequest) {
+        console.log('🔍 LoanApplicationService: Adding party:', partyRequest);
+        const result = this.startParty(flow, partyRequest);
+        this.conversationalAI.recordExchange(conversationId, userInput, result.response);
+        this.activeFlows.set(conversationId, flow);
+        return result;
+      }
+
+      // "I can pledge my gold jewellery", when the loan type lends against it
+      const collateralRequest = flow.stage === 'complete' ? null : parseCollateralRequest(userInput);
+      if (collateralRequest && this.acceptedCollateral(flow).includes(collateralRequest.type)) {
+        console.log('🔍 LoanApplicationService: Adding collateral:', collateralRequest);
+        const result = this.startCollateral(flow, collateralRequest.type);
+        this.conversationalAI.recordExchange(conversationId, userInput, result.response);
+        this.activeFlows.set(conversationId, flow);
+        return result;
+      }
+
+      // "option 2", "the shorter one" while the offers are on the table
+      const offers = flow.stage === 'terms_review' ? flow.calculatedTerms?.offers : undefined;
+      const choice = offers ? parseOfferChoice(userInput, offers) : null;
+      if (offers && choice !== null) {
+        console.log('🔍 LoanApplicationService: Offer picked:', choice + 1, offers[choice].kind);
+        const result = this.selectOffer(flow, offers, choice, mode);
+        this.conversationalAI.recordExchange(conversationId, userInput, result.response);
+        this.activeFlows.set(conversationId, flow);
+        return result;
+      }
+
+      // The loan product's own questions (the institution, the turnover) are
+      // answered directly rather than through extraction
+      const next = flow.stage === 'complete' || confirmedValues ? undefined : loanProductCatalog.nextQuestion(flow.data);
+      if (next?.type === 'detail') {
+        const result = this.collectDetail(flow, next.question, userInput, mode);
+        this.conversationalAI.recordExchange(conversationId, userInput, result.response);
+        this.activeFlows.set(conversationId, flow);
+        return result;
+      }
+
       // Use conversational AI to handle the interaction
       console.log('🔍 LoanApplicationService: Calling conversational AI...');
       const aiResponse = await this.conversationalAI.chat(conversationId, userInput, flow);
@@ -99,18 +287,32 @@ class LoanApplicationService {
         console.log('🔍 LoanApplicationService: Current flow data before update:', flow.data);
         console.log('🔍 LoanApplicationService: Manually edited fields:', Array.from(flow.manuallyEditedFields || []));
 
-        // Only update fields that haven't been manually edited
-        const updatedData = { ...flow.data } as any;
-        Object.keys(aiResponse.extractedInfo).forEach(key => {
-          if (!flow.manuallyEditedFields?.has(key)) {
-            updatedData[key] = (aiResponse.extractedInfo as any)[key];
-          } else {
-            console.log(`🔒 Preserving manually edited field in flow: ${key} = ${(flow.data as any)[key]}`);
-          }
-        });
+        // Only update fields that haven't been manually edited, and hold back
+        // low-confidence values until the user confirms them
+        const { updatedData, unconfirmed, invalid } = this.applyExtractedInfo(flow, aiResponse.extractedInfo);
 
         flow.data = updatedData;
         console.log('🔍 LoanApplicationService: Flow data after update:', flow.data);
+
+        // Values that failed their checks are reported alongside the read-back;
+        // they are asked for again once it is settled
+        if (unconfirmed.length > 0) {
+          flow.data.pending_confirmations = unconfirmed;
+          this.activeFlows.set(conversationId, flow);
+          return {
+            flow,
+            response: [...invalid.map(({ error }) => error), this.confirmationQuestion(unconfirmed)].join(' ')
+          };
+        }
+
+        // A value that fails its check is asked for again, with the reason
+        if (invalid.length > 0) {
+          this.activeFlows.set(conversationId, flow);
+          return {
+            flow,
+            response: `${invalid[0].error} What is your ${EXTRACTION_FIELD_LABELS[invalid[0].field]}?`
+          };
+        }
       } else {
         console.log('🔍 LoanApplicationService: No extracted info to update');
       }
@@ -123,12 +325,12 @@ class LoanApplicationService {
 
         if (isComplete) {
           // Check if we're already in terms review stage
-      if (flow.stage === 'terms_review' && (userInput.toLowerCase().includes('yes') || userInput.toLowerCase().includes('accept') || userInput.toLowerCase().includes('approve'))) {
+      if (flow.stage === 'terms_review' && !confirmedValues && (userInput.toLowerCase().includes('yes') || userInput.toLowerCase().includes('accept') || userInput.toLowerCase().includes('approve'))) {
             // User accepted terms, proceed with submission
             return await this.submitApplication(flow, conversationId, userId);
           }
 
-          if (flow.stage === 'terms_review' && (userInput.toLowerCase().includes('no') || userInput.toLowerCase().includes('reject') || userInput.toLowerCase().includes('decline'))) {
+          if (flow.stage === 'terms_review' && !confirmedValues && (userInput.toLowerCase().includes('no') || userInput.toLowerCase().includes('reject') || userInput.toLowerCase().includes('decline'))) {
             // User rejected terms
             return {
               flow,
@@ -136,28 +338,18 @@ class LoanApplicationService {
             };
           }
 
-      // First time completion - show terms for review; DO NOT auto-submit
-          if (flow.stage !== 'terms_review') {
-            flow.stage = 'terms_review';
-            const calculatedTerms = this.calculateLoanTerms(flow.data);
-            flow.calculatedTerms = calculatedTerms;
-
-            const termsResponse = `Excellent! I have all your information. Here are your personalized loan terms:
-
-📋 **Your ${flow.data.loan_type} Details:**
-• Loan Amount: ₹${parseFloat(flow.data.loan_amount!).toLocaleString('en-IN')}
-• Interest Rate: ${calculatedTerms.interestRate}
-• Loan Term: ${calculatedTerms.loanTerm} years
-• Monthly Payment: ${calculatedTerms.monthlyPayment}
-• Total Amount: ${calculatedTerms.totalAmount}
-
-💡 **Why this rate?** Based on your credit score of ${flow.data.credit_score}, monthly income of ₹${parseFloat(flow.data.monthly_income!).toLocaleString('en-IN')}, and loan type.
-
-Would you like to accept these terms and proceed with your application? Please say "yes" to submit or "no" to adjust anything.`;
-
+      // First time completion - show terms for review; DO NOT auto-submit.
+          // A confirmed correction during review re-quotes with the new values.
+          // Secured loans need their collateral before they can be priced.
+          if (flow.stage !== 'terms_review' || confirmedValues) {
+            if (this.needsCollateral(flow)) {
+              const result = this.startCollateral(flow, undefined, this.securedLoanIntro(flow));
+              this.activeFlows.set(conversationId, flow);
+              return result;
+            }
             return {
               flow,
-              response: termsResponse
+              response: this.quoteTerms(flow, 'Excellent! I have all your information. Here are your personalized loan terms:', mode)
             };
           }
   } else {
@@ -186,17 +378,518 @@ Would you like to accept these terms and proceed with your application? Please s
     }
   }
 
+  private applyExtractedInfo(flow: LoanApplicationFlow, extractedInfo: ExtractedFields): {
+    updatedData: LoanApplicationData;
+    unconfirmed: PendingConfirmation[];
+    invalid: { field: ExtractionField; error: string }[];
+  } {
+    const changes: FieldChanges = {};
+    const unconfirmed: PendingConfirmation[] = [];
+    const invalid: { field: ExtractionField; error: string }[] = [];
+    // Amounts are checked against the loan type named in the same message, if
+    // any, and a new loan type against the amount already given, unless the
+    // message names a new one
+    const context = {
+      ...flow.data,
+      loan_type: extractedInfo.loan_type?.value ?? flow.data.loan_type,
+      loan_amount: extractedInfo.loan_amount ? undefined : flow.data.loan_amount
+    };
+
+    for (const [field, extracted] of Object.entries(extractedInfo) as [PendingConfirmation['field'], NonNullable<ExtractedFields[keyof ExtractedFields]>][]) {
+      const error = loanProductCatalog.fieldError(field, extracted.value, context);
+      if (flow.manuallyEditedFields?.has(field)) {
+        console.log(`🔒 Preserving manually edited field in flow: ${field} = ${flow.data[field]}`);
+      } else if (error) {
+        console.log(`🚫 Rejecting invalid value: ${field} = ${extracted.value} (${error})`);
+        invalid.push({ field, error });
+      } else if (needsConfirmation(extracted) && flow.data[field] !== extracted.value) {
+        console.log(`🤔 Holding back low-confidence value: ${field} = ${extracted.value} (${extracted.confidence})`);
+        unconfirmed.push({ field, ...extracted } as PendingConfirmation);
+      } else {
+        Object.assign(changes, { [field]: extracted.value });
+      }
+    }
+
+    return { updatedData: reviseFields(flow.data, changes, 'chat'), unconfirmed, invalid };
+  }
+
+  private readConfirmation(userInput: string): 'yes' | 'no' | null {
+    const answer = userInput.trim().toLowerCase().replace(/[.!]+$/, '');
+    if (/^(yes|yeah|yep|yup|correct|right|that's right|that is right|ok|okay|sure)$/.test(answer)) return 'yes';
+    if (/^(no|nope|nah|wrong|incorrect|that's wrong|not right)$/.test(answer)) return 'no';
+    return null;
+  }
+
+  private confirmationQuestion(unconfirmed: PendingConfirmation[]): string {
+    const details = unconfirmed.map(({ field, value }) =>
+      `your ${EXTRACTION_FIELD_LABELS[field]} is ${this.formatFieldValue(field, value)}`
+    );
+
+    return `Just to make sure I got that right: ${this.joinList(details)}. Is that correct? Please say "yes" or "no".`;
+  }
+
+  private formatFieldValue(field: ExtractionField, value: FieldValue): string {
+    return field === 'monthly_income' || field === 'loan_amount' || field === 'existing_emis' || field === 'credit_card_dues'
+      ? `₹${parseFloat(String(value)).toLocaleString('en-IN')}`
+      : String(value);
+  }
+
+  private joinList(items: string[]): string {
+    return items.length > 1
+      ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+      : items[0];
+  }
+
+  // Corrections and undos are answered here rather than by the model
+  private applyCorrection(flow: LoanApplicationFlow, command: CorrectionCommand, mode: ConversationMode): LoanApplicationResult {
+    if (command.kind === 'undo') {
+      const { data, undone } = undoRevision(flow.data, command.field);
+      if (undone.length === 0) {
+        return {
+          flow,
+          response: command.field
+            ? `Your ${EXTRACTION_FIELD_LABELS[command.field]} hasn't changed yet, so there's nothing to undo.`
+            : "There's nothing to undo yet."
+        };
+      }
+
+      flow.data = data;
+      console.log('↩️ LoanApplicationService: Undid revisions:', undone);
+      return this.afterRevision(flow, `Done, I've ${this.joinList(undone.map(revision => this.describeUndo(revision)))}.`, undone.map(revision => revision.field), mode);
+    }
+
+    const { field, value } = command;
+    const label = EXTRACTION_FIELD_LABELS[field];
+    const previous = flow.data[field];
+    if (previous === value) {
+      return { flow, response: `Your ${label} is already ${this.formatFieldValue(field, value)}.` };
+    }
+
+    const error = loanProductCatalog.fieldError(field, value, flow.data);
+    if (error) {
+      console.log(`🚫 LoanApplicationService: Refused correction ${field} -> ${value} (${error})`);
+      return {
+        flow,
+        response: previous === undefined || previous === null
+          ? `${error} What is your ${label}?`
+          : `${error} I've kept your ${label} as ${this.formatFieldValue(field, previous)}.`
+      };
+    }
+
+    flow.data = reviseFields(flow.data, { [field]: value }, 'correction');
+    console.log(`✏️ LoanApplicationService: Corrected ${field}: ${previous} -> ${value}`);
+    const change = previous === undefined || previous === null
+      ? `set your ${label} to ${this.formatFieldValue(field, value)}`
+      : `changed your ${label} from ${this.formatFieldValue(field, previous)} to ${this.formatFieldValue(field, value)}`;
+    return this.afterRevision(flow, `Got it, I've ${change}.`, [field], mode);
+  }
+
+  private describeUndo({ field, previous }: UndoneRevision): string {
+    const label = EXTRACTION_FIELD_LABELS[field];
+    return previous === null
+      ? `cleared your ${label}`
+      : `put your ${label} back to ${this.formatFieldValue(field, previous)}`;
+  }
+
+  // Terms quoted before a change no longer apply: re-quote them, or go back to
+  // asking for whatever the change left missing
+  private afterRevision(flow: LoanApplicationFlow, acknowledgement: string, revisedFields: ExtractionField[], mode: ConversationMode): LoanApplicationResult {
+    const missing = loanProductCatalog.nextQuestion(flow.data);
+    if (!missing && !this.needsCollateral(flow)) {
+      return { flow, response: `${acknowledgement}\n\n${this.quoteTerms(flow, 'Here are your updated loan terms:', mode)}`, revisedFields };
+    }
+
+    if (flow.stage === 'terms_review') {
+      flow.stage = missing?.stage ?? 'loan_details';
+      flow.calculatedTerms = undefined;
+    }
+    if (!missing) {
+      // e.g. the loan type changed to one secured against collateral
+      return { ...this.startCollateral(flow, undefined, `${acknowledgement} ${this.securedLoanIntro(flow)}`), revisedFields };
+    }
+    return { flow, response: `${acknowledgement} ${this.questionText(missing)}`, revisedFields };
+  }
+
+  // Prices the application and moves it to terms review
+  private quoteTerms(flow: LoanApplicationFlow, intro: string, mode: ConversationMode): string {
+    flow.stage = 'terms_review';
+    const calculatedTerms = this.calculateLoanTerms(flow.data);
+    flow.calculatedTerms = calculatedTerms;
+    const offers = calculatedTerms.offers ?? [];
+    const income = parseFloat(flow.data.monthly_income!);
+    const jointIncome = coApplicantIncome(flow.data.parties);
+    const foir = offers.length > 0
+      ? calculateFoir(income + jointIncome, offers[0].emi, monthlyObligations(flow.data))
+      : null;
+    const collateralValue = totalCollateralValue(flow.data.collateral);
+    const ltv = calculateLtv(parseFloat(flow.data.loan_amount!), collateralValue);
+
+    return `${intro}
+
+📋 **Your ${flow.data.loan_type} Details:**
+• Loan Amount: ₹${parseFloat(flow.data.loan_amount!).toLocaleString('en-IN')}${ltv !== null ? `\n• Loan-to-Value: ${ltv.toFixed(1)}% of your collateral worth ₹${collateralValue.toLocaleString('en-IN')}` : ''}
+• Interest Rate: ${calculatedTerms.interestRate}
+• Loan Term: ${calculatedTerms.loanTerm} years
+• Monthly Payment: ${calculatedTerms.monthlyPayment}
+• Total Amount: ${calculatedTerms.totalAmount}
+
+${this.formatRepaymentPreview(flow.data, calculatedTerms)}
+
+💡 **Why this rate?** Based on your credit score of ${flow.data.credit_score}, monthly income of ₹${income.toLocaleString('en-IN')}${jointIncome > 0 ? ` plus ₹${jointIncome.toLocaleString('en-IN')} from your co-applicant${this.coApplicants(flow).length > 1 ? 's' : ''}` : ''}, and loan type.${foir !== null ? ` With your existing EMIs and card dues, repayments would take ${foir.toFixed(1)}% of your income (FOIR).` : ''}
+${offers.length > 1 ? `\n${this.formatOffers(offers, mode)}\n` : ''}
+Would you like to accept these terms and proceed with your application? Please say "yes" to submit${offers.length > 1 ? ', pick another option' : ''} or "no" to adjust anything.`;
+  }
+
+  // Every offer side by side. Chat markdown has no tables, so chat gets a
+  // fixed-width block; voice gets a sentence per option.
+  private formatOffers(offers: LoanOffer[], mode: ConversationMode): string {
+    const format = (value: number) => '₹' + Math.round(value).toLocaleString('en-IN');
+
+    if (mode === 'voice') {
+      const options = offers.slice(1).map((offer, index) => {
+        const coApplicant = offer.coApplicantIncome ? ` with a co-applicant earning ${format(offer.coApplicantIncome)} a month,` : '';
+        return `option ${index + 2},${coApplicant} ${format(offer.loanAmount)} over ${offer.termYears} years at ${offer.interestRate}%, about ${format(offer.emi)} a month`;
+      });
+      return `I can also offer ${this.joinList(options)}. Say an option number to switch.`;
+    }
+
+    const rows = [
+      ['#', 'Option', 'Amount', 'Rate', 'Term', 'EMI', 'Total'],
+      ...offers.map((offer, index) => [
+        String(index + 1),
+        offer.label,
+        format(offer.loanAmount),
+        `${offer.interestRate.toFixed(2)}%`,
+        `${offer.termYears} yrs`,
+        format(offer.emi),
+        format(offer.totalPayment)
+      ])
+    ];
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    const table = rows.map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+    const coApplicant = offers.find(offer => offer.coApplicantIncome);
+    const note = coApplicant ? `\nThe co-applicant option needs a co-applicant earning at least ${format(coApplicant.coApplicantIncome!)} a month; pick it to add one.` : '';
+
+    return `📊 **Compare your options** (you're on option 1):\n\`\`\`\n${table.join('\n')}\n\`\`\`${note}\nReply with an option number or describe it, e.g. "the shorter tenure", to switch.`;
+  }
+
+  // Switches the quoted terms to the picked offer. A lower amount changes the
+  // application itself; the co-applicant option starts adding one, and the
+  // terms are re-quoted with their income once they are complete.
+  private selectOffer(flow: LoanApplicationFlow, offers: LoanOffer[], index: number, mode: ConversationMode): LoanApplicationResult {
+    const offer = offers[index];
+    const terms = flow.calculatedTerms!;
+
+    if (offer.kind === 'co_applicant') {
+      return this.startParty(
+        flow,
+        { role: 'co_applicant' },
+        `Option ${index + 1} needs a co-applicant earning at least ₹${Math.round(offer.coApplicantIncome!).toLocaleString('en-IN')} a month. Let's add them - you can say "cancel" to go back to the other options. `
+      );
+    }
+
+    let revisedFields: ExtractionField[] | undefined;
+    if (offer.loanAmount !== parseFloat(flow.data.loan_amount!)) {
+      flow.data = reviseFields(flow.data, { loan_amount: String(offer.loanAmount) }, 'chat');
+      revisedFields = ['loan_amount'];
+    }
+    flow.calculatedTerms = { ...terms, ...this.termsForOffer(offer), selectedOffer: index };
+
+    const summary = `₹${offer.loanAmount.toLocaleString('en-IN')} over ${offer.termYears} years at ${offer.interestRate}%, with an EMI of ${flow.calculatedTerms.monthlyPayment}`;
+    const response = mode === 'voice'
+      ? `Okay, option ${index + 1}: ${summary}. Shall I submit your application with these terms?`
+      : `Switched to option ${index + 1} (${offer.label}): ${summary} and ${flow.calculatedTerms.totalAmount} in total.\n\nSay "yes" to submit with these terms, or pick another option.`;
+    return { flow, response, revisedFields };
+  }
+
+  private coApplicants(flow: LoanApplicationFlow): PartyDetails[] {
+    return (flow.data.parties ?? []).filter(party => party.role === 'co_applicant');
+  }
+
+  // The last party added, while some of its details are still missing
+  private partyInProgress(flow: LoanApplicationFlow): PartyDetails | undefined {
+    if (flow.stage === 'complete') return undefined;
+    const parties = flow.data.parties ?? [];
+    const last = parties[parties.length - 1];
+    return last && nextMissingPartyField(last) ? last : undefined;
+  }
+
+  private startParty(flow: LoanApplicationFlow, request: PartyRequest, intro: string = ''): LoanApplicationResult {
+    const parties = flow.data.parties ?? [];
+    if (parties.length >= MAX_PARTIES) {
+      return { flow, response: `An application can have at most ${MAX_PARTIES} co-applicants and guarantors, and this one already has ${parties.length}.` };
+    }
+
+    const party: PartyDetails = request.relationship
+      ? { role: request.role, relationship: request.relationship }
+      : { role: request.role };
+    flow.data = { ...flow.data, parties: [...parties, party] };
+    return { flow, response: `${intro}${this.partyQuestion(party, 'name')}` };
+  }
+
+  // Answers one question about the party in progress
+  private collectParty(flow: LoanApplicationFlow, userInput: string, mode: ConversationMode): LoanApplicationResult {
+    const parties = flow.data.parties ?? [];
+    const party = parties[parties.length - 1];
+    const role = PARTY_ROLE_LABELS[party.role];
+
+    if (CANCEL_PARTY.test(userInput.trim())) {
+      flow.data = { ...flow.data, parties: parties.slice(0, -1) };
+      return this.afterDetails(flow, `Okay, I won't add the ${role}.`, mode);
+    }
+
+    const field = nextMissingPartyField(party)!;
+    const value = readPartyAnswer(field, userInput);
+    if (value === null || value === undefined) {
+      return { flow, response: `Sorry, I didn't catch that. ${this.partyQuestion(party, field)}` };
+    }
+    const error = partyFieldError(field, value);
+    if (error) {
+      return { flow, response: `${error} ${this.partyQuestion(party, field)}` };
+    }
+
+    const updated: PartyDetails = { ...party, [field]: value };
+    flow.data = { ...flow.data, parties: [...parties.slice(0, -1), updated] };
+    console.log(`👥 LoanApplicationService: ${role} ${field} = ${value}`);
+
+    const next = nextMissingPartyField(updated);
+    return next
+      ? { flow, response: this.partyQuestion(updated, next) }
+      : this.afterDetails(flow, `Thanks, I've added ${updated.name} as your ${role}.`, mode);
+  }
+
+  private partyQuestion(party: PartyDetails, field: PartyField): string {
+    const name = party.name ?? `your ${PARTY_ROLE_LABELS[party.role]}`;
+    switch (field) {
+      case 'name':
+        return `What is your ${party.relationship ?? PARTY_ROLE_LABELS[party.role]}'s full name?`;
+      case 'relationship':
+        return `How is ${name} related to you, for example spouse, parent or business partner?`;
+      case 'monthly_income':
+        return `What is ${name}'s monthly income?`;
+      case 'employment_status':
+        return `What is ${name}'s employment status, for example salaried or self-employed?`;
+      case 'credit_score':
+        return `And what is ${name}'s credit score (between 300 and 900)?`;
+    }
+  }
+
+  // Back to the applicant's own questions, on to the collateral a secured loan
+  // still needs, or to updated terms once everything is in
+  private afterDetails(flow: LoanApplicationFlow, acknowledgement: string, mode: ConversationMode): LoanApplicationResult {
+    const missing = loanProductCatalog.nextQuestion(flow.data);
+    if (missing) {
+      const question = missing.type === 'field' ? `Now, what is your ${EXTRACTION_FIELD_LABELS[missing.field]}?` : missing.question.prompt;
+      return { flow, response: `${acknowledgement} ${question}` };
+    }
+    if (this.needsCollateral(flow)) {
+      return this.startCollateral(flow, undefined, `${acknowledgement} ${this.securedLoanIntro(flow)}`);
+    }
+    return { flow, response: `${acknowledgement}\n\n${this.quoteTerms(flow, 'Here are your updated loan terms:', mode)}` };
+  }
+
+  private questionText(next: NextQuestion): string {
+    return next.type === 'field' ? `What is your ${EXTRACTION_FIELD_LABELS[next.field]}?` : next.question.prompt;
+  }
+
+  // Answers one of the loan product's own questions
+  private collectDetail(flow: LoanApplicationFlow, question: ProductQuestion, userInput: string, mode: ConversationMode): LoanApplicationResult {
+    const value = readDetailAnswer(question, userInput);
+    if (value === null) {
+      return { flow, response: `Sorry, I didn't catch that. ${question.prompt}` };
+    }
+    const error = detailAnswerError(question, value);
+    if (error) {
+      return { flow, response: `${error} ${question.prompt}` };
+    }
+
+    flow.data = { ...flow.data, details: { ...flow.data.details, [question.id]: value } };
+    console.log(`📝 LoanApplicationService: ${question.id} = ${value}`);
+    this.pledgeFromDetails(flow);
+    return this.afterDetails(flow, `Thanks, I've noted your ${question.label} as ${formatDetail(question, value)}.`, mode);
+  }
+
+  // A vehicle loan's answers already describe the vehicle it is secured
+  // against, so they are recorded as its collateral instead of asked again
+  private pledgeFromDetails(flow: LoanApplicationFlow): void {
+    const accepted = this.acceptedCollateral(flow);
+    const collateral = flow.data.collateral ?? [];
+    if (accepted.length !== 1 || collateral.length >= MAX_COLLATERAL || collateral.some(item => item.type === accepted[0])) return;
+
+    const { description, value } = collateralFromDetails(loanProductCatalog.questions(flow.data.loan_type), flow.data);
+    if (description && value) {
+      flow.data = { ...flow.data, collateral: [...collateral, { type: accepted[0], description, value }] };
+      console.log(`🔐 LoanApplicationService: collateral from the product's answers: ${description}`);
+    }
+  }
+
+  // Collateral the policy for the loan type lends against
+  private acceptedCollateral(flow: LoanApplicationFlow): CollateralType[] {
+    return flow.data.loan_type ? policyRegistry.forLoanType(flow.data.loan_type).collateralTypes ?? [] : [];
+  }
+
+  // Gold and vehicle loans can't be priced until collateral they accept is recorded
+  private needsCollateral(flow: LoanApplicationFlow): boolean {
+    if (!flow.data.loan_type) return false;
+    const policy = policyRegistry.forLoanType(flow.data.loan_type);
+    return policy.requiredFields.includes('collateral_value') &&
+      totalCollateralValue(flow.data.collateral, policy.collateralTypes) === 0;
+  }
+
+  private securedLoanIntro(flow: LoanApplicationFlow): string {
+    const accepted = this.acceptedCollateral(flow);
+    const security = accepted.length === 1 ? `your ${COLLATERAL_TYPE_LABELS[accepted[0]]}` : 'collateral';
+    return `A ${flow.data.loan_type} is secured against ${security}, so I need a few details about it. `;
+  }
+
+  // The last collateral added, while some of its details are still missing
+  private collateralInProgress(flow: LoanApplicationFlow): CollateralDetails | undefined {
+    if (flow.stage === 'complete') return undefined;
+    const collateral = flow.data.collateral ?? [];
+    const last = collateral[collateral.length - 1];
+    return last && nextMissingCollateralField(last) ? last : undefined;
+  }
+
+  // Without a type, the only kind the loan accepts is assumed, or else asked for
+  private startCollateral(flow: LoanApplicationFlow, type?: CollateralType, intro: string = ''): LoanApplicationResult {
+    const collateral = flow.data.collateral ?? [];
+    if (collateral.length >= MAX_COLLATERAL) {
+      return { flow, response: `An application can have at most ${MAX_COLLATERAL} items of collateral, and this one already has ${collateral.length}.` };
+    }
+
+    const accepted = this.acceptedCollateral(flow);
+    const known = type ?? (accepted.length === 1 ? accepted[0] : undefined);
+    const item: CollateralDetails = known ? { type: known } : {};
+    flow.data = { ...flow.data, collateral: [...collateral, item] };
+    return { flow, response: `${intro}${this.collateralQuestion(flow, item, nextMissingCollateralField(item)!)}` };
+  }
+
+  // Answers one question about the collateral in progress
+  private collectCollateral(flow: LoanApplicationFlow, userInput: string, mode: ConversationMode): LoanApplicationResult {
+    const collateral = flow.data.collateral ?? [];
+    const item = collateral[collateral.length - 1];
+
+    if (CANCEL_COLLATERAL.test(userInput.trim())) {
+      flow.data = { ...flow.data, collateral: collateral.slice(0, -1) };
+      return this.afterDetails(flow, "Okay, I've left that out.", mode);
+    }
+
+    const field = nextMissingCollateralField(item)!;
+    const value = readCollateralAnswer(field, userInput);
+    if (value === null || value === undefined) {
+      return { flow, response: `Sorry, I didn't catch that. ${this.collateralQuestion(flow, item, field)}` };
+    }
+
+    const accepted = this.acceptedCollateral(flow);
+    if (field === 'type' && !accepted.includes(value as CollateralType)) {
+      return {
+        flow,
+        response: `A ${flow.data.loan_type} can't be secured against ${COLLATERAL_TYPE_LABELS[value as CollateralType]}. ${this.collateralQuestion(flow, item, field)}`
+      };
+    }
+
+    const updated: CollateralDetails = { ...item, [field]: value };
+    flow.data = { ...flow.data, collateral: [...collateral.slice(0, -1), updated] };
+    console.log(`🔐 LoanApplicationService: collateral ${field} = ${value}`);
+
+    const next = nextMissingCollateralField(updated);
+    return next
+      ? { flow, response: this.collateralQuestion(flow, updated, next) }
+      : this.afterDetails(flow, `Thanks, I've recorded your ${COLLATERAL_TYPE_LABELS[updated.type!]} worth ₹${parseFloat(updated.value!).toLocaleString('en-IN')}.`, mode);
+  }
+
+  private collateralQuestion(flow: LoanApplicationFlow, item: CollateralDetails, field: CollateralField): string {
+    if (field === 'type') {
+      const accepted = this.acceptedCollateral(flow).map(type => COLLATERAL_TYPE_LABELS[type]);
+      return `What will you pledge as security: ${accepted.length > 1 ? `${accepted.slice(0, -1).join(', ')} or ${accepted[accepted.length - 1]}` : accepted[0]}?`;
+    }
+
+    switch (item.type!) {
+      case 'property':
+        return field === 'description'
+          ? 'What kind of property is it, and where is it?'
+          : 'What is the current market value of the property?';
+      case 'vehicle':
+        return field === 'description'
+          ? 'Which vehicle is it? Please give the make, model and year.'
+          : 'What is the on-road price of the vehicle?';
+      case 'gold':
+        return field === 'description'
+          ? 'What gold are you pledging? Please give the items, total weight and purity, for example "two bangles and a chain, 40 grams, 22 carat".'
+          : 'What is the current market value of the gold?';
+      case 'fixed_deposit':
+        return field === 'description'
+          ? 'Which bank holds the fixed deposit, and when does it mature?'
+          : 'What is the deposit amount?';
+    }
+  }
+
+  private termsForOffer(offer: LoanOffer): Pick<CalculatedLoanTerms, 'interestRate' | 'loanTerm' | 'monthlyPayment' | 'totalAmount'> {
+    return {
+      interestRate: offer.interestRate.toFixed(2) + '%',
+      loanTerm: offer.termYears,
+      monthlyPayment: '₹' + Math.round(offer.emi).toLocaleString('en-IN'),
+      totalAmount: '₹' + Math.round(offer.totalPayment).toLocaleString('en-IN')
+    };
+  }
+
+  // Rebuild the flow and AI memory for a conversation from the stored draft and messages
+  private async restoreFlow(conversationId: string, userId: string, pendingInput: string): Promise<LoanApplicationFlow | undefined> {
+    const [draft, messages] = await Promise.all([
+      getLoanApplicationDraft(userId, conversationId),
+      getConversationMessages(userId, conversationId)
+    ]);
+
+    // The message being processed is usually saved already; chat() adds it again
+    const history = messages.map(message => ({
+      role: message.sender === 'user' ? 'user' as const : 'assistant' as const,
+      content: message.content
+    }));
+    const last = history[history.length - 1];
+    if (last?.role === 'user' && last.content === pendingInput) {
+      history.pop();
+    }
+    this.conversationalAI.restoreConversation(conversationId, history);
+
+    if (!draft) {
+      return undefined;
+    }
+
+    console.log('♻️ LoanApplicationService: Restored draft for conversation:', conversationId, 'stage:', draft.stage);
+    const flow: LoanApplicationFlow = {
+      stage: draft.stage,
+      data: draft.data,
+      isComplete: draft.stage === 'complete',
+      manuallyEditedFields: new Set(draft.manually_edited_fields),
+      calculatedTerms: draft.calculated_terms ?? undefined
+    };
+
+    this.activeFlows.set(conversationId, flow);
+    return flow;
+  }
+
+  // Save the flow as a draft; submitted applications no longer need one
+  private async persistFlow(conversationId: string, flow: LoanApplicationFlow): Promise<void> {
+    const userId = this.flowOwners.get(conversationId);
+    if (!userId) return;
+
+    if (flow.stage === 'complete') {
+      await deleteLoanApplicationDraft(userId, conversationId);
+      return;
+    }
+
+    await saveLoanApplicationDraft(userId, conversationId, {
+      stage: flow.stage,
+      data: flow.data,
+      manually_edited_fields: Array.from(flow.manuallyEditedFields || []),
+      calculated_terms: flow.calculatedTerms ?? null
+    });
+  }
+
   private checkIfApplicationComplete(flow: LoanApplicationFlow): boolean {
     console.log('🔍 Checking if application complete. Current flow data:', flow.data);
-    const isComplete = !!(
-      flow.data.loan_type &&
-      flow.data.applicant_name &&
-      flow.data.monthly_income &&
-      flow.data.loan_amount &&
-      flow.data.employment_status &&
-      flow.data.credit_score
-      // All fields are now required including credit_score
-    );
+    // Zero EMIs, card dues or dependents are answers, so this checks presence
+    const isComplete = !loanProductCatalog.nextQuestion(flow.data);
     console.log('🔍 Application completion check result:', isComplete);
     return isComplete;
   }
@@ -209,6 +902,14 @@ Would you like to accept these terms and proceed with your application? Please s
     try {
       console.log('🔍 Preparing application data with flow.data:', flow.data);
 
+      // Price the offer the user picked, at its tenure, with the policy version
+      // they were quoted at terms review
+      const decision = policyRegistry.evaluate(
+        { ...flow.data, loan_term: flow.calculatedTerms?.loanTerm },
+        this.quotedPolicy(flow)
+      );
+
+      const details = loanProductCatalog.productDetails(flow.data);
       const applicationData: NewLoanApplication = {
         applicant_name: flow.data.applicant_name!,
         loan_amount: flow.data.loan_amount!,
@@ -217,15 +918,41 @@ Would you like to accept these terms and proceed with your application? Please s
         monthly_income: flow.data.monthly_income!,
         employment_status: flow.data.employment_status!,
         loan_purpose: flow.data.loan_purpose || 'General purpose',
-        interest_rate: this.calculateInterestRate(flow.data),
-        loan_term: this.calculateLoanTerm(flow.data.loan_type!, flow.data.loan_amount!),
-        status: 'pending',
-        user_id: userId
+        existing_emis: flow.data.existing_emis ?? null,
+        credit_card_dues: flow.data.credit_card_dues ?? null,
+        dependents: flow.data.dependents ?? null,
+        parties: (flow.data.parties ?? [])
+          .filter(party => !nextMissingPartyField(party))
+          .map(party => ({
+            role: party.role,
+            name: party.name!,
+            relationship: party.relationship ?? null,
+            monthly_income: party.monthly_income!,
+            employment_status: party.employment_status!,
+            credit_score: party.credit_score ?? null
+          })),
+        collateral: (flow.data.collateral ?? [])
+          .filter(item => !nextMissingCollateralField(item))
+          .map(item => ({
+            type: item.type!,
+            description: item.description!,
+            value: item.value!
+          })),
+        product_details: Object.keys(details).length > 0 ? details : null,
+        interest_rate: decision.quoted_rate,
+        loan_term: decision.loan_term,
+        status: 'submitted',
+        user_id: userId,
+        policy_id: decision.policy.id,
+        policy_version: decision.policy.version
       };
 
       const createdApplication = await addLoanApplication(applicationData);
       if (createdApplication) {
         flow.applicationId = createdApplication.id;
+
+        // Link the conversation so the sidebar can show where the application came from
+        await updateConversation(userId, conversationId, { loan_application_id: createdApplication.id });
         toastService.addToast(
           'Loan application submitted successfully!',
           'success',
@@ -279,8 +1006,8 @@ Thanks for choosing LoanWise! 🏦`,
   // Continue an existing application
   async continueApplication(conversationId: string, applicationId: string): Promise<LoanApplicationFlow | null> {
     try {
-      const applications = await getLoanApplications(''); // Get all applications
-      const application = applications.find(app => app.id === applicationId);
+      // The server only returns applications the signed-in user may see
+      const application = await getLoanApplication(applicationId);
 
       if (!application) {
         return null;
@@ -296,6 +1023,23 @@ Thanks for choosing LoanWise! 🏦`,
           monthly_income: application.monthly_income,
           employment_status: application.employment_status,
           loan_purpose: application.loan_purpose || undefined,
+          existing_emis: application.existing_emis ?? undefined,
+          credit_card_dues: application.credit_card_dues ?? undefined,
+          dependents: application.dependents,
+          parties: application.parties.map(party => ({
+            role: party.role,
+            name: party.name,
+            relationship: party.relationship ?? undefined,
+            monthly_income: party.monthly_income,
+            employment_status: party.employment_status,
+            credit_score: party.credit_score ?? undefined
+          })),
+          collateral: application.collateral.map(item => ({
+            type: item.type,
+            description: item.description,
+            value: item.value
+          })),
+          details: application.product_details ?? undefined,
           interest_rate: application.interest_rate || undefined,
           loan_term: application.loan_term || undefined
         },
@@ -314,7 +1058,12 @@ Thanks for choosing LoanWise! 🏦`,
   // Clear active flow for a conversation
   clearFlow(conversationId: string): void {
     console.log('🔄 LoanApplicationService: Clearing flow for conversation:', conversationId);
+    const userId = this.flowOwners.get(conversationId);
+    if (userId) {
+      deleteLoanApplicationDraft(userId, conversationId);
+    }
     this.activeFlows.delete(conversationId);
+    this.flowOwners.delete(conversationId);
     this.conversationalAI.clearConversation(conversationId);
     console.log('✅ LoanApplicationService: Flow cleared successfully');
   }
@@ -324,6 +1073,7 @@ Thanks for choosing LoanWise! 🏦`,
     console.log('🔄 LoanApplicationService: Clearing ALL active flows');
     const count = this.activeFlows.size;
     this.activeFlows.clear();
+    this.flowOwners.clear(); // Drafts are removed server-side along with the conversations
     this.conversationalAI.clearAllConversations();
     console.log('✅ LoanApplicationService: All flows cleared (cleared', count, 'flows)');
   }
@@ -342,227 +1092,99 @@ Thanks for choosing LoanWise! 🏦`,
       }
       flow.manuallyEditedFields.add(fieldName);
       console.log(`🔒 Marked field as manually edited: ${fieldName} for conversation: ${conversationId}`);
+      this.persistFlow(conversationId, flow);
     }
   }
 
-  // Decision making (simplified for now)
-  makeDecision(flow: LoanApplicationFlow): any {
-    const income = parseFloat(flow.data.monthly_income || '0');
-    const loanAmount = parseFloat(flow.data.loan_amount || '0');
-    const creditScore = flow.data.credit_score || 650;
-
-    const approved = income > 25000 && creditScore > 600 && (loanAmount / income) < 50;
+  // Edit made in the UI. It is recorded like any other change, and later
+  // extraction won't overwrite it.
+  editField(conversationId: string, field: ExtractionField, value: FieldValue): LoanApplicationFlow | undefined {
+    const flow = this.activeFlows.get(conversationId);
+    if (!flow) return undefined;
 
-    return {
-      decision: approved ? 'approved' : 'rejected',
-      reason: approved ? 'Good income and credit profile' : 'Income or credit score below requirements',
-      interest_rate: approved ? '10.5%' : 'N/A'
-    };
+    flow.data = reviseFields(flow.data, { [field]: value }, 'manual');
+    this.markFieldAsManuallyEdited(conversationId, field);
+    return flow;
   }
 
-  // Calculate interest rate based on loan data
-  private calculateInterestRate(loanData: any): string {
-    const creditScore = loanData.credit_score;
-    const income = parseFloat(loanData.monthly_income || '0');
-    const loanAmount = parseFloat(loanData.loan_amount || '0');
-    const loanType = loanData.loan_type;
-
-    // Base rates by loan type
-    let baseRate = 8.5; // Default rate
-
-    switch (loanType?.toLowerCase()) {
-      case 'home loan':
-      case 'home':
-        baseRate = 7.5;
-        break;
-      case 'car loan':
-      case 'auto loan':
-        baseRate = 9.5;
-        break;
-      case 'personal loan':
-        baseRate = 12.0;
-        break;
-      case 'business loan':
-        baseRate = 11.0;
-        break;
-      case 'education loan':
-        baseRate = 10.25;
-        break;
-      case 'vehicle loan':
-        baseRate = 9.5;
-        break;
-      default:
-        baseRate = 10.0;
-    }
-
-    // Adjust for credit score if available
-    if (creditScore) {
-      if (creditScore >= 750) baseRate -= 1.5;
-      else if (creditScore >= 700) baseRate -= 1.0;
-      else if (creditScore >= 650) baseRate -= 0.5;
-      else if (creditScore < 600) baseRate += 2.0;
-    }
-
-    // Adjust for income level
-    if (income >= 100000) baseRate -= 0.5;
-    else if (income >= 75000) baseRate -= 0.25;
-    else if (income < 25000) baseRate += 1.0;
-
-    // Adjust for loan amount
-    if (loanAmount >= 5000000) baseRate += 0.5; // High value loans
-
-    // Return as string without % symbol so database can parse it as numeric
-    return Math.max(6.0, Math.min(18.0, baseRate)).toFixed(2);
-  }
-
-  // Calculate loan term based on loan type and amount
-  private calculateLoanTerm(loanType: string, loanAmount: string): number {
-    const amount = parseFloat(loanAmount);
-
-    switch (loanType?.toLowerCase()) {
-      case 'home loan':
-      case 'home':
-        return amount > 5000000 ? 30 : amount > 2000000 ? 25 : 20; // years
-      case 'car loan':
-      case 'auto loan':
-        return amount > 1500000 ? 7 : 5; // years
-      case 'personal loan':
-        return amount > 500000 ? 5 : 3; // years
-      case 'business loan':
-        return amount > 2000000 ? 10 : 7; // years
-      default:
-        return 5; // Default 5 years
+  // Roll back the latest change to one field from the UI
+  undoField(conversationId: string, field: ExtractionField): { flow: LoanApplicationFlow; undone: UndoneRevision[] } | undefined {
+    const flow = this.activeFlows.get(conversationId);
+    if (!flow) return undefined;
+
+    const { data, undone } = undoRevision(flow.data, field);
+    flow.data = data;
+    // Undoing a UI edit hands the field back to extraction
+    const history = data.revisions?.[field] ?? [];
+    if (undone.length > 0 && !history.some(revision => revision.source === 'manual')) {
+      flow.manuallyEditedFields?.delete(field);
     }
+    console.log('↩️ LoanApplicationService: Undid revisions from the UI:', undone);
+    this.persistFlow(conversationId, flow);
+    return { flow, undone };
   }
 
-  // Calculate complete loan terms for user review
-  private calculateLoanTerms(flowData: any): any {
-    const interestRate = this.calculateInterestRate(flowData);
-    const loanTerm = this.calculateLoanTerm(flowData.loan_type!, flowData.loan_amount!);
-    const principal = parseFloat(flowData.loan_amount!);
+  // Decision for an in-progress application under the policy in effect
+  makeDecision(flow: LoanApplicationFlow): UnderwritingDecision {
+    return policyRegistry.evaluate(flow.data, this.quotedPolicy(flow));
+  }
 
-    // Calculate monthly payment using standard loan formula
-    const monthlyRate = parseFloat(interestRate) / 100 / 12;
-    const numPayments = loanTerm * 12;
-    const monthlyPayment = (principal * monthlyRate * Math.pow(1 + monthlyRate, numPayments)) /
-                          (Math.pow(1 + monthlyRate, numPayments) - 1);
+  private quotedPolicy(flow: LoanApplicationFlow) {
+    const terms = flow.calculatedTerms;
+    return terms?.policyId && terms.policyVersion ? { id: terms.policyId, version: terms.policyVersion } : null;
+  }
 
-    const totalAmount = monthlyPayment * numPayments;
+  // Calculate complete loan terms for user review
+  // The recommended offer, with the other variants kept for comparison
+  private calculateLoanTerms(flowData: LoanApplicationData): CalculatedLoanTerms {
+    const policy = policyRegistry.forLoanType(flowData.loan_type);
+    const offers = generateOffers(policy, flowData);
 
     return {
-      interestRate: interestRate + '%',
-      loanTerm,
-      monthlyPayment: '₹' + Math.round(monthlyPayment).toLocaleString('en-IN'),
-      totalAmount: '₹' + Math.round(totalAmount).toLocaleString('en-IN')
+      ...this.termsForOffer(offers[0]),
+      policyId: policy.id,
+      policyVersion: policy.version,
+      offers,
+      selectedOffer: 0
     };
   }
 
-  // Analyze loan decision for existing applications
-  analyzeLoanDecision(application: any): any {
-    const income = parseFloat(application.monthly_income || '0');
-    const loanAmount = parseFloat(application.loan_amount || '0');
-    const creditScore = application.credit_score; // Don't default - show as unknown
-    const hasKnownCreditScore = creditScore !== null && creditScore !== undefined;
-
-    // Can't approve without basic info
-    if (!hasKnownCreditScore) {
-      return {
-        decision: 'incomplete',
-        reason: 'Credit score not provided - cannot make lending decision',
-        interest_rate: 'N/A',
-        confidence: 0,
-        overallScore: 0,
-        approvalReasons: [],
-        rejectionRisks: ['Credit score not provided'],
-        conditions: ['Please provide your credit score to proceed with the application'],
-        factors: [
-          { name: 'Credit Score', value: 'Not provided', impact: 'negative' },
-          { name: 'Monthly Income', value: `₹${income.toLocaleString()}`, impact: income > 50000 ? 'positive' : income > 25000 ? 'neutral' : 'negative' },
-          { name: 'Debt Ratio', value: income > 0 ? `${(loanAmount / income).toFixed(1)}%` : 'N/A', impact: income > 0 && (loanAmount / income) < 40 ? 'positive' : 'negative' }
-        ]
-      };
-    }
-
-    const approved = income > 25000 && creditScore > 600 && (loanAmount / income) < 50;
-    const debtRatio = income > 0 ? (loanAmount / income) : 0;
-
-    // Calculate overall score based on factors
-    let score = 0;
-    if (creditScore > 750) score += 30;
-    else if (creditScore > 650) score += 20;
-    else if (creditScore > 600) score += 10;
-
-    if (income > 75000) score += 25;
-    else if (income > 50000) score += 20;
-    else if (income > 25000) score += 15;
-
-    if (debtRatio < 30) score += 25;
-    else if (debtRatio < 40) score += 15;
-    else if (debtRatio < 50) score += 10;
-
-    // Employment status bonus
-    if (application.employment_status === 'employed') score += 20;
-    else if (application.employment_status === 'self-employed') score += 15;
-
-    const overallScore = Math.min(100, score);
+  private buildSchedule(flowData: LoanApplicationData, annualRate: number, termYears: number): AmortizationSchedule {
+    return generateAmortizationSchedule({
+      principal: parseFloat(flowData.loan_amount!),
+      annualRate,
+      termMonths: termYears * 12
+    });
+  }
 
-    // Generate approval reasons
-    const approvalReasons = [];
-    if (creditScore > 700) approvalReasons.push(`Excellent credit score (${creditScore})`);
-    if (income > 50000) approvalReasons.push(`Strong monthly income (₹${income.toLocaleString()})`);
-    if (debtRatio < 40) approvalReasons.push(`Low debt-to-income ratio (${(debtRatio).toFixed(1)}%)`);
-    if (application.employment_status === 'employed') approvalReasons.push('Stable employment status');
+  // Year-by-year repayment preview for the terms message. Kept to bullet
+  // lines since chat markdown has no table support.
+  private formatRepaymentPreview(flowData: LoanApplicationData, terms: CalculatedLoanTerms): string {
+    const schedule = this.buildSchedule(flowData, parseFloat(terms.interestRate), terms.loanTerm);
+    const years = summarizeByYear(schedule);
+    const format = (value: number) => '₹' + Math.round(value).toLocaleString('en-IN');
 
-    // Generate risk factors (DISAPPROVAL factors)
-    const rejectionRisks = [];
-    if (creditScore < 650) rejectionRisks.push(`Low credit score (${creditScore}) - below minimum threshold`);
-    if (income < 30000) rejectionRisks.push(`Limited monthly income (₹${income.toLocaleString()}) - insufficient for loan repayment`);
-    if (debtRatio > 45) rejectionRisks.push(`High debt-to-income ratio (${(debtRatio).toFixed(1)}%) - may struggle with repayments`);
-    if (!application.employment_status || application.employment_status === 'unemployed') {
-      rejectionRisks.push('Unstable employment status - no regular income source');
-    }
-    if (loanAmount > income * 60) {
-      rejectionRisks.push('Loan amount too high relative to income - high default risk');
+    const lines = years.slice(0, 5).map(year =>
+      `• Year ${year.year}: Principal ${format(year.principal)}, Interest ${format(year.interest)}, Balance ${format(year.closingBalance)}`
+    );
+    if (years.length > 5) {
+      lines.push(`• …${years.length - 5} more year${years.length - 5 === 1 ? '' : 's'} until fully repaid`);
     }
 
-    // Generate conditions (these are for borderline cases that need additional verification)
-    const conditions = [];
-    if (!approved) {
-      // Don't show conditions for clearly rejected applications
-      if (creditScore >= 600 && income >= 25000) {
-        conditions.push('Consider applying for a smaller loan amount');
-      }
-      if (creditScore < 650 && creditScore >= 550) {
-        conditions.push('Improve credit score and reapply after 6 months');
-      }
-    } else {
-      // Conditions for approved applications that need extra verification
-      if (creditScore < 700 && creditScore >= 650) {
-        conditions.push('Provide additional income verification documents');
-      }
-      if (debtRatio > 35 && debtRatio < 45) {
-        conditions.push('Submit detailed monthly expense breakdown');
-      }
-      if (loanAmount > 1000000) {
-        conditions.push('Collateral security required for high-value loans');
-      }
-    }
+    return `📅 **Repayment Schedule:**
+${lines.join('\n')}
+• Total Interest: ${format(schedule.totalInterest)}
 
-    return {
-      decision: approved ? 'approved' : 'rejected',
-      reason: approved ? 'Good income and credit profile' : 'Income or credit score below requirements',
-      interest_rate: approved ? this.calculateInterestRate(application) : 'N/A',
-      confidence: approved ? 85 : 65,
-      overallScore,
-      approvalReasons,
-      rejectionRisks,
-      conditions,
-      factors: [
-        { name: 'Credit Score', value: creditScore, impact: creditScore > 700 ? 'positive' : creditScore > 600 ? 'neutral' : 'negative' },
-        { name: 'Monthly Income', value: `₹${income.toLocaleString()}`, impact: income > 50000 ? 'positive' : income > 25000 ? 'neutral' : 'negative' },
-        { name: 'Debt Ratio', value: `${debtRatio.toFixed(1)}%`, impact: debtRatio < 40 ? 'positive' : debtRatio < 50 ? 'neutral' : 'negative' }
-      ]
-    };
+The full month-by-month schedule, with prepayment and step-up options, is available under Loan Applications once you submit.`;
+  }
+
+  // Analyze loan decision for existing applications, using the policy version
+  // recorded on the application when there is one
+  analyzeLoanDecision(application: LoanApplication): UnderwritingDecision {
+    const reference = application.policy_id && application.policy_version
+      ? { id: application.policy_id, version: application.policy_version }
+      : null;
+    return policyRegistry.evaluate(application, reference);
   }
 }
 
@@ -0,0 +1,18 @@
+// The loan-product catalog the browser works from. Starts as the built-in
+// catalog and is replaced with the server's once loadLoanProducts() returns;
+// the policy registry, the chat and the eligibility page all read it.
+import { productOperations } from '../dbOperations';
+import { DEFAULT_LOAN_PRODUCTS, LoanProductCatalog } from '../../shared/loanProducts';
+import type { LoanProductInput } from '../../shared/types';
+
+export const loanProductCatalog = new LoanProductCatalog(DEFAULT_LOAN_PRODUCTS);
+
+// Keeps the built-in catalog when the server can't be reached
+export const loadLoanProducts = async (): Promise<LoanProductInput[]> => {
+  const products = await productOperations.getProducts();
+  if (products.length > 0) {
+    loanProductCatalog.replace(products);
+    console.log('🏷️ Loaded loan products:', loanProductCatalog.active().map(product => product.name).join(', '));
+  }
+  return loanProductCatalog.list();
+};
@@ -0,0 +1,63 @@
+// CSV and PDF downloads for amortization schedules. jsPDF is loaded on demand
+// so it stays out of the main bundle.
+import { scheduleToCsv, type AmortizationSchedule } from '../../shared/amortization';
+
+export interface ScheduleExportDetails {
+  title: string;
+  principal: number;
+  annualRate: number;
+  termMonths: number;
+}
+
+const triggerDownload = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadScheduleCsv = (schedule: AmortizationSchedule, filename: string) => {
+  console.log('📄 Exporting amortization schedule as CSV:', filename);
+  triggerDownload(new Blob([scheduleToCsv(schedule)], { type: 'text/csv;charset=utf-8' }), filename);
+};
+
+// The built-in PDF fonts have no rupee glyph
+const formatAmount = (value: number) =>
+  'Rs. ' + value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const downloadSchedulePdf = async (schedule: AmortizationSchedule, details: ScheduleExportDetails, filename: string) => {
+  console.log('📄 Exporting amortization schedule as PDF:', filename);
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+
+  const doc = new jsPDF({ orientation: 'landscape' });
+  doc.setFontSize(16);
+  doc.text(details.title, 14, 16);
+  doc.setFontSize(10);
+  doc.text([
+    `Loan amount: ${formatAmount(details.principal)}   Interest rate: ${details.annualRate}% p.a.   Term: ${details.termMonths} months`,
+    `EMI: ${formatAmount(schedule.emi)}   Total interest: ${formatAmount(schedule.totalInterest)}   Total paid: ${formatAmount(schedule.totalPayment)}   Paid off in: ${schedule.payoffMonth} months`
+  ], 14, 24);
+
+  autoTable(doc, {
+    startY: 34,
+    head: [['Month', 'Due Date', 'Opening Balance', 'Payment', 'Interest', 'Principal', 'Prepayment', 'Closing Balance']],
+    body: schedule.rows.map(row => [
+      row.phase === 'moratorium' ? `${row.month} (M)` : String(row.month),
+      row.dueDate ?? '',
+      formatAmount(row.openingBalance),
+      formatAmount(row.payment),
+      formatAmount(row.interest),
+      formatAmount(row.principal),
+      row.prepayment > 0 ? formatAmount(row.prepayment) : '',
+      formatAmount(row.closingBalance)
+    ]),
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [37, 99, 235] }
+  });
+
+  triggerDownload(doc.output('blob'), filename);
+};
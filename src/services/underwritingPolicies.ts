@@ -0,0 +1,18 @@
+// Policy documents bundled into the browser build. The API server loads the
+// same files from disk (server/underwriting.ts), so both sides evaluate the
+// same policy versions. Loan types resolve through the product catalog.
+import { loanProductCatalog } from './loanProducts';
+import { PolicyRegistry, parsePolicyDocument } from '../../shared/underwriting/registry';
+
+const sources = import.meta.glob('../../shared/underwriting/policies/*.{yaml,yml,json}', {
+  query: '?raw',
+  import: 'default',
+  eager: true
+}) as Record<string, string>;
+
+export const policyRegistry = new PolicyRegistry(
+  Object.entries(sources).map(([path, text]) => parsePolicyDocument(text, path)),
+  loanProductCatalog
+);
+
+console.log('📜 Loaded underwriting policies:', policyRegistry.list().map(p => `${p.id}@${p.version}`).join(', '));
@@ -0,0 +1,14 @@
+// Roles are set in Clerk public metadata ({ "role": "officer" }). The API
+// server enforces the same permissions; this only decides what the UI shows.
+import { hasPermission, roleFromMetadata, type Permission } from '../../shared/roles';
+import type { UserRole } from '../../shared/types';
+
+interface ClerkUserLike {
+  publicMetadata?: Record<string, unknown>;
+}
+
+export const getUserRole = (user: ClerkUserLike | null | undefined): UserRole =>
+  roleFromMetadata(user?.publicMetadata);
+
+export const can = (user: ClerkUserLike | null | undefined, permission: Permission): boolean =>
+  hasPermission(getUserRole(user), permission);
@@ -1,7 +1,8 @@
 // Voice service for LoanWise application
-// Handles VAD, STT, TTS, and Groq AI integration
+// Handles VAD, STT, TTS, and AI responses via the LoanWise API
 
 import { MicVAD } from '@ricky0123/vad';
+import { requestChatCompletion } from './apiClient';
 
 // Type declarations for Web Speech API
 declare global {
@@ -57,8 +58,6 @@ export interface VoiceMessage {
 }
 
 export interface VoiceServiceConfig {
-  groqApiKey: string;
-  model?: string;
   voice?: SpeechSynthesisVoice;
   language?: string;
 }
@@ -75,7 +74,6 @@ export class VoiceService {
 
   constructor(config: VoiceServiceConfig) {
     this.config = {
-      model: 'llama3-8b-8192',
       language: 'en-US',
       ...config
     };
@@ -199,7 +197,7 @@ export class VoiceService {
 
     this.onMessage?.(userMessage);
 
-    // Get AI response from Groq
+    // Get AI response from the LLM proxy
     const aiResponse = await this.getAIResponse(text);
 
     if (aiResponse) {
@@ -216,44 +214,29 @@ export class VoiceService {
 
   private async getAIResponse(userText: string): Promise<string | null> {
     try {
-      const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.config.groqApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: this.config.model,
-          messages: [
-            {
-              role: 'system',
-              content: `You are LoanWise AI, a helpful financial assistant specializing in loans and lending. You help users with:
-              - Loan application guidance
-              - Financial advice and planning
-              - Credit score information
-              - Loan terms and conditions
-              - Financial literacy education
-
-              Be professional, accurate, and helpful. Always prioritize user financial well-being and regulatory compliance. Keep responses conversational and natural for voice interaction.`
-            },
-            {
-              role: 'user',
-              content: userText
-            }
-          ],
-          max_tokens: 500,
-          temperature: 0.7,
-        }),
+      return await requestChatCompletion({
+        messages: [
+          {
+            role: 'system',
+            content: `You are LoanWise AI, a helpful financial assistant specializing in loans and lending. You help users with:
+            - Loan application guidance
+            - Financial advice and planning
+            - Credit score information
+            - Loan terms and conditions
+            - Financial literacy education
+
+            Be professional, accurate, and helpful. Always prioritize user financial well-being and regulatory compliance. Keep responses conversational and natural for voice interaction.`
+          },
+          {
+            role: 'user',
+            content: userText
+          }
+        ],
+        max_tokens: 500,
+        temperature: 0.7,
       });
-
-      if (!response.ok) {
-        throw new Error(`Groq API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      return data.choices[0]?.message?.content || null;
     } catch (error) {
-      console.error('Groq API error:', error);
+      console.error('LLM request error:', error);
       return "I'm sorry, I'm having trouble connecting right now. Please try again in a moment.";
     }
   }
@@ -350,6 +333,4 @@ export class VoiceService {
 }
 
 // Export singleton instance
-export const voiceService = new VoiceService({
-  groqApiKey: import.meta.env.VITE_GROQ_API_KEY || '',
-});
+export const voiceService = new VoiceService({});
@@ -1,4 +1,5 @@
-import '@testing-library/jest-dom';
+import { jest } from '@jest/globals';
+import '@testing-library/jest-dom/jest-globals';
 
 // Mock window.speechSynthesis
 Object.defineProperty(window, 'speechSynthesis', {
@@ -35,3 +36,6 @@ Object.defineProperty(window, 'webkitSpeechRecognition', {
     removeEventListener: jest.fn(),
   })),
 });
+
+// jsdom doesn't lay anything out, so it has nothing to scroll
+Element.prototype.scrollIntoView = jest.fn();
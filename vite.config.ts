@@ -10,6 +10,12 @@ export default defineConfig({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  server: {
+    proxy: {
+      // API server (npm run server:dev)
+      '/api': 'http://localhost:3001',
+    },
+  },
   build: {
     rollupOptions: {
       output: {